@@ -32,7 +32,7 @@ describe('Market Data Integration Tests', () => {
     });
 
     // Initialize market data handler
-    marketDataHandler = new MarketDataHandler(io);
+    marketDataHandler = new MarketDataHandler(io.of('/'));
 
     // Start server on random port
     await new Promise<void>((resolve) => {
@@ -8,6 +8,12 @@ import { tradingRoutes } from './routes/trading.routes';
 import { competitionRoutes } from './routes/competition.routes';
 import { portfolioRoutes } from './routes/portfolio.routes';
 import { riskAnalyticsRoutes } from './routes/riskAnalytics.routes';
+import { socialTradingRoutes } from './routes/socialTrading.routes';
+import { gamificationRoutes } from './routes/gamification.routes';
+import { achievementRoutes } from './routes/achievement.routes';
+import { alertRoutes } from './routes/alert.routes';
+import { notificationRoutes } from './routes/notification.routes';
+import { webhookRoutes } from './routes/webhook.routes';
 
 const app = express();
 
@@ -80,6 +86,12 @@ app.use('/api/trading', tradingRoutes);
 app.use('/api/competitions', competitionRoutes);
 app.use('/api/portfolio', portfolioRoutes);
 app.use('/api/risk-analytics', riskAnalyticsRoutes);
+app.use('/api/social-trading', socialTradingRoutes);
+app.use('/api/gamification', gamificationRoutes);
+app.use('/api/achievements', achievementRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -1,12 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { TokenService } from '../services/token.service';
 import { UserRepository } from '../repositories/user.repository';
+import type { UserRole } from '@golden-palace/shared';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
     username: string;
+    role?: UserRole;
   };
 }
 
@@ -50,7 +52,8 @@ export class AuthMiddleware {
       req.user = {
         id: user.id,
         email: user.email,
-        username: user.username
+        username: user.username,
+        role: user.role
       };
 
       next();
@@ -62,6 +65,28 @@ export class AuthMiddleware {
     }
   };
 
+  /**
+   * Lets through only authenticated users holding one of the roles. Must run after
+   * `authenticate`.
+   */
+  requireRole = (...roles: UserRole[]) => (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (!req.user.role || !roles.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    }
+
+    next();
+  };
+
   optionalAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const authHeader = req.headers.authorization;
@@ -79,7 +104,8 @@ export class AuthMiddleware {
           req.user = {
             id: user.id,
             email: user.email,
-            username: user.username
+            username: user.username,
+            role: user.role
           };
         }
       }
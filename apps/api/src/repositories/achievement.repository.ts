@@ -0,0 +1,140 @@
+import { PrismaClient } from '@golden-palace/database';
+import type { AchievementMetrics } from '@golden-palace/shared';
+
+export interface UnlockRecord {
+  achievementId: string;
+  progress: number;
+  unlockedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AchievementRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===================
+  // UNLOCKS
+  // ===================
+
+  async findUnlocked(userId: string): Promise<UnlockRecord[]> {
+    const unlocks = await this.prisma.userAchievement.findMany({
+      where: { userId },
+      orderBy: { unlockedAt: 'asc' },
+    });
+
+    return unlocks.map(unlock => this.mapToUnlockRecord(unlock));
+  }
+
+  /**
+   * Stores new unlocks and returns only the ones that were not recorded before,
+   * so concurrent evaluations never report the same achievement twice.
+   */
+  async createUnlocked(
+    userId: string,
+    unlocks: Array<{ achievementId: string; progress: number }>
+  ): Promise<UnlockRecord[]> {
+    const created: UnlockRecord[] = [];
+
+    for (const unlock of unlocks) {
+      try {
+        const record = await this.prisma.userAchievement.create({
+          data: { userId, achievementId: unlock.achievementId, progress: unlock.progress },
+        });
+        created.push(this.mapToUnlockRecord(record));
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'P2002') {
+          throw error;
+        }
+      }
+    }
+
+    return created;
+  }
+
+  // ===================
+  // METRICS
+  // ===================
+
+  /**
+   * Derives every requirement metric from stored data. Trade metrics use the larger of the
+   * aggregated UserStats row and the user's own closed paper positions (mirrored copies excluded).
+   */
+  async getMetrics(userId: string): Promise<AchievementMetrics> {
+    const [stats, positions, tradeIdeas, entries, followers, tradesCopied] = await Promise.all([
+      this.prisma.userStats.findUnique({ where: { userId } }),
+      this.prisma.paperPosition.findMany({
+        where: { userId, status: 'CLOSED', copiedFromPositionId: null },
+        select: { symbol: true, pnl: true, closedAt: true },
+        orderBy: { closedAt: 'asc' },
+      }),
+      this.prisma.tradeIdea.count({ where: { userId } }),
+      this.prisma.competitionEntry.findMany({
+        where: { userId },
+        select: { rank: true, competition: { select: { status: true } } },
+      }),
+      this.prisma.traderFollow.count({ where: { traderId: userId } }),
+      this.prisma.paperPosition.count({ where: { copiedFrom: { userId } } }),
+    ]);
+
+    const pnls = positions.map(position => Number(position.pnl ?? 0));
+    // Placements only count once a competition has finished
+    const finalRanks = entries
+      .filter(entry => entry.competition.status === 'COMPLETED' && entry.rank !== null)
+      .map(entry => entry.rank!);
+
+    return {
+      TOTAL_TRADES: Math.max(stats?.totalTrades ?? 0, positions.length),
+      WINNING_TRADES: Math.max(stats?.winningTrades ?? 0, pnls.filter(pnl => pnl > 0).length),
+      PROFIT_AMOUNT: Math.max(Number(stats?.totalPnl ?? 0), this.round(pnls.reduce((sum, pnl) => sum + pnl, 0))),
+      SINGLE_TRADE_PROFIT: Math.max(Number(stats?.bestTrade ?? 0), ...pnls, 0),
+      WIN_STREAK: Math.max(stats?.bestStreak ?? 0, this.longestWinStreak(pnls)),
+      DAILY_STREAK: this.longestDailyStreak(positions.map(position => position.closedAt!)),
+      DIVERSITY_SCORE: new Set(positions.map(position => position.symbol)).size,
+      TRADE_IDEAS: tradeIdeas,
+      COMPETITIONS_JOINED: entries.length,
+      COMPETITIONS_TOP10: finalRanks.filter(rank => rank <= 10).length,
+      COMPETITIONS_PODIUM: finalRanks.filter(rank => rank <= 3).length,
+      COMPETITIONS_WON: finalRanks.filter(rank => rank === 1).length,
+      FOLLOWERS: followers,
+      TRADES_COPIED: tradesCopied,
+    };
+  }
+
+  private longestWinStreak(pnls: number[]): number {
+    let longest = 0;
+    let current = 0;
+
+    for (const pnl of pnls) {
+      current = pnl > 0 ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    }
+
+    return longest;
+  }
+
+  // Longest run of consecutive UTC days with at least one closed trade
+  private longestDailyStreak(closedAt: Date[]): number {
+    const days = [...new Set(closedAt.map(date => Math.floor(date.getTime() / DAY_MS)))].sort((a, b) => a - b);
+    let longest = 0;
+    let current = 0;
+
+    days.forEach((day, index) => {
+      current = index > 0 && day - days[index - 1]! === 1 ? current + 1 : 1;
+      longest = Math.max(longest, current);
+    });
+
+    return longest;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private mapToUnlockRecord(unlock: any): UnlockRecord {
+    return {
+      achievementId: unlock.achievementId,
+      progress: Number(unlock.progress),
+      unlockedAt: unlock.unlockedAt,
+    };
+  }
+}
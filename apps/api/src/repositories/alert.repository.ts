@@ -6,15 +6,17 @@ export interface CreateAlertData {
   userId: string;
   symbol: string;
   condition: AlertCondition;
-  targetPrice: number;
-  message?: string;
+  targetPrice?: number | undefined;
+  threshold?: number | undefined;
+  message?: string | undefined;
 }
 
 export interface UpdateAlertData {
   condition?: AlertCondition;
-  targetPrice?: number;
-  message?: string;
-  status?: AlertStatus;
+  targetPrice?: number | undefined;
+  threshold?: number | undefined;
+  message?: string | null | undefined;
+  status?: AlertStatus | undefined;
 }
 
 export class AlertRepository {
@@ -26,7 +28,8 @@ export class AlertRepository {
         userId: data.userId,
         symbol: data.symbol.toUpperCase(),
         condition: data.condition,
-        targetPrice: data.targetPrice,
+        targetPrice: data.targetPrice ?? null,
+        threshold: data.threshold ?? null,
         message: data.message || null,
         status: 'ACTIVE',
       },
@@ -61,10 +64,11 @@ export class AlertRepository {
     return alert ? this.mapToAlertWithDetails(alert) : null;
   }
 
-  async findByUserId(userId: string, status?: AlertStatus): Promise<AlertWithDetails[]> {
+  async findByUserId(userId: string, status?: AlertStatus, symbol?: string): Promise<AlertWithDetails[]> {
     const where: any = {
       userId,
       ...(status && { status }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
     };
 
     const alerts = await this.prisma.alert.findMany({
@@ -111,6 +115,19 @@ export class AlertRepository {
     return alerts.map(this.mapToAlertWithDetails);
   }
 
+  /**
+   * Distinct symbols watched by at least one active alert.
+   */
+  async findActiveSymbols(): Promise<string[]> {
+    const alerts = await this.prisma.alert.findMany({
+      where: { status: 'ACTIVE' },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return alerts.map(alert => alert.symbol);
+  }
+
   async findActiveAlerts(symbols?: string[]): Promise<AlertWithDetails[]> {
     const where: any = {
       status: 'ACTIVE',
@@ -146,6 +163,7 @@ export class AlertRepository {
       data: {
         ...(data.condition !== undefined && { condition: data.condition }),
         ...(data.targetPrice !== undefined && { targetPrice: data.targetPrice }),
+        ...(data.threshold !== undefined && { threshold: data.threshold }),
         ...(data.message !== undefined && { message: data.message }),
         ...(data.status !== undefined && { status: data.status }),
       },
@@ -263,7 +281,8 @@ export class AlertRepository {
       userId: alert.userId,
       symbol: alert.symbol,
       condition: alert.condition,
-      targetPrice: Number(alert.targetPrice),
+      targetPrice: alert.targetPrice !== null ? Number(alert.targetPrice) : null,
+      threshold: alert.threshold !== null ? Number(alert.threshold) : null,
       message: alert.message,
       status: alert.status,
       triggeredAt: alert.triggeredAt,
@@ -2,25 +2,28 @@ import type { PortfolioAsset, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 
 export class AssetRepository {
+  // Bound to a transaction client when used inside PortfolioTransactionRepository.withPortfolioLock
+  constructor(private db: Prisma.TransactionClient = prisma) {}
+
   async create(data: Prisma.PortfolioAssetCreateInput): Promise<PortfolioAsset> {
-    return prisma.portfolioAsset.create({ data });
+    return this.db.portfolioAsset.create({ data });
   }
 
   async findById(id: string): Promise<PortfolioAsset | null> {
-    return prisma.portfolioAsset.findUnique({
+    return this.db.portfolioAsset.findUnique({
       where: { id }
     });
   }
 
   async findByPortfolioId(portfolioId: string): Promise<PortfolioAsset[]> {
-    return prisma.portfolioAsset.findMany({
+    return this.db.portfolioAsset.findMany({
       where: { portfolioId },
       orderBy: { allocation: 'desc' }
     });
   }
 
   async findBySymbol(portfolioId: string, symbol: string): Promise<PortfolioAsset | null> {
-    return prisma.portfolioAsset.findFirst({
+    return this.db.portfolioAsset.findFirst({
       where: {
         portfolioId,
         symbol
@@ -29,7 +32,7 @@ export class AssetRepository {
   }
 
   async update(id: string, data: Prisma.PortfolioAssetUpdateInput): Promise<PortfolioAsset> {
-    return prisma.portfolioAsset.update({
+    return this.db.portfolioAsset.update({
       where: { id },
       data
     });
@@ -37,7 +40,7 @@ export class AssetRepository {
 
   async delete(id: string): Promise<boolean> {
     try {
-      await prisma.portfolioAsset.delete({
+      await this.db.portfolioAsset.delete({
         where: { id }
       });
       return true;
@@ -48,7 +51,7 @@ export class AssetRepository {
 
   async deleteByPortfolioId(portfolioId: string): Promise<boolean> {
     try {
-      await prisma.portfolioAsset.deleteMany({
+      await this.db.portfolioAsset.deleteMany({
         where: { portfolioId }
       });
       return true;
@@ -57,6 +60,7 @@ export class AssetRepository {
     }
   }
 
+  // Batches on the shared client, so it always runs in its own transaction
   async updatePrices(assets: PortfolioAsset[]): Promise<boolean> {
     try {
       const updates = assets.map(asset =>
@@ -127,7 +131,7 @@ export class AssetRepository {
   }
 
   async getTopPerformers(portfolioId: string, limit: number = 5): Promise<PortfolioAsset[]> {
-    return prisma.portfolioAsset.findMany({
+    return this.db.portfolioAsset.findMany({
       where: { portfolioId },
       orderBy: { unrealizedGainPct: 'desc' },
       take: limit
@@ -135,7 +139,7 @@ export class AssetRepository {
   }
 
   async getWorstPerformers(portfolioId: string, limit: number = 5): Promise<PortfolioAsset[]> {
-    return prisma.portfolioAsset.findMany({
+    return this.db.portfolioAsset.findMany({
       where: { portfolioId },
       orderBy: { unrealizedGainPct: 'asc' },
       take: limit
@@ -146,7 +150,7 @@ export class AssetRepository {
     id: string,
     realizedPnl: number
   ): Promise<PortfolioAsset> {
-    return prisma.portfolioAsset.update({
+    return this.db.portfolioAsset.update({
       where: { id },
       data: {
         // Note: PortfolioAsset doesn't have realizedPnl field, skipping
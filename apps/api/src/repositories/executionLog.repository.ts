@@ -0,0 +1,180 @@
+import { PrismaClient } from '@golden-palace/database';
+import type {
+  ExecutionLogEntry,
+  ExecutionStatus,
+  ExecutionType,
+  GetExecutionLogQuery,
+  PaginatedResult
+} from '@golden-palace/shared';
+
+export interface CreateExecutionLogData {
+  userId: string;
+  type: ExecutionType;
+  status?: ExecutionStatus;
+  symbol: string;
+  referenceId: string;
+  triggerPrice?: number | null;
+  marketPrice: number;
+  executionPrice?: number | null;
+  latencyMs: number;
+  pnl?: number | null;
+  reason: string;
+  error?: string | null;
+}
+
+export interface ExecutionLogStats {
+  total: number;
+  succeeded: number;
+  byType: Record<ExecutionType, number>;
+  totalPnl: number;
+  avgLatencyMs: number;
+  avgSlippage: number;
+  lastExecutedAt: Date | null;
+}
+
+export class ExecutionLogRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Slippage is stored as the distance from the trigger level to the quote that crossed it.
+   */
+  async create(data: CreateExecutionLogData): Promise<ExecutionLogEntry> {
+    const triggerPrice = data.triggerPrice ?? null;
+
+    const entry = await this.prisma.executionLog.create({
+      data: {
+        userId: data.userId,
+        type: data.type,
+        status: data.status ?? 'SUCCESS',
+        symbol: data.symbol.toUpperCase(),
+        referenceId: data.referenceId,
+        triggerPrice,
+        marketPrice: data.marketPrice,
+        executionPrice: data.executionPrice ?? null,
+        slippage: triggerPrice !== null ? data.marketPrice - triggerPrice : null,
+        latencyMs: Math.max(0, Math.round(data.latencyMs)),
+        pnl: data.pnl ?? null,
+        reason: data.reason,
+        error: data.error ?? null,
+      },
+    });
+
+    return this.mapToExecutionLogEntry(entry);
+  }
+
+  async findByUserId(userId: string, query: GetExecutionLogQuery): Promise<PaginatedResult<ExecutionLogEntry>> {
+    const { page, limit, type, status, symbol, days } = query;
+    const skip = (page - 1) * limit;
+    const where = {
+      userId,
+      ...(type && { type }),
+      ...(status && { status }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+      ...(days && { createdAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) } }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.executionLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.executionLog.count({ where }),
+    ]);
+
+    return {
+      data: entries.map(entry => this.mapToExecutionLogEntry(entry)),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: skip + limit < total,
+      },
+    };
+  }
+
+  /**
+   * Aggregated in the database so the summary does not load every log entry.
+   */
+  async getStats(userId: string, since?: Date): Promise<ExecutionLogStats> {
+    const where = {
+      userId,
+      ...(since && { createdAt: { gte: since } }),
+    };
+    const succeededWhere = { ...where, status: 'SUCCESS' as const };
+
+    const [typeCounts, overall, succeeded, slippageUp, slippageDown] = await Promise.all([
+      this.prisma.executionLog.groupBy({
+        by: ['type'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.executionLog.aggregate({
+        where,
+        _count: { _all: true },
+        _avg: { latencyMs: true },
+        _max: { createdAt: true },
+      }),
+      this.prisma.executionLog.aggregate({
+        where: succeededWhere,
+        _count: { _all: true },
+        _sum: { pnl: true },
+      }),
+      // Slippage is averaged by size, so positive and negative values are summed apart
+      this.prisma.executionLog.aggregate({
+        where: { ...succeededWhere, slippage: { gte: 0 } },
+        _count: { _all: true },
+        _sum: { slippage: true },
+      }),
+      this.prisma.executionLog.aggregate({
+        where: { ...succeededWhere, slippage: { lt: 0 } },
+        _count: { _all: true },
+        _sum: { slippage: true },
+      }),
+    ]);
+
+    const byType: Record<ExecutionType, number> = {
+      STOP_LOSS: 0,
+      TAKE_PROFIT: 0,
+      IDEA_AUTO_CLOSE: 0,
+      ALERT_TRIGGER: 0,
+    };
+    for (const group of typeCounts) {
+      byType[group.type] = group._count._all;
+    }
+
+    const slippageCount = slippageUp._count._all + slippageDown._count._all;
+    const totalSlippage = Number(slippageUp._sum.slippage ?? 0) - Number(slippageDown._sum.slippage ?? 0);
+
+    return {
+      total: overall._count._all,
+      succeeded: succeeded._count._all,
+      byType,
+      totalPnl: Number(succeeded._sum.pnl ?? 0),
+      avgLatencyMs: overall._avg.latencyMs ?? 0,
+      avgSlippage: slippageCount > 0 ? totalSlippage / slippageCount : 0,
+      lastExecutedAt: overall._max.createdAt ?? null,
+    };
+  }
+
+  private mapToExecutionLogEntry(entry: any): ExecutionLogEntry {
+    return {
+      id: entry.id,
+      userId: entry.userId,
+      type: entry.type,
+      status: entry.status,
+      symbol: entry.symbol,
+      referenceId: entry.referenceId,
+      triggerPrice: entry.triggerPrice !== null ? Number(entry.triggerPrice) : null,
+      marketPrice: Number(entry.marketPrice),
+      executionPrice: entry.executionPrice !== null ? Number(entry.executionPrice) : null,
+      slippage: entry.slippage !== null ? Number(entry.slippage) : null,
+      latencyMs: entry.latencyMs,
+      pnl: entry.pnl !== null ? Number(entry.pnl) : null,
+      reason: entry.reason,
+      error: entry.error,
+      createdAt: entry.createdAt,
+    };
+  }
+}
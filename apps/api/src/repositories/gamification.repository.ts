@@ -0,0 +1,256 @@
+import { PrismaClient } from '@golden-palace/database';
+import type { Prisma } from '@golden-palace/database';
+import type {
+  XPActionType,
+  XpBoosterInfo,
+  XpEventWithDetails,
+  GamificationLeaderboardEntry
+} from '@golden-palace/shared';
+
+export interface ProgressRecord {
+  userId: string;
+  totalXp: number;
+  level: number;
+  prestigeLevel: number;
+  loginStreak: number;
+  lastLoginDate: Date | null;
+}
+
+export interface CreateXpEventData {
+  userId: string;
+  action: XPActionType;
+  xp: number;
+  bonusXp: number;
+  multiplier: number;
+  sourceId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PeriodPositionRecord {
+  symbol: string;
+  quantity: number;
+  entryPrice: number;
+  pnl: number;
+  closedAt: Date;
+}
+
+export class GamificationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===================
+  // PROGRESS
+  // ===================
+
+  async findProgress(userId: string): Promise<ProgressRecord | null> {
+    const progress = await this.prisma.userProgress.findUnique({ where: { userId } });
+    return progress ? this.mapToProgressRecord(progress) : null;
+  }
+
+  async updateProgress(
+    userId: string,
+    data: Partial<Omit<ProgressRecord, 'userId'>>
+  ): Promise<ProgressRecord> {
+    const progress = await this.prisma.userProgress.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return this.mapToProgressRecord(progress);
+  }
+
+  /**
+   * Records an XP event and adds its XP to the user's total in one transaction.
+   * Returns null when the same action was already rewarded for this source.
+   */
+  async recordXpEvent(
+    data: CreateXpEventData
+  ): Promise<{ event: XpEventWithDetails; progress: ProgressRecord } | null> {
+    if (data.sourceId && (await this.hasXpEvent(data.userId, data.action, data.sourceId))) {
+      return null;
+    }
+
+    try {
+      const [event, progress] = await this.prisma.$transaction([
+        this.prisma.xpEvent.create({
+          data: {
+            userId: data.userId,
+            action: data.action,
+            xp: data.xp,
+            bonusXp: data.bonusXp,
+            multiplier: data.multiplier,
+            sourceId: data.sourceId ?? null,
+            ...(data.metadata && { metadata: data.metadata as Prisma.InputJsonValue }),
+          },
+        }),
+        this.prisma.userProgress.upsert({
+          where: { userId: data.userId },
+          create: { userId: data.userId, totalXp: data.xp },
+          update: { totalXp: { increment: data.xp } },
+        }),
+      ]);
+
+      return { event: this.mapToXpEvent(event), progress: this.mapToProgressRecord(progress) };
+    } catch (error) {
+      // A concurrent request rewarded the same source first
+      if ((error as { code?: string }).code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async hasXpEvent(userId: string, action: XPActionType, sourceId: string): Promise<boolean> {
+    const count = await this.prisma.xpEvent.count({ where: { userId, action, sourceId } });
+    return count > 0;
+  }
+
+  async countXpEventsSince(userId: string, action: XPActionType, since: Date): Promise<number> {
+    return this.prisma.xpEvent.count({
+      where: { userId, action, createdAt: { gte: since } },
+    });
+  }
+
+  async findXpEvents(userId: string, limit: number, offset: number): Promise<XpEventWithDetails[]> {
+    const events = await this.prisma.xpEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit,
+    });
+
+    return events.map(event => this.mapToXpEvent(event));
+  }
+
+  async sumXpByAction(userId: string): Promise<Record<string, number>> {
+    const groups = await this.prisma.xpEvent.groupBy({
+      by: ['action'],
+      where: { userId },
+      _sum: { xp: true },
+    });
+
+    return Object.fromEntries(groups.map(group => [group.action, group._sum.xp ?? 0]));
+  }
+
+  // ===================
+  // BOOSTERS
+  // ===================
+
+  async findActiveBoosters(userId: string, now: Date = new Date()): Promise<XpBoosterInfo[]> {
+    const boosters = await this.prisma.xpBooster.findMany({
+      where: { userId, expiresAt: { gt: now } },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    return boosters.map(booster => ({
+      id: booster.id,
+      multiplier: Number(booster.multiplier),
+      source: booster.source,
+      expiresAt: booster.expiresAt,
+    }));
+  }
+
+  async createBooster(userId: string, multiplier: number, source: string, expiresAt: Date): Promise<void> {
+    await this.prisma.xpBooster.create({
+      data: { userId, multiplier, source, expiresAt },
+    });
+  }
+
+  // ===================
+  // LEADERBOARD
+  // ===================
+
+  async findLeaderboard(limit: number): Promise<GamificationLeaderboardEntry[]> {
+    const progress = await this.prisma.userProgress.findMany({
+      orderBy: [{ prestigeLevel: 'desc' }, { totalXp: 'desc' }],
+      take: limit,
+      include: {
+        user: { select: { username: true, avatarUrl: true } },
+      },
+    });
+
+    return progress.map((entry, index) => ({
+      rank: index + 1,
+      userId: entry.userId,
+      username: entry.user.username,
+      avatar: entry.user.avatarUrl,
+      level: entry.level,
+      prestigeLevel: entry.prestigeLevel,
+      totalXP: entry.totalXp,
+    }));
+  }
+
+  async getRank(userId: string): Promise<number | null> {
+    const progress = await this.prisma.userProgress.findUnique({ where: { userId } });
+    if (!progress) {
+      return null;
+    }
+
+    const ahead = await this.prisma.userProgress.count({
+      where: {
+        OR: [
+          { prestigeLevel: { gt: progress.prestigeLevel } },
+          { prestigeLevel: progress.prestigeLevel, totalXp: { gt: progress.totalXp } },
+        ],
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  // ===================
+  // CHALLENGE AND QUEST SOURCES
+  // ===================
+
+  async findClosedPositionsSince(userId: string, since: Date): Promise<PeriodPositionRecord[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: { userId, status: 'CLOSED', closedAt: { gte: since }, copiedFromPositionId: null },
+      select: { symbol: true, quantity: true, entryPrice: true, pnl: true, closedAt: true },
+      orderBy: { closedAt: 'asc' },
+    });
+
+    return positions.map(position => ({
+      symbol: position.symbol,
+      quantity: Number(position.quantity),
+      entryPrice: Number(position.entryPrice),
+      pnl: Number(position.pnl ?? 0),
+      closedAt: position.closedAt!,
+    }));
+  }
+
+  async findCompetitionRanks(competitionId: string): Promise<Array<{ userId: string; rank: number | null }>> {
+    return this.prisma.competitionEntry.findMany({
+      where: { competitionId },
+      select: { userId: true, rank: true },
+    });
+  }
+
+  async countCompetitionsSince(userId: string, since: Date): Promise<number> {
+    return this.prisma.competitionEntry.count({
+      where: { userId, competition: { startDate: { gte: since } } },
+    });
+  }
+
+  private mapToProgressRecord(progress: any): ProgressRecord {
+    return {
+      userId: progress.userId,
+      totalXp: progress.totalXp,
+      level: progress.level,
+      prestigeLevel: progress.prestigeLevel,
+      loginStreak: progress.loginStreak,
+      lastLoginDate: progress.lastLoginDate,
+    };
+  }
+
+  private mapToXpEvent(event: any): XpEventWithDetails {
+    return {
+      id: event.id,
+      action: event.action as XPActionType,
+      xpAwarded: event.xp,
+      bonusXP: event.bonusXp,
+      totalMultiplier: Number(event.multiplier),
+      sourceId: event.sourceId,
+      timestamp: event.createdAt,
+    };
+  }
+}
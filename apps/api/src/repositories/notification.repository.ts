@@ -0,0 +1,120 @@
+import { PrismaClient } from '@golden-palace/database';
+import type { Prisma } from '@golden-palace/database';
+import type { NotificationType, UserNotification } from '@golden-palace/shared';
+
+export interface CreateNotificationData {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown> | undefined;
+}
+
+export interface FindNotificationsOptions {
+  unreadOnly?: boolean | undefined;
+  page: number;
+  limit: number;
+}
+
+export class NotificationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: CreateNotificationData): Promise<UserNotification> {
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId: data.userId,
+        type: data.type,
+        title: data.title,
+        body: data.body,
+        ...(data.data && { data: data.data as Prisma.InputJsonValue }),
+      },
+    });
+
+    return this.mapToNotification(notification);
+  }
+
+  async findByUserId(
+    userId: string,
+    options: FindNotificationsOptions
+  ): Promise<{ notifications: UserNotification[]; total: number }> {
+    const where = {
+      userId,
+      ...(options.unreadOnly && { readAt: null }),
+    };
+
+    const [notifications, total] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return { notifications: notifications.map(this.mapToNotification), total };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  /**
+   * Marks the user's unread notifications with the given ids, or all of them when no ids are
+   * passed. Returns how many were marked.
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  async getUserSettings(userId: string): Promise<Record<string, unknown> | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { settings: true },
+    });
+
+    return (user?.settings as Record<string, unknown> | null | undefined) ?? null;
+  }
+
+  async updateUserSettings(userId: string, settings: Record<string, unknown>): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { settings: settings as Prisma.InputJsonValue },
+    });
+  }
+
+  async cleanupOldNotifications(days: number = 90): Promise<number> {
+    const result = await this.prisma.notification.deleteMany({
+      where: {
+        readAt: { not: null },
+        createdAt: { lt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      },
+    });
+
+    return result.count;
+  }
+
+  private mapToNotification(notification: any): UserNotification {
+    return {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? null,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+    };
+  }
+}
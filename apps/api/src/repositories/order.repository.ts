@@ -0,0 +1,257 @@
+import { PrismaClient } from '@golden-palace/database';
+import { PaperPositionRepository } from './paperPosition.repository';
+import type { AssetType } from '@golden-palace/database';
+import type {
+  OrderWithDetails,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  TimeInForce,
+  GetOrdersQuery,
+  PaginatedResult
+} from '@golden-palace/shared';
+
+export interface CreateOrderData {
+  userId: string;
+  groupId: string;
+  symbol: string;
+  assetType: AssetType;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  timeInForce: TimeInForce;
+  expiresAt: Date | null;
+}
+
+export interface FillRepositories {
+  orders: OrderRepository;
+  positions: PaperPositionRepository;
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'PARTIALLY_FILLED'];
+
+export class OrderRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Runs fn with order and position repositories bound to one transaction, so a fill's
+   * position change and order update commit or roll back together.
+   */
+  async transaction<T>(fn: (repositories: FillRepositories) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(tx =>
+      fn({
+        orders: new OrderRepository(tx as PrismaClient),
+        positions: new PaperPositionRepository(tx as PrismaClient),
+      })
+    );
+  }
+
+  async create(data: CreateOrderData): Promise<OrderWithDetails> {
+    const order = await this.prisma.order.create({
+      data: {
+        userId: data.userId,
+        groupId: data.groupId,
+        symbol: data.symbol.toUpperCase(),
+        assetType: data.assetType,
+        side: data.side,
+        type: data.type,
+        quantity: data.quantity,
+        price: data.price ?? null,
+        stopPrice: data.stopPrice ?? null,
+        stopLoss: data.stopLoss ?? null,
+        takeProfit: data.takeProfit ?? null,
+        timeInForce: data.timeInForce,
+        expiresAt: data.expiresAt,
+      },
+    });
+
+    return this.mapToOrderWithDetails(order);
+  }
+
+  async findById(id: string): Promise<OrderWithDetails | null> {
+    const order = await this.prisma.order.findUnique({ where: { id } });
+    return order ? this.mapToOrderWithDetails(order) : null;
+  }
+
+  async findByUserId(userId: string, query: GetOrdersQuery): Promise<PaginatedResult<OrderWithDetails>> {
+    const { page, limit, status, symbol } = query;
+    const skip = (page - 1) * limit;
+    const where = {
+      userId,
+      ...(status && { status }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+    };
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      data: orders.map(order => this.mapToOrderWithDetails(order)),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: skip + limit < total,
+      },
+    };
+  }
+
+  /**
+   * Distinct symbols with at least one working order.
+   */
+  async findOpenSymbols(): Promise<string[]> {
+    const orders = await this.prisma.order.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return orders.map(order => order.symbol);
+  }
+
+  /**
+   * Working orders for the quoted symbols, oldest first so earlier orders get liquidity first.
+   */
+  async findOpenOrders(symbols: string[]): Promise<OrderWithDetails[]> {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        symbol: { in: symbols.map(symbol => symbol.toUpperCase()) },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return orders.map(order => this.mapToOrderWithDetails(order));
+  }
+
+  /**
+   * Quantity still to be sold by the user's working sell orders for a symbol in a group.
+   */
+  async getReservedSellQuantity(userId: string, groupId: string, symbol: string): Promise<number> {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        userId,
+        groupId,
+        symbol: symbol.toUpperCase(),
+        side: 'SELL',
+        status: { in: OPEN_STATUSES },
+      },
+      select: { quantity: true, filledQuantity: true },
+    });
+
+    return orders.reduce((sum, order) => sum + Number(order.quantity) - Number(order.filledQuantity), 0);
+  }
+
+  /**
+   * Adds a fill, moving the average fill price and completing the order once fully filled.
+   * The update only applies while the order still has the filled quantity it was read with,
+   * so a concurrent fill of the same order throws instead of filling it twice.
+   */
+  async recordFill(
+    order: OrderWithDetails,
+    quantity: number,
+    price: number,
+    positionId: string
+  ): Promise<OrderWithDetails> {
+    const filledQuantity = order.filledQuantity + quantity;
+    const filledPrice = ((order.filledPrice ?? 0) * order.filledQuantity + price * quantity) / filledQuantity;
+    const isFilled = filledQuantity >= order.quantity;
+
+    const { count } = await this.prisma.order.updateMany({
+      where: {
+        id: order.id,
+        status: { in: OPEN_STATUSES },
+        filledQuantity: order.filledQuantity,
+      },
+      data: {
+        filledQuantity,
+        filledPrice,
+        positionId,
+        status: isFilled ? 'FILLED' : 'PARTIALLY_FILLED',
+        ...(isFilled && { filledAt: new Date() }),
+      },
+    });
+
+    if (count === 0) {
+      throw new Error('Order was filled or closed concurrently');
+    }
+
+    const updated = await this.prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    return this.mapToOrderWithDetails(updated);
+  }
+
+  async markTriggered(id: string): Promise<void> {
+    await this.prisma.order.update({
+      where: { id },
+      data: { triggeredAt: new Date() },
+    });
+  }
+
+  async cancel(id: string, cancelReason?: string): Promise<OrderWithDetails> {
+    const order = await this.prisma.order.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancelReason: cancelReason ?? null,
+        cancelledAt: new Date(),
+      },
+    });
+
+    return this.mapToOrderWithDetails(order);
+  }
+
+  /**
+   * Expires DAY orders past the end of their trading day. Partially filled orders keep their fills.
+   */
+  async expireOrders(now: Date = new Date()): Promise<number> {
+    const result = await this.prisma.order.updateMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        expiresAt: { lte: now },
+      },
+      data: { status: 'EXPIRED' },
+    });
+
+    return result.count;
+  }
+
+  private mapToOrderWithDetails(order: any): OrderWithDetails {
+    return {
+      id: order.id,
+      userId: order.userId,
+      groupId: order.groupId,
+      positionId: order.positionId,
+      symbol: order.symbol,
+      assetType: order.assetType,
+      side: order.side,
+      type: order.type,
+      quantity: Number(order.quantity),
+      filledQuantity: Number(order.filledQuantity),
+      price: order.price !== null ? Number(order.price) : null,
+      stopPrice: order.stopPrice !== null ? Number(order.stopPrice) : null,
+      filledPrice: order.filledPrice !== null ? Number(order.filledPrice) : null,
+      stopLoss: order.stopLoss !== null ? Number(order.stopLoss) : null,
+      takeProfit: order.takeProfit !== null ? Number(order.takeProfit) : null,
+      timeInForce: order.timeInForce,
+      status: order.status,
+      cancelReason: order.cancelReason,
+      triggeredAt: order.triggeredAt,
+      expiresAt: order.expiresAt,
+      filledAt: order.filledAt,
+      cancelledAt: order.cancelledAt,
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+    };
+  }
+}
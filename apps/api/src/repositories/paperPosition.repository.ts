@@ -18,6 +18,8 @@ export interface CreatePaperPositionData {
   currentPrice: number;
   stopLoss?: number;
   takeProfit?: number;
+  copiedFromPositionId?: string;
+  competitionEntryId?: string;
 }
 
 export interface UpdatePaperPositionData {
@@ -44,6 +46,20 @@ export interface GetPositionsQuery {
 export class PaperPositionRepository {
   constructor(private prisma: PrismaClient) {}
 
+  /**
+   * Runs fn in a transaction that holds a row lock on the competition entry, so positions
+   * paid for from the same competition account are opened one at a time.
+   */
+  async withCompetitionEntryLock<T>(
+    competitionEntryId: string,
+    fn: (positions: PaperPositionRepository) => Promise<T>
+  ): Promise<T> {
+    return this.prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM competition_entries WHERE id = ${competitionEntryId} FOR UPDATE`;
+      return fn(new PaperPositionRepository(tx as PrismaClient));
+    });
+  }
+
   async create(data: CreatePaperPositionData): Promise<PaperPositionWithDetails> {
     const position = await this.prisma.paperPosition.create({
       data: {
@@ -57,6 +73,8 @@ export class PaperPositionRepository {
         currentPrice: data.currentPrice,
         stopLoss: data.stopLoss || null,
         takeProfit: data.takeProfit || null,
+        copiedFromPositionId: data.copiedFromPositionId || null,
+        competitionEntryId: data.competitionEntryId || null,
         pnl: 0,
         pnlPercent: 0,
         status: 'OPEN',
@@ -326,6 +344,10 @@ export class PaperPositionRepository {
     return this.mapToPaperPositionWithDetails(updatedPosition);
   }
 
+  /**
+   * Closes an open position at the price. Throws when the position is already closed, so a
+   * position filled and stopped out in the same tick is only closed once.
+   */
   async close(id: string, closePrice: number, closeReason?: string): Promise<PaperPositionWithDetails> {
     const position = await this.prisma.paperPosition.findUnique({
       where: { id },
@@ -339,8 +361,8 @@ export class PaperPositionRepository {
     const pnl = (closePrice - Number(position.entryPrice)) * Number(position.quantity);
     const pnlPercent = ((closePrice - Number(position.entryPrice)) / Number(position.entryPrice)) * 100;
 
-    const closedPosition = await this.prisma.paperPosition.update({
-      where: { id },
+    const { count } = await this.prisma.paperPosition.updateMany({
+      where: { id, status: 'OPEN' },
       data: {
         status: 'CLOSED',
         closedPrice: closePrice,
@@ -350,6 +372,14 @@ export class PaperPositionRepository {
         pnl,
         pnlPercent,
       },
+    });
+
+    if (count === 0) {
+      throw new Error('Position is not open');
+    }
+
+    const closedPosition = await this.prisma.paperPosition.findUniqueOrThrow({
+      where: { id },
       include: {
         user: {
           select: {
@@ -392,8 +422,10 @@ export class PaperPositionRepository {
     try {
       console.log(`[Portfolio] Getting summary for user ${userId}, group ${groupId}`);
 
+      // Competition positions live in their entry's sandboxed account
       const where: any = {
         userId,
+        competitionEntryId: null,
         ...(groupId && { groupId }),
       };
 
@@ -547,6 +579,7 @@ export class PaperPositionRepository {
   async getTradingMetrics(userId: string, groupId?: string, days?: number): Promise<TradingMetrics> {
     const where: any = {
       userId,
+      competitionEntryId: null,
       ...(groupId && { groupId }),
       ...(days && {
         closedAt: {
@@ -741,6 +774,51 @@ export class PaperPositionRepository {
     return updatedCount;
   }
 
+  /**
+   * Distinct symbols with at least one open position.
+   */
+  // Every position, open or closed, in a competition entry's sandboxed account
+  async findByCompetitionEntry(competitionEntryId: string): Promise<PaperPositionWithDetails[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: { competitionEntryId },
+      orderBy: { openedAt: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+        group: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tradeIdea: {
+          select: {
+            id: true,
+            symbol: true,
+            direction: true,
+          },
+        },
+      },
+    });
+
+    return positions.map(this.mapToPaperPositionWithDetails);
+  }
+
+  async findOpenSymbols(): Promise<string[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: { status: 'OPEN' },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return positions.map(position => position.symbol);
+  }
+
   async getOpenPositions(userId?: string, symbols?: string[]): Promise<PaperPositionWithDetails[]> {
     const where: any = {
       status: 'OPEN',
@@ -829,6 +907,242 @@ export class PaperPositionRepository {
     return positions.map(this.mapToPaperPositionWithDetails);
   }
 
+  async findOpenCopies(leaderPositionId: string): Promise<PaperPositionWithDetails[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: {
+        copiedFromPositionId: leaderPositionId,
+        status: 'OPEN',
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+        group: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tradeIdea: {
+          select: {
+            id: true,
+            symbol: true,
+            direction: true,
+          },
+        },
+      },
+    });
+
+    return positions.map(this.mapToPaperPositionWithDetails);
+  }
+
+  async hasCopy(userId: string, leaderPositionId: string): Promise<boolean> {
+    const count = await this.prisma.paperPosition.count({
+      where: { userId, copiedFromPositionId: leaderPositionId },
+    });
+
+    return count > 0;
+  }
+
+  async countOpenCopiesFromTrader(userId: string, traderId: string): Promise<number> {
+    return this.prisma.paperPosition.count({
+      where: {
+        userId,
+        status: 'OPEN',
+        copiedFrom: { userId: traderId },
+      },
+    });
+  }
+
+  async getRealizedPnl(userId: string): Promise<number> {
+    const result = await this.prisma.paperPosition.aggregate({
+      where: { userId, competitionEntryId: null, status: { in: ['CLOSED', 'STOPPED'] } },
+      _sum: { pnl: true },
+    });
+
+    return Number(result._sum.pnl || 0);
+  }
+
+  /**
+   * Adds a fill to an open position, moving the entry price to the quantity-weighted average.
+   */
+  async increasePosition(id: string, quantity: number, price: number): Promise<PaperPositionWithDetails> {
+    const position = await this.prisma.paperPosition.findUnique({
+      where: { id },
+      select: { entryPrice: true, quantity: true },
+    });
+
+    if (!position) {
+      throw new Error('Position not found');
+    }
+
+    const currentQuantity = Number(position.quantity);
+    const totalQuantity = currentQuantity + quantity;
+    const entryPrice = (Number(position.entryPrice) * currentQuantity + price * quantity) / totalQuantity;
+    const pnl = (price - entryPrice) * totalQuantity;
+    const pnlPercent = ((price - entryPrice) / entryPrice) * 100;
+
+    const updatedPosition = await this.prisma.paperPosition.update({
+      where: { id },
+      data: {
+        quantity: totalQuantity,
+        entryPrice,
+        currentPrice: price,
+        pnl,
+        pnlPercent,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+        group: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tradeIdea: {
+          select: {
+            id: true,
+            symbol: true,
+            direction: true,
+          },
+        },
+      },
+    });
+
+    return this.mapToPaperPositionWithDetails(updatedPosition);
+  }
+
+  /**
+   * Closes part of an open position. The sold quantity is split off into its own closed
+   * position so the realized P&L is kept, and the remainder stays open. Run it inside
+   * OrderRepository.transaction so both writes commit together.
+   */
+  async closePartial(
+    id: string,
+    quantity: number,
+    closePrice: number,
+    closeReason: string
+  ): Promise<PaperPositionWithDetails> {
+    const position = await this.prisma.paperPosition.findUnique({ where: { id } });
+
+    if (!position) {
+      throw new Error('Position not found');
+    }
+
+    const entryPrice = Number(position.entryPrice);
+    const pnl = (closePrice - entryPrice) * quantity;
+    const pnlPercent = ((closePrice - entryPrice) / entryPrice) * 100;
+
+    await this.prisma.paperPosition.update({
+      where: { id },
+      data: {
+        quantity: Number(position.quantity) - quantity,
+        ...(position.currentPrice !== null && {
+          pnl: (Number(position.currentPrice) - entryPrice) * (Number(position.quantity) - quantity),
+        }),
+      },
+    });
+
+    const closedPart = await this.prisma.paperPosition.create({
+      data: {
+        userId: position.userId,
+        groupId: position.groupId,
+        tradeIdeaId: position.tradeIdeaId,
+        symbol: position.symbol,
+        assetType: position.assetType,
+        quantity,
+        entryPrice,
+        currentPrice: closePrice,
+        pnl,
+        pnlPercent,
+        status: 'CLOSED',
+        openedAt: position.openedAt,
+        closedAt: new Date(),
+        closedPrice: closePrice,
+        closeReason,
+        competitionEntryId: position.competitionEntryId,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+        group: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tradeIdea: {
+          select: {
+            id: true,
+            symbol: true,
+            direction: true,
+          },
+        },
+      },
+    });
+
+    return this.mapToPaperPositionWithDetails(closedPart);
+  }
+
+  /**
+   * Positions the user copied from other traders, with the leader attached for attribution.
+   */
+  async findCopiedPositions(userId: string, traderId?: string): Promise<Array<{
+    quantity: number;
+    entryPrice: number;
+    pnl: number | null;
+    status: PositionStatus;
+    traderId: string;
+    traderName: string;
+  }>> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: {
+        userId,
+        copiedFromPositionId: { not: null },
+        ...(traderId && { copiedFrom: { userId: traderId } }),
+      },
+      select: {
+        quantity: true,
+        entryPrice: true,
+        pnl: true,
+        status: true,
+        copiedFrom: {
+          select: {
+            user: {
+              select: { id: true, username: true },
+            },
+          },
+        },
+      },
+    });
+
+    return positions
+      .filter(position => position.copiedFrom !== null)
+      .map(position => ({
+        quantity: Number(position.quantity),
+        entryPrice: Number(position.entryPrice),
+        pnl: position.pnl !== null ? Number(position.pnl) : null,
+        status: position.status,
+        traderId: position.copiedFrom!.user.id,
+        traderName: position.copiedFrom!.user.username,
+      }));
+  }
+
   private mapToPaperPositionWithDetails(position: any): PaperPositionWithDetails {
     return {
       id: position.id,
@@ -852,6 +1166,8 @@ export class PaperPositionRepository {
       user: position.user,
       group: position.group,
       tradeIdea: position.tradeIdea,
+      copiedFromPositionId: position.copiedFromPositionId ?? null,
+      competitionEntryId: position.competitionEntryId ?? null,
     };
   }
 }
\ No newline at end of file
@@ -1,26 +1,45 @@
-import type { Portfolio, Prisma } from '@prisma/client';
+import type { Portfolio, PortfolioSnapshot, Prisma } from '@golden-palace/database';
 import { prisma } from '../lib/prisma';
 
+export interface SnapshotAsset {
+  symbol: string;
+  quantity: number;
+  price: number;
+  value: number;
+  cost: number;
+}
+
+export interface PortfolioSnapshotData {
+  date?: Date;
+  totalValue: number;
+  totalCost: number;
+  cashBalance: number;
+  assets: SnapshotAsset[];
+}
+
 export class PortfolioRepository {
+  // Bound to a transaction client when used inside PortfolioTransactionRepository.withPortfolioLock
+  constructor(private db: Prisma.TransactionClient = prisma) {}
+
   async create(data: Prisma.PortfolioCreateInput): Promise<Portfolio> {
-    return prisma.portfolio.create({ data });
+    return this.db.portfolio.create({ data });
   }
 
   async findById(id: string): Promise<Portfolio | null> {
-    return prisma.portfolio.findUnique({
+    return this.db.portfolio.findUnique({
       where: { id }
     });
   }
 
   async findByUserId(userId: string): Promise<Portfolio[]> {
-    return prisma.portfolio.findMany({
+    return this.db.portfolio.findMany({
       where: { userId },
       orderBy: { createdAt: 'desc' }
     });
   }
 
   async update(id: string, data: Prisma.PortfolioUpdateInput): Promise<Portfolio> {
-    return prisma.portfolio.update({
+    return this.db.portfolio.update({
       where: { id },
       data
     });
@@ -28,7 +47,7 @@ export class PortfolioRepository {
 
   async delete(id: string): Promise<boolean> {
     try {
-      await prisma.portfolio.delete({
+      await this.db.portfolio.delete({
         where: { id }
       });
       return true;
@@ -38,7 +57,7 @@ export class PortfolioRepository {
   }
 
   async updateValue(id: string, currentValue: number): Promise<Portfolio> {
-    return prisma.portfolio.update({
+    return this.db.portfolio.update({
       where: { id },
       data: {
         currentValue,
@@ -48,39 +67,33 @@ export class PortfolioRepository {
   }
 
   async getPublicPortfolios(limit: number = 10): Promise<Portfolio[]> {
-    return prisma.portfolio.findMany({
+    return this.db.portfolio.findMany({
       where: { isPublic: true },
       orderBy: { currentValue: 'desc' },
       take: limit
     });
   }
 
+  async findAll(): Promise<Portfolio[]> {
+    return this.db.portfolio.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
   async getReturns(portfolioId: string, timeHorizon: string): Promise<number[]> {
     const days = this.getDaysFromHorizon(timeHorizon);
-    console.log('[PortfolioRepository] getReturns - Generating synthetic returns for', days, 'days');
 
-    // Generate synthetic returns since PortfolioSnapshot doesn't exist yet
-    // Temporarily comment out snapshot query to avoid undefined error
-    /*
-    const snapshots = await prisma.portfolioSnapshot.findMany({
-      where: {
-        portfolioId,
-        date: { gte: startDate }
-      },
-      orderBy: { date: 'asc' }
-    });
-    */
+    // One extra day so that `days` snapshots yield `days` daily returns
+    const snapshots = await this.getSnapshots(portfolioId, days + 1);
 
-    // Always generate synthetic returns for now
     const returns: number[] = [];
-    for (let i = 0; i < days; i++) {
-      // Generate realistic daily returns (mean ~0.05% daily, volatility ~2%)
-      const dailyReturn = (Math.random() - 0.48) * 0.04;
-      returns.push(dailyReturn);
+    for (let i = 1; i < snapshots.length; i++) {
+      const previous = snapshots[i - 1];
+      const current = snapshots[i];
+      if (!previous || !current || previous.totalValue <= 0) continue;
+      returns.push((current.totalValue - previous.totalValue) / previous.totalValue);
     }
 
-    console.log('[PortfolioRepository] Generated', returns.length, 'synthetic returns');
-
     return returns;
   }
 
@@ -89,77 +102,44 @@ export class PortfolioRepository {
     startDate?: Date,
     endDate?: Date
   ): Promise<Array<{ date: Date; value: number }>> {
-    console.log('[PortfolioRepository] getHistoricalValues - Generating synthetic historical values');
-
-    // Temporarily comment out snapshot query to avoid undefined error
-    // PortfolioSnapshot model doesn't exist in Prisma schema yet
-
-    // Always generate synthetic data since PortfolioSnapshot doesn't exist yet
-    const portfolio = await this.findById(portfolioId);
-    if (!portfolio) {
-      console.log('[PortfolioRepository] Portfolio not found:', portfolioId);
-      return [];
-    }
-
-    const values = [];
-    const days = 30;
-    let value = Number(portfolio.currentValue) || 10000; // Use currentValue instead of totalValue
-
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-
-      // Check if date is within requested range
-      if (startDate && date < startDate) continue;
-      if (endDate && date > endDate) continue;
-
-      value = value * (1 + (Math.random() - 0.5) * 0.02);
-      values.push({ date, value });
-    }
+    const snapshots = await this.db.portfolioSnapshot.findMany({
+      where: {
+        portfolioId,
+        ...((startDate || endDate) && {
+          date: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate })
+          }
+        })
+      },
+      orderBy: { date: 'asc' },
+      select: { date: true, totalValue: true }
+    });
 
-    console.log('[PortfolioRepository] Generated', values.length, 'historical values');
-    return values;
+    return snapshots.map(snapshot => ({
+      date: snapshot.date,
+      value: Number(snapshot.totalValue)
+    }));
   }
 
   async getSnapshots(
     portfolioId: string,
     days: number = 30
   ): Promise<Array<{ date: Date; totalValue: number; portfolioId?: string }>> {
-    console.log('[PortfolioRepository] getSnapshots - Generating synthetic snapshots for', days, 'days');
-
-    // Temporarily comment out snapshot query to avoid undefined error
-    /*
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    const snapshots = await prisma.portfolioSnapshot.findMany({
+    const snapshots = await this.db.portfolioSnapshot.findMany({
       where: {
         portfolioId,
-        date: { gte: startDate }
+        date: { gte: this.getStartDate(days) }
       },
-      orderBy: { date: 'asc' }
+      orderBy: { date: 'asc' },
+      select: { portfolioId: true, date: true, totalValue: true }
     });
-    */
-
-    // Always generate synthetic snapshots since PortfolioSnapshot doesn't exist yet
-    const portfolio = await this.findById(portfolioId);
-    if (!portfolio) {
-      console.log('[PortfolioRepository] Portfolio not found:', portfolioId);
-      return [];
-    }
-
-    const syntheticSnapshots = [];
-    let value = Number(portfolio.currentValue) || 10000; // Use currentValue instead of totalValue
-
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      value = value * (1 + (Math.random() - 0.5) * 0.02);
-      syntheticSnapshots.push({ date, totalValue: value, portfolioId });
-    }
 
-    console.log('[PortfolioRepository] Generated', syntheticSnapshots.length, 'snapshots');
-    return syntheticSnapshots;
+    return snapshots.map(snapshot => ({
+      portfolioId: snapshot.portfolioId,
+      date: snapshot.date,
+      totalValue: Number(snapshot.totalValue)
+    }));
   }
 
   async getDetailedSnapshots(
@@ -171,47 +151,70 @@ export class PortfolioRepository {
     totalValue: number;
     assets: Array<{ symbol: string; value: number }>;
   }>> {
-    const portfolio = await this.findById(portfolioId);
-    if (!portfolio) return [];
+    const snapshots = await this.db.portfolioSnapshot.findMany({
+      where: {
+        portfolioId,
+        date: { gte: this.getStartDate(days) }
+      },
+      orderBy: { date: 'asc' }
+    });
 
-    // Generate synthetic detailed snapshots
-    const snapshots = [];
-    const baseAssets = [
-      { symbol: 'AAPL', baseValue: 6000 },
-      { symbol: 'GOOGL', baseValue: 4000 }
-    ];
+    return snapshots.map(snapshot => ({
+      portfolioId: snapshot.portfolioId,
+      date: snapshot.date,
+      totalValue: Number(snapshot.totalValue),
+      assets: this.parseSnapshotAssets(snapshot.assets)
+    }));
+  }
 
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
+  async getLatestSnapshot(portfolioId: string, before?: Date): Promise<PortfolioSnapshot | null> {
+    return this.db.portfolioSnapshot.findFirst({
+      where: {
+        portfolioId,
+        ...(before && { date: { lt: this.toSnapshotDate(before) } })
+      },
+      orderBy: { date: 'desc' }
+    });
+  }
 
-      const assets = baseAssets.map(asset => ({
-        symbol: asset.symbol,
-        value: asset.baseValue * (1 + (Math.random() - 0.5) * 0.05)
-      }));
+  async createSnapshot(
+    portfolioId: string,
+    data: PortfolioSnapshotData
+  ): Promise<PortfolioSnapshot> {
+    const date = this.toSnapshotDate(data.date || new Date());
+    const values = {
+      totalValue: data.totalValue,
+      totalCost: data.totalCost,
+      cashBalance: data.cashBalance,
+      totalPnl: data.totalValue - data.totalCost - data.cashBalance,
+      assets: data.assets as unknown as Prisma.InputJsonValue
+    };
 
-      const totalValue = assets.reduce((sum, a) => sum + a.value, 0);
+    // Re-running the job on the same day overwrites that day's snapshot
+    return this.db.portfolioSnapshot.upsert({
+      where: { portfolioId_date: { portfolioId, date } },
+      create: { portfolioId, date, ...values },
+      update: values
+    });
+  }
 
-      snapshots.push({
-        portfolioId,
-        date,
-        totalValue,
-        assets
-      });
-    }
+  private getStartDate(days: number): Date {
+    const startDate = this.toSnapshotDate(new Date());
+    startDate.setUTCDate(startDate.getUTCDate() - days);
+    return startDate;
+  }
 
-    return snapshots;
+  private toSnapshotDate(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
   }
 
-  async createSnapshot(
-    portfolioId: string,
-    totalValue: number,
-    totalCost: number
-  ): Promise<boolean> {
-    // Skip creating snapshot since PortfolioSnapshot model doesn't exist yet
-    console.log('[PortfolioRepository] createSnapshot - Skipping (PortfolioSnapshot model not implemented)');
-    console.log('[PortfolioRepository] Would create snapshot for portfolio:', portfolioId, 'with value:', totalValue);
-    return true; // Return success to avoid breaking dependent code
+  private parseSnapshotAssets(assets: Prisma.JsonValue): Array<{ symbol: string; value: number }> {
+    if (!Array.isArray(assets)) return [];
+
+    return (assets as unknown as SnapshotAsset[]).map(asset => ({
+      symbol: asset.symbol,
+      value: Number(asset.value) || 0
+    }));
   }
 
   private getDaysFromHorizon(horizon: string): number {
@@ -0,0 +1,130 @@
+import { PrismaClient } from '@golden-palace/database';
+import { AssetRepository } from './asset.repository';
+import { PortfolioRepository } from './portfolio.repository';
+import type {
+  PaginatedResult,
+  Transaction,
+  TransactionQuery,
+  TransactionType
+} from '@golden-palace/shared';
+
+export interface CreatePortfolioTransactionData {
+  portfolioId: string;
+  type: TransactionType;
+  symbol?: string | null;
+  quantity?: number | null;
+  price: number;
+  fee: number;
+  totalAmount: number;
+  currency: string;
+  executedAt: Date;
+  notes?: string | null;
+}
+
+export interface LedgerRepositories {
+  portfolios: PortfolioRepository;
+  assets: AssetRepository;
+  transactions: PortfolioTransactionRepository;
+}
+
+/**
+ * The ledger is append-only, so there is deliberately no update or delete here;
+ * corrections are recorded as new transactions.
+ */
+export class PortfolioTransactionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Runs fn in a transaction that holds a row lock on the portfolio, so ledger writes to
+   * the same portfolio run one at a time and each validates against the history it extends.
+   */
+  async withPortfolioLock<T>(portfolioId: string, fn: (repositories: LedgerRepositories) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM portfolios WHERE id = ${portfolioId} FOR UPDATE`;
+
+      return fn({
+        portfolios: new PortfolioRepository(tx),
+        assets: new AssetRepository(tx),
+        transactions: new PortfolioTransactionRepository(tx as PrismaClient),
+      });
+    });
+  }
+
+  async create(data: CreatePortfolioTransactionData): Promise<Transaction> {
+    const transaction = await this.prisma.portfolioTransaction.create({
+      data: {
+        portfolioId: data.portfolioId,
+        type: data.type,
+        symbol: data.symbol ? data.symbol.toUpperCase() : null,
+        quantity: data.quantity ?? null,
+        price: data.price,
+        fee: data.fee,
+        totalAmount: data.totalAmount,
+        currency: data.currency,
+        executedAt: data.executedAt,
+        notes: data.notes ?? null,
+      },
+    });
+
+    return this.mapToTransaction(transaction);
+  }
+
+  async findByPortfolioId(portfolioId: string, query: TransactionQuery): Promise<PaginatedResult<Transaction>> {
+    const { page, limit, type, symbol } = query;
+    const skip = (page - 1) * limit;
+    const where = {
+      portfolioId,
+      ...(type && { type }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+    };
+
+    const [transactions, total] = await Promise.all([
+      this.prisma.portfolioTransaction.findMany({
+        where,
+        orderBy: [{ executedAt: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.portfolioTransaction.count({ where }),
+    ]);
+
+    return {
+      data: transactions.map(transaction => this.mapToTransaction(transaction)),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: skip + transactions.length < total,
+      },
+    };
+  }
+
+  /**
+   * The whole ledger in replay order.
+   */
+  async findAllByPortfolioId(portfolioId: string): Promise<Transaction[]> {
+    const transactions = await this.prisma.portfolioTransaction.findMany({
+      where: { portfolioId },
+      orderBy: [{ executedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return transactions.map(transaction => this.mapToTransaction(transaction));
+  }
+
+  private mapToTransaction(transaction: any): Transaction {
+    return {
+      id: transaction.id,
+      portfolioId: transaction.portfolioId,
+      type: transaction.type,
+      ...(transaction.symbol && { symbol: transaction.symbol }),
+      ...(transaction.quantity !== null && { quantity: Number(transaction.quantity) }),
+      price: Number(transaction.price),
+      totalAmount: Number(transaction.totalAmount),
+      fee: Number(transaction.fee),
+      currency: transaction.currency,
+      executedAt: transaction.executedAt,
+      ...(transaction.notes && { notes: transaction.notes }),
+      createdAt: transaction.createdAt,
+    };
+  }
+}
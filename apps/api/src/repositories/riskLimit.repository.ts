@@ -0,0 +1,195 @@
+import { PrismaClient } from '@golden-palace/database';
+import type {
+  PaginatedResult,
+  RiskBreachQuery,
+  RiskLimitBreach,
+  RiskLimitType,
+  RiskLimits
+} from '@golden-palace/shared';
+
+export interface RiskLimitData {
+  maxDrawdown: number;
+  maxVaR: number;
+  maxLeverage: number;
+  maxConcentration: number;
+  maxVolatility: number;
+  minSharpeRatio: number;
+  active: boolean;
+}
+
+export interface BreachMeasurement {
+  limitType: RiskLimitType;
+  currentValue: number;
+  limitValue: number;
+  breachAmount: number;
+  breachPercentage: number;
+}
+
+const LIMIT_LABELS: Record<RiskLimitType, string> = {
+  maxDrawdown: 'Drawdown',
+  maxVaR: 'Value at Risk',
+  maxVolatility: 'Volatility',
+  minSharpeRatio: 'Sharpe ratio',
+  maxConcentration: 'Largest position',
+  maxLeverage: 'Leverage'
+};
+
+export class RiskLimitRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * A portfolio has a single set of limits; saving replaces it while keeping its breach history.
+   */
+  async upsert(portfolioId: string, data: RiskLimitData): Promise<RiskLimits> {
+    const limit = await this.prisma.riskLimit.upsert({
+      where: { portfolioId },
+      create: { portfolioId, ...data },
+      update: data,
+      include: { breaches: { where: { resolvedAt: null }, orderBy: { breachedAt: 'desc' } } }
+    });
+
+    return this.mapToRiskLimits(limit);
+  }
+
+  /**
+   * Limits with their open breaches.
+   */
+  async findByPortfolioId(portfolioId: string): Promise<RiskLimits | null> {
+    const limit = await this.prisma.riskLimit.findUnique({
+      where: { portfolioId },
+      include: { breaches: { where: { resolvedAt: null }, orderBy: { breachedAt: 'desc' } } }
+    });
+
+    return limit ? this.mapToRiskLimits(limit) : null;
+  }
+
+  /**
+   * Portfolios with active limits that hold any of the given symbols.
+   */
+  async findActivePortfolioIdsBySymbols(symbols: string[]): Promise<string[]> {
+    const limits = await this.prisma.riskLimit.findMany({
+      where: {
+        active: true,
+        portfolio: { assets: { some: { symbol: { in: symbols } } } }
+      },
+      select: { portfolioId: true }
+    });
+
+    return limits.map(limit => limit.portfolioId);
+  }
+
+  /**
+   * Symbols held by portfolios with active limits, so price moves keep re-checking them.
+   */
+  async findActiveSymbols(): Promise<string[]> {
+    const assets = await this.prisma.portfolioAsset.findMany({
+      where: {
+        symbol: { not: '' },
+        portfolio: { riskLimit: { active: true } }
+      },
+      select: { symbol: true },
+      distinct: ['symbol']
+    });
+
+    return assets.map(asset => asset.symbol);
+  }
+
+  async createBreach(riskLimitId: string, portfolioId: string, measurement: BreachMeasurement): Promise<RiskLimitBreach> {
+    const breach = await this.prisma.riskLimitBreach.create({
+      data: { riskLimitId, portfolioId, ...measurement }
+    });
+
+    return this.mapToBreach(breach);
+  }
+
+  async updateBreach(id: string, measurement: BreachMeasurement): Promise<RiskLimitBreach> {
+    const breach = await this.prisma.riskLimitBreach.update({
+      where: { id },
+      data: {
+        currentValue: measurement.currentValue,
+        limitValue: measurement.limitValue,
+        breachAmount: measurement.breachAmount,
+        breachPercentage: measurement.breachPercentage
+      }
+    });
+
+    return this.mapToBreach(breach);
+  }
+
+  async resolveBreach(id: string, resolvedAt: Date = new Date()): Promise<RiskLimitBreach> {
+    const breach = await this.prisma.riskLimitBreach.update({
+      where: { id },
+      data: { resolvedAt }
+    });
+
+    return this.mapToBreach(breach);
+  }
+
+  async findBreaches(portfolioId: string, query: RiskBreachQuery): Promise<PaginatedResult<RiskLimitBreach>> {
+    const { page, limit, status } = query;
+    const skip = (page - 1) * limit;
+    const where = {
+      portfolioId,
+      ...(status === 'OPEN' && { resolvedAt: null }),
+      ...(status === 'RESOLVED' && { resolvedAt: { not: null } })
+    };
+
+    const [breaches, total] = await Promise.all([
+      this.prisma.riskLimitBreach.findMany({
+        where,
+        orderBy: { breachedAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      this.prisma.riskLimitBreach.count({ where })
+    ]);
+
+    return {
+      data: breaches.map(breach => this.mapToBreach(breach)),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: skip + breaches.length < total
+      }
+    };
+  }
+
+  private mapToRiskLimits(limit: any): RiskLimits {
+    return {
+      id: limit.id,
+      portfolioId: limit.portfolioId,
+      maxDrawdown: Number(limit.maxDrawdown),
+      maxVaR: Number(limit.maxVaR),
+      maxLeverage: Number(limit.maxLeverage),
+      maxConcentration: Number(limit.maxConcentration),
+      maxVolatility: Number(limit.maxVolatility),
+      minSharpeRatio: Number(limit.minSharpeRatio),
+      breaches: (limit.breaches ?? []).map((breach: any) => this.mapToBreach(breach)),
+      active: limit.active,
+      createdAt: limit.createdAt,
+      updatedAt: limit.updatedAt
+    };
+  }
+
+  private mapToBreach(breach: any): RiskLimitBreach {
+    const limitType = breach.limitType as RiskLimitType;
+    const currentValue = Number(breach.currentValue);
+    const limitValue = Number(breach.limitValue);
+    const comparison = limitType === 'minSharpeRatio' ? 'below the minimum of' : 'exceeds the limit of';
+
+    return {
+      id: breach.id,
+      portfolioId: breach.portfolioId,
+      limitType,
+      message: `${LIMIT_LABELS[limitType] ?? limitType} of ${currentValue.toFixed(2)} ${comparison} ${limitValue.toFixed(2)}`,
+      currentValue,
+      limitValue,
+      breachAmount: Number(breach.breachAmount),
+      breachPercentage: Number(breach.breachPercentage),
+      breachedAt: breach.breachedAt,
+      resolved: breach.resolvedAt !== null,
+      ...(breach.resolvedAt && { resolvedAt: breach.resolvedAt })
+    };
+  }
+}
@@ -79,6 +79,7 @@ export class RiskMetricsRepository {
           valueAtRisk: metrics.valueAtRisk,
           conditionalVaR: metrics.conditionalVaR,
           expectedShortfall: metrics.expectedShortfall,
+          varMethod: metrics.varMethod || 'HISTORICAL',
           volatility: metrics.volatility,
           annualizedVolatility: metrics.annualizedVolatility,
           downsideVolatility: metrics.downsideVolatility || 0,
@@ -97,6 +98,9 @@ export class RiskMetricsRepository {
           correlation: metrics.correlation || {},
           covariance: metrics.covariance || {},
           trackingError: metrics.trackingError || 0,
+          benchmarkSymbol: metrics.benchmarkSymbol ?? null,
+          upCaptureRatio: metrics.upCaptureRatio || 0,
+          downCaptureRatio: metrics.downCaptureRatio || 0,
           riskLevel: metrics.riskLevel,
           riskScore: metrics.riskScore
         }
@@ -0,0 +1,647 @@
+import { PrismaClient } from '@golden-palace/database';
+import type { Prisma, SocialPostType as DbSocialPostType } from '@golden-palace/database';
+import type {
+  CopySettings,
+  FollowStatus,
+  SocialPostType,
+  SocialPostWithDetails,
+  PostCommentWithDetails,
+  TraderRatingWithDetails,
+  TraderSortField,
+  TraderSummary,
+  TradeSide
+} from '@golden-palace/shared';
+
+export interface TraderRecord {
+  id: string;
+  username: string;
+  avatarUrl: string | null;
+  bio: string | null;
+  specialties: string[];
+  tradingStyle: string | null;
+  emailVerified: boolean;
+  createdAt: Date;
+  followerCount: number;
+  followingCount: number;
+  stats: {
+    totalTrades: number;
+    winRate: number;
+    totalPnl: number;
+    profitFactor: number;
+    sharpeRatio: number;
+    averageHoldTime: number;
+    maxDrawdown: number;
+  } | null;
+}
+
+export interface ClosedPositionRecord {
+  userId: string;
+  quantity: number;
+  entryPrice: number;
+  pnl: number;
+  closedAt: Date;
+}
+
+export interface TraderPositionRecord {
+  id: string;
+  userId: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  entryPrice: number;
+  closedPrice: number | null;
+  pnl: number | null;
+  status: 'OPEN' | 'CLOSED' | 'STOPPED';
+  openedAt: Date;
+  closedAt: Date | null;
+}
+
+export interface FollowRecord {
+  id: string;
+  followerId: string;
+  traderId: string;
+  copySettings: CopySettings | null;
+  status: FollowStatus;
+  createdAt: Date;
+}
+
+export interface CreateSocialPostData {
+  userId: string;
+  type: SocialPostType;
+  content?: string;
+  symbol?: string;
+  side?: TradeSide;
+  quantity?: number;
+  price?: number;
+  pnl?: number;
+  tags?: string[];
+}
+
+export interface FeedQuery {
+  viewerId: string;
+  userIds?: string[];
+  types?: SocialPostType[];
+  offset: number;
+  limit: number;
+}
+
+export interface UpsertRatingData {
+  traderId: string;
+  reviewerId: string;
+  overall: number;
+  performance: number;
+  riskManagement: number;
+  communication: number;
+  comment?: string;
+}
+
+export interface RatingAggregate {
+  average: number;
+  count: number;
+  performance: number;
+  riskManagement: number;
+  communication: number;
+}
+
+const traderInclude = {
+  userStats: true,
+  _count: {
+    select: {
+      followers: true,
+      following: true,
+    },
+  },
+} as const;
+
+const postUserSelect = {
+  id: true,
+  username: true,
+  avatarUrl: true,
+  emailVerified: true,
+} as const;
+
+export class SocialTradingRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===================
+  // TRADERS
+  // ===================
+
+  async findTraderById(id: string): Promise<TraderRecord | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      include: traderInclude,
+    });
+
+    return user ? this.mapToTraderRecord(user) : null;
+  }
+
+  async findTradersByIds(ids: string[]): Promise<TraderRecord[]> {
+    if (ids.length === 0) return [];
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+      include: traderInclude,
+    });
+
+    return users.map(user => this.mapToTraderRecord(user));
+  }
+
+  /**
+   * Pre-selects ranking candidates using the stored stats closest to the requested sort.
+   * Only users with recorded trades or at least one closed paper position are considered.
+   */
+  async findTraderCandidates(sortBy: TraderSortField, take: number): Promise<TraderRecord[]> {
+    const orderBy: Prisma.UserOrderByWithRelationInput =
+      sortBy === 'followers'
+        ? { followers: { _count: 'desc' } }
+        : sortBy === 'winRate'
+          ? { userStats: { winRate: 'desc' } }
+          : sortBy === 'volume'
+            ? { userStats: { totalTrades: 'desc' } }
+            : { userStats: { totalPnl: 'desc' } };
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { userStats: { totalTrades: { gt: 0 } } },
+          { paperPositions: { some: { status: { in: ['CLOSED', 'STOPPED'] } } } },
+        ],
+      },
+      include: traderInclude,
+      orderBy,
+      take,
+    });
+
+    return users.map(user => this.mapToTraderRecord(user));
+  }
+
+  async searchTraders(query: string, take: number): Promise<TraderRecord[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { username: { contains: query, mode: 'insensitive' } },
+          { bio: { contains: query, mode: 'insensitive' } },
+          { specialties: { has: query } },
+        ],
+      },
+      include: traderInclude,
+      orderBy: { followers: { _count: 'desc' } },
+      take,
+    });
+
+    return users.map(user => this.mapToTraderRecord(user));
+  }
+
+  async findClosedPositions(userIds: string[], since?: Date): Promise<ClosedPositionRecord[]> {
+    if (userIds.length === 0) return [];
+
+    const positions = await this.prisma.paperPosition.findMany({
+      where: {
+        userId: { in: userIds },
+        status: { in: ['CLOSED', 'STOPPED'] },
+        closedAt: since ? { gte: since } : { not: null },
+      },
+      select: {
+        userId: true,
+        quantity: true,
+        entryPrice: true,
+        pnl: true,
+        closedAt: true,
+      },
+      orderBy: { closedAt: 'asc' },
+    });
+
+    return positions.map(position => ({
+      userId: position.userId,
+      quantity: Number(position.quantity),
+      entryPrice: Number(position.entryPrice),
+      pnl: position.pnl ? Number(position.pnl) : 0,
+      closedAt: position.closedAt as Date,
+    }));
+  }
+
+  async findRecentPositions(userId: string, take: number): Promise<TraderPositionRecord[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: { userId },
+      include: {
+        tradeIdea: {
+          select: { direction: true },
+        },
+      },
+      orderBy: { openedAt: 'desc' },
+      take,
+    });
+
+    return positions.map(position => ({
+      id: position.id,
+      userId: position.userId,
+      symbol: position.symbol,
+      side: position.tradeIdea?.direction === 'SHORT' ? 'sell' : 'buy',
+      quantity: Number(position.quantity),
+      entryPrice: Number(position.entryPrice),
+      closedPrice: position.closedPrice ? Number(position.closedPrice) : null,
+      pnl: position.pnl ? Number(position.pnl) : null,
+      status: position.status,
+      openedAt: position.openedAt,
+      closedAt: position.closedAt,
+    }));
+  }
+
+  // ===================
+  // FOLLOW GRAPH
+  // ===================
+
+  async findFollow(followerId: string, traderId: string): Promise<FollowRecord | null> {
+    const follow = await this.prisma.traderFollow.findUnique({
+      where: { followerId_traderId: { followerId, traderId } },
+    });
+
+    return follow ? this.mapToFollowRecord(follow) : null;
+  }
+
+  async createFollow(followerId: string, traderId: string, copySettings: CopySettings): Promise<FollowRecord> {
+    const follow = await this.prisma.traderFollow.create({
+      data: {
+        followerId,
+        traderId,
+        copySettings: copySettings as Prisma.InputJsonValue,
+      },
+    });
+
+    return this.mapToFollowRecord(follow);
+  }
+
+  async updateFollow(
+    followerId: string,
+    traderId: string,
+    data: { copySettings?: CopySettings; status?: FollowStatus }
+  ): Promise<FollowRecord> {
+    const follow = await this.prisma.traderFollow.update({
+      where: { followerId_traderId: { followerId, traderId } },
+      data: {
+        ...(data.copySettings && { copySettings: data.copySettings as Prisma.InputJsonValue }),
+        ...(data.status && { status: data.status === 'paused' ? 'PAUSED' : 'ACTIVE' }),
+      },
+    });
+
+    return this.mapToFollowRecord(follow);
+  }
+
+  async deleteFollow(followerId: string, traderId: string): Promise<boolean> {
+    const result = await this.prisma.traderFollow.deleteMany({
+      where: { followerId, traderId },
+    });
+
+    return result.count > 0;
+  }
+
+  async findFollowsByFollower(followerId: string): Promise<FollowRecord[]> {
+    const follows = await this.prisma.traderFollow.findMany({
+      where: { followerId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return follows.map(follow => this.mapToFollowRecord(follow));
+  }
+
+  async findActiveFollows(traderId: string): Promise<FollowRecord[]> {
+    const follows = await this.prisma.traderFollow.findMany({
+      where: { traderId, status: 'ACTIVE' },
+    });
+
+    return follows.map(follow => this.mapToFollowRecord(follow));
+  }
+
+  async findFollowedTraderIds(followerId: string, traderIds?: string[]): Promise<Set<string>> {
+    const follows = await this.prisma.traderFollow.findMany({
+      where: {
+        followerId,
+        ...(traderIds && { traderId: { in: traderIds } }),
+      },
+      select: { traderId: true },
+    });
+
+    return new Set(follows.map(follow => follow.traderId));
+  }
+
+  async findFollowers(traderId: string): Promise<TraderSummary[]> {
+    const follows = await this.prisma.traderFollow.findMany({
+      where: { traderId },
+      include: {
+        follower: {
+          select: { id: true, username: true, avatarUrl: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return follows.map(follow => ({
+      id: follow.follower.id,
+      username: follow.follower.username,
+      avatar: follow.follower.avatarUrl,
+      followedAt: follow.createdAt,
+    }));
+  }
+
+  async findFollowing(followerId: string): Promise<TraderSummary[]> {
+    const follows = await this.prisma.traderFollow.findMany({
+      where: { followerId },
+      include: {
+        trader: {
+          select: { id: true, username: true, avatarUrl: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return follows.map(follow => ({
+      id: follow.trader.id,
+      username: follow.trader.username,
+      avatar: follow.trader.avatarUrl,
+      followedAt: follow.createdAt,
+    }));
+  }
+
+  // ===================
+  // POSTS
+  // ===================
+
+  async createPost(data: CreateSocialPostData): Promise<SocialPostWithDetails> {
+    const post = await this.prisma.socialPost.create({
+      data: {
+        userId: data.userId,
+        type: data.type.toUpperCase() as DbSocialPostType,
+        content: data.content || null,
+        symbol: data.symbol || null,
+        side: data.side || null,
+        quantity: data.quantity ?? null,
+        price: data.price ?? null,
+        pnl: data.pnl ?? null,
+        tags: data.tags || [],
+      },
+      include: {
+        user: { select: postUserSelect },
+        _count: { select: { likes: true, comments: true } },
+      },
+    });
+
+    return this.mapToSocialPostWithDetails(post, false);
+  }
+
+  async findPostById(id: string, viewerId: string): Promise<SocialPostWithDetails | null> {
+    const post = await this.prisma.socialPost.findUnique({
+      where: { id },
+      include: {
+        user: { select: postUserSelect },
+        likes: { where: { userId: viewerId }, select: { userId: true } },
+        _count: { select: { likes: true, comments: true } },
+      },
+    });
+
+    return post ? this.mapToSocialPostWithDetails(post, post.likes.length > 0) : null;
+  }
+
+  async findFeed(query: FeedQuery): Promise<SocialPostWithDetails[]> {
+    const posts = await this.prisma.socialPost.findMany({
+      where: {
+        ...(query.userIds && { userId: { in: query.userIds } }),
+        ...(query.types && {
+          type: { in: query.types.map(type => type.toUpperCase() as DbSocialPostType) },
+        }),
+      },
+      include: {
+        user: { select: postUserSelect },
+        likes: { where: { userId: query.viewerId }, select: { userId: true } },
+        _count: { select: { likes: true, comments: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: query.offset,
+      take: query.limit,
+    });
+
+    return posts.map(post => this.mapToSocialPostWithDetails(post, post.likes.length > 0));
+  }
+
+  async deletePost(id: string): Promise<void> {
+    await this.prisma.socialPost.delete({
+      where: { id },
+    });
+  }
+
+  async likePost(postId: string, userId: string): Promise<number> {
+    await this.prisma.postLike.createMany({
+      data: [{ postId, userId }],
+      skipDuplicates: true,
+    });
+
+    return this.prisma.postLike.count({ where: { postId } });
+  }
+
+  async unlikePost(postId: string, userId: string): Promise<number> {
+    await this.prisma.postLike.deleteMany({
+      where: { postId, userId },
+    });
+
+    return this.prisma.postLike.count({ where: { postId } });
+  }
+
+  async createComment(postId: string, userId: string, content: string): Promise<PostCommentWithDetails> {
+    const comment = await this.prisma.postComment.create({
+      data: { postId, userId, content },
+      include: {
+        user: { select: { username: true, avatarUrl: true } },
+      },
+    });
+
+    return this.mapToPostCommentWithDetails(comment);
+  }
+
+  async findComments(postId: string, offset: number, limit: number): Promise<PostCommentWithDetails[]> {
+    const comments = await this.prisma.postComment.findMany({
+      where: { postId },
+      include: {
+        user: { select: { username: true, avatarUrl: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      skip: offset,
+      take: limit,
+    });
+
+    return comments.map(comment => this.mapToPostCommentWithDetails(comment));
+  }
+
+  // ===================
+  // RATINGS
+  // ===================
+
+  async upsertRating(data: UpsertRatingData): Promise<TraderRatingWithDetails> {
+    const scores = {
+      overall: data.overall,
+      performance: data.performance,
+      riskManagement: data.riskManagement,
+      communication: data.communication,
+      comment: data.comment || null,
+    };
+
+    const rating = await this.prisma.traderRating.upsert({
+      where: { traderId_reviewerId: { traderId: data.traderId, reviewerId: data.reviewerId } },
+      create: {
+        traderId: data.traderId,
+        reviewerId: data.reviewerId,
+        ...scores,
+      },
+      update: scores,
+      include: {
+        reviewer: { select: { username: true, avatarUrl: true } },
+      },
+    });
+
+    return this.mapToTraderRatingWithDetails(rating);
+  }
+
+  async findRatings(traderId: string, take: number): Promise<TraderRatingWithDetails[]> {
+    const ratings = await this.prisma.traderRating.findMany({
+      where: { traderId },
+      include: {
+        reviewer: { select: { username: true, avatarUrl: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take,
+    });
+
+    return ratings.map(rating => this.mapToTraderRatingWithDetails(rating));
+  }
+
+  async getRatingAggregates(traderIds: string[]): Promise<Map<string, RatingAggregate>> {
+    const aggregates = new Map<string, RatingAggregate>();
+    if (traderIds.length === 0) return aggregates;
+
+    const groups = await this.prisma.traderRating.groupBy({
+      by: ['traderId'],
+      where: { traderId: { in: traderIds } },
+      _avg: {
+        overall: true,
+        performance: true,
+        riskManagement: true,
+        communication: true,
+      },
+      _count: { id: true },
+    });
+
+    for (const group of groups) {
+      aggregates.set(group.traderId, {
+        average: group._avg.overall ?? 0,
+        count: group._count.id,
+        performance: group._avg.performance ?? 0,
+        riskManagement: group._avg.riskManagement ?? 0,
+        communication: group._avg.communication ?? 0,
+      });
+    }
+
+    return aggregates;
+  }
+
+  private mapToTraderRecord(user: any): TraderRecord {
+    const stats = user.userStats;
+
+    return {
+      id: user.id,
+      username: user.username,
+      avatarUrl: user.avatarUrl,
+      bio: user.bio,
+      specialties: user.specialties || [],
+      tradingStyle: user.tradingStyle,
+      emailVerified: user.emailVerified,
+      createdAt: user.createdAt,
+      followerCount: user._count?.followers ?? 0,
+      followingCount: user._count?.following ?? 0,
+      stats: stats
+        ? {
+            totalTrades: stats.totalTrades,
+            winRate: Number(stats.winRate),
+            totalPnl: Number(stats.totalPnl),
+            profitFactor: Number(stats.profitFactor),
+            sharpeRatio: Number(stats.sharpeRatio),
+            averageHoldTime: Number(stats.averageHoldTime),
+            maxDrawdown: Number(stats.maxDrawdown),
+          }
+        : null,
+    };
+  }
+
+  private mapToFollowRecord(follow: any): FollowRecord {
+    return {
+      id: follow.id,
+      followerId: follow.followerId,
+      traderId: follow.traderId,
+      copySettings: follow.copySettings as CopySettings | null,
+      status: follow.status === 'PAUSED' ? 'paused' : 'active',
+      createdAt: follow.createdAt,
+    };
+  }
+
+  private mapToSocialPostWithDetails(post: any, liked: boolean): SocialPostWithDetails {
+    return {
+      id: post.id,
+      userId: post.userId,
+      user: {
+        username: post.user.username,
+        displayName: post.user.username,
+        avatar: post.user.avatarUrl,
+        verified: post.user.emailVerified,
+      },
+      type: post.type.toLowerCase() as SocialPostType,
+      content: {
+        text: post.content,
+        ...(post.symbol && {
+          trade: {
+            symbol: post.symbol,
+            side: post.side as TradeSide | null,
+            quantity: post.quantity !== null ? Number(post.quantity) : null,
+            price: post.price !== null ? Number(post.price) : null,
+            pnl: post.pnl !== null ? Number(post.pnl) : null,
+          },
+        }),
+      },
+      timestamp: post.createdAt,
+      likes: post._count.likes,
+      comments: post._count.comments,
+      shares: 0,
+      liked,
+      tags: post.tags,
+    };
+  }
+
+  private mapToPostCommentWithDetails(comment: any): PostCommentWithDetails {
+    return {
+      id: comment.id,
+      postId: comment.postId,
+      userId: comment.userId,
+      content: comment.content,
+      timestamp: comment.createdAt,
+      user: {
+        username: comment.user.username,
+        avatar: comment.user.avatarUrl,
+      },
+    };
+  }
+
+  private mapToTraderRatingWithDetails(rating: any): TraderRatingWithDetails {
+    return {
+      id: rating.id,
+      traderId: rating.traderId,
+      reviewerId: rating.reviewerId,
+      reviewer: {
+        username: rating.reviewer.username,
+        avatar: rating.reviewer.avatarUrl,
+      },
+      overall: rating.overall,
+      performance: rating.performance,
+      riskManagement: rating.riskManagement,
+      communication: rating.communication,
+      comment: rating.comment,
+      timestamp: rating.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { PrismaClient } from '@golden-palace/database';
+import type {
+  CreateStressScenarioInput,
+  StressScenario,
+  TimeHorizon,
+  UpdateStressScenarioInput
+} from '@golden-palace/shared';
+
+export class StressScenarioRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(userId: string, data: CreateStressScenarioInput): Promise<StressScenario> {
+    const scenario = await this.prisma.stressScenario.create({
+      data: {
+        userId,
+        name: data.name,
+        description: data.description ?? null,
+        marketChange: data.marketChange,
+        volatilityMultiplier: data.volatilityMultiplier,
+        correlationShock: data.correlationShock,
+        duration: data.duration,
+        assetShocks: data.assetShocks ?? {}
+      }
+    });
+
+    return this.mapToScenario(scenario);
+  }
+
+  async findById(id: string): Promise<(StressScenario & { userId: string }) | null> {
+    const scenario = await this.prisma.stressScenario.findUnique({ where: { id } });
+    return scenario ? { ...this.mapToScenario(scenario), userId: scenario.userId } : null;
+  }
+
+  async findByUserIdAndName(userId: string, name: string): Promise<StressScenario | null> {
+    const scenario = await this.prisma.stressScenario.findUnique({
+      where: { userId_name: { userId, name } }
+    });
+
+    return scenario ? this.mapToScenario(scenario) : null;
+  }
+
+  async findByUserId(userId: string): Promise<StressScenario[]> {
+    const scenarios = await this.prisma.stressScenario.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+
+    return scenarios.map(scenario => this.mapToScenario(scenario));
+  }
+
+  async update(id: string, data: UpdateStressScenarioInput): Promise<StressScenario> {
+    const scenario = await this.prisma.stressScenario.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.marketChange !== undefined && { marketChange: data.marketChange }),
+        ...(data.volatilityMultiplier !== undefined && { volatilityMultiplier: data.volatilityMultiplier }),
+        ...(data.correlationShock !== undefined && { correlationShock: data.correlationShock }),
+        ...(data.duration !== undefined && { duration: data.duration }),
+        ...(data.assetShocks !== undefined && { assetShocks: data.assetShocks })
+      }
+    });
+
+    return this.mapToScenario(scenario);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.stressScenario.delete({ where: { id } });
+  }
+
+  private mapToScenario(scenario: any): StressScenario {
+    return {
+      id: scenario.id,
+      name: scenario.name,
+      ...(scenario.description && { description: scenario.description }),
+      marketChange: Number(scenario.marketChange),
+      volatilityMultiplier: Number(scenario.volatilityMultiplier),
+      correlationShock: Number(scenario.correlationShock),
+      duration: scenario.duration as TimeHorizon,
+      assetShocks: (scenario.assetShocks ?? {}) as StressScenario['assetShocks'],
+      builtIn: false,
+      createdAt: scenario.createdAt,
+      updatedAt: scenario.updatedAt
+    };
+  }
+}
@@ -357,6 +357,19 @@ export class TradeIdeaRepository {
     return this.findByGroupId('', { ...options, symbol });
   }
 
+  /**
+   * Distinct symbols of active trade ideas.
+   */
+  async findActiveSymbols(): Promise<string[]> {
+    const ideas = await this.prisma.tradeIdea.findMany({
+      where: { status: 'ACTIVE' },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return ideas.map(idea => idea.symbol);
+  }
+
   async findActiveIdeas(symbols?: string[]): Promise<TradeIdeaWithDetails[]> {
     const where: any = {
       status: 'ACTIVE',
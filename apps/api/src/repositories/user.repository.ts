@@ -87,6 +87,30 @@ export class UserRepository {
     });
   }
 
+  /**
+   * Removes a recovery code hash only if it is still stored, so two logins racing with
+   * the same code cannot both use it. Returns whether this call consumed it.
+   */
+  async consumeRecoveryCode(id: string, codeHash: string, remaining: string[]): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+      where: { id, twoFactorRecoveryCodes: { has: codeHash } },
+      data: { twoFactorRecoveryCodes: remaining }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Records a TOTP time step only if it is later than the last accepted one, so a code
+   * works once even when two requests race with it. Returns whether this call recorded it.
+   */
+  async recordTotpStep(id: string, step: number): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+      where: { id, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+      data: { twoFactorLastStep: step }
+    });
+    return result.count === 1;
+  }
+
   async delete(id: string): Promise<void> {
     await prisma.user.delete({
       where: { id }
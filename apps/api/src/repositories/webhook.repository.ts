@@ -0,0 +1,233 @@
+import { PrismaClient } from '@golden-palace/database';
+import type { Prisma } from '@golden-palace/database';
+import type {
+  GetWebhookDeliveriesQuery,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookWithSecret
+} from '@golden-palace/shared';
+
+export interface CreateWebhookData {
+  userId: string;
+  groupId?: string | undefined;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string | undefined;
+}
+
+export interface UpdateWebhookData {
+  url?: string | undefined;
+  events?: string[] | undefined;
+  description?: string | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface CreateWebhookDeliveryData {
+  webhookId: string;
+  event: string;
+  payload: WebhookPayload;
+  // When the retry job may pick it up if the first attempt never records an outcome
+  nextAttemptAt: Date;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+}
+
+export type WebhookDeliveryWithWebhook = WebhookDelivery & { webhook: WebhookWithSecret };
+
+export class WebhookRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: CreateWebhookData): Promise<WebhookWithSecret> {
+    const webhook = await this.prisma.webhook.create({
+      data: {
+        userId: data.userId,
+        url: data.url,
+        secret: data.secret,
+        events: data.events,
+        ...(data.groupId && { groupId: data.groupId }),
+        ...(data.description !== undefined && { description: data.description }),
+      },
+    });
+
+    return this.mapToWebhook(webhook);
+  }
+
+  async findById(id: string): Promise<WebhookWithSecret | null> {
+    const webhook = await this.prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    return webhook ? this.mapToWebhook(webhook) : null;
+  }
+
+  async findByUserId(userId: string): Promise<WebhookWithSecret[]> {
+    const webhooks = await this.prisma.webhook.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return webhooks.map(webhook => this.mapToWebhook(webhook));
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return this.prisma.webhook.count({
+      where: { userId },
+    });
+  }
+
+  async update(id: string, data: UpdateWebhookData): Promise<WebhookWithSecret> {
+    const webhook = await this.prisma.webhook.update({
+      where: { id },
+      data: {
+        ...(data.url !== undefined && { url: data.url }),
+        ...(data.events !== undefined && { events: data.events }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+
+    return this.mapToWebhook(webhook);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.webhook.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Active webhooks subscribed to the event: personal ones belonging to any of the users, and
+   * group ones registered on the group.
+   */
+  async findSubscribers(event: string, userIds: string[], groupId?: string): Promise<WebhookWithSecret[]> {
+    const scopes: Prisma.WebhookWhereInput[] = [];
+    if (userIds.length > 0) {
+      scopes.push({ groupId: null, userId: { in: userIds } });
+    }
+    if (groupId) {
+      scopes.push({ groupId });
+    }
+    if (scopes.length === 0) {
+      return [];
+    }
+
+    const webhooks = await this.prisma.webhook.findMany({
+      where: {
+        isActive: true,
+        events: { has: event },
+        OR: scopes,
+      },
+    });
+
+    return webhooks.map(webhook => this.mapToWebhook(webhook));
+  }
+
+  async createDelivery(data: CreateWebhookDeliveryData): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        webhookId: data.webhookId,
+        event: data.event,
+        payload: data.payload as unknown as Prisma.InputJsonValue,
+        nextAttemptAt: data.nextAttemptAt,
+      },
+    });
+
+    return this.mapToDelivery(delivery);
+  }
+
+  async recordAttempt(id: string, result: WebhookAttemptResult): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: result,
+    });
+
+    return this.mapToDelivery(delivery);
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first, with their webhook so they can be
+   * signed and sent.
+   */
+  async findDueDeliveries(now: Date, limit: number): Promise<WebhookDeliveryWithWebhook[]> {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+        // Retries wait while the webhook is switched off
+        webhook: { isActive: true },
+      },
+      include: { webhook: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    return deliveries.map(delivery => ({
+      ...this.mapToDelivery(delivery),
+      webhook: this.mapToWebhook(delivery.webhook),
+    }));
+  }
+
+  async findDeliveries(
+    webhookId: string,
+    query: GetWebhookDeliveriesQuery
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const where = {
+      webhookId,
+      ...(query.status && { status: query.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries: deliveries.map(delivery => this.mapToDelivery(delivery)), total };
+  }
+
+  private mapToWebhook(webhook: any): WebhookWithSecret {
+    return {
+      id: webhook.id,
+      userId: webhook.userId,
+      groupId: webhook.groupId,
+      url: webhook.url,
+      secret: webhook.secret,
+      events: webhook.events,
+      description: webhook.description,
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+  }
+
+  private mapToDelivery(delivery: any): WebhookDelivery {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      error: delivery.error,
+      nextAttemptAt: delivery.nextAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
@@ -292,9 +292,10 @@ describe('Auth Routes Integration Tests', () => {
 
   describe('POST /api/auth/logout', () => {
     let accessToken: string;
+    let refreshToken: string;
 
     beforeEach(async () => {
-      // Create user and get access token
+      // Create user and get tokens
       const registerData: RegisterInput = {
         email: 'test@example.com',
         username: 'testuser',
@@ -306,35 +307,57 @@ describe('Auth Routes Integration Tests', () => {
         .send(registerData);
 
       accessToken = registerResponse.body.data.tokens.accessToken;
+      refreshToken = registerResponse.body.data.tokens.refreshToken;
     });
 
-    it('should logout successfully with valid token', async () => {
+    it('should logout and revoke the refresh token', async () => {
       const response = await request(app)
         .post('/api/auth/logout')
-        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken })
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.message).toBe('Logged out successfully');
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(refreshResponse.body.error).toBe('Refresh token has been revoked');
     });
 
-    it('should fail without authorization header', async () => {
+    it('should fail without a refresh token', async () => {
       const response = await request(app)
         .post('/api/auth/logout')
-        .expect(401);
+        .expect(400);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Authentication required');
+      expect(response.body.error).toBe('Refresh token is required');
     });
 
-    it('should fail with invalid token', async () => {
+    it('should sign out of all devices', async () => {
       const response = await request(app)
-        .post('/api/auth/logout')
-        .set('Authorization', 'Bearer invalid-token')
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.sessionsRevoked).toBe(1);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should require authentication to sign out of all devices', async () => {
+      const response = await request(app)
+        .post('/api/auth/logout-all')
         .expect(401);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Invalid token');
+      expect(response.body.error).toContain('Authentication required');
     });
   });
 
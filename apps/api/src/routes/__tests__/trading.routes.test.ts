@@ -7,6 +7,7 @@ import { TradeIdeaService } from '../../services/tradeIdea.service';
 import { PortfolioService } from '../../services/portfolio.service';
 import { TradeExecutionService } from '../../services/tradeExecution.service';
 import type { User, Group } from '@golden-palace/database';
+import { prisma } from '../../lib/prisma';
 
 describe('Trading Routes Integration Tests', () => {
   let request: supertest.SuperTest<supertest.Test>;
@@ -753,6 +754,9 @@ describe('Trading Routes Integration Tests', () => {
           stopLoss: 145.00,
           takeProfit: 160.00,
         });
+
+      // Only simulators and admins may push their own quotes
+      await prisma.user.update({ where: { id: testUser.id }, data: { role: 'SIMULATOR' } });
     });
 
     it('should process market update successfully', async () => {
@@ -826,6 +830,18 @@ describe('Trading Routes Integration Tests', () => {
         .send(marketData)
         .expect(401);
     });
+
+    it('should reject quotes from users without the simulator role', async () => {
+      await prisma.user.update({ where: { id: testUser.id }, data: { role: 'USER' } });
+
+      const response = await request
+        .post('/api/trading/market-update')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ quotes: [] })
+        .expect(403);
+
+      expect(response.body.error).toBe('Insufficient permissions');
+    });
   });
 
   describe('GET /api/trading/groups/:groupId/performance', () => {
@@ -0,0 +1,79 @@
+import express from 'express';
+import { AchievementService } from '../services/achievement.service';
+import { NotificationService } from '../services/notification.service';
+import { GamificationService } from '../services/gamification.service';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { GamificationRepository } from '../repositories/gamification.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
+
+const router = express.Router();
+
+// Initialize repositories and services
+const achievementRepository = new AchievementRepository(prisma);
+const gamificationRepository = new GamificationRepository(prisma);
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const achievementService = new AchievementService(achievementRepository, userNotifier, notificationService);
+const gamificationService = new GamificationService(gamificationRepository, achievementService);
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+/**
+ * @route GET /api/achievements
+ * @desc Get the achievement catalog with the current user's progress and unlock times.
+ *       Achievements earned since the last trade event (e.g. new followers) are unlocked first.
+ * @access Private
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    await gamificationService.evaluateAchievements(userId);
+    const result = await achievementService.getAchievements(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/achievements/unlocked
+ * @desc Get the current user's unlocked achievements, oldest first
+ * @access Private
+ */
+router.get('/unlocked', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await achievementService.getUnlocked(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+export const achievementRoutes = router;
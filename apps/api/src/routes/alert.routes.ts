@@ -0,0 +1,197 @@
+import express from 'express';
+import { AlertService } from '../services/alert.service';
+import { AlertRepository } from '../repositories/alert.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import {
+  createAlertSchema,
+  updateAlertSchema,
+  getAlertsQuerySchema,
+  type CreateAlertInput,
+  type UpdateAlertInput
+} from '@golden-palace/shared';
+
+const router = express.Router();
+
+// Initialize repositories and services
+const alertService = new AlertService(new AlertRepository(prisma));
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+const validationMiddleware = new ValidationMiddleware();
+
+const alertErrorStatus = (error?: string): number => {
+  if (error === 'Alert not found') return 404;
+  if (error === 'Active alert limit reached') return 429;
+  if (error?.startsWith('Only active alerts')) return 409;
+  if (error?.startsWith('Failed to')) return 500;
+  return 400;
+};
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+/**
+ * @route GET /api/alerts
+ * @desc Get the current user's alerts, newest first, optionally filtered by status and symbol
+ * @access Private
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const query = getAlertsQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed',
+      });
+    }
+
+    const result = await alertService.getAlerts(userId, query.data);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/alerts
+ * @desc Create a price, percent change or volume alert. Each user may hold a limited number of
+ *       active alerts at once.
+ * @access Private
+ */
+router.post('/', validationMiddleware.validate(createAlertSchema), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const input: CreateAlertInput = req.body;
+
+    const result = await alertService.createAlert(userId, input);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.status(201).json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/alerts/:id
+ * @desc Get one of the current user's alerts
+ * @access Private
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await alertService.getAlert(userId, id);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route PUT /api/alerts/:id
+ * @desc Change the target price, threshold or message of an active alert
+ * @access Private
+ */
+router.put('/:id', validationMiddleware.validate(updateAlertSchema), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    // The validation middleware widens the route params, so name the one this route declares
+    const { id } = req.params as { id: string };
+    const input: UpdateAlertInput = req.body;
+
+    const result = await alertService.updateAlert(userId, id, input);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/alerts/:id/cancel
+ * @desc Cancel an active alert, keeping it in the user's history
+ * @access Private
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await alertService.cancelAlert(userId, id);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/alerts/:id
+ * @desc Delete an alert of any status
+ * @access Private
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await alertService.deleteAlert(userId, id);
+
+    if (!result.success) {
+      return res.status(alertErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+export const alertRoutes = router;
@@ -3,8 +3,12 @@ import { AuthService } from '../services/auth.service';
 import { UserRepository } from '../repositories/user.repository';
 import { HashService } from '../services/hash.service';
 import { TokenService } from '../services/token.service';
+import { RefreshTokenService } from '../services/refreshToken.service';
+import { TotpService } from '../services/totp.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { redis } from '../services/redis.service';
 import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
-import type { RegisterInput, LoginInput } from '@golden-palace/shared';
+import { twoFactorLoginSchema, twoFactorCodeInputSchema, type RegisterInput, type LoginInput } from '@golden-palace/shared';
 
 const router = Router();
 
@@ -12,7 +16,9 @@ const router = Router();
 const userRepository = new UserRepository();
 const hashService = new HashService();
 const tokenService = new TokenService();
-const authService = new AuthService(userRepository, hashService, tokenService);
+const refreshTokenService = new RefreshTokenService(redis, tokenService.getRefreshTokenExpiry());
+const twoFactorService = new TwoFactorService(userRepository, new TotpService(), redis);
+const authService = new AuthService(userRepository, hashService, tokenService, refreshTokenService, twoFactorService);
 const authMiddleware = new AuthMiddleware(tokenService, userRepository);
 
 // Validation helpers
@@ -141,6 +147,39 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/auth/2fa/verify
+// Second login step: trades the challenge token from /login and an authenticator or recovery code for tokens
+router.post('/2fa/verify', async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorLoginSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await authService.completeTwoFactorLogin(validation.data);
+
+    if (!result.success) {
+      return res.status(401).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // POST /api/auth/refresh
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
@@ -175,10 +214,27 @@ router.post('/refresh', async (req: Request, res: Response) => {
 });
 
 // POST /api/auth/logout
-router.post('/logout', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+// Identified by the refresh token alone so clients can still log out once their access token has expired
+router.post('/logout', async (req: Request, res: Response) => {
   try {
-    // In a real implementation, you might want to blacklist the token
-    // For now, we'll just return success since JWTs are stateless
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Refresh token is required'
+      });
+    }
+
+    const result = await authService.logout(refreshToken);
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error
+      });
+    }
+
     return res.status(200).json({
       success: true,
       message: 'Logged out successfully'
@@ -191,6 +247,187 @@ router.post('/logout', authMiddleware.authenticate, async (req: AuthenticatedReq
   }
 });
 
+// POST /api/auth/logout-all
+router.post('/logout-all', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const result = await authService.logoutAll(req.user.id);
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data,
+      message: 'Signed out of all devices'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /api/auth/2fa/setup
+router.post('/2fa/setup', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const result = await twoFactorService.setup(req.user.id);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /api/auth/2fa/enable
+router.post('/2fa/enable', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = twoFactorCodeInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await twoFactorService.enable(req.user.id, validation.data.code);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data,
+      message: 'Two-factor authentication enabled'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /api/auth/2fa/disable
+router.post('/2fa/disable', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = twoFactorCodeInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await twoFactorService.disable(req.user.id, validation.data.code);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes
+router.post('/2fa/recovery-codes', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = twoFactorCodeInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await twoFactorService.regenerateRecoveryCodes(req.user.id, validation.data.code);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // GET /api/auth/me
 router.get('/me', authMiddleware.authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -210,7 +447,7 @@ router.get('/me', authMiddleware.authenticate, async (req: AuthenticatedRequest,
     }
 
     // Remove sensitive data
-    const { passwordHash, ...userResponse } = user;
+    const { passwordHash, twoFactorSecret, twoFactorRecoveryCodes, ...userResponse } = user;
 
     return res.status(200).json({
       success: true,
@@ -2,11 +2,15 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { GroupService } from '../services/group.service';
 import { MessageService } from '../services/message.service';
+import { NotificationService } from '../services/notification.service';
 import { GroupRepository } from '../repositories/group.repository';
 import { MessageRepository } from '../repositories/message.repository';
 import { UserRepository } from '../repositories/user.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
 import { TokenService } from '../services/token.service';
 import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
 import {
   createGroupSchema,
   sendMessageSchema,
@@ -23,8 +27,9 @@ const groupRepository = new GroupRepository();
 const messageRepository = new MessageRepository();
 const tokenService = new TokenService();
 const authMiddleware = new AuthMiddleware(tokenService, userRepository);
-const groupService = new GroupService(groupRepository, userRepository);
-const messageService = new MessageService(messageRepository, groupRepository, userRepository);
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const groupService = new GroupService(groupRepository, userRepository, notificationService);
+const messageService = new MessageService(messageRepository, groupRepository, userRepository, notificationService);
 
 // Validation schemas
 const updateGroupSchema = z.object({
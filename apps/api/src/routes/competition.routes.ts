@@ -4,12 +4,22 @@ import { AuthMiddleware } from '../middleware/auth.middleware';
 import { ValidationMiddleware } from '../middleware/validation.middleware';
 import { CompetitionService } from '../services/competition.service';
 import { CompetitionEntryService } from '../services/competitionEntry.service';
+import { GamificationService } from '../services/gamification.service';
+import { AchievementService } from '../services/achievement.service';
+import { NotificationService } from '../services/notification.service';
+import { WebhookService } from '../services/webhook.service';
 import { CompetitionRepository } from '../repositories/competition.repository';
 import { CompetitionEntryRepository } from '../repositories/competitionEntry.repository';
-import { TradeRepository } from '../repositories/trade.repository';
+import { PaperPositionRepository } from '../repositories/paperPosition.repository';
+import { GamificationRepository } from '../repositories/gamification.repository';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { GroupRepository } from '../repositories/group.repository';
+import { WebhookRepository } from '../repositories/webhook.repository';
 import { UserRepository } from '../repositories/user.repository';
 import { TokenService } from '../services/token.service';
 import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
 import {
   createCompetitionSchema,
   updateCompetitionSchema,
@@ -21,19 +31,28 @@ const validationMiddleware = new ValidationMiddleware();
 
 const competitionRepository = new CompetitionRepository();
 const entryRepository = new CompetitionEntryRepository();
-const tradeRepository = new TradeRepository();
+const gamificationRepository = new GamificationRepository(prisma);
+const achievementRepository = new AchievementRepository(prisma);
 const userRepository = new UserRepository();
 const tokenService = new TokenService();
 const authMiddleware = new AuthMiddleware(tokenService, userRepository);
 
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const webhookService = new WebhookService(new WebhookRepository(prisma), new GroupRepository());
+const achievementService = new AchievementService(achievementRepository, userNotifier, notificationService);
+const gamificationService = new GamificationService(gamificationRepository, achievementService);
+const entryService = new CompetitionEntryService(
+  entryRepository,
+  new PaperPositionRepository(prisma),
+  competitionRepository
+);
 const competitionService = new CompetitionService(
   competitionRepository,
-  entryRepository
-);
-
-const entryService = new CompetitionEntryService(
   entryRepository,
-  tradeRepository
+  undefined,
+  notificationService,
+  webhookService,
+  entryService
 );
 
 router.use(authMiddleware.authenticate);
@@ -324,6 +343,36 @@ router.post(
   }
 );
 
+// The current user's sandboxed account: cash, equity, P&L and ROI from the positions opened in it
+router.get(
+  '/:id/account',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { id } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const account = await entryService.getUserAccount(id, userId);
+
+      res.json({
+        success: true,
+        data: account
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Competition entry not found' ? 404 : 500).json({
+        success: false,
+        error: error.message || 'Failed to get competition account'
+      });
+    }
+  }
+);
+
 router.get(
   '/:id/leaderboard',
   async (req: Request, res: Response) => {
@@ -404,6 +453,8 @@ router.post(
         return res.status(400).json(result);
       }
 
+      await gamificationService.handleCompetitionCompleted(id);
+
       res.json(result);
     } catch (error: any) {
       res.status(500).json({
@@ -673,4 +724,4 @@ router.post(
   }
 );
 
-export const competitionRoutes = router;
\ No newline at end of file
+export { router as competitionRoutes, competitionService };
\ No newline at end of file
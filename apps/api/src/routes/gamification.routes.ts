@@ -0,0 +1,240 @@
+import express from 'express';
+import { GamificationService } from '../services/gamification.service';
+import { AchievementService } from '../services/achievement.service';
+import { NotificationService } from '../services/notification.service';
+import { GamificationRepository } from '../repositories/gamification.repository';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
+import { xpHistoryQuerySchema, gamificationLeaderboardQuerySchema } from '@golden-palace/shared';
+
+const router = express.Router();
+
+// Initialize repositories and services
+const gamificationRepository = new GamificationRepository(prisma);
+const achievementRepository = new AchievementRepository(prisma);
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const achievementService = new AchievementService(achievementRepository, userNotifier, notificationService);
+const gamificationService = new GamificationService(gamificationRepository, achievementService);
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+// XP is only awarded by server-side events (closed trades, posted ideas, finished competitions),
+// so none of these routes accept an XP amount from the client.
+
+/**
+ * @route GET /api/gamification/profile
+ * @desc Get the current user's level, XP, prestige, rank and active boosters
+ * @access Private
+ */
+router.get('/profile', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.getProfile(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/gamification/check-in
+ * @desc Record the daily login and extend the login streak (once per UTC day)
+ * @access Private
+ */
+router.post('/check-in', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.recordDailyLogin(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/gamification/xp/history
+ * @desc Get the current user's XP awards, newest first
+ * @access Private
+ */
+router.get('/xp/history', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const query = xpHistoryQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed',
+      });
+    }
+
+    const result = await gamificationService.getXpHistory(userId, query.data);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/gamification/xp/sources
+ * @desc Get total XP earned per action
+ * @access Private
+ */
+router.get('/xp/sources', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.getXpSources(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/gamification/challenges
+ * @desc Get today's challenges with progress computed from closed trades
+ * @access Private
+ */
+router.get('/challenges', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.getDailyChallenges(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/gamification/quests
+ * @desc Get this week's quests with progress computed from closed trades and competitions
+ * @access Private
+ */
+router.get('/quests', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.getWeeklyQuests(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/gamification/prestige
+ * @desc Reset to level 1 in exchange for a permanent XP multiplier
+ * @access Private
+ */
+router.post('/prestige', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await gamificationService.prestige(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/gamification/leaderboard
+ * @desc Get the global XP leaderboard
+ * @access Private
+ */
+router.get('/leaderboard', async (req, res) => {
+  try {
+    const query = gamificationLeaderboardQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed',
+      });
+    }
+
+    const result = await gamificationService.getLeaderboard(query.data.limit);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+export const gamificationRoutes = router;
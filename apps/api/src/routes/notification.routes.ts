@@ -0,0 +1,158 @@
+import express from 'express';
+import { NotificationService } from '../services/notification.service';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
+import {
+  getNotificationsQuerySchema,
+  updateNotificationPreferencesSchema,
+  type UpdateNotificationPreferencesInput
+} from '@golden-palace/shared';
+
+const router = express.Router();
+
+// Initialize repositories and services
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+const validationMiddleware = new ValidationMiddleware();
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+/**
+ * @route GET /api/notifications
+ * @desc Get the current user's notifications, newest first, with their unread count
+ * @access Private
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const query = getNotificationsQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed',
+      });
+    }
+
+    const result = await notificationService.getNotifications(userId, query.data);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/notifications/preferences
+ * @desc Get which notification types the current user receives
+ * @access Private
+ */
+router.get('/preferences', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await notificationService.getPreferences(userId);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route PUT /api/notifications/preferences
+ * @desc Turn notification types on or off; types left out keep their current setting
+ * @access Private
+ */
+router.put('/preferences', validationMiddleware.validate(updateNotificationPreferencesSchema), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const input: UpdateNotificationPreferencesInput = req.body;
+
+    const result = await notificationService.updatePreferences(userId, input);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/notifications/read-all
+ * @desc Mark all of the current user's notifications as read
+ * @access Private
+ */
+router.post('/read-all', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await notificationService.markAllRead(userId);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/notifications/:id/read
+ * @desc Mark one notification as read
+ * @access Private
+ */
+router.post('/:id/read', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await notificationService.markRead(userId, [id]);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+export const notificationRoutes = router;
@@ -1,5 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { PortfolioService } from '../services/portfolio.service';
+import { PortfolioLedgerService } from '../services/portfolioLedger.service';
+import { RebalanceService } from '../services/rebalance.service';
+import { MarketDataService } from '../services/marketData.service';
+import { CopyTradingService } from '../services/copyTrading.service';
+import { GamificationService } from '../services/gamification.service';
+import { AchievementService } from '../services/achievement.service';
+import { NotificationService } from '../services/notification.service';
+import { WebhookService } from '../services/webhook.service';
+import { CompetitionEntryService } from '../services/competitionEntry.service';
 import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
 import { TokenService } from '../services/token.service';
 import { UserRepository } from '../repositories/user.repository';
@@ -7,7 +16,24 @@ import { PortfolioRepository } from '../repositories/portfolio.repository';
 import { PaperPositionRepository } from '../repositories/paperPosition.repository';
 import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
 import { GroupRepository } from '../repositories/group.repository';
+import { SocialTradingRepository } from '../repositories/socialTrading.repository';
+import { GamificationRepository } from '../repositories/gamification.repository';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { CompetitionRepository } from '../repositories/competition.repository';
+import { CompetitionEntryRepository } from '../repositories/competitionEntry.repository';
+import { AssetRepository } from '../repositories/asset.repository';
+import { PortfolioTransactionRepository } from '../repositories/portfolioTransaction.repository';
 import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
+import {
+  recordTransactionSchema,
+  transactionQuerySchema,
+  costBasisMethodSchema,
+  rebalancePortfolioSchema,
+  rebalancePreviewQuerySchema
+} from '@golden-palace/shared';
 
 const router = Router();
 
@@ -17,12 +43,46 @@ const paperPositionRepository = new PaperPositionRepository(prisma);
 const tradeIdeaRepository = new TradeIdeaRepository(prisma);
 const groupRepository = new GroupRepository(prisma);
 const userRepository = new UserRepository(prisma);
+const socialTradingRepository = new SocialTradingRepository(prisma);
+const gamificationRepository = new GamificationRepository(prisma);
+const achievementRepository = new AchievementRepository(prisma);
+const assetRepository = new AssetRepository();
+const portfolioTransactionRepository = new PortfolioTransactionRepository(prisma);
 
 // Initialize services with dependencies
+const copyTradingService = new CopyTradingService(
+  socialTradingRepository,
+  paperPositionRepository,
+  groupRepository
+);
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const webhookService = new WebhookService(new WebhookRepository(prisma), groupRepository);
+const achievementService = new AchievementService(achievementRepository, userNotifier, notificationService);
+const gamificationService = new GamificationService(gamificationRepository, achievementService);
+const competitionEntryService = new CompetitionEntryService(
+  new CompetitionEntryRepository(),
+  paperPositionRepository,
+  new CompetitionRepository()
+);
 const portfolioService = new PortfolioService(
   paperPositionRepository,
   tradeIdeaRepository,
-  groupRepository
+  groupRepository,
+  copyTradingService,
+  gamificationService,
+  webhookService,
+  competitionEntryService
+);
+const portfolioLedgerService = new PortfolioLedgerService(
+  portfolioRepository,
+  assetRepository,
+  portfolioTransactionRepository
+);
+const rebalanceService = new RebalanceService(
+  portfolioRepository,
+  assetRepository,
+  portfolioLedgerService,
+  new MarketDataService()
 );
 const tokenService = new TokenService();
 const authMiddleware = new AuthMiddleware(tokenService, userRepository);
@@ -61,6 +121,9 @@ router.get('/', authMiddleware.authenticate, async (req: Request, res: Response)
         dayChange: dayChange,
         dayChangePercentage: dayChangePercentage,
         initialBalance: initialBalance,
+        currentBalance: Number(portfolio.cashBalance),
+        realizedPnl: Number(portfolio.realizedPnl),
+        costBasisMethod: portfolio.costBasisMethod,
         currency: portfolio.currency,
         isPublic: portfolio.isPublic,
         portfolioType: portfolio.portfolioType,
@@ -89,6 +152,64 @@ router.get('/', authMiddleware.authenticate, async (req: Request, res: Response)
   }
 });
 
+// GET /api/portfolio/history - Get daily portfolio value history from recorded snapshots
+// Registered before /:id so that "history" is not treated as a portfolio ID
+router.get('/history', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const period = (req.query['period'] as string) || '30d';
+    const portfolioId = req.query['portfolioId'] as string | undefined;
+    const days = parseInt(period) || 30;
+
+    let portfolios = await portfolioRepository.findByUserId(userId);
+    if (portfolioId) {
+      portfolios = portfolios.filter(portfolio => portfolio.id === portfolioId);
+      if (portfolios.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Portfolio not found'
+        });
+      }
+    }
+
+    // Sum snapshot values per day across the selected portfolios
+    const valuesByDate = new Map<string, number>();
+    for (const portfolio of portfolios) {
+      const snapshots = await portfolioRepository.getSnapshots(portfolio.id, days);
+      for (const snapshot of snapshots) {
+        const key = snapshot.date.toISOString();
+        valuesByDate.set(key, (valuesByDate.get(key) || 0) + snapshot.totalValue);
+      }
+    }
+
+    const baseValue = portfolios.reduce((sum, portfolio) => sum + Number(portfolio.initialBalance), 0);
+    const history = Array.from(valuesByDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, value]) => ({
+        date,
+        value: Math.round(value * 100) / 100,
+        profit: Math.round((value - baseValue) * 100) / 100
+      }));
+
+    res.json({
+      success: true,
+      data: history
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message || 'Failed to fetch portfolio history'
+    });
+  }
+});
+
 // GET /api/portfolio/:id - Get specific portfolio
 router.get('/:id', authMiddleware.authenticate, async (req: Request, res: Response) => {
   try {
@@ -127,6 +248,11 @@ router.get('/:id', authMiddleware.authenticate, async (req: Request, res: Respon
       totalReturn: Number(portfolio.totalReturn),
       dayChange: Number(portfolio.dayChange),
       initialBalance: Number(portfolio.initialBalance),
+      currentBalance: Number(portfolio.cashBalance),
+      realizedPnl: Number(portfolio.realizedPnl),
+      costBasisMethod: portfolio.costBasisMethod,
+      strategy: portfolio.allocationStrategy,
+      targetAllocations: portfolio.targetAllocations,
       currency: portfolio.currency,
       isPublic: portfolio.isPublic,
       portfolioType: portfolio.portfolioType,
@@ -188,6 +314,7 @@ router.post('/', authMiddleware.authenticate, async (req: Request, res: Response
       description,
       initialBalance,
       currentValue: initialBalance,
+      cashBalance: initialBalance,
       totalReturn: 0,
       totalReturnPct: 0,
       dayChange: 0,
@@ -212,6 +339,9 @@ router.post('/', authMiddleware.authenticate, async (req: Request, res: Response
       dayChange: Number(portfolio.dayChange),
       dayChangePercentage: 0,
       initialBalance: Number(portfolio.initialBalance),
+      currentBalance: Number(portfolio.cashBalance),
+      realizedPnl: Number(portfolio.realizedPnl),
+      costBasisMethod: portfolio.costBasisMethod,
       currency: portfolio.currency,
       isPublic: portfolio.isPublic,
       portfolioType: portfolio.portfolioType,
@@ -414,42 +544,6 @@ router.get('/paper-trading', authMiddleware.authenticate, async (req: Request, r
   }
 });
 
-// GET /api/portfolio/history - Get portfolio history (placeholder for now)
-router.get('/history', authMiddleware.authenticate, async (req: Request, res: Response) => {
-  try {
-    const userId = (req as any).user.userId;
-    const period = (req.query.period as string) || '30d';
-
-    // Generate mock history data for now
-    const days = parseInt(period) || 30;
-    const history = [];
-    const now = Date.now();
-    const baseValue = 100000;
-
-    for (let i = days; i >= 0; i--) {
-      const date = new Date(now - i * 24 * 60 * 60 * 1000);
-      const randomChange = (Math.random() - 0.48) * 0.02; // -1% to +1.2% daily change
-      const value = baseValue * (1 + randomChange * (days - i));
-
-      history.push({
-        date: date.toISOString(),
-        value: Math.round(value * 100) / 100,
-        profit: Math.round((value - baseValue) * 100) / 100
-      });
-    }
-
-    res.json({
-      success: true,
-      data: history
-    });
-  } catch (error: any) {
-    res.status(error.statusCode || 500).json({
-      success: false,
-      error: error.message || 'Failed to fetch portfolio history'
-    });
-  }
-});
-
 // GET /api/portfolio/performance - Get performance metrics
 router.get('/performance', authMiddleware.authenticate, async (req: Request, res: Response) => {
   try {
@@ -665,7 +759,8 @@ router.post('/:id/assets', authMiddleware.authenticate, async (req: Request, res
       valuationMethod,
       description,
       customAttributes,
-      notes
+      notes,
+      source
     } = req.body;
 
     // Validate required fields
@@ -676,20 +771,64 @@ router.post('/:id/assets', authMiddleware.authenticate, async (req: Request, res
       });
     }
 
+    const details = {
+      name,
+      assetType,
+      subcategory,
+      valuationMethod: valuationMethod || 'MARKET_PRICE',
+      description,
+      customAttributes: customAttributes || {},
+      notes
+    };
+
+    // Symbol holdings go through the ledger, which derives their quantity and cost
+    if (symbol) {
+      if (source !== 'TRANSFER' && source !== 'BUY') {
+        return res.status(400).json({
+          success: false,
+          error: 'Source must be TRANSFER or BUY for holdings with a symbol'
+        });
+      }
+
+      const result = await portfolioLedgerService.addHolding(userId, portfolioId, {
+        symbol,
+        quantity: Number(quantity),
+        averageCost: Number(averageCost),
+        source
+      });
+
+      if (!result.success || !result.data) {
+        return res.status(ledgerErrorStatus(result.error)).json(result);
+      }
+
+      await prisma.portfolioAsset.update({
+        where: { id: result.data.id },
+        data: {
+          ...details,
+          ...(currentPrice && { currentPrice: Number(currentPrice) })
+        }
+      });
+      await portfolioLedgerService.revalue(portfolioId);
+
+      const asset = await prisma.portfolioAsset.findUnique({ where: { id: result.data.id } });
+      return res.status(201).json({
+        success: true,
+        data: asset
+      });
+    }
+
     // Calculate derived fields
     const totalCost = Number(quantity) * Number(averageCost);
     const marketValue = currentPrice ? Number(quantity) * Number(currentPrice) : totalCost;
     const unrealizedGain = marketValue - totalCost;
     const unrealizedGainPct = totalCost > 0 ? (unrealizedGain / totalCost) * 100 : 0;
 
-    // Create the asset
+    // Assets without a symbol, such as manually valued ones, live outside the ledger
     const asset = await prisma.portfolioAsset.create({
       data: {
+        ...details,
         portfolioId,
-        symbol: symbol || '',
-        name,
-        assetType,
-        subcategory,
+        symbol: '',
         quantity: Number(quantity),
         averageCost: Number(averageCost),
         currentPrice: currentPrice ? Number(currentPrice) : Number(averageCost),
@@ -697,28 +836,12 @@ router.post('/:id/assets', authMiddleware.authenticate, async (req: Request, res
         totalCost,
         unrealizedGain,
         unrealizedGainPct,
-        valuationMethod: valuationMethod || 'MARKET_PRICE',
-        description,
-        customAttributes: customAttributes || {},
-        notes,
         lastValuationDate: new Date()
       }
     });
 
-    // Update portfolio current value
-    const assets = await prisma.portfolioAsset.findMany({
-      where: { portfolioId }
-    });
-
-    const newCurrentValue = assets.reduce((sum, asset) => sum + Number(asset.marketValue || 0), 0);
-    const totalReturn = newCurrentValue - Number(portfolio.initialBalance);
-    const totalReturnPct = Number(portfolio.initialBalance) > 0 ? (totalReturn / Number(portfolio.initialBalance)) * 100 : 0;
-
-    await portfolioRepository.update(portfolioId, {
-      currentValue: newCurrentValue,
-      totalReturn,
-      totalReturnPct
-    });
+    // Portfolio value is cash from the ledger plus every asset
+    await portfolioLedgerService.revalue(portfolioId);
 
     res.status(201).json({
       success: true,
@@ -825,41 +948,75 @@ router.put('/:portfolioId/assets/:assetId', authMiddleware.authenticate, async (
       });
     }
 
-    const updateData = req.body;
+    const asset = await prisma.portfolioAsset.findUnique({
+      where: { id: assetId }
+    });
 
-    // Recalculate derived fields if quantity, cost, or price changed
-    if (updateData.quantity || updateData.averageCost || updateData.currentPrice) {
-      const asset = await prisma.portfolioAsset.findUnique({
-        where: { id: assetId }
+    if (!asset || asset.portfolioId !== portfolioId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Asset not found'
       });
+    }
 
-      if (!asset) {
-        return res.status(404).json({
+    const {
+      name,
+      assetType,
+      subcategory,
+      valuationMethod,
+      description,
+      customAttributes,
+      notes
+    } = req.body;
+    const updateData: Record<string, unknown> = {
+      name,
+      assetType,
+      subcategory,
+      valuationMethod,
+      description,
+      customAttributes,
+      notes
+    };
+
+    if (req.body.quantity !== undefined || req.body.averageCost !== undefined) {
+      if (await portfolioLedgerService.isLedgerManaged(portfolioId, asset.symbol)) {
+        return res.status(400).json({
           success: false,
-          error: 'Asset not found'
+          error: 'Quantity and cost of a ledger holding change through transactions'
         });
       }
+    }
 
-      const quantity = updateData.quantity !== undefined ? Number(updateData.quantity) : Number(asset.quantity);
-      const averageCost = updateData.averageCost !== undefined ? Number(updateData.averageCost) : Number(asset.averageCost);
-      const currentPrice = updateData.currentPrice !== undefined ? Number(updateData.currentPrice) : Number(asset.currentPrice || asset.averageCost);
+    // Recalculate derived fields if quantity, cost, or price changed
+    if (req.body.quantity || req.body.averageCost || req.body.currentPrice) {
+      const quantity = req.body.quantity !== undefined ? Number(req.body.quantity) : Number(asset.quantity);
+      const averageCost = req.body.averageCost !== undefined ? Number(req.body.averageCost) : Number(asset.averageCost);
+      const currentPrice = req.body.currentPrice !== undefined ? Number(req.body.currentPrice) : Number(asset.currentPrice || asset.averageCost);
 
       const totalCost = quantity * averageCost;
       const marketValue = quantity * currentPrice;
       const unrealizedGain = marketValue - totalCost;
       const unrealizedGainPct = totalCost > 0 ? (unrealizedGain / totalCost) * 100 : 0;
 
-      updateData.totalCost = totalCost;
-      updateData.marketValue = marketValue;
-      updateData.unrealizedGain = unrealizedGain;
-      updateData.unrealizedGainPct = unrealizedGainPct;
-      updateData.lastValuationDate = new Date();
+      Object.assign(updateData, {
+        quantity,
+        averageCost,
+        currentPrice,
+        totalCost,
+        marketValue,
+        unrealizedGain,
+        unrealizedGainPct,
+        lastValuationDate: new Date()
+      });
     }
 
-    const updatedAsset = await prisma.portfolioAsset.update({
+    await prisma.portfolioAsset.update({
       where: { id: assetId },
       data: updateData
     });
+    await portfolioLedgerService.revalue(portfolioId);
+
+    const updatedAsset = await prisma.portfolioAsset.findUnique({ where: { id: assetId } });
 
     res.json({
       success: true,
@@ -896,25 +1053,31 @@ router.delete('/:portfolioId/assets/:assetId', authMiddleware.authenticate, asyn
       });
     }
 
-    await prisma.portfolioAsset.delete({
+    const asset = await prisma.portfolioAsset.findUnique({
       where: { id: assetId }
     });
 
-    // Update portfolio current value after deletion
-    const assets = await prisma.portfolioAsset.findMany({
-      where: { portfolioId }
-    });
+    if (!asset || asset.portfolioId !== portfolioId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Asset not found'
+      });
+    }
 
-    const newCurrentValue = assets.reduce((sum, asset) => sum + Number(asset.marketValue || 0), 0);
-    const totalReturn = newCurrentValue - Number(portfolio.initialBalance);
-    const totalReturnPct = Number(portfolio.initialBalance) > 0 ? (totalReturn / Number(portfolio.initialBalance)) * 100 : 0;
+    if (await portfolioLedgerService.isLedgerManaged(portfolioId, asset.symbol)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Record a sell transaction to remove a ledger holding'
+      });
+    }
 
-    await portfolioRepository.update(portfolioId, {
-      currentValue: newCurrentValue,
-      totalReturn,
-      totalReturnPct
+    await prisma.portfolioAsset.delete({
+      where: { id: assetId }
     });
 
+    // Update portfolio current value after deletion
+    await portfolioLedgerService.revalue(portfolioId);
+
     res.json({
       success: true,
       message: 'Asset deleted successfully'
@@ -928,4 +1091,207 @@ router.delete('/:portfolioId/assets/:assetId', authMiddleware.authenticate, asyn
   }
 });
 
+// Ledger errors name the failed check; map the access ones to their HTTP status
+const ledgerErrorStatus = (error?: string): number => {
+  if (error === 'Portfolio not found') return 404;
+  if (error === 'Access denied') return 403;
+  return 400;
+};
+
+// GET /api/portfolio/:id/transactions - Get the portfolio's transaction ledger, newest first
+router.get('/:id/transactions', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const query = transactionQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await portfolioLedgerService.getTransactions(userId, req.params.id, query.data);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch transactions'
+    });
+  }
+});
+
+// POST /api/portfolio/:id/transactions - Append a transaction to the ledger
+router.post('/:id/transactions', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = recordTransactionSchema.safeParse({ ...req.body, portfolioId: req.params.id });
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await portfolioLedgerService.recordTransaction(userId, validation.data);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to record transaction'
+    });
+  }
+});
+
+// GET /api/portfolio/:id/ledger - Get cash, realized P&L and cost-basis lots derived from the ledger
+router.get('/:id/ledger', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const result = await portfolioLedgerService.getLedger(userId, req.params.id);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch ledger'
+    });
+  }
+});
+
+// PUT /api/portfolio/:id/cost-basis - Switch between FIFO, LIFO and average-cost lot selection
+router.put('/:id/cost-basis', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = costBasisMethodSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await portfolioLedgerService.setCostBasisMethod(userId, req.params.id, validation.data.method);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to change cost basis method'
+    });
+  }
+});
+
+// GET /api/portfolio/:id/rebalance - Preview trades for the stored target allocation
+router.get('/:id/rebalance', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const query = rebalancePreviewQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await rebalanceService.preview(userId, req.params.id, query.data);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to preview rebalance'
+    });
+  }
+});
+
+// POST /api/portfolio/:id/rebalance - Set the target allocation and plan (or apply) the trades to reach it
+router.post('/:id/rebalance', authMiddleware.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const validation = rebalancePortfolioSchema.safeParse({ ...req.body, portfolioId: req.params.id });
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Validation failed'
+      });
+    }
+
+    const result = await rebalanceService.rebalance(userId, validation.data);
+
+    if (!result.success) {
+      return res.status(ledgerErrorStatus(result.error)).json(result);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to rebalance portfolio'
+    });
+  }
+});
+
 export const portfolioRoutes = router;
\ No newline at end of file
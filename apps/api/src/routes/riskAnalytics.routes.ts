@@ -3,17 +3,34 @@ import type { Request, Response } from 'express';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 import { ValidationMiddleware } from '../middleware/validation.middleware';
 import { RiskAnalyticsService } from '../services/riskAnalytics.service';
+import { RiskLimitService } from '../services/riskLimit.service';
+import { renderRiskReportCsv, renderRiskReportPdf } from '../services/riskReportRenderer';
 import { RiskMetricsRepository } from '../repositories/riskMetrics.repository';
+import { RiskLimitRepository } from '../repositories/riskLimit.repository';
+import { StressScenarioService } from '../services/stressScenario.service';
+import { StressScenarioRepository } from '../repositories/stressScenario.repository';
 import { PortfolioRepository } from '../repositories/portfolio.repository';
 import { AssetRepository } from '../repositories/asset.repository';
 import { MarketDataService } from '../services/marketData.service';
 import { TokenService } from '../services/token.service';
 import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import { portfolioNotifier } from '../websocket/portfolioNotifier';
 import {
   calculateRiskSchema,
   stressTestSchema,
   riskLimitsSchema,
-  riskReportSchema
+  riskReportSchema,
+  riskBreachQuerySchema,
+  correlationMatrixQuerySchema,
+  varBacktestQuerySchema,
+  benchmarkQuerySchema,
+  setBenchmarkSchema,
+  createStressScenarioSchema,
+  updateStressScenarioSchema,
+  RETURN_DISTRIBUTIONS,
+  type RiskReportInput,
+  type StressTestInput
 } from '@golden-palace/shared';
 
 
@@ -29,13 +46,35 @@ const userRepository = new UserRepository();
 const tokenService = new TokenService();
 const authMiddleware = new AuthMiddleware(tokenService, userRepository);
 
+const riskLimitService = new RiskLimitService(
+  new RiskLimitRepository(prisma),
+  riskMetricsRepository,
+  portfolioRepository,
+  assetRepository,
+  portfolioNotifier
+);
+const stressScenarioService = new StressScenarioService(new StressScenarioRepository(prisma));
 const riskAnalyticsService = new RiskAnalyticsService(
   riskMetricsRepository,
   portfolioRepository,
   assetRepository,
-  marketDataService
+  marketDataService,
+  riskLimitService
 );
 
+// Risk limit and benchmark errors name the failed check; map the access ones to their HTTP status
+const riskLimitErrorStatus = (error?: string): number => {
+  if (error === 'Portfolio not found') return 404;
+  if (error === 'Access denied') return 403;
+  return 500;
+};
+
+const stressScenarioErrorStatus = (error?: string): number => {
+  if (error === 'Scenario not found') return 404;
+  if (error === 'A scenario with this name already exists') return 409;
+  return 500;
+};
+
 // In development mode, add mock user to request if not authenticated
 if (process.env.NODE_ENV === 'development') {
   router.use((req: any, _res: any, next: any) => {
@@ -206,6 +245,158 @@ router.get(
   }
 );
 
+// Get the correlation and covariance matrices of a portfolio's holdings
+router.get(
+  '/portfolio/:portfolioId/correlation-matrix',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const query = correlationMatrixQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed'
+        });
+      }
+
+      const matrix = await riskAnalyticsService.calculateCorrelationMatrix(portfolioId, query.data.days);
+
+      res.json({
+        success: true,
+        data: matrix
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Portfolio not found' ? 404 : 500).json({
+        success: false,
+        error: error.message || 'Failed to calculate correlation matrix'
+      });
+    }
+  }
+);
+
+// Compare a portfolio's daily returns with its benchmark
+router.get(
+  '/portfolio/:portfolioId/benchmark',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const query = benchmarkQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed'
+        });
+      }
+
+      const comparison = await riskAnalyticsService.getBenchmarkComparison(userId, portfolioId, query.data.days);
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Portfolio not found' ? 404 : 500).json({
+        success: false,
+        error: error.message || 'Failed to compare with benchmark'
+      });
+    }
+  }
+);
+
+// Choose the benchmark a portfolio is measured against
+router.put(
+  '/portfolio/:portfolioId/benchmark',
+  validationMiddleware.validate(setBenchmarkSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const comparison = await riskAnalyticsService.setBenchmark(userId, portfolioId, req.body.symbol);
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      res.status(riskLimitErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || 'Failed to set benchmark'
+      });
+    }
+  }
+);
+
+// Backtest the stored VaR forecasts of a portfolio against its realized P&L
+router.get(
+  '/portfolio/:portfolioId/var-backtest',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const query = varBacktestQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed'
+        });
+      }
+
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - query.data.days * 24 * 60 * 60 * 1000);
+      const backtest = await riskAnalyticsService.backtestVaR(userId, portfolioId, {
+        startDate,
+        endDate,
+        confidenceLevel: query.data.confidenceLevel,
+        timeHorizon: query.data.timeHorizon
+      });
+
+      res.json({
+        success: true,
+        data: backtest
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Portfolio not found' ? 404 : 500).json({
+        success: false,
+        error: error.message || 'Failed to backtest VaR'
+      });
+    }
+  }
+);
+
 // Run stress tests
 router.post(
   '/stress-test',
@@ -221,14 +412,23 @@ router.post(
         });
       }
 
-      const stressTestResults = await riskAnalyticsService.runStressTests(req.body);
+      const { portfolioId, scenarios, scenarioIds = [] } = req.body as StressTestInput;
+      const saved = await stressScenarioService.resolveScenarios(userId, scenarioIds);
+      if (!saved.success) {
+        return res.status(stressScenarioErrorStatus(saved.error)).json(saved);
+      }
+
+      const stressTestResults = await riskAnalyticsService.runStressTests({
+        portfolioId,
+        scenarios: [...scenarios, ...saved.data!]
+      });
 
       res.json({
         success: true,
         data: stressTestResults
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error.message === 'Portfolio not found' ? 404 : 500).json({
         success: false,
         error: error.message || 'Failed to run stress tests'
       });
@@ -236,6 +436,130 @@ router.post(
   }
 );
 
+// List the built-in historical scenarios and the user's saved ones
+router.get(
+  '/scenarios',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const result = await stressScenarioService.listScenarios(userId);
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get stress scenarios'
+      });
+    }
+  }
+);
+
+// Save a stress scenario for the user
+router.post(
+  '/scenarios',
+  validationMiddleware.validate(createStressScenarioSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const result = await stressScenarioService.createScenario(userId, req.body);
+
+      if (!result.success) {
+        return res.status(stressScenarioErrorStatus(result.error)).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create stress scenario'
+      });
+    }
+  }
+);
+
+// Update one of the user's saved stress scenarios
+router.put(
+  '/scenarios/:scenarioId',
+  validationMiddleware.validate(updateStressScenarioSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { scenarioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const result = await stressScenarioService.updateScenario(userId, scenarioId, req.body);
+
+      if (!result.success) {
+        return res.status(stressScenarioErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update stress scenario'
+      });
+    }
+  }
+);
+
+// Delete one of the user's saved stress scenarios
+router.delete(
+  '/scenarios/:scenarioId',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { scenarioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const result = await stressScenarioService.deleteScenario(userId, scenarioId);
+
+      if (!result.success) {
+        return res.status(stressScenarioErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to delete stress scenario'
+      });
+    }
+  }
+);
+
 // Set risk limits for a portfolio
 router.post(
   '/limits',
@@ -251,12 +575,13 @@ router.post(
         });
       }
 
-      const limits = await riskAnalyticsService.setRiskLimits(req.body);
+      const result = await riskLimitService.setLimits(userId, req.body);
 
-      res.json({
-        success: true,
-        data: limits
-      });
+      if (!result.success) {
+        return res.status(riskLimitErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
     } catch (error: any) {
       res.status(500).json({
         success: false,
@@ -281,16 +606,13 @@ router.get(
         });
       }
 
-      // For now, return empty breaches since we need to implement limits storage
-      const breaches = {
-        breaches: [],
-        allWithinLimits: true
-      };
+      const result = await riskLimitService.getOpenBreaches(userId, portfolioId);
 
-      res.json({
-        success: true,
-        data: breaches
-      });
+      if (!result.success) {
+        return res.status(riskLimitErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
     } catch (error: any) {
       res.status(500).json({
         success: false,
@@ -300,13 +622,89 @@ router.get(
   }
 );
 
+// Get the breach history for a portfolio, newest first
+router.get(
+  '/portfolio/:portfolioId/breaches/history',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const query = riskBreachQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed'
+        });
+      }
+
+      const result = await riskLimitService.getBreachHistory(userId, portfolioId, query.data);
+
+      if (!result.success) {
+        return res.status(riskLimitErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get breach history'
+      });
+    }
+  }
+);
+
+// Get the risk limits set for a portfolio
+router.get(
+  '/portfolio/:portfolioId/limits',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { portfolioId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+
+      const result = await riskLimitService.getLimits(userId, portfolioId);
+
+      if (!result.success) {
+        return res.status(riskLimitErrorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get risk limits'
+      });
+    }
+  }
+);
+
 // Run Monte Carlo simulation
 router.post(
   '/monte-carlo',
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user?.id;
-      const { portfolioId, numberOfSimulations = 1000, timeHorizon = '1M' } = req.body;
+      const {
+        portfolioId,
+        numberOfSimulations = 1000,
+        timeHorizon = '1M',
+        distribution = 'NORMAL',
+        degreesOfFreedom
+      } = req.body;
 
       if (!userId) {
         return res.status(401).json({
@@ -322,10 +720,25 @@ router.post(
         });
       }
 
+      if (!RETURN_DISTRIBUTIONS.includes(distribution)) {
+        return res.status(400).json({
+          success: false,
+          error: `Distribution must be one of ${RETURN_DISTRIBUTIONS.join(', ')}`
+        });
+      }
+
+      if (degreesOfFreedom !== undefined && !(Number.isInteger(degreesOfFreedom) && degreesOfFreedom >= 3)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Degrees of freedom must be an integer of at least 3'
+        });
+      }
+
       const simulation = await riskAnalyticsService.runMonteCarloSimulation(
         portfolioId,
         numberOfSimulations,
-        timeHorizon
+        timeHorizon,
+        { distribution, degreesOfFreedom }
       );
 
       res.json({
@@ -386,14 +799,27 @@ router.post(
         });
       }
 
-      const report = await riskAnalyticsService.generateRiskReport(req.body);
+      const input = req.body as RiskReportInput;
+      const report = await riskAnalyticsService.generateRiskReport(input);
+      const filename = `risk-report-${input.portfolioId}-${new Date().toISOString().slice(0, 10)}`;
+
+      if (input.format === 'PDF') {
+        res.type('application/pdf').attachment(`${filename}.pdf`);
+        renderRiskReportPdf(report).pipe(res);
+        return;
+      }
+
+      if (input.format === 'CSV') {
+        res.type('text/csv; charset=utf-8').attachment(`${filename}.csv`).send(renderRiskReportCsv(report));
+        return;
+      }
 
       res.json({
         success: true,
         data: report
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error.message === 'Portfolio not found' ? 404 : 500).json({
         success: false,
         error: error.message || 'Failed to generate risk report'
       });
@@ -0,0 +1,654 @@
+import express from 'express';
+import { SocialTradingService } from '../services/socialTrading.service';
+import { CopyTradingService } from '../services/copyTrading.service';
+import { SocialTradingRepository } from '../repositories/socialTrading.repository';
+import { PaperPositionRepository } from '../repositories/paperPosition.repository';
+import { GroupRepository } from '../repositories/group.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import type {
+  CopySettings,
+  FollowTraderInput,
+  TopTradersQuery,
+  SocialFeedQuery,
+  CreateSocialPostInput,
+  CreatePostCommentInput,
+  RateTraderInput
+} from '@golden-palace/shared';
+import {
+  followTraderSchema,
+  topTradersQuerySchema,
+  socialFeedQuerySchema,
+  createSocialPostSchema,
+  createPostCommentSchema,
+  rateTraderSchema
+} from '@golden-palace/shared';
+
+const router = express.Router();
+
+// Initialize repositories and services
+const socialTradingRepository = new SocialTradingRepository(prisma);
+const paperPositionRepository = new PaperPositionRepository(prisma);
+const groupRepository = new GroupRepository();
+const socialTradingService = new SocialTradingService(socialTradingRepository);
+const copyTradingService = new CopyTradingService(socialTradingRepository, paperPositionRepository, groupRepository);
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+const validationMiddleware = new ValidationMiddleware();
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+// ===================
+// TRADER DISCOVERY
+// ===================
+
+/**
+ * @route POST /api/social-trading/top-traders
+ * @desc Rank traders by performance, followers, win rate or volume
+ * @access Private
+ */
+router.post(
+  '/top-traders',
+  validationMiddleware.validate(topTradersQuerySchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const query: TopTradersQuery = req.body;
+
+      const result = await socialTradingService.getTopTraders(userId, query);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      return res.json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/social-trading/search
+ * @desc Search traders by username, bio or specialty
+ * @access Private
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const query = (req.query['q'] as string) || '';
+
+    const result = await socialTradingService.searchTraders(userId, query);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/social-trading/traders/:id
+ * @desc Get a trader profile with recent trades
+ * @access Private
+ */
+router.get('/traders/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await socialTradingService.getTraderDetails(userId, id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Trader not found' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/social-trading/traders/:id/followers
+ * @desc List users following a trader
+ * @access Private
+ */
+router.get('/traders/:id/followers', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await socialTradingService.getFollowers(id);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/social-trading/traders/:id/following
+ * @desc List traders a user follows
+ * @access Private
+ */
+router.get('/traders/:id/following', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await socialTradingService.getFollowing(id);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+// ===================
+// FOLLOW GRAPH
+// ===================
+
+/**
+ * @route GET /api/social-trading/followed
+ * @desc Get traders the current user follows, with copy settings
+ * @access Private
+ */
+router.get('/followed', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await socialTradingService.getFollowedTraders(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/follow
+ * @desc Follow a trader
+ * @access Private
+ */
+router.post(
+  '/follow',
+  validationMiddleware.validate(followTraderSchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const { traderId, settings }: FollowTraderInput = req.body;
+
+      const result = await socialTradingService.followTrader(userId, traderId, settings);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Trader not found' ? 404 :
+                          result.error === 'Already following this trader' ? 409 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/social-trading/unfollow/:traderId
+ * @desc Unfollow a trader
+ * @access Private
+ */
+router.delete('/unfollow/:traderId', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { traderId } = req.params;
+
+    const result = await socialTradingService.unfollowTrader(userId, traderId);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Not following this trader' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route PUT /api/social-trading/copy-settings/:traderId
+ * @desc Update copy settings for a followed trader
+ * @access Private
+ */
+router.put('/copy-settings/:traderId', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { traderId } = req.params;
+    const settings: Partial<CopySettings> = req.body;
+
+    const result = await socialTradingService.updateCopySettings(userId, traderId, settings);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Not following this trader' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/traders/:id/pause
+ * @desc Stop copying new positions from a followed trader
+ * @access Private
+ */
+router.post('/traders/:id/pause', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params as { id: string };
+
+    const result = await socialTradingService.setFollowStatus(userId, id, 'paused');
+
+    if (!result.success) {
+      const statusCode = result.error === 'Not following this trader' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/traders/:id/resume
+ * @desc Resume copying new positions from a followed trader
+ * @access Private
+ */
+router.post('/traders/:id/resume', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params as { id: string };
+
+    const result = await socialTradingService.setFollowStatus(userId, id, 'active');
+
+    if (!result.success) {
+      const statusCode = result.error === 'Not following this trader' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+// ===================
+// COPY TRADING
+// ===================
+
+/**
+ * @route GET /api/social-trading/performance
+ * @desc Get performance of positions copied from all followed traders
+ * @access Private
+ */
+router.get('/performance', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await copyTradingService.getPerformance(userId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/social-trading/performance/:traderId
+ * @desc Get performance of positions copied from one trader
+ * @access Private
+ */
+router.get('/performance/:traderId', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { traderId } = req.params as { traderId: string };
+
+    const result = await copyTradingService.getPerformance(userId, traderId);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+// ===================
+// SOCIAL FEED
+// ===================
+
+/**
+ * @route POST /api/social-trading/feed
+ * @desc Get the social feed
+ * @access Private
+ */
+router.post(
+  '/feed',
+  validationMiddleware.validate(socialFeedQuerySchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const query: SocialFeedQuery = req.body;
+
+      const result = await socialTradingService.getFeed(userId, query);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      return res.json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/social-trading/posts
+ * @desc Publish a trade update or insight
+ * @access Private
+ */
+router.post(
+  '/posts',
+  validationMiddleware.validate(createSocialPostSchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const input: CreateSocialPostInput = req.body;
+
+      const result = await socialTradingService.createPost(userId, input);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/social-trading/posts/:id
+ * @desc Delete one of the current user's posts
+ * @access Private
+ */
+router.delete('/posts/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await socialTradingService.deletePost(userId, id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Post not found' ? 404 :
+                        result.error?.includes('Only the post author') ? 403 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/posts/:id/like
+ * @desc Like a post
+ * @access Private
+ */
+router.post('/posts/:id/like', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await socialTradingService.likePost(userId, id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Post not found' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/posts/:id/unlike
+ * @desc Remove a like from a post
+ * @access Private
+ */
+router.post('/posts/:id/unlike', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await socialTradingService.unlikePost(userId, id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Post not found' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/social-trading/posts/:id/comments
+ * @desc Get comments on a post
+ * @access Private
+ */
+router.get('/posts/:id/comments', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+    const offset = req.query['offset'] ? parseInt(req.query['offset'] as string) : 0;
+    const limit = req.query['limit'] ? parseInt(req.query['limit'] as string) : 50;
+
+    const result = await socialTradingService.getComments(userId, id, offset, limit);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Post not found' ? 404 : 400;
+      return res.status(statusCode).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/posts/:id/comments
+ * @desc Comment on a post
+ * @access Private
+ */
+router.post(
+  '/posts/:id/comments',
+  validationMiddleware.validate(createPostCommentSchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const { id } = req.params as { id: string };
+      const { content }: CreatePostCommentInput = req.body;
+
+      const result = await socialTradingService.commentOnPost(userId, id, content);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Post not found' ? 404 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+// ===================
+// RATINGS
+// ===================
+
+/**
+ * @route GET /api/social-trading/traders/:id/ratings
+ * @desc Get a trader's rating summary and latest reviews
+ * @access Private
+ */
+router.get('/traders/:id/ratings', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await socialTradingService.getTraderRatings(id);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/social-trading/traders/:id/ratings
+ * @desc Rate a trader (one rating per reviewer, later ratings replace earlier ones)
+ * @access Private
+ */
+router.post(
+  '/traders/:id/ratings',
+  validationMiddleware.validate(rateTraderSchema),
+  async (req, res) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.id;
+      const { id } = req.params as { id: string };
+      const input: RateTraderInput = req.body;
+
+      const result = await socialTradingService.rateTrader(userId, id, input);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Trader not found' ? 404 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+export const socialTradingRoutes = router;
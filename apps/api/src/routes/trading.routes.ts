@@ -3,15 +3,40 @@ import { z } from 'zod';
 import { TradeIdeaService } from '../services/tradeIdea.service';
 import { PortfolioService } from '../services/portfolio.service';
 import { TradeExecutionService } from '../services/tradeExecution.service';
+import { CopyTradingService } from '../services/copyTrading.service';
+import { OrderService } from '../services/order.service';
+import { GamificationService } from '../services/gamification.service';
+import { AchievementService } from '../services/achievement.service';
+import { RiskLimitService } from '../services/riskLimit.service';
+import { MarketDataService } from '../services/marketData.service';
+import { MarketTickService } from '../services/marketTick.service';
+import { NotificationService } from '../services/notification.service';
+import { WebhookService } from '../services/webhook.service';
+import { CompetitionEntryService } from '../services/competitionEntry.service';
 import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
 import { PaperPositionRepository } from '../repositories/paperPosition.repository';
 import { AlertRepository } from '../repositories/alert.repository';
+import { OrderRepository } from '../repositories/order.repository';
+import { ExecutionLogRepository } from '../repositories/executionLog.repository';
 import { GroupRepository } from '../repositories/group.repository';
+import { SocialTradingRepository } from '../repositories/socialTrading.repository';
+import { GamificationRepository } from '../repositories/gamification.repository';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { CompetitionRepository } from '../repositories/competition.repository';
+import { CompetitionEntryRepository } from '../repositories/competitionEntry.repository';
+import { RiskLimitRepository } from '../repositories/riskLimit.repository';
+import { RiskMetricsRepository } from '../repositories/riskMetrics.repository';
+import { PortfolioRepository } from '../repositories/portfolio.repository';
+import { AssetRepository } from '../repositories/asset.repository';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 import { ValidationMiddleware } from '../middleware/validation.middleware';
 import { TokenService } from '../services/token.service';
 import { UserRepository } from '../repositories/user.repository';
 import { prisma } from '../lib/prisma';
+import { userNotifier } from '../websocket/userNotifier';
+import { portfolioNotifier } from '../websocket/portfolioNotifier';
 import { PrismaClient } from '@golden-palace/database';
 import type {
   CreateTradeIdeaInput,
@@ -19,6 +44,7 @@ import type {
   GetTradeIdeasQuery,
   CreatePaperPositionInput,
   UpdatePositionInput,
+  CreateOrderInput,
   MarketQuote
 } from '@golden-palace/shared';
 import {
@@ -26,7 +52,10 @@ import {
   updateTradeIdeaSchema,
   getTradeIdeasQuerySchema,
   createPaperPositionSchema,
-  updatePositionSchema
+  updatePositionSchema,
+  createOrderSchema,
+  getOrdersQuerySchema,
+  getExecutionLogQuerySchema
 } from '@golden-palace/shared';
 
 const router = express.Router();
@@ -35,11 +64,79 @@ const router = express.Router();
 const tradeIdeaRepository = new TradeIdeaRepository(prisma);
 const paperPositionRepository = new PaperPositionRepository(prisma);
 const alertRepository = new AlertRepository(prisma);
+const orderRepository = new OrderRepository(prisma);
+const executionLogRepository = new ExecutionLogRepository(prisma);
 const groupRepository = new GroupRepository(prisma);
+const socialTradingRepository = new SocialTradingRepository(prisma);
+const gamificationRepository = new GamificationRepository(prisma);
+const achievementRepository = new AchievementRepository(prisma);
+
+const notificationService = new NotificationService(new NotificationRepository(prisma), userNotifier);
+const webhookService = new WebhookService(new WebhookRepository(prisma), groupRepository);
+const copyTradingService = new CopyTradingService(socialTradingRepository, paperPositionRepository, groupRepository);
+const achievementService = new AchievementService(achievementRepository, userNotifier, notificationService);
+const gamificationService = new GamificationService(gamificationRepository, achievementService);
+const tradeIdeaService = new TradeIdeaService(
+  tradeIdeaRepository,
+  groupRepository,
+  gamificationService,
+  webhookService
+);
+const competitionEntryService = new CompetitionEntryService(
+  new CompetitionEntryRepository(),
+  paperPositionRepository,
+  new CompetitionRepository()
+);
+const portfolioService = new PortfolioService(
+  paperPositionRepository,
+  tradeIdeaRepository,
+  groupRepository,
+  copyTradingService,
+  gamificationService,
+  webhookService,
+  competitionEntryService
+);
+const orderService = new OrderService(
+  orderRepository,
+  paperPositionRepository,
+  groupRepository,
+  copyTradingService,
+  gamificationService,
+  webhookService
+);
+const tradeExecutionService = new TradeExecutionService(
+  paperPositionRepository,
+  tradeIdeaRepository,
+  alertRepository,
+  executionLogRepository,
+  copyTradingService,
+  gamificationService,
+  orderService,
+  userNotifier,
+  notificationService,
+  webhookService
+);
 
-const tradeIdeaService = new TradeIdeaService(tradeIdeaRepository, groupRepository);
-const portfolioService = new PortfolioService(paperPositionRepository, tradeIdeaRepository, groupRepository);
-const tradeExecutionService = new TradeExecutionService(paperPositionRepository, tradeIdeaRepository, alertRepository);
+const riskLimitRepository = new RiskLimitRepository(prisma);
+const riskLimitService = new RiskLimitService(
+  riskLimitRepository,
+  new RiskMetricsRepository(),
+  new PortfolioRepository(),
+  new AssetRepository(),
+  portfolioNotifier
+);
+
+// Server-side price loop; started by the server so tests importing the routes stay idle
+const marketTickService = new MarketTickService(
+  new MarketDataService(),
+  tradeExecutionService,
+  paperPositionRepository,
+  alertRepository,
+  tradeIdeaRepository,
+  orderRepository,
+  riskLimitRepository,
+  prices => riskLimitService.evaluateMarketUpdate(prices)
+);
 
 const tokenService = new TokenService();
 const userRepository = new UserRepository();
@@ -340,7 +437,7 @@ router.get(
 
 /**
  * @route POST /api/trading/positions
- * @desc Create a new paper position
+ * @desc Create a new paper position, in the user's competition account when `competitionId` is set
  * @access Private
  */
 router.post(
@@ -356,7 +453,9 @@ router.post(
       const result = await portfolioService.createPaperPosition(userId, groupId!, positionData);
 
       if (!result.success) {
-        const statusCode = result.error?.includes('not a member') ? 403 : 400;
+        const statusCode = result.error?.includes('not a member') ? 403
+          : result.error === 'Competition not found' ? 404
+          : 400;
         return res.status(statusCode).json(result);
       }
 
@@ -672,18 +771,151 @@ router.get(
   }
 );
 
+// ===================
+// ORDER ROUTES
+// ===================
+
+/**
+ * @route POST /api/trading/orders
+ * @desc Place a market, limit, stop or stop-limit order; it fills against incoming quotes
+ * @access Private
+ */
+router.post(
+  '/orders',
+  authMiddleware.authenticate.bind(authMiddleware),
+  validationMiddleware.validate(createOrderSchema),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const input: CreateOrderInput = req.body;
+
+      const result = await orderService.placeOrder(userId, input);
+
+      if (!result.success) {
+        const statusCode = result.error?.includes('not a member') ? 403 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/trading/orders
+ * @desc Get user's orders, newest first
+ * @access Private
+ */
+router.get(
+  '/orders',
+  authMiddleware.authenticate.bind(authMiddleware),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const query = getOrdersQuerySchema.safeParse(req.query);
+
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed',
+        });
+      }
+
+      const result = await orderService.getOrders(userId, query.data);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/trading/orders/:id
+ * @desc Get a specific order
+ * @access Private
+ */
+router.get(
+  '/orders/:id',
+  authMiddleware.authenticate.bind(authMiddleware),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const result = await orderService.getOrder(userId, id);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Order not found' ? 404 : 403;
+        return res.status(statusCode).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/trading/orders/:id
+ * @desc Cancel a pending or partially filled order; existing fills are kept
+ * @access Private
+ */
+router.delete(
+  '/orders/:id',
+  authMiddleware.authenticate.bind(authMiddleware),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const result = await orderService.cancelOrder(userId, id);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Order not found' ? 404 :
+                          result.error?.includes('Only the order owner') ? 403 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
 // ===================
 // EXECUTION ROUTES
 // ===================
 
 /**
  * @route POST /api/trading/market-update
- * @desc Process market data update
- * @access Private
+ * @desc Process market data update with externally supplied quotes
+ * @access Private (simulator or admin role)
  */
 router.post(
   '/market-update',
   authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole('SIMULATOR', 'ADMIN'),
   validationMiddleware.validate(marketUpdateSchema),
   async (req, res) => {
     try {
@@ -695,6 +927,11 @@ router.post(
         return res.status(400).json(result);
       }
 
+      // Portfolios holding the quoted symbols re-check their risk limits in the background
+      riskLimitService
+        .evaluateMarketUpdate(Object.fromEntries(quotes.map((quote: MarketQuote) => [quote.symbol, quote.price])))
+        .catch(error => console.error('[Trading] Risk limit evaluation failed:', error));
+
       res.json(result);
     } catch (error) {
       res.status(500).json({
@@ -734,4 +971,40 @@ router.get(
   }
 );
 
-export { router as tradingRoutes };
\ No newline at end of file
+/**
+ * @route GET /api/trading/execution/log
+ * @desc Get the user's automatic executions, newest first
+ * @access Private
+ */
+router.get(
+  '/execution/log',
+  authMiddleware.authenticate.bind(authMiddleware),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const query = getExecutionLogQuerySchema.safeParse(req.query);
+
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.error.errors[0]?.message || 'Validation failed',
+        });
+      }
+
+      const result = await tradeExecutionService.getExecutionLog(userId, query.data);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+export { router as tradingRoutes, marketTickService };
\ No newline at end of file
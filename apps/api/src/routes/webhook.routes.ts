@@ -0,0 +1,224 @@
+import express from 'express';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { GroupRepository } from '../repositories/group.repository';
+import { AuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { TokenService } from '../services/token.service';
+import { UserRepository } from '../repositories/user.repository';
+import { prisma } from '../lib/prisma';
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  getWebhookDeliveriesQuerySchema,
+  type CreateWebhookInput,
+  type UpdateWebhookInput
+} from '@golden-palace/shared';
+
+const router = express.Router();
+
+// Initialize repositories and services; the server also runs delivery retries through this instance
+const webhookService = new WebhookService(new WebhookRepository(prisma), new GroupRepository());
+
+const tokenService = new TokenService();
+const userRepository = new UserRepository();
+const authMiddleware = new AuthMiddleware(tokenService, userRepository);
+const validationMiddleware = new ValidationMiddleware();
+
+const webhookErrorStatus = (error?: string): number => {
+  if (error === 'Webhook not found' || error === 'Group not found') return 404;
+  if (error === 'Webhook limit reached') return 429;
+  if (error?.startsWith('Only the group owner')) return 403;
+  if (error?.startsWith('Failed to')) return 500;
+  return 400;
+};
+
+router.use(authMiddleware.authenticate.bind(authMiddleware));
+
+/**
+ * @route GET /api/webhooks
+ * @desc Get the webhooks the current user registered, personal and group ones
+ * @access Private
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const result = await webhookService.getWebhooks(userId);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/webhooks
+ * @desc Register an endpoint for the chosen events. With a groupId it receives the whole group's
+ *       events and only the group owner may add it. The signing secret is returned only here.
+ * @access Private
+ */
+router.post('/', validationMiddleware.validate(createWebhookSchema), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const input: CreateWebhookInput = req.body;
+
+    const result = await webhookService.createWebhook(userId, input);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.status(201).json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/webhooks/:id
+ * @desc Get one of the current user's webhooks
+ * @access Private
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await webhookService.getWebhook(userId, id);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route PUT /api/webhooks/:id
+ * @desc Change a webhook's URL, events or description, or pause and resume it
+ * @access Private
+ */
+router.put('/:id', validationMiddleware.validate(updateWebhookSchema), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    // The validation middleware widens the route params, so name the one this route declares
+    const { id } = req.params as { id: string };
+    const input: UpdateWebhookInput = req.body;
+
+    const result = await webhookService.updateWebhook(userId, id, input);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/webhooks/:id
+ * @desc Delete a webhook and its delivery log
+ * @access Private
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await webhookService.deleteWebhook(userId, id);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route GET /api/webhooks/:id/deliveries
+ * @desc Get a webhook's delivery log, newest first, optionally filtered by status
+ * @access Private
+ */
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+    const query = getWebhookDeliveriesQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.errors[0]?.message || 'Validation failed',
+      });
+    }
+
+    const result = await webhookService.getDeliveries(userId, id, query.data);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @route POST /api/webhooks/:id/test
+ * @desc Send a signed `webhook.test` event now and return the logged delivery, including the
+ *       endpoint's response status
+ * @access Private
+ */
+router.post('/:id/test', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { id } = req.params;
+
+    const result = await webhookService.testWebhook(userId, id);
+
+    if (!result.success) {
+      return res.status(webhookErrorStatus(result.error)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+export { router as webhookRoutes, webhookService };
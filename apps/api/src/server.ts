@@ -10,14 +10,42 @@ import rateLimit from 'express-rate-limit';
 // Import routes
 import { authRoutes } from './routes/auth.routes';
 import { chatRoutes } from './routes/chat.routes';
-import { tradingRoutes } from './routes/trading.routes';
-import { competitionRoutes } from './routes/competition.routes';
+import { tradingRoutes, marketTickService } from './routes/trading.routes';
+import { competitionRoutes, competitionService } from './routes/competition.routes';
 import { portfolioRoutes } from './routes/portfolio.routes';
 import { riskAnalyticsRoutes } from './routes/riskAnalytics.routes';
+import { socialTradingRoutes } from './routes/socialTrading.routes';
+import { gamificationRoutes } from './routes/gamification.routes';
+import { achievementRoutes } from './routes/achievement.routes';
+import { alertRoutes } from './routes/alert.routes';
+import { notificationRoutes } from './routes/notification.routes';
+import { webhookRoutes, webhookService } from './routes/webhook.routes';
 import { marketDataRoutes } from './routes/marketData.routes';
 
 // Import WebSocket handlers
+import { SocketGateway } from './websocket/socketGateway';
+import { ChatHandler } from './websocket/chat.handler';
 import { MarketDataHandler } from './websocket/marketData.handler';
+import { userNotifier } from './websocket/userNotifier';
+import { portfolioNotifier } from './websocket/portfolioNotifier';
+import { TokenService } from './services/token.service';
+import { redis } from './services/redis.service';
+import { MessageService } from './services/message.service';
+import { NotificationService } from './services/notification.service';
+import { GroupRepository } from './repositories/group.repository';
+import { MessageRepository } from './repositories/message.repository';
+import { UserRepository } from './repositories/user.repository';
+import { NotificationRepository } from './repositories/notification.repository';
+import { RiskLimitService } from './services/riskLimit.service';
+import { RiskLimitRepository } from './repositories/riskLimit.repository';
+import { RiskMetricsRepository } from './repositories/riskMetrics.repository';
+import { prisma } from './lib/prisma';
+
+// Import background jobs
+import { PortfolioSnapshotService } from './services/portfolioSnapshot.service';
+import { MarketDataService } from './services/marketData.service';
+import { PortfolioRepository } from './repositories/portfolio.repository';
+import { AssetRepository } from './repositories/asset.repository';
 
 dotenv.config();
 
@@ -75,6 +103,12 @@ app.use('/api/trading', tradingRoutes);
 app.use('/api/competitions', competitionRoutes);
 app.use('/api/portfolio', portfolioRoutes);
 app.use('/api/risk-analytics', riskAnalyticsRoutes);
+app.use('/api/social-trading', socialTradingRoutes);
+app.use('/api/gamification', gamificationRoutes);
+app.use('/api/achievements', achievementRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
 app.use('/api/market-data', marketDataRoutes);
 
 app.get('/api/health', (_req, res) => {
@@ -151,22 +185,42 @@ app.get('/api/posts', (_req, res) => {
   res.json(mockPosts);
 });
 
-// Initialize market data handler
-const marketDataHandler = new MarketDataHandler(io);
+// Authenticate every socket and mount the chat, market data and trading namespaces
+const groupRepository = new GroupRepository();
+const socketGateway = new SocketGateway(io, new TokenService(), groupRepository, new PortfolioRepository());
 
-io.on('connection', (socket) => {
-  logger.info(`New client connected: ${socket.id}`);
+new ChatHandler(
+  socketGateway.chat,
+  new MessageService(
+    new MessageRepository(),
+    groupRepository,
+    new UserRepository(),
+    new NotificationService(new NotificationRepository(prisma), userNotifier)
+  ),
+  groupRepository
+);
+// Re-check risk limits of portfolios holding symbols whose prices just moved. This only sees
+// subscribed symbols; the market tick quotes every risk-limited holding whether watched or not.
+const riskLimitService = new RiskLimitService(
+  new RiskLimitRepository(prisma),
+  new RiskMetricsRepository(),
+  new PortfolioRepository(),
+  new AssetRepository(),
+  portfolioNotifier
+);
+const marketDataHandler = new MarketDataHandler(
+  socketGateway.marketData,
+  (userId, portfolioId) => socketGateway.canAccessPortfolio(userId, portfolioId),
+  prices => riskLimitService.evaluateMarketUpdate(prices)
+);
 
-  // Legacy support for existing chat/trading features
-  socket.on('join:trades', (userId) => {
-    socket.join(`user:${userId}:trades`);
-    logger.info(`Client ${socket.id} joined trades room for user ${userId}`);
-  });
+// Let services push per-user events such as unlocked achievements
+userNotifier.attach(io);
+// ...and per-portfolio events such as risk limit breaches, to the owner-only portfolio rooms
+portfolioNotifier.attach(socketGateway.marketData);
 
-  socket.on('join:feed', () => {
-    socket.join('market:feed');
-    logger.info(`Client ${socket.id} joined market feed room`);
-  });
+io.on('connection', (socket) => {
+  logger.info(`New client connected: ${socket.id}`);
 
   socket.on('disconnect', () => {
     logger.info(`Client disconnected: ${socket.id}`);
@@ -176,6 +230,36 @@ io.on('connection', (socket) => {
 // Market data handler now manages real-time price updates
 // Legacy setInterval removed in favor of MarketDataHandler's built-in periodic updates
 
+// Record end-of-day portfolio snapshots used by history, risk metrics and charts
+const portfolioSnapshotService = new PortfolioSnapshotService(
+  new PortfolioRepository(),
+  new AssetRepository(),
+  new MarketDataService()
+);
+portfolioSnapshotService.start();
+
+// Quote watched symbols on the server so stops, orders, alerts and ideas execute on real prices
+marketTickService.start();
+
+// Start and end competitions on their scheduled dates; entrants are notified of both
+setInterval(() => {
+  competitionService.processScheduledActions().catch((error) => {
+    logger.error('Competition schedule run failed', error);
+  });
+}, 60 * 1000);
+
+// Retry failed webhook deliveries once their backoff has elapsed
+setInterval(() => {
+  webhookService.retryDueDeliveries().catch((error) => {
+    logger.error('Webhook retry run failed', error);
+  });
+}, 15 * 1000);
+
+// Refresh-token sessions live in Redis; refresh and logout fail until it is reachable
+redis.connect().catch((error) => {
+  logger.error('Redis connection failed', error);
+});
+
 const PORT = process.env.PORT || 3002;
 const HOST = '0.0.0.0';
 
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AchievementService } from '../achievement.service';
+import { GamificationService } from '../gamification.service';
+import type { AchievementRepository } from '../../repositories/achievement.repository';
+import type { GamificationRepository } from '../../repositories/gamification.repository';
+import type { UserNotifier } from '../../websocket/userNotifier';
+import type { NotificationService } from '../notification.service';
+import type { AchievementMetrics } from '@golden-palace/shared';
+
+const createMetrics = (overrides: Partial<AchievementMetrics> = {}): AchievementMetrics => ({
+  TOTAL_TRADES: 0,
+  WINNING_TRADES: 0,
+  PROFIT_AMOUNT: 0,
+  SINGLE_TRADE_PROFIT: 0,
+  WIN_STREAK: 0,
+  DAILY_STREAK: 0,
+  DIVERSITY_SCORE: 0,
+  TRADE_IDEAS: 0,
+  COMPETITIONS_JOINED: 0,
+  COMPETITIONS_TOP10: 0,
+  COMPETITIONS_PODIUM: 0,
+  COMPETITIONS_WON: 0,
+  FOLLOWERS: 0,
+  TRADES_COPIED: 0,
+  ...overrides,
+});
+
+describe('AchievementService', () => {
+  let achievementService: AchievementService;
+  let mockRepository: any;
+  let mockNotifier: any;
+  let mockNotificationService: any;
+  const unlockedAt = new Date('2024-03-10T12:00:00Z');
+
+  beforeEach(() => {
+    mockRepository = {
+      getMetrics: vi.fn().mockResolvedValue(createMetrics()),
+      findUnlocked: vi.fn().mockResolvedValue([]),
+      createUnlocked: vi.fn().mockImplementation(async (_userId: string, unlocks: any[]) =>
+        unlocks.map(unlock => ({ ...unlock, unlockedAt }))
+      ),
+    };
+    mockNotifier = { emitToUser: vi.fn() };
+    mockNotificationService = { notify: vi.fn().mockResolvedValue({ success: true, data: null }) };
+
+    achievementService = new AchievementService(
+      mockRepository as unknown as AchievementRepository,
+      mockNotifier as unknown as UserNotifier,
+      mockNotificationService as unknown as NotificationService
+    );
+  });
+
+  describe('evaluate', () => {
+    it('should unlock achievements met by stored metrics and push them to the user', async () => {
+      mockRepository.getMetrics.mockResolvedValue(createMetrics({ TOTAL_TRADES: 12, TRADE_IDEAS: 1 }));
+
+      const result = await achievementService.evaluate('user1');
+
+      expect(result.data?.map(unlock => unlock.achievement.id)).toEqual(['first-trade', 'trader-10', 'first-idea']);
+      expect(mockRepository.createUnlocked).toHaveBeenCalledWith('user1', [
+        { achievementId: 'first-trade', progress: 12 },
+        { achievementId: 'trader-10', progress: 12 },
+        { achievementId: 'first-idea', progress: 1 },
+      ]);
+      expect(mockNotifier.emitToUser).toHaveBeenCalledTimes(3);
+      expect(mockNotifier.emitToUser).toHaveBeenCalledWith(
+        'user1',
+        'achievement:unlocked',
+        expect.objectContaining({ unlockedAt, achievement: expect.objectContaining({ id: 'trader-10' }) })
+      );
+      expect(mockNotificationService.notify).toHaveBeenCalledWith('user1', expect.objectContaining({
+        type: 'ACHIEVEMENT_UNLOCKED',
+        data: { achievementId: 'trader-10' },
+      }));
+    });
+
+    it('should skip achievements that are already unlocked', async () => {
+      mockRepository.getMetrics.mockResolvedValue(createMetrics({ TOTAL_TRADES: 1 }));
+      mockRepository.findUnlocked.mockResolvedValue([{ achievementId: 'first-trade', progress: 1, unlockedAt }]);
+
+      const result = await achievementService.evaluate('user1');
+
+      expect(result.data).toEqual([]);
+      expect(mockRepository.createUnlocked).not.toHaveBeenCalled();
+      expect(mockNotifier.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('should count only finished competition placements', async () => {
+      mockRepository.getMetrics.mockResolvedValue(
+        createMetrics({ COMPETITIONS_JOINED: 2, COMPETITIONS_TOP10: 1, COMPETITIONS_PODIUM: 1 })
+      );
+
+      const result = await achievementService.evaluate('user1');
+
+      expect(result.data?.map(unlock => unlock.achievement.id)).toEqual([
+        'competition-join',
+        'competition-top10',
+        'competition-podium',
+      ]);
+    });
+
+    it('should not notify unlocks recorded by a concurrent evaluation', async () => {
+      mockRepository.getMetrics.mockResolvedValue(createMetrics({ TOTAL_TRADES: 1 }));
+      mockRepository.createUnlocked.mockResolvedValue([]);
+
+      const result = await achievementService.evaluate('user1');
+
+      expect(result.data).toEqual([]);
+      expect(mockNotifier.emitToUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAchievements', () => {
+    it('should report progress with locked achievements closest to completion first', async () => {
+      mockRepository.getMetrics.mockResolvedValue(createMetrics({ TOTAL_TRADES: 5, FOLLOWERS: 9 }));
+      mockRepository.findUnlocked.mockResolvedValue([{ achievementId: 'first-trade', progress: 1, unlockedAt }]);
+
+      const result = await achievementService.getAchievements('user1');
+
+      expect(result.data?.unlockedCount).toBe(1);
+      expect(result.data?.totalPoints).toBe(10);
+      expect(result.data?.achievements[0]).toMatchObject({
+        achievement: expect.objectContaining({ id: 'social-follower-10' }),
+        currentProgress: 9,
+        percentageComplete: 90,
+        isUnlocked: false,
+        unlockedAt: null,
+      });
+      expect(result.data?.achievements.at(-1)).toMatchObject({ isUnlocked: true, unlockedAt });
+    });
+  });
+
+  describe('GamificationService.evaluateAchievements', () => {
+    it('should reward each new unlock with XP based on its rarity', async () => {
+      mockRepository.getMetrics.mockResolvedValue(createMetrics({ WIN_STREAK: 5 }));
+      const gamificationRepository = {
+        findProgress: vi.fn().mockResolvedValue(null),
+        updateProgress: vi.fn(),
+        recordXpEvent: vi.fn().mockImplementation(async (data: any) => ({
+          event: { id: `event-${data.sourceId}`, timestamp: new Date() },
+          progress: { userId: 'user1', totalXp: data.xp, level: 1, prestigeLevel: 0, loginStreak: 0, lastLoginDate: null },
+        })),
+        findActiveBoosters: vi.fn().mockResolvedValue([]),
+      };
+      const gamificationService = new GamificationService(
+        gamificationRepository as unknown as GamificationRepository,
+        achievementService
+      );
+
+      const awards = await gamificationService.evaluateAchievements('user1');
+
+      // Hat Trick is common, On Fire is uncommon
+      expect(awards.map(award => award.xpAwarded)).toEqual([100, 200]);
+      expect(gamificationRepository.recordXpEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ACHIEVEMENT_UNLOCKED', sourceId: 'win-streak-5' })
+      );
+    });
+  });
+});
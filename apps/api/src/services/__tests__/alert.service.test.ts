@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AlertService } from '../alert.service';
+import type { AlertRepository } from '../../repositories/alert.repository';
+import { MAX_ACTIVE_ALERTS_PER_USER, type AlertWithDetails } from '@golden-palace/shared';
+
+const createAlert = (overrides: Partial<AlertWithDetails> = {}): AlertWithDetails => ({
+  id: 'alert1',
+  userId: 'user1',
+  symbol: 'AAPL',
+  condition: 'ABOVE',
+  targetPrice: 200,
+  threshold: null,
+  message: null,
+  status: 'ACTIVE',
+  triggeredAt: null,
+  createdAt: new Date(),
+  user: { id: 'user1', username: 'trader', avatarUrl: null },
+  ...overrides,
+});
+
+describe('AlertService', () => {
+  let service: AlertService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    mockRepository = {
+      create: vi.fn().mockImplementation(async (data: any) => createAlert(data)),
+      findById: vi.fn().mockResolvedValue(createAlert()),
+      findByUserId: vi.fn().mockResolvedValue([createAlert()]),
+      update: vi.fn().mockImplementation(async (_id: string, data: any) => createAlert(data)),
+      delete: vi.fn().mockResolvedValue(true),
+      getUserActiveAlertsCount: vi.fn().mockResolvedValue(0),
+    };
+
+    service = new AlertService(mockRepository as unknown as AlertRepository);
+  });
+
+  it('should store only the field the condition compares against', async () => {
+    const result = await service.createAlert('user1', {
+      symbol: 'AAPL',
+      condition: 'PERCENT_CHANGE_BELOW',
+      targetPrice: 150,
+      threshold: -5,
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user1', condition: 'PERCENT_CHANGE_BELOW', targetPrice: undefined, threshold: -5 })
+    );
+  });
+
+  it('should refuse new alerts once the active quota is used up', async () => {
+    mockRepository.getUserActiveAlertsCount.mockResolvedValue(MAX_ACTIVE_ALERTS_PER_USER);
+
+    const result = await service.createAlert('user1', { symbol: 'AAPL', condition: 'ABOVE', targetPrice: 200 });
+
+    expect(result).toEqual({ success: false, error: 'Active alert limit reached' });
+    expect(mockRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should pass status and symbol filters to the repository', async () => {
+    await service.getAlerts('user1', { status: 'TRIGGERED', symbol: 'AAPL' });
+
+    expect(mockRepository.findByUserId).toHaveBeenCalledWith('user1', 'TRIGGERED', 'AAPL');
+  });
+
+  it("should report another user's alert as not found", async () => {
+    mockRepository.findById.mockResolvedValue(createAlert({ userId: 'user2' }));
+
+    const results = await Promise.all([
+      service.getAlert('user1', 'alert1'),
+      service.updateAlert('user1', 'alert1', { targetPrice: 210 }),
+      service.cancelAlert('user1', 'alert1'),
+      service.deleteAlert('user1', 'alert1'),
+    ]);
+
+    for (const result of results) {
+      expect(result).toEqual({ success: false, error: 'Alert not found' });
+    }
+    expect(mockRepository.update).not.toHaveBeenCalled();
+    expect(mockRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('should reject updates that do not fit the alert condition', async () => {
+    mockRepository.findById.mockResolvedValue(createAlert({ condition: 'VOLUME_ABOVE', targetPrice: null, threshold: 1000 }));
+
+    expect(await service.updateAlert('user1', 'alert1', { targetPrice: 210 })).toMatchObject({ success: false });
+    expect(await service.updateAlert('user1', 'alert1', { threshold: -10 })).toEqual({
+      success: false,
+      error: 'Volume threshold must be positive',
+    });
+
+    const result = await service.updateAlert('user1', 'alert1', { threshold: 5000 });
+    expect(result.success).toBe(true);
+    expect(mockRepository.update).toHaveBeenCalledWith('alert1', { targetPrice: undefined, threshold: 5000, message: undefined });
+  });
+
+  it('should only cancel or change active alerts', async () => {
+    mockRepository.findById.mockResolvedValue(createAlert({ status: 'TRIGGERED' }));
+
+    expect(await service.cancelAlert('user1', 'alert1')).toEqual({ success: false, error: 'Only active alerts can be cancelled' });
+    expect(await service.updateAlert('user1', 'alert1', { message: 'Breakout' })).toEqual({
+      success: false,
+      error: 'Only active alerts can be changed',
+    });
+
+    mockRepository.findById.mockResolvedValue(createAlert());
+    const result = await service.cancelAlert('user1', 'alert1');
+    expect(result.data?.status).toBe('CANCELLED');
+  });
+});
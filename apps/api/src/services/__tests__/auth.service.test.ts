@@ -1,16 +1,69 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
 import { AuthService } from '../auth.service';
 import { UserRepository } from '../../repositories/user.repository';
 import { HashService } from '../hash.service';
 import { TokenService } from '../token.service';
+import type { RefreshTokenRotation, RefreshTokenService, RefreshTokenSession } from '../refreshToken.service';
+import type { RedisService } from '../redis.service';
+import { TotpService } from '../totp.service';
+import { TwoFactorService } from '../twoFactor.service';
 import { prisma } from '@golden-palace/database';
-import type { RegisterInput, LoginInput } from '@golden-palace/shared';
+import type { RegisterInput, LoginInput, AuthResponse, TwoFactorChallenge } from '@golden-palace/shared';
+
+// In-memory stand-in for the Redis-backed refresh token families
+const createRefreshTokenStore = (): RefreshTokenService => {
+  const families = new Map<string, { userId: string; tokenId: string }>();
+
+  return {
+    async createFamily(userId: string): Promise<RefreshTokenSession> {
+      const session = { familyId: randomUUID(), tokenId: randomUUID() };
+      families.set(session.familyId, { userId, tokenId: session.tokenId });
+      return session;
+    },
+    async rotate(userId: string, session: RefreshTokenSession): Promise<RefreshTokenRotation> {
+      const family = families.get(session.familyId);
+      if (!family || family.userId !== userId) return { status: 'revoked' };
+      if (family.tokenId !== session.tokenId) {
+        families.delete(session.familyId);
+        return { status: 'reused' };
+      }
+      family.tokenId = randomUUID();
+      return { status: 'rotated', session: { familyId: session.familyId, tokenId: family.tokenId } };
+    },
+    async revokeFamily(_userId: string, familyId: string): Promise<void> {
+      families.delete(familyId);
+    },
+    async revokeAll(userId: string): Promise<number> {
+      const owned = [...families].filter(([, family]) => family.userId === userId);
+      owned.forEach(([familyId]) => families.delete(familyId));
+      return owned.length;
+    },
+  } as unknown as RefreshTokenService;
+};
+
+// In-memory counters for two-factor challenge attempts
+const createCounterStore = (): RedisService => {
+  const counters = new Map<string, number>();
+
+  return {
+    async increment(key: string): Promise<number> {
+      counters.set(key, (counters.get(key) ?? 0) + 1);
+      return counters.get(key)!;
+    },
+    async expire(): Promise<boolean> {
+      return true;
+    },
+  } as unknown as RedisService;
+};
 
 describe('AuthService', () => {
   let authService: AuthService;
   let userRepository: UserRepository;
   let hashService: HashService;
   let tokenService: TokenService;
+  let totpService: TotpService;
+  let twoFactorService: TwoFactorService;
 
   beforeEach(async () => {
     // Clean database before each test
@@ -19,7 +72,15 @@ describe('AuthService', () => {
     userRepository = new UserRepository();
     hashService = new HashService();
     tokenService = new TokenService();
-    authService = new AuthService(userRepository, hashService, tokenService);
+    totpService = new TotpService();
+    twoFactorService = new TwoFactorService(userRepository, totpService, createCounterStore());
+    authService = new AuthService(
+      userRepository,
+      hashService,
+      tokenService,
+      createRefreshTokenStore(),
+      twoFactorService
+    );
   });
 
   afterEach(async () => {
@@ -150,12 +211,13 @@ describe('AuthService', () => {
       };
 
       const result = await authService.login(loginData);
+      const data = result.data as AuthResponse;
 
       expect(result.success).toBe(true);
-      expect(result.data).toBeDefined();
-      expect(result.data!.user.email).toBe(loginData.email);
-      expect(result.data!.tokens.accessToken).toBeDefined();
-      expect(result.data!.tokens.refreshToken).toBeDefined();
+      expect(data).toBeDefined();
+      expect(data.user.email).toBe(loginData.email);
+      expect(data.tokens.accessToken).toBeDefined();
+      expect(data.tokens.refreshToken).toBeDefined();
     });
 
     it('should fail with invalid email', async () => {
@@ -200,6 +262,57 @@ describe('AuthService', () => {
     });
   });
 
+  describe('two-factor login', () => {
+    const loginData: LoginInput = {
+      email: 'test@example.com',
+      password: 'SecurePass123!'
+    };
+    let recoveryCodes: string[];
+    let secret: string;
+
+    beforeEach(async () => {
+      const registerResult = await authService.register({ ...loginData, username: 'testuser' });
+      const userId = registerResult.data!.user.id;
+
+      secret = (await twoFactorService.setup(userId)).data!.secret;
+      recoveryCodes = (await twoFactorService.enable(userId, totpService.generateCode(secret))).data!.recoveryCodes;
+    });
+
+    it('should issue a challenge instead of tokens when two-factor is enabled', async () => {
+      const result = await authService.login(loginData);
+      const challenge = result.data as TwoFactorChallenge;
+
+      expect(result.success).toBe(true);
+      expect(challenge.twoFactorRequired).toBe(true);
+      expect(result.data).not.toHaveProperty('tokens');
+      expect(tokenService.verifyAccessToken(challenge.challengeToken).success).toBe(false);
+    });
+
+    it('should issue tokens for the challenge and a valid authenticator code', async () => {
+      const { challengeToken } = (await authService.login(loginData)).data as TwoFactorChallenge;
+
+      const result = await authService.completeTwoFactorLogin({
+        challengeToken,
+        // The code that enabled two-factor is spent, so use the next one
+        code: totpService.generateCode(secret, Date.now() + 30_000)
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.tokens.accessToken).toBeDefined();
+      expect(result.data!.user).not.toHaveProperty('twoFactorSecret');
+    });
+
+    it('should accept a recovery code only once', async () => {
+      const { challengeToken } = (await authService.login(loginData)).data as TwoFactorChallenge;
+
+      const first = await authService.completeTwoFactorLogin({ challengeToken, code: recoveryCodes[0]! });
+      const second = await authService.completeTwoFactorLogin({ challengeToken, code: recoveryCodes[0]! });
+
+      expect(first.success).toBe(true);
+      expect(second).toEqual({ success: false, error: 'Invalid two-factor code' });
+    });
+  });
+
   describe('refreshToken', () => {
     let refreshToken: string;
 
@@ -224,6 +337,18 @@ describe('AuthService', () => {
       expect(result.data!.refreshToken).not.toBe(refreshToken); // New refresh token
     });
 
+    it('should revoke the whole family when a rotated refresh token is reused', async () => {
+      const rotated = await authService.refreshToken(refreshToken);
+
+      const reuse = await authService.refreshToken(refreshToken);
+      expect(reuse.success).toBe(false);
+      expect(reuse.error).toBe('Refresh token reuse detected, please log in again');
+
+      const afterReuse = await authService.refreshToken(rotated.data!.refreshToken);
+      expect(afterReuse.success).toBe(false);
+      expect(afterReuse.error).toBe('Refresh token has been revoked');
+    });
+
     it('should fail with invalid refresh token', async () => {
       const result = await authService.refreshToken('invalid-token');
 
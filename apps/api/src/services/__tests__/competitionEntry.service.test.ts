@@ -1,18 +1,25 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import type { CompetitionEntry, Trade } from '@prisma/client';
+import type { Competition, CompetitionEntry } from '@prisma/client';
+import type { PaperPositionWithDetails } from '@golden-palace/shared';
 import { CompetitionEntryService } from '../competitionEntry.service';
 import type { CompetitionEntryRepository } from '../../repositories/competitionEntry.repository';
-import type { TradeRepository } from '../../repositories/trade.repository';
+import type { CompetitionRepository } from '../../repositories/competition.repository';
+import type { PaperPositionRepository } from '../../repositories/paperPosition.repository';
 
 describe('CompetitionEntryService', () => {
   let service: CompetitionEntryService;
   let entryRepository: CompetitionEntryRepository;
-  let tradeRepository: TradeRepository;
+  let paperPositionRepository: PaperPositionRepository;
+  let competitionRepository: CompetitionRepository;
 
   const mockEntry: CompetitionEntry = {
     id: 'entry123',
     competitionId: 'comp123',
     userId: 'user123',
+    startingBalance: 10000,
+    currentBalance: null,
+    roi: null,
+    winningTrades: 0,
     joinedAt: new Date('2024-01-01'),
     totalPnl: 0,
     totalRoi: 0,
@@ -31,28 +38,31 @@ describe('CompetitionEntryService', () => {
     updatedAt: new Date('2024-01-01')
   };
 
-  const mockTrade: Trade = {
-    id: 'trade123',
+  const mockCompetition = {
+    id: 'comp123',
     groupId: 'group123',
+    type: 'WEEKLY_PNL',
+    status: 'ACTIVE',
+    minTrades: 1,
+    startDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    endDate: new Date(Date.now() + 24 * 60 * 60 * 1000)
+  } as Competition;
+
+  const createPosition = (overrides: Partial<PaperPositionWithDetails> = {}): PaperPositionWithDetails => ({
+    id: 'position123',
     userId: 'user123',
-    symbol: 'BTC/USDT',
-    type: 'LONG',
-    entryPrice: 50000,
-    exitPrice: 55000,
-    quantity: 0.1,
-    pnl: 500,
-    roi: 10,
-    entryTime: new Date('2024-01-02'),
-    exitTime: new Date('2024-01-03'),
+    groupId: 'group123',
+    symbol: 'AAPL',
+    assetType: 'STOCK',
+    quantity: 10,
+    entryPrice: 100,
+    currentPrice: 150,
     status: 'CLOSED',
-    stopLoss: 49000,
-    takeProfit: 55000,
-    notes: null,
-    tags: [],
-    imageUrl: null,
-    createdAt: new Date('2024-01-02'),
-    updatedAt: new Date('2024-01-03')
-  };
+    pnl: 500,
+    competitionEntryId: 'entry123',
+    openedAt: new Date('2024-01-02'),
+    ...overrides
+  } as PaperPositionWithDetails);
 
   beforeEach(() => {
     entryRepository = {
@@ -68,16 +78,19 @@ describe('CompetitionEntryService', () => {
       getTopPerformers: vi.fn()
     } as unknown as CompetitionEntryRepository;
 
-    tradeRepository = {
-      findByUserAndDateRange: vi.fn(),
-      calculateStats: vi.fn(),
-      getBestTrade: vi.fn(),
-      getWorstTrade: vi.fn(),
-      calculateConsistency: vi.fn(),
-      getWinningStreak: vi.fn()
-    } as unknown as TradeRepository;
+    paperPositionRepository = {
+      findByCompetitionEntry: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockImplementation(async (data: any) => createPosition({ ...data, status: 'OPEN' })),
+      withCompetitionEntryLock: vi.fn().mockImplementation(async (_entryId: string, fn: (positions: any) => unknown) =>
+        fn(paperPositionRepository)
+      )
+    } as unknown as PaperPositionRepository;
 
-    service = new CompetitionEntryService(entryRepository, tradeRepository);
+    competitionRepository = {
+      findById: vi.fn().mockResolvedValue(mockCompetition)
+    } as unknown as CompetitionRepository;
+
+    service = new CompetitionEntryService(entryRepository, paperPositionRepository, competitionRepository);
   });
 
   describe('createEntry', () => {
@@ -109,87 +122,119 @@ describe('CompetitionEntryService', () => {
   });
 
   describe('updateEntryStats', () => {
-    it('should update entry statistics based on trades', async () => {
-      const trades = [mockTrade, { ...mockTrade, id: 'trade124', pnl: 300, roi: 6 }];
-      const updatedEntry = {
-        ...mockEntry,
-        totalPnl: 800,
-        totalRoi: 16,
-        winRate: 100,
-        totalTrades: 2,
-        bestTrade: 500,
-        worstTrade: 300,
-        averagePnl: 400,
-        consistency: 85
-      };
-
+    it('should score only the positions opened in the competition account', async () => {
       vi.mocked(entryRepository.findById).mockResolvedValue(mockEntry);
-      vi.mocked(tradeRepository.findByUserAndDateRange).mockResolvedValue(trades);
-      vi.mocked(tradeRepository.calculateStats).mockResolvedValue({
-        totalPnl: 800,
-        totalRoi: 16,
-        winRate: 100,
+      vi.mocked(paperPositionRepository.findByCompetitionEntry).mockResolvedValue([
+        createPosition(),
+        createPosition({ id: 'position124', pnl: -200 }),
+        createPosition({ id: 'position125', status: 'OPEN', pnl: 100 })
+      ]);
+      vi.mocked(entryRepository.update).mockResolvedValue(mockEntry);
+
+      await service.updateEntryStats('entry123');
+
+      expect(paperPositionRepository.findByCompetitionEntry).toHaveBeenCalledWith('entry123');
+      expect(entryRepository.update).toHaveBeenCalledWith('entry123', {
+        currentBalance: 10400,
         totalTrades: 2,
-        averagePnl: 400
-      });
-      vi.mocked(tradeRepository.getBestTrade).mockResolvedValue(500);
-      vi.mocked(tradeRepository.getWorstTrade).mockResolvedValue(300);
-      vi.mocked(tradeRepository.calculateConsistency).mockResolvedValue(85);
-      vi.mocked(tradeRepository.getWinningStreak).mockResolvedValue({
-        current: 2,
-        max: 2
+        winningTrades: 1,
+        roi: 4
       });
-      vi.mocked(entryRepository.updateStats).mockResolvedValue(updatedEntry);
-
-      const result = await service.updateEntryStats(
-        'entry123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      );
-
-      expect(result).toEqual(updatedEntry);
-      expect(tradeRepository.findByUserAndDateRange).toHaveBeenCalledWith(
-        'user123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      );
     });
 
-    it('should handle no trades scenario', async () => {
+    it('should keep the starting balance when nothing was traded', async () => {
       vi.mocked(entryRepository.findById).mockResolvedValue(mockEntry);
-      vi.mocked(tradeRepository.findByUserAndDateRange).mockResolvedValue([]);
-      vi.mocked(entryRepository.updateStats).mockResolvedValue(mockEntry);
+      vi.mocked(entryRepository.update).mockResolvedValue(mockEntry);
 
-      const result = await service.updateEntryStats(
-        'entry123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      );
+      await service.updateEntryStats('entry123');
 
-      expect(result).toEqual(mockEntry);
-      expect(entryRepository.updateStats).toHaveBeenCalledWith('entry123', {
-        totalPnl: 0,
-        totalRoi: 0,
-        winRate: 0,
+      expect(entryRepository.update).toHaveBeenCalledWith('entry123', {
+        currentBalance: 10000,
         totalTrades: 0,
-        bestTrade: null,
-        worstTrade: null,
-        currentStreak: 0,
-        maxStreak: 0,
-        averagePnl: 0,
-        consistency: 0,
-        lastUpdated: expect.any(Date)
+        winningTrades: 0,
+        roi: 0
       });
     });
 
     it('should throw error if entry not found', async () => {
       vi.mocked(entryRepository.findById).mockResolvedValue(null);
 
-      await expect(service.updateEntryStats(
-        'entry123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      )).rejects.toThrow('Competition entry not found');
+      await expect(service.updateEntryStats('entry123')).rejects.toThrow('Competition entry not found');
+    });
+  });
+
+  describe('openPosition', () => {
+    const positionData = {
+      userId: 'user123',
+      groupId: 'group123',
+      symbol: 'AAPL',
+      assetType: 'STOCK' as const,
+      quantity: 50,
+      entryPrice: 100,
+      currentPrice: 100
+    };
+
+    beforeEach(() => {
+      vi.mocked(entryRepository.findByCompetitionAndUser).mockResolvedValue(mockEntry);
+    });
+
+    it('should open the position in the entry account under the entry lock', async () => {
+      const result = await service.openPosition('comp123', positionData);
+
+      expect(result.success).toBe(true);
+      expect(paperPositionRepository.withCompetitionEntryLock).toHaveBeenCalledWith('entry123', expect.any(Function));
+      expect(paperPositionRepository.create).toHaveBeenCalledWith({ ...positionData, competitionEntryId: 'entry123' });
+    });
+
+    it('should reject positions the account cannot pay for', async () => {
+      // 1000 spent on an open position leaves 9000 of the 10000 starting balance
+      vi.mocked(paperPositionRepository.findByCompetitionEntry).mockResolvedValue([
+        createPosition({ status: 'OPEN', pnl: 0 })
+      ]);
+
+      const result = await service.openPosition('comp123', { ...positionData, quantity: 95 });
+
+      expect(result).toEqual({ success: false, error: 'Insufficient competition balance' });
+      expect(paperPositionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject users who have not joined', async () => {
+      vi.mocked(entryRepository.findByCompetitionAndUser).mockResolvedValue(null);
+
+      const result = await service.openPosition('comp123', positionData);
+
+      expect(result).toEqual({ success: false, error: 'You have not joined this competition' });
+    });
+
+    it('should reject competitions that are not running', async () => {
+      vi.mocked(competitionRepository.findById).mockResolvedValue({ ...mockCompetition, status: 'COMPLETED' });
+
+      const result = await service.openPosition('comp123', positionData);
+
+      expect(result).toEqual({ success: false, error: 'Competition is not running' });
+    });
+  });
+
+  describe('scoreCompetition', () => {
+    it('should rank entries that made the minimum trades by P&L', async () => {
+      const entries = [
+        { ...mockEntry, id: 'entry1' },
+        { ...mockEntry, id: 'entry2' },
+        { ...mockEntry, id: 'entry3', rank: 1 }
+      ];
+      vi.mocked(entryRepository.findByCompetitionId).mockResolvedValue(entries);
+      vi.mocked(paperPositionRepository.findByCompetitionEntry).mockImplementation(async (entryId: string) => {
+        if (entryId === 'entry1') return [createPosition({ pnl: 100 })];
+        if (entryId === 'entry2') return [createPosition({ pnl: 300 })];
+        return [];
+      });
+
+      const ranked = await service.scoreCompetition(mockCompetition);
+
+      expect(ranked).toBe(2);
+      expect(entryRepository.update).toHaveBeenCalledWith('entry2', { rank: 1 });
+      expect(entryRepository.update).toHaveBeenCalledWith('entry1', { rank: 2 });
+      expect(entryRepository.update).toHaveBeenCalledWith('entry3', { rank: null });
     });
   });
 
@@ -302,25 +347,14 @@ describe('CompetitionEntryService', () => {
       ];
 
       vi.mocked(entryRepository.findByCompetitionId).mockResolvedValue(entries);
-      vi.mocked(tradeRepository.findByUserAndDateRange).mockResolvedValue([mockTrade]);
-      vi.mocked(tradeRepository.calculateStats).mockResolvedValue({
-        totalPnl: 500,
-        totalRoi: 10,
-        winRate: 100,
-        totalTrades: 1,
-        averagePnl: 500
-      });
-      vi.mocked(entryRepository.updateStats).mockResolvedValue(mockEntry);
+      vi.mocked(paperPositionRepository.findByCompetitionEntry).mockResolvedValue([createPosition()]);
+      vi.mocked(entryRepository.update).mockResolvedValue(mockEntry);
 
-      const result = await service.bulkUpdateStats(
-        'comp123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      );
+      const result = await service.bulkUpdateStats('comp123');
 
       expect(result.updated).toBe(2);
       expect(result.failed).toBe(0);
-      expect(entryRepository.updateStats).toHaveBeenCalledTimes(2);
+      expect(entryRepository.update).toHaveBeenCalledTimes(2);
     });
 
     it('should handle failures gracefully', async () => {
@@ -330,15 +364,12 @@ describe('CompetitionEntryService', () => {
       ];
 
       vi.mocked(entryRepository.findByCompetitionId).mockResolvedValue(entries);
-      vi.mocked(tradeRepository.findByUserAndDateRange)
-        .mockResolvedValueOnce([mockTrade])
+      vi.mocked(paperPositionRepository.findByCompetitionEntry)
+        .mockResolvedValueOnce([createPosition()])
         .mockRejectedValueOnce(new Error('Database error'));
+      vi.mocked(entryRepository.update).mockResolvedValue(mockEntry);
 
-      const result = await service.bulkUpdateStats(
-        'comp123',
-        new Date('2024-01-01'),
-        new Date('2024-01-31')
-      );
+      const result = await service.bulkUpdateStats('comp123');
 
       expect(result.updated).toBe(1);
       expect(result.failed).toBe(1);
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CopyTradingService } from '../copyTrading.service';
+import type { SocialTradingRepository } from '../../repositories/socialTrading.repository';
+import type { PaperPositionRepository } from '../../repositories/paperPosition.repository';
+import type { GroupRepository } from '../../repositories/group.repository';
+import type { PaperPositionWithDetails } from '@golden-palace/shared';
+import { DEFAULT_COPY_SETTINGS } from '@golden-palace/shared';
+
+const createLeaderPosition = (overrides: Partial<PaperPositionWithDetails> = {}): PaperPositionWithDetails => ({
+  id: 'leaderPos1',
+  userId: 'leader1',
+  groupId: 'group1',
+  tradeIdeaId: null,
+  symbol: 'AAPL',
+  assetType: 'STOCK',
+  quantity: 10,
+  entryPrice: 100,
+  currentPrice: 100,
+  stopLoss: null,
+  takeProfit: null,
+  status: 'OPEN',
+  openedAt: new Date('2024-03-01'),
+  closedAt: null,
+  closedPrice: null,
+  closeReason: null,
+  pnl: null,
+  copiedFromPositionId: null,
+  ...overrides,
+} as PaperPositionWithDetails);
+
+const createFollow = (followerId: string, copySettings: Record<string, unknown> = {}) => ({
+  id: `follow-${followerId}`,
+  followerId,
+  traderId: 'leader1',
+  copySettings: { ...DEFAULT_COPY_SETTINGS, ...copySettings },
+  status: 'active' as const,
+  createdAt: new Date('2024-01-01'),
+});
+
+describe('CopyTradingService', () => {
+  let copyTradingService: CopyTradingService;
+  let mockSocialTradingRepository: any;
+  let mockPaperPositionRepository: any;
+  let mockGroupRepository: any;
+
+  beforeEach(() => {
+    mockSocialTradingRepository = {
+      findActiveFollows: vi.fn().mockResolvedValue([]),
+    };
+
+    mockPaperPositionRepository = {
+      create: vi.fn().mockResolvedValue({ id: 'copyPos' }),
+      close: vi.fn(),
+      findOpenCopies: vi.fn().mockResolvedValue([]),
+      hasCopy: vi.fn().mockResolvedValue(false),
+      countOpenCopiesFromTrader: vi.fn().mockResolvedValue(0),
+      getRealizedPnl: vi.fn().mockResolvedValue(0),
+      findCopiedPositions: vi.fn().mockResolvedValue([]),
+    };
+
+    mockGroupRepository = {
+      isUserMember: vi.fn().mockResolvedValue(true),
+      findUserGroups: vi.fn().mockResolvedValue({ data: [] }),
+    };
+
+    copyTradingService = new CopyTradingService(
+      mockSocialTradingRepository as unknown as SocialTradingRepository,
+      mockPaperPositionRepository as unknown as PaperPositionRepository,
+      mockGroupRepository as unknown as GroupRepository
+    );
+  });
+
+  describe('mirrorOpen', () => {
+    it('should size the copy proportionally to the follower allocation', async () => {
+      // Leader puts 1,000 of 10,000 equity (10%) into the trade
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('follower1', { allocation: 0.5, stopLoss: undefined, takeProfit: undefined }),
+      ]);
+
+      const result = await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.copied).toBe(1);
+      // 10,000 equity * 50% allocation * 10% leader weight = 500 notional = 5 shares
+      expect(mockPaperPositionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'follower1',
+          groupId: 'group1',
+          symbol: 'AAPL',
+          quantity: 5,
+          entryPrice: 100,
+          copiedFromPositionId: 'leaderPos1',
+        })
+      );
+    });
+
+    it('should apply stop-loss and take-profit overrides and cap risk per trade', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('follower1', { allocation: 1, maxRiskPerTrade: 0.001, stopLoss: 0.1, takeProfit: 0.2 }),
+      ]);
+
+      await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      // Risking 0.1% of 10,000 with a 10% stop caps the trade at 100 notional
+      const data = mockPaperPositionRepository.create.mock.calls[0]?.[0];
+      expect(data.quantity).toBe(1);
+      expect(data.stopLoss).toBeCloseTo(90);
+      expect(data.takeProfit).toBeCloseTo(120);
+    });
+
+    it('should cap the copy at the max trade amount', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('follower1', { allocation: 1, maxRiskPerTrade: 0.1, maxTradeAmount: 200 }),
+      ]);
+
+      await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(mockPaperPositionRepository.create.mock.calls[0]?.[0].quantity).toBe(2);
+    });
+
+    it('should honor symbol filters and minimum trade amount', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('onlyTsla', { onlySymbols: ['TSLA'] }),
+        createFollow('excludesAapl', { excludeSymbols: ['aapl'] }),
+        createFollow('tooSmall', { allocation: 0.01, minTradeAmount: 50 }),
+      ]);
+
+      const result = await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(result.data?.copied).toBe(0);
+      expect(result.data?.skipped).toEqual([
+        { followerId: 'onlyTsla', reason: 'Symbol not in copy list' },
+        { followerId: 'excludesAapl', reason: 'Symbol excluded' },
+        { followerId: 'tooSmall', reason: 'Below minimum trade amount' },
+      ]);
+      expect(mockPaperPositionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip followers at their open copied position limit', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('follower1', { maxOpenPositions: 2 }),
+      ]);
+      mockPaperPositionRepository.countOpenCopiesFromTrader.mockResolvedValue(2);
+
+      const result = await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(result.data?.skipped).toEqual([
+        { followerId: 'follower1', reason: 'Max open copied positions reached' },
+      ]);
+    });
+
+    it('should place the copy in the follower group when not a member of the leader group', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([createFollow('follower1')]);
+      mockGroupRepository.isUserMember.mockResolvedValue(false);
+      mockGroupRepository.findUserGroups.mockResolvedValue({ data: [{ id: 'followerGroup' }] });
+
+      await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(mockPaperPositionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ groupId: 'followerGroup' })
+      );
+    });
+
+    it('should not re-copy positions that are themselves copies', async () => {
+      const result = await copyTradingService.mirrorOpen(
+        createLeaderPosition({ copiedFromPositionId: 'otherLeaderPos' })
+      );
+
+      expect(result.data?.copied).toBe(0);
+      expect(mockSocialTradingRepository.findActiveFollows).not.toHaveBeenCalled();
+    });
+
+    it('should keep copying for other followers when one copy fails', async () => {
+      mockSocialTradingRepository.findActiveFollows.mockResolvedValue([
+        createFollow('follower1'),
+        createFollow('follower2'),
+      ]);
+      mockPaperPositionRepository.create
+        .mockRejectedValueOnce(new Error('db error'))
+        .mockResolvedValueOnce({ id: 'copyPos' });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await copyTradingService.mirrorOpen(createLeaderPosition());
+
+      expect(result.data?.copied).toBe(1);
+      expect(result.data?.skipped).toEqual([{ followerId: 'follower1', reason: 'Copy failed' }]);
+    });
+  });
+
+  describe('mirrorClose', () => {
+    it('should close open copies at the leader exit price', async () => {
+      mockPaperPositionRepository.findOpenCopies.mockResolvedValue([{ id: 'copy1' }, { id: 'copy2' }]);
+
+      const result = await copyTradingService.mirrorClose(
+        createLeaderPosition({ status: 'CLOSED', closedPrice: 110 })
+      );
+
+      expect(result).toEqual({ success: true, data: 2 });
+      expect(mockPaperPositionRepository.close).toHaveBeenCalledWith('copy1', 110, 'Copied trader closed position');
+      expect(mockPaperPositionRepository.close).toHaveBeenCalledWith('copy2', 110, 'Copied trader closed position');
+    });
+  });
+
+  describe('getPerformance', () => {
+    it('should aggregate closed copies per trader', async () => {
+      mockPaperPositionRepository.findCopiedPositions.mockResolvedValue([
+        { quantity: 10, entryPrice: 100, pnl: 100, status: 'CLOSED', traderId: 'leader1', traderName: 'pro' },
+        { quantity: 10, entryPrice: 100, pnl: -50, status: 'CLOSED', traderId: 'leader1', traderName: 'pro' },
+        { quantity: 5, entryPrice: 100, pnl: null, status: 'OPEN', traderId: 'leader2', traderName: 'swing' },
+      ]);
+
+      const result = await copyTradingService.getPerformance('follower1');
+
+      expect(result.data).toMatchObject({
+        totalPnl: 50,
+        totalReturn: 2.5,
+        totalTrades: 2,
+        openTrades: 1,
+        winRate: 50,
+      });
+      expect(result.data?.traderPerformance[0]).toEqual({
+        traderId: 'leader1',
+        traderName: 'pro',
+        return: 2.5,
+        pnl: 50,
+        trades: 2,
+        openTrades: 0,
+        winRate: 50,
+      });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GamificationService } from '../gamification.service';
+import type { GamificationRepository, ProgressRecord } from '../../repositories/gamification.repository';
+import type { PaperPositionWithDetails } from '@golden-palace/shared';
+
+const createProgress = (overrides: Partial<ProgressRecord> = {}): ProgressRecord => ({
+  userId: 'user1',
+  totalXp: 0,
+  level: 1,
+  prestigeLevel: 0,
+  loginStreak: 0,
+  lastLoginDate: null,
+  ...overrides,
+});
+
+const createClosedPosition = (overrides: Partial<PaperPositionWithDetails> = {}): PaperPositionWithDetails => ({
+  id: 'pos1',
+  userId: 'user1',
+  groupId: 'group1',
+  symbol: 'AAPL',
+  quantity: 10,
+  entryPrice: 100,
+  status: 'CLOSED',
+  pnl: 200,
+  copiedFromPositionId: null,
+  ...overrides,
+} as PaperPositionWithDetails);
+
+describe('GamificationService', () => {
+  let gamificationService: GamificationService;
+  let mockRepository: any;
+  let totalXp: number;
+
+  beforeEach(() => {
+    totalXp = 0;
+    mockRepository = {
+      findProgress: vi.fn().mockResolvedValue(null),
+      updateProgress: vi.fn(),
+      recordXpEvent: vi.fn().mockImplementation(async (data: any) => {
+        totalXp += data.xp;
+        return {
+          event: { id: `event-${data.action}`, timestamp: new Date() },
+          progress: createProgress({ totalXp }),
+        };
+      }),
+      countXpEventsSince: vi.fn().mockResolvedValue(0),
+      findActiveBoosters: vi.fn().mockResolvedValue([]),
+      createBooster: vi.fn(),
+      findClosedPositionsSince: vi.fn().mockResolvedValue([]),
+      countCompetitionsSince: vi.fn().mockResolvedValue(0),
+      findCompetitionRanks: vi.fn().mockResolvedValue([]),
+      getRank: vi.fn().mockResolvedValue(null),
+    };
+
+    gamificationService = new GamificationService(mockRepository as unknown as GamificationRepository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('handleTradeClosed', () => {
+    it('should award closing and profit XP with a bonus for high ROI trades', async () => {
+      const result = await gamificationService.handleTradeClosed(createClosedPosition({ pnl: 200 }));
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(award => [award.action, award.xpAwarded])).toEqual([
+        ['TRADE_CLOSED', 50],
+        ['PROFITABLE_TRADE', 150],
+      ]);
+      expect(mockRepository.recordXpEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PROFITABLE_TRADE', sourceId: 'pos1', bonusXp: 50 })
+      );
+    });
+
+    it('should not award XP for mirrored copy-trading positions', async () => {
+      const result = await gamificationService.handleTradeClosed(
+        createClosedPosition({ copiedFromPositionId: 'leaderPos' })
+      );
+
+      expect(result.data).toEqual([]);
+      expect(mockRepository.recordXpEvent).not.toHaveBeenCalled();
+    });
+
+    it('should apply prestige and booster multipliers', async () => {
+      mockRepository.findProgress.mockResolvedValue(createProgress({ prestigeLevel: 2 }));
+      mockRepository.findActiveBoosters.mockResolvedValue([{ multiplier: 2 }]);
+
+      const result = await gamificationService.handleTradeClosed(createClosedPosition({ pnl: -10 }));
+
+      // 50 base XP * 1.2 prestige * 2 booster
+      expect(result.data?.[0]).toMatchObject({ action: 'TRADE_CLOSED', xpAwarded: 120, totalMultiplier: 2.4 });
+    });
+
+    it('should persist level ups', async () => {
+      totalXp = 480;
+
+      const result = await gamificationService.handleTradeClosed(createClosedPosition({ pnl: 0 }));
+
+      expect(result.data?.[0]).toMatchObject({ level: 2, leveledUp: true, totalXP: 530 });
+      expect(mockRepository.updateProgress).toHaveBeenCalledWith('user1', { level: 2 });
+    });
+
+    it('should reward completed daily challenges and grant their booster', async () => {
+      const closedAt = new Date();
+      mockRepository.findClosedPositionsSince.mockResolvedValue(
+        [10, 20, 30].map(pnl => ({ symbol: 'AAPL', quantity: 1, entryPrice: 100, pnl, closedAt }))
+      );
+
+      const result = await gamificationService.handleTradeClosed(createClosedPosition());
+
+      const challengeAward = result.data?.find(award => award.action === 'CHALLENGE_COMPLETED');
+      expect(challengeAward?.xpAwarded).toBe(200);
+      expect(mockRepository.recordXpEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'CHALLENGE_COMPLETED',
+          sourceId: `PROFIT_STREAK:${closedAt.toISOString().slice(0, 10)}`,
+        })
+      );
+      expect(mockRepository.createBooster).toHaveBeenCalledWith('user1', 2, 'PROFIT_STREAK', expect.any(Date));
+    });
+  });
+
+  describe('handleTradeIdeaPosted', () => {
+    it('should stop awarding XP once the daily limit is reached', async () => {
+      mockRepository.countXpEventsSince.mockResolvedValue(5);
+
+      const result = await gamificationService.handleTradeIdeaPosted('user1', 'idea1');
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(mockRepository.recordXpEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleCompetitionCompleted', () => {
+    it('should add placement XP for the top ten', async () => {
+      mockRepository.findCompetitionRanks.mockResolvedValue([
+        { userId: 'winner', rank: 1 },
+        { userId: 'middle', rank: 8 },
+        { userId: 'last', rank: 20 },
+      ]);
+
+      const result = await gamificationService.handleCompetitionCompleted('comp1');
+
+      expect(result.data?.map(award => award.xpAwarded)).toEqual([150, 300, 150, 200, 150]);
+    });
+  });
+
+  describe('recordDailyLogin', () => {
+    it('should extend the streak after a consecutive day and boost the reward', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-03-10T12:00:00Z'));
+      mockRepository.findProgress.mockResolvedValue(
+        createProgress({ loginStreak: 4, lastLoginDate: new Date('2024-03-09T00:00:00Z') })
+      );
+
+      const result = await gamificationService.recordDailyLogin('user1');
+
+      expect(mockRepository.updateProgress).toHaveBeenCalledWith('user1', {
+        loginStreak: 5,
+        lastLoginDate: new Date('2024-03-10T00:00:00Z'),
+      });
+      // 25 base XP * 1.4 streak multiplier
+      expect(result.data?.xpAwarded).toBe(35);
+    });
+
+    it('should not reward a second check-in on the same day', async () => {
+      mockRepository.findProgress.mockResolvedValue(createProgress({ lastLoginDate: new Date() }));
+
+      const result = await gamificationService.recordDailyLogin('user1');
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(mockRepository.recordXpEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prestige', () => {
+    it('should require the prestige level', async () => {
+      mockRepository.findProgress.mockResolvedValue(createProgress({ level: 99 }));
+
+      const result = await gamificationService.prestige('user1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Prestige unlocks at level 100');
+    });
+
+    it('should reset level and XP while raising prestige', async () => {
+      mockRepository.findProgress.mockResolvedValue(
+        createProgress({ level: 100, totalXp: 40000000, prestigeLevel: 1 })
+      );
+
+      const result = await gamificationService.prestige('user1');
+
+      expect(result.data).toEqual({ prestigeLevel: 2, totalXPBeforePrestige: 40000000, xpMultiplier: 1.2 });
+      expect(mockRepository.updateProgress).toHaveBeenCalledWith('user1', { prestigeLevel: 2, totalXp: 0, level: 1 });
+    });
+  });
+
+  describe('getWeeklyQuests', () => {
+    it('should derive stage progress from the week of closed trades', async () => {
+      mockRepository.findClosedPositionsSince.mockResolvedValue([
+        { symbol: 'AAPL', quantity: 10, entryPrice: 100, pnl: 600, closedAt: new Date() },
+        { symbol: 'MSFT', quantity: 40, entryPrice: 300, pnl: 900, closedAt: new Date() },
+      ]);
+
+      const result = await gamificationService.getWeeklyQuests('user1');
+
+      const profitQuest = result.data?.find(quest => quest.type === 'PROFIT_MILESTONE');
+      expect(profitQuest?.stagesCompleted).toBe(1);
+      expect(profitQuest?.stages.map(stage => stage.progress)).toEqual([1000, 1500, 1500]);
+
+      const volumeQuest = result.data?.find(quest => quest.type === 'TRADE_VOLUME');
+      expect(volumeQuest?.stagesCompleted).toBe(1);
+      expect(volumeQuest?.completed).toBe(false);
+    });
+  });
+});
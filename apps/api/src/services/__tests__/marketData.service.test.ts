@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { MarketDataService } from '../marketData.service';
+import { MarketDataService, alignDailyReturns, calculateReturnStatistics } from '../marketData.service';
 import { AlphaVantageClient } from '../alphaVantageClient';
+import { createMarketDataProvider } from '../marketDataProvider';
+import { ReplayMarketDataProvider } from '../replayMarketDataProvider';
 
 describe('MarketDataService', () => {
   let service: MarketDataService;
@@ -96,7 +98,7 @@ describe('MarketDataService', () => {
       expect(applePrice).not.toBe(microsoftPrice);
     });
 
-    it('should generate different market stats each time for synthetic data', async () => {
+    it('should generate repeatable market stats for synthetic data', async () => {
       delete process.env.ALPHA_VANTAGE_API_KEY;
       const syntheticService = new MarketDataService();
 
@@ -110,6 +112,8 @@ describe('MarketDataService', () => {
       expect(stats1).toHaveProperty('marketCap');
       expect(stats1).toHaveProperty('peRatio');
       expect(stats1).toHaveProperty('dividendYield');
+      expect(await new MarketDataService().getVolume(['AAPL'])).toEqual(await syntheticService.getVolume(['AAPL']));
+      expect(stats2.peRatio).toBe(stats1.peRatio);
     });
 
     it('should cache real API data for short periods', async () => {
@@ -298,4 +302,116 @@ describe('MarketDataService', () => {
       expect(status.rateLimitInfo.isDemoMode).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Market Data Providers', () => {
+    const replayCsv = 'date,symbol,close\n2024-01-02,AAPL,184\n2024-01-03,AAPL,183\n';
+
+    it('should choose the provider named in the configuration', () => {
+      expect(createMarketDataProvider({ MARKET_DATA_PROVIDER: 'synthetic', ALPHA_VANTAGE_API_KEY: 'real-key' }).name).toBe('synthetic');
+      expect(createMarketDataProvider({ MARKET_DATA_PROVIDER: 'AlphaVantage' }).name).toBe('alphavantage');
+      expect(createMarketDataProvider({ ALPHA_VANTAGE_API_KEY: 'real-key' }).name).toBe('alphavantage');
+      expect(createMarketDataProvider({}).name).toBe('synthetic');
+    });
+
+    it('should reject unknown providers and a replay without a file', () => {
+      expect(() => createMarketDataProvider({ MARKET_DATA_PROVIDER: 'bloomberg' })).toThrow("Unknown market data provider 'bloomberg'");
+      expect(() => createMarketDataProvider({ MARKET_DATA_PROVIDER: 'replay' })).toThrow('MARKET_DATA_REPLAY_FILE is required');
+    });
+
+    it('should serve the same prices on every run from a replay provider', async () => {
+      const first = new MarketDataService(ReplayMarketDataProvider.fromCsv(replayCsv));
+      const second = new MarketDataService(ReplayMarketDataProvider.fromCsv(replayCsv));
+
+      expect(await first.getCurrentPrice('AAPL')).toBe(183);
+      expect(await first.getHistoricalPrices('AAPL', 30)).toEqual(await second.getHistoricalPrices('AAPL', 30));
+      expect((await first.getMarketStats('AAPL')).close).toBe(183);
+      expect(first.getApiStatus()).toMatchObject({ provider: 'replay', isUsingRealData: false });
+    });
+
+    it('should quote the change from the previous close', async () => {
+      const replayService = new MarketDataService(ReplayMarketDataProvider.fromCsv(replayCsv));
+
+      const quote = await replayService.getQuote('AAPL');
+
+      expect(quote).toMatchObject({ symbol: 'AAPL', price: 183, previousClose: 184, change: -1, source: 'provider' });
+      expect(quote.changePercent).toBeCloseTo(-0.5435, 3);
+    });
+
+    it('should tag fallback quotes as synthetic and leave out generated volume', async () => {
+      process.env.ALPHA_VANTAGE_API_KEY = 'real-api-key';
+      const realService = new MarketDataService();
+      vi.spyOn(AlphaVantageClient.prototype, 'getSmartPriceData').mockRejectedValue(new Error('Rate limited'));
+      const statsSpy = vi.spyOn(AlphaVantageClient.prototype, 'getMarketStats');
+
+      const quote = await realService.getQuote('AAPL');
+
+      expect(quote).toMatchObject({ source: 'synthetic', volume: 0, change: 0 });
+      expect(statsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should report symbols the replay lacks instead of inventing prices', async () => {
+      const replayService = new MarketDataService(ReplayMarketDataProvider.fromCsv(replayCsv));
+
+      await expect(replayService.getCurrentPrice('MSFT')).rejects.toThrow('No replay prices for MSFT');
+      await expect(replayService.getHistoricalPrices('MSFT', 30)).rejects.toThrow('No replay prices for MSFT');
+      await expect(replayService.getQuote('MSFT')).rejects.toThrow('No replay prices for MSFT');
+    });
+
+    it('should not fall back when a provider is configured explicitly', async () => {
+      process.env.ALPHA_VANTAGE_API_KEY = 'real-api-key';
+      process.env['MARKET_DATA_PROVIDER'] = 'alphavantage';
+      const configuredService = new MarketDataService();
+      vi.spyOn(AlphaVantageClient.prototype, 'getSmartPriceData').mockRejectedValue(new Error('Rate limited'));
+
+      await expect(configuredService.getCurrentPrice('AAPL')).rejects.toThrow('Rate limited');
+    });
+  });
+
+  describe('Return Statistics', () => {
+    const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+
+    it('should align returns on the dates every symbol has a price for', () => {
+      const returns = alignDailyReturns({
+        AAPL: [{ date: day(1), price: 100 }, { date: day(2), price: 110 }, { date: day(3), price: 99 }],
+        MSFT: [{ date: day(1), price: 200 }, { date: day(3), price: 220 }]
+      });
+
+      expect(returns['AAPL']).toEqual([-0.01]);
+      expect(returns['MSFT']).toEqual([0.1]);
+    });
+
+    it('should calculate sample covariance and Pearson correlation', () => {
+      const statistics = calculateReturnStatistics({
+        AAPL: [0.01, 0.02, -0.01, 0.03],
+        MSFT: [0.02, 0.04, -0.02, 0.06],
+        TSLA: [-0.01, -0.02, 0.01, -0.03]
+      });
+
+      expect(statistics.observations).toBe(4);
+      expect(statistics.covariance[0]![0]).toBeCloseTo(0.000291667, 8);
+      expect(statistics.covariance[0]![1]).toBeCloseTo(2 * statistics.covariance[0]![0]!, 10);
+      expect(statistics.correlation[0]![1]).toBeCloseTo(1, 10);
+      expect(statistics.correlation[0]![2]).toBeCloseTo(-1, 10);
+      expect(statistics.correlation[1]![1]).toBe(1);
+    });
+
+    it('should report zero correlation for a series that never moves', () => {
+      const statistics = calculateReturnStatistics({
+        AAPL: [0.01, 0.02, -0.01],
+        CASH: [0, 0, 0]
+      });
+
+      expect(statistics.correlation[0]![1]).toBe(0);
+    });
+
+    it('should key pairwise correlations by both symbol orders', async () => {
+      delete process.env.ALPHA_VANTAGE_API_KEY;
+      const syntheticService = new MarketDataService();
+
+      const correlations = await syntheticService.getCorrelations(['AAPL', 'MSFT']);
+
+      expect(correlations['AAPL-MSFT']).toBe(correlations['MSFT-AAPL']);
+      expect(Math.abs(correlations['AAPL-MSFT']!)).toBeLessThanOrEqual(1);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MarketTickService } from '../marketTick.service';
+import { MarketDataService, type SourcedMarketQuote } from '../marketData.service';
+import { TradeExecutionService } from '../tradeExecution.service';
+import { PaperPositionRepository } from '../../repositories/paperPosition.repository';
+import { AlertRepository } from '../../repositories/alert.repository';
+import { TradeIdeaRepository } from '../../repositories/tradeIdea.repository';
+import { OrderRepository } from '../../repositories/order.repository';
+import { RiskLimitRepository } from '../../repositories/riskLimit.repository';
+
+describe('MarketTickService', () => {
+  let tickService: MarketTickService;
+  let marketDataService: MarketDataService;
+  let tradeExecutionService: TradeExecutionService;
+  let paperPositionRepository: PaperPositionRepository;
+  let alertRepository: AlertRepository;
+  let tradeIdeaRepository: TradeIdeaRepository;
+  let orderRepository: OrderRepository;
+  let riskLimitRepository: RiskLimitRepository;
+  let onQuotes: ReturnType<typeof vi.fn>;
+
+  const quote = (symbol: string, price: number, source: SourcedMarketQuote['source'] = 'provider'): SourcedMarketQuote => ({
+    symbol,
+    price,
+    change: 0,
+    changePercent: 0,
+    volume: 1000,
+    high: price,
+    low: price,
+    open: price,
+    previousClose: price,
+    timestamp: new Date(),
+    source
+  });
+
+  const updateResult = {
+    positionsUpdated: 2,
+    positionsClosed: 1,
+    alertsTriggered: 1,
+    tradesExecuted: 0,
+    ordersFilled: 0
+  };
+
+  beforeEach(() => {
+    delete process.env['MARKET_DATA_PROVIDER'];
+    marketDataService = { getQuote: vi.fn(), advance: vi.fn() } as unknown as MarketDataService;
+    tradeExecutionService = { processMarketUpdate: vi.fn() } as unknown as TradeExecutionService;
+    paperPositionRepository = { findOpenSymbols: vi.fn().mockResolvedValue(['AAPL', 'TSLA']) } as unknown as PaperPositionRepository;
+    alertRepository = { findActiveSymbols: vi.fn().mockResolvedValue(['aapl', 'BTC']) } as unknown as AlertRepository;
+    tradeIdeaRepository = { findActiveSymbols: vi.fn().mockResolvedValue(['MSFT']) } as unknown as TradeIdeaRepository;
+    orderRepository = { findOpenSymbols: vi.fn().mockResolvedValue([]) } as unknown as OrderRepository;
+    riskLimitRepository = { findActiveSymbols: vi.fn().mockResolvedValue([]) } as unknown as RiskLimitRepository;
+    onQuotes = vi.fn().mockResolvedValue(undefined);
+
+    vi.mocked(marketDataService.getQuote).mockImplementation(async symbol => quote(symbol, 100));
+    vi.mocked(tradeExecutionService.processMarketUpdate).mockResolvedValue({ success: true, data: updateResult });
+
+    tickService = new MarketTickService(
+      marketDataService,
+      tradeExecutionService,
+      paperPositionRepository,
+      alertRepository,
+      tradeIdeaRepository,
+      orderRepository,
+      riskLimitRepository,
+      onQuotes
+    );
+  });
+
+  it('should quote every watched symbol once and process the update', async () => {
+    const result = await tickService.tick();
+
+    expect(marketDataService.getQuote).toHaveBeenCalledTimes(4);
+    const quoted = vi.mocked(tradeExecutionService.processMarketUpdate).mock.calls[0]![0].map(q => q.symbol);
+    expect(quoted.sort()).toEqual(['AAPL', 'BTC', 'MSFT', 'TSLA']);
+    expect(onQuotes).toHaveBeenCalledWith({ AAPL: 100, TSLA: 100, BTC: 100, MSFT: 100 });
+    expect(result).toMatchObject({ symbols: 4, quoteFailures: 0, positionsUpdated: 2, positionsClosed: 1 });
+  });
+
+  it('should step a replay to its next trading day after each tick', async () => {
+    await tickService.tick();
+    expect(marketDataService.advance).toHaveBeenCalledTimes(1);
+
+    process.env['MARKET_DATA_REPLAY_STEP_TICKS'] = '2';
+    const slowReplay = new MarketTickService(
+      marketDataService,
+      tradeExecutionService,
+      paperPositionRepository,
+      alertRepository,
+      tradeIdeaRepository,
+      orderRepository,
+      riskLimitRepository
+    );
+    delete process.env['MARKET_DATA_REPLAY_STEP_TICKS'];
+
+    await slowReplay.tick();
+    await slowReplay.tick();
+    expect(marketDataService.advance).toHaveBeenCalledTimes(2);
+  });
+
+  it('should quote holdings of risk-limited portfolios nothing else watches', async () => {
+    vi.mocked(riskLimitRepository.findActiveSymbols).mockResolvedValue(['SPY', 'aapl']);
+
+    const result = await tickService.tick();
+
+    expect(result).toMatchObject({ symbols: 5 });
+    expect(onQuotes).toHaveBeenCalledWith({ AAPL: 100, TSLA: 100, BTC: 100, MSFT: 100, SPY: 100 });
+  });
+
+  it('should skip symbols that fail to quote', async () => {
+    vi.mocked(marketDataService.getQuote).mockImplementation(async symbol => {
+      if (symbol === 'BTC') throw new Error('Provider unavailable');
+      return quote(symbol, 100);
+    });
+
+    const result = await tickService.tick();
+
+    expect(result).toMatchObject({ symbols: 4, quoteFailures: 1 });
+    expect(vi.mocked(tradeExecutionService.processMarketUpdate).mock.calls[0]![0]).toHaveLength(3);
+  });
+
+  it('should not execute on synthetic quotes unless synthetic data is configured', async () => {
+    vi.mocked(marketDataService.getQuote).mockImplementation(async symbol =>
+      quote(symbol, 100, symbol === 'TSLA' ? 'provider' : 'synthetic')
+    );
+
+    const result = await tickService.tick();
+
+    expect(result).toMatchObject({ symbols: 4, syntheticSkipped: 3 });
+    expect(vi.mocked(tradeExecutionService.processMarketUpdate).mock.calls[0]![0].map(q => q.symbol)).toEqual(['TSLA']);
+    expect(onQuotes).toHaveBeenCalledWith({ TSLA: 100 });
+  });
+
+  it('should execute on synthetic quotes when synthetic data is configured', async () => {
+    process.env['MARKET_DATA_PROVIDER'] = 'synthetic';
+    vi.mocked(marketDataService.getQuote).mockImplementation(async symbol => quote(symbol, 100, 'synthetic'));
+    const syntheticTick = new MarketTickService(
+      marketDataService,
+      tradeExecutionService,
+      paperPositionRepository,
+      alertRepository,
+      tradeIdeaRepository,
+      orderRepository,
+      riskLimitRepository
+    );
+
+    const result = await syntheticTick.tick();
+    delete process.env['MARKET_DATA_PROVIDER'];
+
+    expect(result).toMatchObject({ symbols: 4, syntheticSkipped: 0 });
+    expect(vi.mocked(tradeExecutionService.processMarketUpdate).mock.calls[0]![0]).toHaveLength(4);
+  });
+
+  it('should not touch the execution engine when nothing is watched', async () => {
+    vi.mocked(paperPositionRepository.findOpenSymbols).mockResolvedValue([]);
+    vi.mocked(alertRepository.findActiveSymbols).mockResolvedValue([]);
+    vi.mocked(tradeIdeaRepository.findActiveSymbols).mockResolvedValue([]);
+    vi.mocked(riskLimitRepository.findActiveSymbols).mockResolvedValue([]);
+
+    const result = await tickService.tick();
+
+    expect(result).toMatchObject({ symbols: 0, positionsUpdated: 0 });
+    expect(tradeExecutionService.processMarketUpdate).not.toHaveBeenCalled();
+    expect(onQuotes).not.toHaveBeenCalled();
+  });
+
+  it('should not overlap a tick that is still running', async () => {
+    let release: () => void = () => {};
+    vi.mocked(tradeExecutionService.processMarketUpdate).mockImplementation(
+      () => new Promise(resolve => {
+        release = () => resolve({ success: true, data: updateResult });
+      })
+    );
+
+    const first = tickService.tick();
+    await vi.waitFor(() => expect(tradeExecutionService.processMarketUpdate).toHaveBeenCalled());
+
+    expect(await tickService.tick()).toBeNull();
+
+    release();
+    await expect(first).resolves.toMatchObject({ symbols: 4 });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NotificationService } from '../notification.service';
+import type { NotificationRepository } from '../../repositories/notification.repository';
+import type { UserNotifier } from '../../websocket/userNotifier';
+import { DEFAULT_NOTIFICATION_PREFERENCES, type UserNotification } from '@golden-palace/shared';
+
+const createNotification = (overrides: Partial<UserNotification> = {}): UserNotification => ({
+  id: 'notification1',
+  userId: 'user1',
+  type: 'MENTION',
+  title: 'trader mentioned you in Day Traders',
+  body: '@user1 what do you think?',
+  data: { groupId: 'group1' },
+  readAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let mockRepository: any;
+  let notifier: { emitToUser: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    mockRepository = {
+      create: vi.fn().mockImplementation(async (data: any) => createNotification(data)),
+      findByUserId: vi.fn().mockResolvedValue({ notifications: [createNotification()], total: 21 }),
+      countUnread: vi.fn().mockResolvedValue(3),
+      markRead: vi.fn().mockResolvedValue(1),
+      getUserSettings: vi.fn().mockResolvedValue(null),
+      updateUserSettings: vi.fn(),
+    };
+    notifier = { emitToUser: vi.fn() };
+
+    service = new NotificationService(
+      mockRepository as unknown as NotificationRepository,
+      notifier as unknown as UserNotifier
+    );
+  });
+
+  it('should store a notification and push it with the unread count', async () => {
+    const result = await service.notify('user1', {
+      type: 'ALERT_TRIGGERED',
+      title: 'AAPL alert triggered',
+      body: 'Price above 200',
+      data: { alertId: 'alert1' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user1', type: 'ALERT_TRIGGERED', data: { alertId: 'alert1' } })
+    );
+    expect(notifier.emitToUser).toHaveBeenCalledWith('user1', 'notification:new', {
+      notification: result.data,
+      unreadCount: 3,
+    });
+  });
+
+  it('should drop types the user switched off', async () => {
+    mockRepository.getUserSettings.mockResolvedValue({ notifications: { MENTION: false } });
+
+    const result = await service.notify('user1', { type: 'MENTION', title: 'Mentioned', body: 'Hi' });
+
+    expect(result).toEqual({ success: true, data: null });
+    expect(mockRepository.create).not.toHaveBeenCalled();
+    expect(notifier.emitToUser).not.toHaveBeenCalled();
+  });
+
+  it('should count deliveries once per user when notifying many', async () => {
+    mockRepository.getUserSettings.mockImplementation(async (userId: string) =>
+      userId === 'user3' ? { notifications: { COMPETITION_STARTED: false } } : null
+    );
+
+    const result = await service.notifyMany(['user1', 'user2', 'user1', 'user3'], {
+      type: 'COMPETITION_STARTED',
+      title: 'Competition started',
+      body: 'Weekly Cup has started. Good luck!',
+    });
+
+    expect(result.data).toBe(2);
+    expect(mockRepository.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should page notifications and report the unread count', async () => {
+    const result = await service.getNotifications('user1', { page: 2, limit: 10, unreadOnly: true });
+
+    expect(mockRepository.findByUserId).toHaveBeenCalledWith('user1', { page: 2, limit: 10, unreadOnly: true });
+    expect(result.data).toMatchObject({
+      unreadCount: 3,
+      pagination: { page: 2, limit: 10, total: 21, hasMore: true },
+    });
+  });
+
+  it('should mark one or all notifications as read', async () => {
+    mockRepository.countUnread.mockResolvedValue(2);
+
+    expect((await service.markRead('user1', ['notification1'])).data).toEqual({ marked: 1, unreadCount: 2 });
+    expect(mockRepository.markRead).toHaveBeenCalledWith('user1', ['notification1']);
+
+    mockRepository.markRead.mockResolvedValue(5);
+    expect((await service.markAllRead('user1')).data).toEqual({ marked: 5, unreadCount: 0 });
+    expect(mockRepository.markRead).toHaveBeenLastCalledWith('user1');
+  });
+
+  it('should merge preference changes into the existing user settings', async () => {
+    mockRepository.getUserSettings.mockResolvedValue({ theme: 'dark', notifications: { MENTION: false } });
+
+    const result = await service.updatePreferences('user1', { GROUP_INVITE: false });
+
+    const expected = { ...DEFAULT_NOTIFICATION_PREFERENCES, MENTION: false, GROUP_INVITE: false };
+    expect(result.data).toEqual(expected);
+    expect(mockRepository.updateUserSettings).toHaveBeenCalledWith('user1', { theme: 'dark', notifications: expected });
+  });
+});
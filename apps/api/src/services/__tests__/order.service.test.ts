@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OrderService } from '../order.service';
+import type { OrderRepository } from '../../repositories/order.repository';
+import type { PaperPositionRepository } from '../../repositories/paperPosition.repository';
+import type { GroupRepository } from '../../repositories/group.repository';
+import type { MarketQuote, OrderWithDetails, PaperPositionWithDetails } from '@golden-palace/shared';
+
+const createOrder = (overrides: Partial<OrderWithDetails> = {}): OrderWithDetails => ({
+  id: 'order1',
+  userId: 'user1',
+  groupId: 'group1',
+  positionId: null,
+  symbol: 'AAPL',
+  assetType: 'STOCK',
+  side: 'BUY',
+  type: 'LIMIT',
+  quantity: 10,
+  filledQuantity: 0,
+  price: 100,
+  stopPrice: null,
+  filledPrice: null,
+  stopLoss: null,
+  takeProfit: null,
+  timeInForce: 'GTC',
+  status: 'PENDING',
+  cancelReason: null,
+  triggeredAt: null,
+  expiresAt: null,
+  filledAt: null,
+  cancelledAt: null,
+  createdAt: new Date('2024-03-01'),
+  updatedAt: new Date('2024-03-01'),
+  ...overrides,
+});
+
+const createPosition = (overrides: Partial<PaperPositionWithDetails> = {}): PaperPositionWithDetails => ({
+  id: 'pos1',
+  userId: 'user1',
+  groupId: 'group1',
+  symbol: 'AAPL',
+  assetType: 'STOCK',
+  quantity: 10,
+  entryPrice: 90,
+  status: 'OPEN',
+  copiedFromPositionId: null,
+  ...overrides,
+} as PaperPositionWithDetails);
+
+const createQuote = (price: number, volume = 0): MarketQuote => ({
+  symbol: 'AAPL',
+  price,
+  change: 0,
+  changePercent: 0,
+  volume,
+  high: price,
+  low: price,
+  open: price,
+  previousClose: price,
+  timestamp: new Date(),
+});
+
+describe('OrderService', () => {
+  let orderService: OrderService;
+  let mockOrderRepository: any;
+  let mockPaperPositionRepository: any;
+  let mockGroupRepository: any;
+  let mockCopyTradingService: any;
+  let mockGamificationService: any;
+
+  beforeEach(() => {
+    mockOrderRepository = {
+      create: vi.fn().mockImplementation(async (data: any) => createOrder(data)),
+      findById: vi.fn(),
+      findOpenOrders: vi.fn().mockResolvedValue([]),
+      getReservedSellQuantity: vi.fn().mockResolvedValue(0),
+      recordFill: vi.fn().mockImplementation(async (order: OrderWithDetails, quantity: number) =>
+        createOrder({
+          ...order,
+          filledQuantity: order.filledQuantity + quantity,
+          status: order.filledQuantity + quantity >= order.quantity ? 'FILLED' : 'PARTIALLY_FILLED',
+        })
+      ),
+      markTriggered: vi.fn(),
+      cancel: vi.fn().mockImplementation(async (id: string) => createOrder({ id, status: 'CANCELLED' })),
+      expireOrders: vi.fn().mockResolvedValue(0),
+      transaction: vi.fn().mockImplementation(async (fn: (repositories: any) => Promise<unknown>) =>
+        fn({ orders: mockOrderRepository, positions: mockPaperPositionRepository })
+      ),
+    };
+
+    mockPaperPositionRepository = {
+      getOpenPositions: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue(createPosition({ id: 'newPos' })),
+      increasePosition: vi.fn().mockResolvedValue(createPosition()),
+      close: vi.fn().mockResolvedValue(createPosition({ status: 'CLOSED' })),
+      closePartial: vi.fn().mockResolvedValue(createPosition({ id: 'splitPos', status: 'CLOSED' })),
+    };
+
+    mockGroupRepository = {
+      isUserMember: vi.fn().mockResolvedValue(true),
+    };
+
+    mockCopyTradingService = { mirrorOpen: vi.fn(), mirrorClose: vi.fn() };
+    mockGamificationService = { handleTradeClosed: vi.fn() };
+
+    orderService = new OrderService(
+      mockOrderRepository as unknown as OrderRepository,
+      mockPaperPositionRepository as unknown as PaperPositionRepository,
+      mockGroupRepository as unknown as GroupRepository,
+      mockCopyTradingService,
+      mockGamificationService
+    );
+  });
+
+  describe('placeOrder', () => {
+    const input = {
+      groupId: 'group1',
+      symbol: 'AAPL',
+      assetType: 'STOCK' as const,
+      side: 'BUY' as const,
+      type: 'LIMIT' as const,
+      quantity: 10,
+      price: 100,
+      timeInForce: 'DAY' as const,
+    };
+
+    it('should expire DAY orders at the end of the UTC day', async () => {
+      const result = await orderService.placeOrder('user1', input);
+
+      expect(result.success).toBe(true);
+      const expiresAt: Date = mockOrderRepository.create.mock.calls[0][0].expiresAt;
+      expect(expiresAt.getUTCHours()).toBe(0);
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject sells beyond the open quantity not already reserved by other sell orders', async () => {
+      mockPaperPositionRepository.getOpenPositions.mockResolvedValue([createPosition({ quantity: 10 })]);
+      mockOrderRepository.getReservedSellQuantity.mockResolvedValue(6);
+
+      const result = await orderService.placeOrder('user1', { ...input, side: 'SELL', quantity: 5 });
+
+      expect(result).toEqual({ success: false, error: 'Insufficient position quantity to sell' });
+      expect(mockOrderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should require group membership', async () => {
+      mockGroupRepository.isUserMember.mockResolvedValue(false);
+
+      const result = await orderService.placeOrder('user1', input);
+
+      expect(result.error).toBe('You are not a member of this group');
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should not cancel a filled order', async () => {
+      mockOrderRepository.findById.mockResolvedValue(createOrder({ status: 'FILLED' }));
+
+      const result = await orderService.cancelOrder('user1', 'order1');
+
+      expect(result.error).toBe('Order is no longer open');
+      expect(mockOrderRepository.cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('matchOrders', () => {
+    it('should leave a buy limit working until the price reaches the limit', async () => {
+      mockOrderRepository.findOpenOrders.mockResolvedValue([createOrder()]);
+
+      const result = await orderService.matchOrders([createQuote(101)]);
+
+      expect(result.data).toEqual({ ordersFilled: 0, ordersExpired: 0 });
+      expect(mockOrderRepository.recordFill).not.toHaveBeenCalled();
+    });
+
+    it('should open a position when a buy limit fills and mirror it to followers', async () => {
+      mockOrderRepository.findOpenOrders.mockResolvedValue([createOrder({ stopLoss: 95 })]);
+
+      const result = await orderService.matchOrders([createQuote(99.5)]);
+
+      expect(result.data?.ordersFilled).toBe(1);
+      expect(mockPaperPositionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 10, entryPrice: 99.5, stopLoss: 95 })
+      );
+      expect(mockCopyTradingService.mirrorOpen).toHaveBeenCalled();
+      expect(mockOrderRepository.recordFill).toHaveBeenCalledWith(expect.anything(), 10, 99.5, 'newPos');
+    });
+
+    it('should add buy fills to an existing open position', async () => {
+      mockPaperPositionRepository.getOpenPositions.mockResolvedValue([createPosition()]);
+      mockOrderRepository.findOpenOrders.mockResolvedValue([createOrder({ type: 'MARKET', price: null })]);
+
+      await orderService.matchOrders([createQuote(120)]);
+
+      expect(mockPaperPositionRepository.increasePosition).toHaveBeenCalledWith('pos1', 10, 120);
+      expect(mockPaperPositionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should partially fill orders larger than the available volume', async () => {
+      mockOrderRepository.findOpenOrders.mockResolvedValue([
+        createOrder({ id: 'first', type: 'MARKET' }),
+        createOrder({ id: 'second', type: 'MARKET' }),
+      ]);
+
+      // 1% of 1,500 shares is available this tick
+      await orderService.matchOrders([createQuote(100, 1500)]);
+
+      expect(mockOrderRepository.recordFill).toHaveBeenCalledTimes(2);
+      expect(mockOrderRepository.recordFill.mock.calls[0][1]).toBe(10);
+      expect(mockOrderRepository.recordFill.mock.calls[1][1]).toBe(5);
+    });
+
+    it('should trigger a stop-limit and fill once the limit is also reached', async () => {
+      const order = createOrder({ side: 'SELL', type: 'STOP_LIMIT', stopPrice: 95, price: 94 });
+      mockPaperPositionRepository.getOpenPositions.mockResolvedValue([createPosition()]);
+      mockOrderRepository.findOpenOrders.mockResolvedValue([order]);
+
+      const result = await orderService.matchOrders([createQuote(94.5)]);
+
+      expect(mockOrderRepository.markTriggered).toHaveBeenCalledWith('order1');
+      expect(result.data?.ordersFilled).toBe(1);
+      expect(mockPaperPositionRepository.close).toHaveBeenCalledWith('pos1', 94.5, 'Sell order filled');
+      expect(mockCopyTradingService.mirrorClose).toHaveBeenCalled();
+      expect(mockGamificationService.handleTradeClosed).toHaveBeenCalled();
+    });
+
+    it('should split off the sold quantity when a sell only reduces the position', async () => {
+      mockPaperPositionRepository.getOpenPositions.mockResolvedValue([createPosition({ quantity: 25 })]);
+      mockOrderRepository.findOpenOrders.mockResolvedValue([
+        createOrder({ side: 'SELL', type: 'STOP_LOSS', price: null, stopPrice: 95 }),
+      ]);
+
+      await orderService.matchOrders([createQuote(94)]);
+
+      expect(mockPaperPositionRepository.closePartial).toHaveBeenCalledWith('pos1', 10, 94, 'Sell order filled');
+      expect(mockPaperPositionRepository.close).not.toHaveBeenCalled();
+      expect(mockGamificationService.handleTradeClosed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'splitPos' })
+      );
+    });
+
+    it('should not mirror a fill whose order was filled concurrently', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockOrderRepository.findOpenOrders.mockResolvedValue([createOrder({ type: 'MARKET', price: null })]);
+      mockOrderRepository.recordFill.mockRejectedValue(new Error('Order was filled or closed concurrently'));
+
+      const result = await orderService.matchOrders([createQuote(100)]);
+
+      expect(result.data?.ordersFilled).toBe(0);
+      expect(mockOrderRepository.transaction).toHaveBeenCalledTimes(1);
+      expect(mockCopyTradingService.mirrorOpen).not.toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to fill order order1:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should cancel a sell order whose position was closed elsewhere', async () => {
+      mockOrderRepository.findOpenOrders.mockResolvedValue([createOrder({ side: 'SELL', price: 90 })]);
+
+      const result = await orderService.matchOrders([createQuote(100)]);
+
+      expect(result.data?.ordersFilled).toBe(0);
+      expect(mockOrderRepository.cancel).toHaveBeenCalledWith('order1', 'Position is no longer open');
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PortfolioLedgerService, replayLedger } from '../portfolioLedger.service';
+import type { PortfolioRepository } from '../../repositories/portfolio.repository';
+import type { AssetRepository } from '../../repositories/asset.repository';
+import type { PortfolioTransactionRepository } from '../../repositories/portfolioTransaction.repository';
+import type { Transaction } from '@golden-palace/shared';
+
+const createTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx1',
+  portfolioId: 'portfolio1',
+  type: 'BUY',
+  symbol: 'AAPL',
+  quantity: 10,
+  price: 100,
+  totalAmount: -1000,
+  fee: 0,
+  currency: 'USD',
+  executedAt: new Date('2024-01-01'),
+  createdAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+// Deposits, withdrawals and fees carry no symbol or quantity
+const createCashTransaction = (id: string, type: Transaction['type'], price: number): Transaction => {
+  const { symbol, quantity, ...transaction } = createTransaction({ id, type, price });
+  return transaction;
+};
+
+// Two buys at different prices, then a sell of 15 at 130
+const lotsLedger = [
+  createTransaction({ id: 'buy1', quantity: 10, price: 100, executedAt: new Date('2024-01-01') }),
+  createTransaction({ id: 'buy2', quantity: 10, price: 120, executedAt: new Date('2024-02-01') }),
+  createTransaction({ id: 'sell1', type: 'SELL', quantity: 15, price: 130, executedAt: new Date('2024-03-01') }),
+];
+
+describe('replayLedger', () => {
+  it('should realize P&L against the oldest lots first under FIFO', () => {
+    const result = replayLedger(lotsLedger, 'FIFO', 10000);
+    const holding = result.data!.holdings.get('AAPL')!;
+
+    // 15 * 130 - (10 * 100 + 5 * 120)
+    expect(result.data!.realizedByTransaction.get('sell1')).toBeCloseTo(350);
+    expect(holding.lots).toEqual([{ quantity: 5, unitCost: 120, acquiredAt: new Date('2024-02-01') }]);
+  });
+
+  it('should realize P&L against the newest lots first under LIFO', () => {
+    const result = replayLedger(lotsLedger, 'LIFO', 10000);
+    const holding = result.data!.holdings.get('AAPL')!;
+
+    // 15 * 130 - (10 * 120 + 5 * 100)
+    expect(result.data!.realizedPnl).toBeCloseTo(250);
+    expect(holding.lots).toEqual([{ quantity: 5, unitCost: 100, acquiredAt: new Date('2024-01-01') }]);
+  });
+
+  it('should pool lots at their average cost under AVERAGE_COST', () => {
+    const result = replayLedger(lotsLedger, 'AVERAGE_COST', 10000);
+    const holding = result.data!.holdings.get('AAPL')!;
+
+    // 15 * 130 - 15 * 110
+    expect(result.data!.realizedPnl).toBeCloseTo(300);
+    expect(holding.lots).toHaveLength(1);
+    expect(holding.lots[0]!.quantity).toBeCloseTo(5);
+    expect(holding.lots[0]!.unitCost).toBeCloseTo(110);
+  });
+
+  it('should include buy fees in the cost basis and deduct sell fees from proceeds', () => {
+    const result = replayLedger([
+      createTransaction({ id: 'buy', quantity: 10, price: 100, fee: 10 }),
+      createTransaction({ id: 'sell', type: 'SELL', quantity: 10, price: 110, fee: 5, executedAt: new Date('2024-02-01') }),
+    ], 'FIFO', 5000);
+
+    expect(result.data!.realizedPnl).toBeCloseTo(1100 - 5 - 1010);
+    expect(result.data!.cashBalance).toBeCloseTo(5000 - 1010 + 1095);
+  });
+
+  it('should track cash through deposits, dividends, fees and withdrawals', () => {
+    const result = replayLedger([
+      createCashTransaction('deposit', 'DEPOSIT', 500),
+      createTransaction({ id: 'buy', quantity: 10, price: 100 }),
+      createTransaction({ id: 'dividend', type: 'DIVIDEND', quantity: 10, price: 0.5 }),
+      createCashTransaction('fee', 'FEE', 2),
+      createCashTransaction('withdraw', 'WITHDRAW', 100),
+    ], 'FIFO', 1000);
+
+    expect(result.data!.cashBalance).toBeCloseTo(1000 + 500 - 1000 + 5 - 2 - 100);
+    expect(result.data!.netContributions).toBe(1400);
+  });
+
+  it('should reject selling more than is held at that point in time', () => {
+    const result = replayLedger([
+      createTransaction({ id: 'sell', type: 'SELL', quantity: 5, executedAt: new Date('2024-01-01') }),
+      createTransaction({ id: 'buy', quantity: 10, executedAt: new Date('2024-02-01') }),
+    ], 'FIFO', 10000);
+
+    expect(result).toEqual({ success: false, error: 'Cannot sell 5 AAPL on 2024-01-01: only 0 held' });
+  });
+
+  it('should reject transactions that overdraw cash', () => {
+    const result = replayLedger([createTransaction({ quantity: 10, price: 100 })], 'FIFO', 500);
+
+    expect(result).toEqual({ success: false, error: 'Insufficient cash for the buy on 2024-01-01' });
+  });
+});
+
+describe('PortfolioLedgerService', () => {
+  let service: PortfolioLedgerService;
+  let mockPortfolioRepository: any;
+  let mockAssetRepository: any;
+  let mockTransactionRepository: any;
+  let ledger: Transaction[];
+
+  const portfolio = {
+    id: 'portfolio1',
+    userId: 'user1',
+    initialBalance: 10000,
+    costBasisMethod: 'FIFO',
+  };
+
+  beforeEach(() => {
+    ledger = [];
+
+    mockPortfolioRepository = {
+      findById: vi.fn().mockResolvedValue(portfolio),
+      update: vi.fn(),
+    };
+
+    mockAssetRepository = {
+      findBySymbol: vi.fn().mockResolvedValue(null),
+      findByPortfolioId: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    mockTransactionRepository = {
+      findAllByPortfolioId: vi.fn().mockImplementation(async () => [...ledger]),
+      create: vi.fn().mockImplementation(async (data: any) => {
+        const transaction = createTransaction({ ...data, id: `tx${ledger.length + 1}`, symbol: data.symbol ?? undefined });
+        ledger.push(transaction);
+        return transaction;
+      }),
+      withPortfolioLock: vi.fn().mockImplementation(async (_portfolioId: string, fn: (repositories: any) => unknown) =>
+        fn({
+          portfolios: mockPortfolioRepository,
+          assets: mockAssetRepository,
+          transactions: mockTransactionRepository,
+        })
+      ),
+    };
+
+    service = new PortfolioLedgerService(
+      mockPortfolioRepository as unknown as PortfolioRepository,
+      mockAssetRepository as unknown as AssetRepository,
+      mockTransactionRepository as unknown as PortfolioTransactionRepository
+    );
+  });
+
+  const buyInput = {
+    portfolioId: 'portfolio1',
+    type: 'BUY' as const,
+    symbol: 'aapl',
+    quantity: 10,
+    price: 100,
+    fee: 5,
+    currency: 'USD',
+    executedAt: new Date('2024-01-01'),
+  };
+
+  it('should only let the owner record transactions', async () => {
+    mockPortfolioRepository.findById.mockResolvedValue({ ...portfolio, userId: 'user2' });
+
+    const result = await service.recordTransaction('user1', buyInput);
+
+    expect(result).toEqual({ success: false, error: 'Access denied' });
+    expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should store the cash effect and project the holding onto the portfolio asset', async () => {
+    const result = await service.recordTransaction('user1', buyInput);
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ totalAmount: -1005, symbol: 'aapl' })
+    );
+    expect(mockAssetRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'AAPL', quantity: 10, averageCost: 100.5, totalCost: 1005 })
+    );
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith(
+      'portfolio1',
+      expect.objectContaining({ cashBalance: 8995, realizedPnl: 0 })
+    );
+  });
+
+  it('should not write a backdated sell that predates the purchase', async () => {
+    ledger.push(createTransaction({ executedAt: new Date('2024-02-01') }));
+
+    const result = await service.recordTransaction('user1', {
+      ...buyInput,
+      type: 'SELL',
+      executedAt: new Date('2024-01-15'),
+    });
+
+    expect(result.error).toBe('Cannot sell 10 AAPL on 2024-01-15: only 0 held');
+    expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should remove the asset once the ledger closes the holding', async () => {
+    ledger.push(createTransaction());
+    mockAssetRepository.findBySymbol.mockResolvedValue({ id: 'asset1', currentPrice: 110 });
+
+    const result = await service.recordTransaction('user1', {
+      ...buyInput,
+      type: 'SELL',
+      fee: 0,
+      price: 110,
+      executedAt: new Date('2024-02-01'),
+    });
+
+    expect(result.data!.realizedPnl).toBeCloseTo(100);
+    expect(mockAssetRepository.delete).toHaveBeenCalledWith('asset1');
+  });
+
+  it('should bring a directly added holding into the ledger before trading it', async () => {
+    mockAssetRepository.findBySymbol.mockResolvedValue({
+      id: 'asset1',
+      quantity: 10,
+      averageCost: 90,
+      currentPrice: 100,
+      createdAt: new Date('2023-12-01'),
+    });
+
+    const result = await service.recordTransaction('user1', buyInput);
+
+    expect(result.success).toBe(true);
+    // The 10 held before the ledger plus the 10 bought, not just the 10 the ledger recorded
+    expect(mockAssetRepository.update).toHaveBeenCalledWith('asset1', expect.objectContaining({ quantity: 20 }));
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith(
+      'portfolio1',
+      expect.objectContaining({ cashBalance: 8995 })
+    );
+  });
+
+  it('should not adopt a directly added holding when the transaction is rejected', async () => {
+    mockAssetRepository.findBySymbol.mockResolvedValue({
+      id: 'asset1',
+      quantity: 10,
+      averageCost: 90,
+      currentPrice: 100,
+      createdAt: new Date('2023-12-01'),
+    });
+
+    const result = await service.recordTransaction('user1', { ...buyInput, type: 'SELL', quantity: 15 });
+
+    expect(result.error).toBe('Cannot sell 15 AAPL on 2024-01-01: only 10 held');
+    expect(mockTransactionRepository.withPortfolioLock).toHaveBeenCalledWith('portfolio1', expect.any(Function));
+    expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should add transferred shares without touching cash', async () => {
+    mockAssetRepository.findBySymbol
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ id: 'asset1', quantity: 10, averageCost: 150, currentPrice: null, createdAt: new Date() });
+
+    const result = await service.addHolding('user1', 'portfolio1', {
+      symbol: 'msft',
+      quantity: 10,
+      averageCost: 150,
+      source: 'TRANSFER',
+    });
+
+    expect(result.data).toMatchObject({ id: 'asset1' });
+    expect(ledger.map(transaction => transaction.type)).toEqual(['DEPOSIT', 'BUY']);
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith(
+      'portfolio1',
+      expect.objectContaining({ cashBalance: 10000 })
+    );
+  });
+
+  it('should pay for bought shares from the portfolio cash', async () => {
+    mockAssetRepository.findBySymbol
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ id: 'asset1', quantity: 10, averageCost: 150, currentPrice: null, createdAt: new Date() });
+
+    const result = await service.addHolding('user1', 'portfolio1', {
+      symbol: 'msft',
+      quantity: 10,
+      averageCost: 150,
+      source: 'BUY',
+    });
+
+    expect(result.success).toBe(true);
+    expect(ledger.map(transaction => transaction.type)).toEqual(['BUY']);
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith(
+      'portfolio1',
+      expect.objectContaining({ cashBalance: 8500 })
+    );
+  });
+
+  it('should reject a bought holding the portfolio cash does not cover', async () => {
+    const result = await service.addHolding('user1', 'portfolio1', {
+      symbol: 'msft',
+      quantity: 100,
+      averageCost: 150,
+      source: 'BUY',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Insufficient cash for the buy on/);
+    expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should re-derive lots when the cost basis method changes', async () => {
+    ledger.push(...lotsLedger);
+
+    const result = await service.setCostBasisMethod('user1', 'portfolio1', 'LIFO');
+
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith('portfolio1', { costBasisMethod: 'LIFO' });
+    expect(result.data!.realizedPnl).toBeCloseTo(250);
+    expect(result.data!.holdings[0]).toMatchObject({ symbol: 'AAPL', quantity: 5, averageCost: 100 });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PortfolioSnapshotService } from '../portfolioSnapshot.service';
+import { PortfolioRepository } from '../../repositories/portfolio.repository';
+import { AssetRepository } from '../../repositories/asset.repository';
+import type { MarketDataService, SourcedMarketQuote } from '../marketData.service';
+
+describe('PortfolioSnapshotService', () => {
+  let snapshotService: PortfolioSnapshotService;
+  let portfolioRepository: PortfolioRepository;
+  let assetRepository: AssetRepository;
+  let marketDataService: MarketDataService;
+  let prices: Record<string, number>;
+
+  const mockPortfolio = {
+    id: 'portfolio123',
+    userId: 'user123',
+    initialBalance: 10000,
+    currentValue: 12000,
+    cashBalance: 200
+  };
+
+  const mockAssets = [
+    {
+      id: 'asset1',
+      symbol: 'AAPL',
+      quantity: 10,
+      averageCost: 150,
+      currentPrice: 180,
+      marketValue: 1800,
+      totalCost: 1500
+    },
+    {
+      id: 'asset2',
+      symbol: 'GOOGL',
+      quantity: 5,
+      averageCost: 2000,
+      currentPrice: 2000,
+      marketValue: null,
+      totalCost: 10000
+    }
+  ];
+
+  beforeEach(() => {
+    portfolioRepository = {
+      findById: vi.fn(),
+      findAll: vi.fn(),
+      update: vi.fn(),
+      createSnapshot: vi.fn(),
+      getLatestSnapshot: vi.fn()
+    } as unknown as PortfolioRepository;
+
+    assetRepository = {
+      findByPortfolioId: vi.fn(),
+      updatePrices: vi.fn().mockResolvedValue(true)
+    } as unknown as AssetRepository;
+
+    prices = { AAPL: 180, GOOGL: 2000 };
+    marketDataService = {
+      getQuote: vi.fn(async (symbol: string) => {
+        if (!(symbol in prices)) throw new Error(`No price for ${symbol}`);
+        return { symbol, price: prices[symbol], source: 'provider' } as SourcedMarketQuote;
+      })
+    } as unknown as MarketDataService;
+
+    snapshotService = new PortfolioSnapshotService(portfolioRepository, assetRepository, marketDataService);
+  });
+
+  describe('captureSnapshot', () => {
+    it('should record holdings, cost basis and per-asset breakdown', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue(mockPortfolio as any);
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue(mockAssets as any);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue(null);
+
+      await snapshotService.captureSnapshot('portfolio123');
+
+      expect(portfolioRepository.createSnapshot).toHaveBeenCalledWith('portfolio123', expect.objectContaining({
+        totalValue: 12000,
+        totalCost: 11500,
+        cashBalance: 200,
+        assets: [
+          { symbol: 'AAPL', quantity: 10, price: 180, value: 1800, cost: 1500 },
+          { symbol: 'GOOGL', quantity: 5, price: 2000, value: 10000, cost: 10000 }
+        ]
+      }));
+    });
+
+    it('should re-price holdings so a price drop lowers the recorded value', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue(mockPortfolio as any);
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue(mockAssets as any);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue(null);
+      prices = { AAPL: 150 };
+
+      await snapshotService.captureSnapshot('portfolio123');
+
+      // GOOGL cannot be quoted and keeps its stored price; cash stays the ledger balance
+      expect(portfolioRepository.createSnapshot).toHaveBeenCalledWith('portfolio123', expect.objectContaining({
+        totalValue: 11700,
+        cashBalance: 200
+      }));
+      expect(vi.mocked(portfolioRepository.update).mock.calls[0]?.[1]).toMatchObject({ currentValue: 11700 });
+      expect(assetRepository.updatePrices).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'asset1', currentPrice: 150, marketValue: 1500, unrealizedGain: 0 }),
+        expect.objectContaining({ id: 'asset2', currentPrice: 2000, marketValue: 10000 })
+      ]);
+    });
+
+    it('should not record generated prices', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue(mockPortfolio as any);
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue(mockAssets as any);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue(null);
+      vi.mocked(marketDataService.getQuote).mockResolvedValue({ symbol: 'AAPL', price: 1, source: 'synthetic' } as SourcedMarketQuote);
+
+      await snapshotService.captureSnapshot('portfolio123');
+
+      expect(portfolioRepository.createSnapshot).toHaveBeenCalledWith('portfolio123', expect.objectContaining({
+        totalValue: 12000
+      }));
+    });
+
+    it('should derive day change from the previous snapshot', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue(mockPortfolio as any);
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue(mockAssets as any);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue({ totalValue: 11000 } as any);
+
+      await snapshotService.captureSnapshot('portfolio123');
+
+      const update = vi.mocked(portfolioRepository.update).mock.calls[0]?.[1] as any;
+      expect(update.dayChange).toBe(1000);
+      expect(update.dayChangePct).toBeCloseTo(9.09, 2);
+      expect(update.totalReturn).toBe(2000);
+      expect(update.totalReturnPct).toBe(20);
+    });
+
+    it('should treat an empty portfolio as all cash', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue({ ...mockPortfolio, currentValue: 10000, cashBalance: 10000 } as any);
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue([]);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue(null);
+
+      await snapshotService.captureSnapshot('portfolio123');
+
+      expect(portfolioRepository.createSnapshot).toHaveBeenCalledWith('portfolio123', expect.objectContaining({
+        totalValue: 10000,
+        totalCost: 0,
+        cashBalance: 10000,
+        assets: []
+      }));
+    });
+
+    it('should throw error for non-existent portfolio', async () => {
+      vi.mocked(portfolioRepository.findById).mockResolvedValue(null);
+
+      await expect(snapshotService.captureSnapshot('invalid')).rejects.toThrow('Portfolio not found');
+    });
+  });
+
+  describe('captureAllSnapshots', () => {
+    it('should snapshot every portfolio and count failures', async () => {
+      vi.mocked(portfolioRepository.findAll).mockResolvedValue([
+        { id: 'portfolio123' },
+        { id: 'missing' }
+      ] as any);
+      vi.mocked(portfolioRepository.findById).mockImplementation(async (id: string) =>
+        id === 'portfolio123' ? mockPortfolio as any : null
+      );
+      vi.mocked(assetRepository.findByPortfolioId).mockResolvedValue([]);
+      vi.mocked(portfolioRepository.getLatestSnapshot).mockResolvedValue(null);
+
+      const result = await snapshotService.captureAllSnapshots();
+
+      expect(result.processed).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(portfolioRepository.createSnapshot).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getNextRunTime', () => {
+    it('should schedule for later today when the snapshot hour has not passed', () => {
+      const next = snapshotService.getNextRunTime(new Date('2024-03-15T10:00:00Z'));
+      expect(next.toISOString()).toBe('2024-03-15T21:00:00.000Z');
+    });
+
+    it('should roll over to tomorrow once the snapshot hour has passed', () => {
+      const next = snapshotService.getNextRunTime(new Date('2024-03-15T22:30:00Z'));
+      expect(next.toISOString()).toBe('2024-03-16T21:00:00.000Z');
+    });
+  });
+});
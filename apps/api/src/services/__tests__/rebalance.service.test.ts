@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RebalanceService, planRebalance, type RebalanceHolding } from '../rebalance.service';
+import type { PortfolioRepository } from '../../repositories/portfolio.repository';
+import type { AssetRepository } from '../../repositories/asset.repository';
+import type { PortfolioLedgerService } from '../portfolioLedger.service';
+import type { MarketDataService } from '../marketData.service';
+
+const createHolding = (overrides: Partial<RebalanceHolding> = {}): RebalanceHolding => ({
+  assetId: 'asset1',
+  symbol: 'AAPL',
+  quantity: 10,
+  price: 100,
+  ...overrides,
+});
+
+const findRecommendation = (plan: ReturnType<typeof planRebalance>, symbol: string) =>
+  plan.recommendations.find(recommendation => recommendation.symbol === symbol)!;
+
+describe('planRebalance', () => {
+  // 1,000 in AAPL, 3,000 in MSFT and 1,000 cash: 20% / 60% / 20%
+  const holdings = [
+    createHolding({ assetId: 'asset1', symbol: 'AAPL', quantity: 10, price: 100 }),
+    createHolding({ assetId: 'asset2', symbol: 'MSFT', quantity: 10, price: 300 }),
+  ];
+
+  it('should sell overweight and buy underweight holdings to reach the targets', () => {
+    const plan = planRebalance(holdings, 1000, { AAPL: 40, MSFT: 40 });
+
+    expect(plan.totalValue).toBe(5000);
+    expect(plan.maxDrift).toBeCloseTo(20);
+    expect(findRecommendation(plan, 'MSFT')).toMatchObject({ action: 'SELL', quantity: 3.3333, drift: 20 });
+    expect(findRecommendation(plan, 'AAPL')).toMatchObject({ action: 'BUY', quantity: 10, estimatedCost: 1000 });
+  });
+
+  it('should treat symbols missing from the targets as a zero weight', () => {
+    const plan = planRebalance(holdings, 1000, { AAPL: 80 });
+
+    expect(findRecommendation(plan, 'MSFT')).toMatchObject({ action: 'SELL', quantity: 10 });
+    expect(findRecommendation(plan, 'AAPL')).toMatchObject({ action: 'BUY', quantity: 30 });
+  });
+
+  it('should cap trades at the maximum trade size', () => {
+    const plan = planRebalance(holdings, 1000, { AAPL: 40, MSFT: 40 }, { maxTradeSize: 500 });
+
+    expect(findRecommendation(plan, 'AAPL')).toMatchObject({
+      action: 'BUY',
+      quantity: 5,
+      reason: 'Capped at maximum trade size',
+    });
+  });
+
+  it('should hold when the trade is below the minimum trade size', () => {
+    const plan = planRebalance(holdings, 1000, { AAPL: 21, MSFT: 59 }, { minTradeSize: 100 });
+
+    expect(findRecommendation(plan, 'AAPL')).toMatchObject({ action: 'HOLD', quantity: 0, reason: 'Below minimum trade size' });
+    expect(findRecommendation(plan, 'MSFT')).toMatchObject({ action: 'HOLD', quantity: 0 });
+  });
+
+  it('should not buy more than cash and sale proceeds cover', () => {
+    const plan = planRebalance(
+      [
+        createHolding({ symbol: 'AAPL', quantity: 10, price: 100 }),
+        createHolding({ assetId: null, symbol: 'MSFT', quantity: 0, price: 300 }),
+        createHolding({ assetId: null, symbol: 'GOOGL', quantity: 0, price: 50 }),
+      ],
+      0,
+      { MSFT: 60, GOOGL: 40 },
+      { maxTradeSize: 700 }
+    );
+
+    expect(findRecommendation(plan, 'AAPL')).toMatchObject({ action: 'SELL', quantity: 7 });
+    expect(findRecommendation(plan, 'MSFT')).toMatchObject({ action: 'BUY', assetId: null, quantity: 2 });
+    expect(findRecommendation(plan, 'GOOGL')).toMatchObject({
+      action: 'BUY',
+      quantity: 2,
+      reason: 'Limited by available cash',
+    });
+  });
+});
+
+describe('RebalanceService', () => {
+  let service: RebalanceService;
+  let mockPortfolioRepository: any;
+  let mockAssetRepository: any;
+  let mockLedgerService: any;
+  let mockMarketDataService: any;
+
+  const portfolio = {
+    id: 'portfolio1',
+    userId: 'user1',
+    currency: 'USD',
+    cashBalance: 1000,
+    allocationStrategy: null,
+    targetAllocations: null,
+  };
+
+  const assets = [
+    { id: 'asset1', symbol: 'AAPL', quantity: 10, currentPrice: 100 },
+    { id: 'asset2', symbol: 'MSFT', quantity: 10, currentPrice: 300 },
+  ];
+
+  beforeEach(() => {
+    mockPortfolioRepository = {
+      findById: vi.fn().mockResolvedValue(portfolio),
+      update: vi.fn(),
+    };
+
+    mockAssetRepository = {
+      findByPortfolioId: vi.fn().mockResolvedValue(assets),
+    };
+
+    mockLedgerService = {
+      getLedger: vi.fn().mockResolvedValue({
+        success: true,
+        data: {
+          cashBalance: 1000,
+          holdings: [
+            { symbol: 'AAPL', quantity: 10 },
+            { symbol: 'MSFT', quantity: 10 },
+          ],
+        },
+      }),
+      recordTransaction: vi.fn().mockImplementation(async (_userId: string, input: any) => ({
+        success: true,
+        data: { id: `tx-${input.symbol}`, ...input },
+      })),
+    };
+
+    mockMarketDataService = {
+      getCurrentPrice: vi.fn().mockResolvedValue(50),
+      getMarketStats: vi.fn(),
+      getVolatility: vi.fn(),
+    };
+
+    service = new RebalanceService(
+      mockPortfolioRepository as unknown as PortfolioRepository,
+      mockAssetRepository as unknown as AssetRepository,
+      mockLedgerService as unknown as PortfolioLedgerService,
+      mockMarketDataService as unknown as MarketDataService
+    );
+  });
+
+  const customInput = {
+    portfolioId: 'portfolio1',
+    strategy: 'CUSTOM' as const,
+    targetAllocations: { aapl: 40, msft: 40 },
+    apply: false,
+  };
+
+  it('should only let the owner rebalance', async () => {
+    mockPortfolioRepository.findById.mockResolvedValue({ ...portfolio, userId: 'user2' });
+
+    const result = await service.rebalance('user1', customInput);
+
+    expect(result).toEqual({ success: false, error: 'Access denied' });
+    expect(mockPortfolioRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should store custom targets and return a plan without trading', async () => {
+    const result = await service.rebalance('user1', customInput);
+
+    expect(mockPortfolioRepository.update).toHaveBeenCalledWith('portfolio1', {
+      allocationStrategy: 'CUSTOM',
+      targetAllocations: { AAPL: 40, MSFT: 40 },
+    });
+    expect(result.data).toMatchObject({ applied: false, totalValue: 5000, executed: [] });
+    expect(mockLedgerService.recordTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should weight holdings by inverse volatility for risk parity', async () => {
+    mockMarketDataService.getVolatility.mockResolvedValue({ AAPL: 0.2, MSFT: 0.4 });
+
+    const result = await service.rebalance('user1', { ...customInput, strategy: 'RISK_PARITY' });
+
+    expect(result.data!.targetAllocations['AAPL']).toBeCloseTo(66.667);
+    expect(result.data!.targetAllocations['MSFT']).toBeCloseTo(33.333);
+  });
+
+  it('should record sells before buys when applying the plan', async () => {
+    const result = await service.rebalance('user1', { ...customInput, apply: true });
+
+    const calls = mockLedgerService.recordTransaction.mock.calls.map(([, input]: any[]) => [input.type, input.symbol]);
+    expect(calls).toEqual([['SELL', 'MSFT'], ['BUY', 'AAPL']]);
+    expect(result.data).toMatchObject({ applied: true, failed: [] });
+    expect(result.data!.executed).toHaveLength(2);
+  });
+
+  it('should report trades the ledger rejects', async () => {
+    mockLedgerService.recordTransaction.mockResolvedValueOnce({
+      success: false,
+      error: 'Cannot sell 3.3333 MSFT on 2024-01-01: only 0 held',
+    });
+
+    const result = await service.rebalance('user1', { ...customInput, apply: true });
+
+    expect(result.data!.failed).toEqual([
+      { symbol: 'MSFT', error: 'Cannot sell 3.3333 MSFT on 2024-01-01: only 0 held' },
+    ]);
+    expect(result.data!.executed).toHaveLength(1);
+  });
+
+  it('should size sells from the ledger rather than the stored asset quantity', async () => {
+    // The asset row still says 10 AAPL but the ledger holds 4; MSFT was added before the ledger tracked it
+    mockLedgerService.getLedger.mockResolvedValue({
+      success: true,
+      data: { cashBalance: 1000, holdings: [{ symbol: 'AAPL', quantity: 4 }] },
+    });
+
+    const result = await service.rebalance('user1', {
+      ...customInput,
+      targetAllocations: { msft: 100 },
+    });
+
+    expect(result.data!.totalValue).toBe(4400);
+    expect(result.data!.recommendations.find(r => r.symbol === 'AAPL')).toMatchObject({ action: 'SELL', quantity: 4 });
+  });
+
+  it('should require a stored target allocation to preview', async () => {
+    const result = await service.preview('user1', 'portfolio1', {});
+
+    expect(result).toEqual({ success: false, error: 'No target allocation has been set for this portfolio' });
+  });
+});
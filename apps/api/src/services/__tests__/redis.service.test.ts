@@ -35,6 +35,7 @@ vi.mock('redis', () => ({
     sRem: vi.fn(),
     sMembers: vi.fn(),
     sIsMember: vi.fn(),
+    eval: vi.fn(),
     on: vi.fn(),
     off: vi.fn(),
     isOpen: true,
@@ -378,6 +379,19 @@ describe('RedisService', () => {
     });
   });
 
+  describe('Scripting', () => {
+    it('should run a script with prefixed keys', async () => {
+      const prefixedService = new RedisService({ prefix: 'app' });
+      (prefixedService as any).client = mockClient;
+      mockClient.eval.mockResolvedValue('ok');
+
+      const result = await prefixedService.eval('return ARGV[1]', ['key'], ['ok']);
+
+      expect(result).toBe('ok');
+      expect(mockClient.eval).toHaveBeenCalledWith('return ARGV[1]', { keys: ['app:key'], arguments: ['ok'] });
+    });
+  });
+
   describe('Cache Patterns', () => {
     beforeEach(() => {
       // Client is already mocked and injected
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RefreshTokenService } from '../refreshToken.service';
+import type { RedisService } from '../redis.service';
+
+const TTL = 7 * 24 * 60 * 60;
+
+describe('RefreshTokenService', () => {
+  let refreshTokenService: RefreshTokenService;
+  let store: Map<string, string>;
+  let sets: Map<string, Set<string>>;
+  let mockRedisService: any;
+
+  beforeEach(() => {
+    store = new Map();
+    sets = new Map();
+
+    mockRedisService = {
+      setJSON: vi.fn(async (key: string, value: unknown) => {
+        store.set(key, JSON.stringify(value));
+      }),
+      getJSON: vi.fn(async (key: string) => {
+        const value = store.get(key);
+        return value ? JSON.parse(value) : null;
+      }),
+      delete: vi.fn(async (key: string) => store.delete(key) || sets.delete(key)),
+      deleteMany: vi.fn(async (keys: string[]) => keys.filter(key => store.delete(key)).length),
+      sAdd: vi.fn(async (key: string, member: string) => {
+        sets.set(key, (sets.get(key) ?? new Set()).add(member));
+        return 1;
+      }),
+      sRem: vi.fn(async (key: string, member: string) => (sets.get(key)?.delete(member) ? 1 : 0)),
+      sMembers: vi.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+      expire: vi.fn().mockResolvedValue(true),
+      // Runs the rotation script's compare-and-swap against the in-memory store
+      eval: vi.fn(async (_script: string, [familyKey, userKey]: string[], args: string[]) => {
+        const [userId, tokenId, familyId, rotated] = args as [string, string, string, string];
+        const stored = store.get(familyKey!);
+        const family = stored ? JSON.parse(stored) : null;
+        if (!family || family.userId !== userId) return 'revoked';
+        if (family.tokenId !== tokenId) {
+          store.delete(familyKey!);
+          sets.get(userKey!)?.delete(familyId);
+          return 'reused';
+        }
+        store.set(familyKey!, rotated);
+        return 'rotated';
+      }),
+    };
+
+    refreshTokenService = new RefreshTokenService(mockRedisService as unknown as RedisService, TTL);
+  });
+
+  describe('createFamily', () => {
+    it('should store the family with the refresh token lifetime', async () => {
+      const session = await refreshTokenService.createFamily('user1');
+
+      expect(mockRedisService.setJSON).toHaveBeenCalledWith(
+        `refresh:family:${session.familyId}`,
+        { userId: 'user1', tokenId: session.tokenId },
+        TTL
+      );
+      expect(sets.get('refresh:user:user1')).toEqual(new Set([session.familyId]));
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the current token id within the same family', async () => {
+      const session = await refreshTokenService.createFamily('user1');
+
+      const rotation = await refreshTokenService.rotate('user1', session);
+
+      expect(rotation.status).toBe('rotated');
+      if (rotation.status !== 'rotated') return;
+      expect(rotation.session.familyId).toBe(session.familyId);
+      expect(rotation.session.tokenId).not.toBe(session.tokenId);
+    });
+
+    it('should revoke the family when a superseded token is presented', async () => {
+      const session = await refreshTokenService.createFamily('user1');
+      const rotation = await refreshTokenService.rotate('user1', session);
+
+      expect(await refreshTokenService.rotate('user1', session)).toEqual({ status: 'reused' });
+
+      // The legitimate latest token dies with the family
+      if (rotation.status !== 'rotated') return;
+      expect(await refreshTokenService.rotate('user1', rotation.session)).toEqual({ status: 'revoked' });
+    });
+
+    it('should let only one of two concurrent refreshes with the same token through', async () => {
+      const session = await refreshTokenService.createFamily('user1');
+
+      const rotations = await Promise.all([
+        refreshTokenService.rotate('user1', session),
+        refreshTokenService.rotate('user1', session),
+      ]);
+
+      expect(rotations.map(rotation => rotation.status).sort()).toEqual(['reused', 'rotated']);
+      expect(mockRedisService.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        [`refresh:family:${session.familyId}`, 'refresh:user:user1'],
+        ['user1', session.tokenId, session.familyId, expect.any(String), String(TTL)]
+      );
+    });
+
+    it('should not rotate a family belonging to another user', async () => {
+      const session = await refreshTokenService.createFamily('user1');
+
+      expect(await refreshTokenService.rotate('user2', session)).toEqual({ status: 'revoked' });
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should revoke every session of the user only', async () => {
+      const first = await refreshTokenService.createFamily('user1');
+      const second = await refreshTokenService.createFamily('user1');
+      const other = await refreshTokenService.createFamily('user2');
+
+      expect(await refreshTokenService.revokeAll('user1')).toBe(2);
+
+      expect(await refreshTokenService.rotate('user1', first)).toEqual({ status: 'revoked' });
+      expect(await refreshTokenService.rotate('user1', second)).toEqual({ status: 'revoked' });
+      expect((await refreshTokenService.rotate('user2', other)).status).toBe('rotated');
+    });
+  });
+});
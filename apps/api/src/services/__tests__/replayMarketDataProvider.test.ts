@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { ReplayMarketDataProvider } from '../replayMarketDataProvider';
+
+const CSV = [
+  '# Daily closes for the replay tests',
+  'symbol,date,open,high,low,close,volume',
+  'SPY,2024-01-02,470,473,469,472,1000',
+  'AAPL,2024-01-02,185,186,183,184,500',
+  'SPY,2024-01-03,472,472,466,467,1200',
+  'AAPL,2024-01-03,184,185,182,183,600',
+  'SPY,2024-01-04,467,470,466,469,900',
+  ''
+].join('\n');
+
+describe('ReplayMarketDataProvider', () => {
+  it('should quote the close of the last day in the file by default', async () => {
+    const provider = ReplayMarketDataProvider.fromCsv(CSV);
+
+    expect(provider.currentDate.toISOString().slice(0, 10)).toBe('2024-01-04');
+    expect(await provider.getCurrentPrice('SPY')).toEqual({ price: 469, isRealTime: false });
+    // AAPL has no bar on the 4th, so its last close carries forward
+    expect((await provider.getCurrentPrice('AAPL')).price).toBe(183);
+  });
+
+  it('should step through trading days from the start date', async () => {
+    const provider = ReplayMarketDataProvider.fromCsv(CSV, { startDate: '2024-01-02' });
+
+    expect((await provider.getCurrentPrice('SPY')).price).toBe(472);
+    expect(provider.advance()).toBe(true);
+    expect((await provider.getCurrentPrice('SPY')).price).toBe(467);
+    expect(provider.advance()).toBe(true);
+    expect(provider.advance()).toBe(false);
+    expect((await provider.getCurrentPrice('SPY')).price).toBe(469);
+  });
+
+  it('should end history on the current replay day', async () => {
+    const provider = ReplayMarketDataProvider.fromCsv(CSV, { startDate: '2024-01-03' });
+
+    const history = await provider.getHistoricalPrices('SPY', 30);
+
+    expect(history.map(point => point.price)).toEqual([472, 467]);
+    expect(await provider.getMarketStats('spy')).toEqual({ open: 472, high: 472, low: 466, close: 467, volume: 1200, previousClose: 472 });
+  });
+
+  it('should default missing price columns to the close', async () => {
+    const provider = ReplayMarketDataProvider.fromCsv('date,symbol,close\n2024-01-02,BTC,42000\n');
+
+    expect(await provider.getMarketStats('BTC')).toEqual({ open: 42000, high: 42000, low: 42000, close: 42000, volume: 0 });
+  });
+
+  it('should reject unknown symbols and malformed files', async () => {
+    const provider = ReplayMarketDataProvider.fromCsv(CSV);
+
+    await expect(provider.getCurrentPrice('TSLA')).rejects.toThrow('No replay prices for TSLA');
+    expect(() => ReplayMarketDataProvider.fromCsv('date,symbol\n2024-01-02,SPY')).toThrow('missing columns: close');
+    expect(() => ReplayMarketDataProvider.fromCsv('date,symbol,close\n2024-01-02,SPY,abc')).toThrow('line 2: invalid close');
+    expect(() => ReplayMarketDataProvider.fromCsv(CSV, { startDate: '2023-12-01' })).toThrow('starts after 2023-12-01');
+  });
+
+  it('should replay Parquet files once they have loaded', async () => {
+    const file = parquetWriteBuffer({
+      columnData: [
+        { name: 'Symbol', data: ['SPY', 'SPY', 'aapl'], type: 'STRING' },
+        { name: 'Date', data: [new Date('2024-01-02'), new Date('2024-01-03'), new Date('2024-01-03')], type: 'TIMESTAMP' },
+        { name: 'Close', data: [472, 467, 183], type: 'DOUBLE' },
+        { name: 'Volume', data: [1000n, 1200n, null], type: 'INT64' }
+      ]
+    });
+    const provider = ReplayMarketDataProvider.fromParquet(file, { startDate: '2024-01-02' });
+
+    expect(provider.advance()).toBe(false);
+    expect(await provider.getMarketStats('SPY')).toEqual({ open: 472, high: 472, low: 472, close: 472, volume: 1000 });
+    expect(provider.advance()).toBe(true);
+    expect(await provider.getMarketStats('AAPL')).toEqual({ open: 183, high: 183, low: 183, close: 183, volume: 0 });
+  });
+
+  it('should reject Parquet files without the required columns', async () => {
+    const file = parquetWriteBuffer({ columnData: [{ name: 'symbol', data: ['SPY'], type: 'STRING' }] });
+
+    await expect(ReplayMarketDataProvider.readParquet(file)).rejects.toThrow('missing columns: date, close');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RiskLimitService, findLimitBreaches } from '../riskLimit.service';
+import type { RiskLimitRepository } from '../../repositories/riskLimit.repository';
+import type { RiskMetricsRepository } from '../../repositories/riskMetrics.repository';
+import type { PortfolioRepository } from '../../repositories/portfolio.repository';
+import type { AssetRepository } from '../../repositories/asset.repository';
+import type { PortfolioNotifier } from '../../websocket/portfolioNotifier';
+import type { RiskLimitBreach, RiskLimits } from '@golden-palace/shared';
+
+const createLimits = (overrides: Partial<RiskLimits> = {}): RiskLimits => ({
+  id: 'limit1',
+  portfolioId: 'portfolio1',
+  maxDrawdown: 10,
+  maxVaR: 500,
+  maxLeverage: 1,
+  maxConcentration: 40,
+  maxVolatility: 20,
+  minSharpeRatio: 0.5,
+  breaches: [],
+  active: true,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const createBreach = (overrides: Partial<RiskLimitBreach> = {}): RiskLimitBreach => ({
+  id: 'breach1',
+  portfolioId: 'portfolio1',
+  limitType: 'maxDrawdown',
+  message: 'Drawdown of 15.00 exceeds the limit of 10.00',
+  currentValue: 15,
+  limitValue: 10,
+  breachAmount: 5,
+  breachPercentage: 50,
+  breachedAt: new Date('2024-01-01'),
+  resolved: false,
+  ...overrides,
+});
+
+describe('findLimitBreaches', () => {
+  it('should report each maximum that is exceeded', () => {
+    const breaches = findLimitBreaches(createLimits(), { maxDrawdown: 15, valueAtRisk: 600, volatility: 25 });
+
+    expect(breaches.map(breach => breach.limitType)).toEqual(['maxDrawdown', 'maxVaR', 'maxVolatility']);
+    expect(breaches[0]).toMatchObject({ currentValue: 15, limitValue: 10, breachAmount: 5, breachPercentage: 50 });
+  });
+
+  it('should report a Sharpe ratio below the minimum', () => {
+    const breaches = findLimitBreaches(createLimits(), { sharpeRatio: 0.2 });
+
+    expect(breaches).toHaveLength(1);
+    expect(breaches[0]!.limitType).toBe('minSharpeRatio');
+    expect(breaches[0]!.breachAmount).toBeCloseTo(0.3);
+  });
+
+  it('should not report values within limits or values that were not measured', () => {
+    const breaches = findLimitBreaches(createLimits(), { maxDrawdown: 10, valueAtRisk: 499, concentration: 30 });
+
+    expect(breaches).toEqual([]);
+  });
+});
+
+describe('RiskLimitService', () => {
+  let service: RiskLimitService;
+  let mockRiskLimitRepository: any;
+  let mockRiskMetricsRepository: any;
+  let mockPortfolioRepository: any;
+  let mockAssetRepository: any;
+  let mockNotifier: any;
+
+  const portfolio = { id: 'portfolio1', userId: 'user1', cashBalance: 4000 };
+
+  // Within every limit except drawdown and VaR
+  const metrics = { maxDrawdown: 15, valueAtRisk: 600, annualizedVolatility: 0.1, sharpeRatio: 1 };
+
+  beforeEach(() => {
+    mockRiskLimitRepository = {
+      upsert: vi.fn(),
+      findByPortfolioId: vi.fn().mockResolvedValue(createLimits()),
+      findActivePortfolioIdsBySymbols: vi.fn().mockResolvedValue(['portfolio1']),
+      createBreach: vi.fn().mockImplementation(async (_limitId: string, portfolioId: string, measurement: any) =>
+        createBreach({ ...measurement, id: `breach-${measurement.limitType}`, portfolioId })
+      ),
+      updateBreach: vi.fn(),
+      resolveBreach: vi.fn().mockImplementation(async (id: string) => createBreach({ id, resolved: true })),
+    };
+
+    mockRiskMetricsRepository = {
+      findLatest: vi.fn().mockResolvedValue(null),
+    };
+
+    mockPortfolioRepository = {
+      findById: vi.fn().mockResolvedValue(portfolio),
+    };
+
+    mockAssetRepository = {
+      findByPortfolioId: vi.fn().mockResolvedValue([
+        { symbol: 'AAPL', quantity: 10, currentPrice: 200, averageCost: 150 },
+        { symbol: 'MSFT', quantity: 10, currentPrice: 400, averageCost: 300 },
+      ]),
+    };
+
+    mockNotifier = {
+      emitToPortfolio: vi.fn(),
+    };
+
+    service = new RiskLimitService(
+      mockRiskLimitRepository as unknown as RiskLimitRepository,
+      mockRiskMetricsRepository as unknown as RiskMetricsRepository,
+      mockPortfolioRepository as unknown as PortfolioRepository,
+      mockAssetRepository as unknown as AssetRepository,
+      mockNotifier as unknown as PortfolioNotifier
+    );
+  });
+
+  it('should only let the owner set limits', async () => {
+    mockPortfolioRepository.findById.mockResolvedValue({ ...portfolio, userId: 'user2' });
+
+    const result = await service.setLimits('user1', {
+      portfolioId: 'portfolio1',
+      maxDrawdown: 20,
+      maxVaR: 1000,
+      maxLeverage: 1,
+      maxConcentration: 40,
+      maxVolatility: 30,
+      minSharpeRatio: 0.5,
+      active: true,
+    });
+
+    expect(result).toEqual({ success: false, error: 'Access denied' });
+    expect(mockRiskLimitRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should open and announce breaches found in new metrics', async () => {
+    const opened = await service.evaluate('portfolio1', { metrics });
+
+    expect(opened.map(breach => breach.limitType)).toEqual(['maxDrawdown', 'maxVaR']);
+    expect(mockNotifier.emitToPortfolio).toHaveBeenCalledWith(
+      'portfolio1',
+      'risk:breach',
+      expect.objectContaining({ breach: expect.objectContaining({ limitType: 'maxVaR' }) })
+    );
+  });
+
+  it('should update an open breach instead of opening another', async () => {
+    mockRiskLimitRepository.findByPortfolioId.mockResolvedValue(createLimits({ breaches: [createBreach()] }));
+
+    const opened = await service.evaluate('portfolio1', { metrics });
+
+    expect(mockRiskLimitRepository.updateBreach).toHaveBeenCalledWith(
+      'breach1',
+      expect.objectContaining({ limitType: 'maxDrawdown', currentValue: 15 })
+    );
+    expect(opened.map(breach => breach.limitType)).toEqual(['maxVaR']);
+  });
+
+  it('should resolve breaches once the measured value is back within the limit', async () => {
+    mockRiskLimitRepository.findByPortfolioId.mockResolvedValue(createLimits({ breaches: [createBreach()] }));
+
+    await service.evaluate('portfolio1', { metrics: { ...metrics, maxDrawdown: 5, valueAtRisk: 100 } });
+
+    expect(mockRiskLimitRepository.resolveBreach).toHaveBeenCalledWith('breach1');
+    expect(mockNotifier.emitToPortfolio).toHaveBeenCalledWith(
+      'portfolio1',
+      'risk:breach:resolved',
+      expect.objectContaining({ portfolioId: 'portfolio1' })
+    );
+  });
+
+  it('should keep metric breaches open while there are no metrics to measure them', async () => {
+    mockRiskLimitRepository.findByPortfolioId.mockResolvedValue(createLimits({ breaches: [createBreach()] }));
+
+    await service.evaluateMarketUpdate({ AAPL: 200 });
+
+    expect(mockRiskLimitRepository.resolveBreach).not.toHaveBeenCalled();
+  });
+
+  it('should measure concentration at the quoted prices', async () => {
+    // MSFT at 1,000 is 10,000 of 16,000 total value
+    await service.evaluateMarketUpdate({ MSFT: 1000 });
+
+    expect(mockRiskLimitRepository.findActivePortfolioIdsBySymbols).toHaveBeenCalledWith(['MSFT']);
+    expect(mockRiskLimitRepository.createBreach).toHaveBeenCalledWith(
+      'limit1',
+      'portfolio1',
+      expect.objectContaining({ limitType: 'maxConcentration', currentValue: 62.5 })
+    );
+  });
+
+  it('should skip portfolios whose limits are switched off', async () => {
+    mockRiskLimitRepository.findByPortfolioId.mockResolvedValue(createLimits({ active: false }));
+
+    const opened = await service.evaluate('portfolio1', { metrics });
+
+    expect(opened).toEqual([]);
+    expect(mockRiskLimitRepository.createBreach).not.toHaveBeenCalled();
+  });
+});
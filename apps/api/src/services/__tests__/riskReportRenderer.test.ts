@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { renderRiskReportCsv, renderRiskReportPdf } from '../riskReportRenderer';
+import type { RiskReport } from '@golden-palace/shared';
+
+const createReport = (overrides: Partial<RiskReport> = {}): RiskReport => ({
+  id: 'report_1',
+  portfolioId: 'portfolio1',
+  reportType: 'DETAILED',
+  generatedAt: new Date('2024-02-01T00:00:00Z'),
+  period: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T00:00:00Z') },
+  executiveSummary: {
+    overallRiskLevel: 'MEDIUM',
+    riskScore: 45,
+    keyRisks: ['High volatility, "tech" heavy'],
+    recommendations: ['=SUM(A1:A2) rebalance']
+  },
+  metrics: { valueAtRisk: 523.5, sharpeRatio: 1.2, maxDrawdown: 8 } as RiskReport['metrics'],
+  positionRisks: [
+    { symbol: 'AAPL', exposure: 6000, percentageOfPortfolio: 60, individualVaR: 300, componentVaR: 250 },
+    { symbol: 'MSFT', exposure: 4000, percentageOfPortfolio: 40, individualVaR: 200, componentVaR: 150 }
+  ] as RiskReport['positionRisks'],
+  stressTests: [],
+  correlations: {} as RiskReport['correlations'],
+  historicalAnalysis: {
+    worstDay: { date: new Date('2024-01-02T00:00:00Z'), loss: 500 },
+    bestDay: { date: new Date('2024-01-03T00:00:00Z'), gain: 1000 },
+    volatilityTrend: [],
+    valueAtRiskTrend: [
+      { date: new Date('2024-01-01T00:00:00Z'), valueAtRisk: 480 },
+      { date: new Date('2024-01-15T00:00:00Z'), valueAtRisk: 523.5 }
+    ],
+    drawdownTrend: [
+      { date: new Date('2024-01-01T00:00:00Z'), drawdown: 0 },
+      { date: new Date('2024-01-02T00:00:00Z'), drawdown: 5 },
+      { date: new Date('2024-01-03T00:00:00Z'), drawdown: 0 }
+    ],
+    varBacktest: null
+  },
+  riskAttribution: { byAsset: {}, byAssetClass: {}, bySector: {}, byRegion: {} },
+  ...overrides
+});
+
+const readPdf = async (doc: PDFKit.PDFDocument): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of doc) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+describe('renderRiskReportCsv', () => {
+  it('should flatten the report into one row per value', () => {
+    const lines = renderRiskReportCsv(createReport()).trim().split('\r\n');
+
+    expect(lines[0]).toBe('field,value');
+    expect(lines).toContain('metrics.valueAtRisk,523.5');
+    expect(lines).toContain('positionRisks.AAPL.componentVaR,250');
+    expect(lines).toContain('historicalAnalysis.drawdownTrend.1.drawdown,5');
+    expect(lines).toContain('period.start,2024-01-01T00:00:00.000Z');
+  });
+
+  it('should quote text cells and defuse formulas', () => {
+    const lines = renderRiskReportCsv(createReport()).trim().split('\r\n');
+
+    expect(lines).toContain('executiveSummary.keyRisks.0,"High volatility, ""tech"" heavy"');
+    expect(lines).toContain("executiveSummary.recommendations.0,'=SUM(A1:A2) rebalance");
+  });
+
+  it('should keep negative numbers as numbers', () => {
+    const report = createReport({ metrics: { valueAtRisk: 500, alpha: -0.02 } as RiskReport['metrics'] });
+
+    expect(renderRiskReportCsv(report)).toContain('metrics.alpha,-0.02\r\n');
+  });
+});
+
+describe('renderRiskReportPdf', () => {
+  it('should produce a PDF document', async () => {
+    const pdf = await readPdf(renderRiskReportPdf(createReport()));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.subarray(-6).toString()).toContain('%%EOF');
+  });
+
+  it('should render with no history and a backtest section', async () => {
+    const report = createReport({ reportType: 'REGULATORY', positionRisks: [] });
+    report.historicalAnalysis.valueAtRiskTrend = [];
+    report.historicalAnalysis.drawdownTrend = [];
+    report.historicalAnalysis.varBacktest = {
+      portfolioId: 'portfolio1',
+      confidenceLevel: 0.95,
+      period: report.period,
+      observations: 20,
+      violations: 1,
+      expectedViolations: 1,
+      violationRate: 0.05,
+      kupiecTest: { statistic: 0, degreesOfFreedom: 1, pValue: 1, passed: true },
+      christoffersenTest: { statistic: 0.1, degreesOfFreedom: 1, pValue: 0.75, passed: true },
+      conditionalCoverageTest: { statistic: 0.1, degreesOfFreedom: 2, pValue: 0.95, passed: true },
+      history: []
+    };
+
+    const pdf = await readPdf(renderRiskReportPdf(report));
+
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+});
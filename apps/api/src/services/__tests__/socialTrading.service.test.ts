@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SocialTradingService } from '../socialTrading.service';
+import type { SocialTradingRepository, TraderRecord } from '../../repositories/socialTrading.repository';
+import { DEFAULT_COPY_SETTINGS } from '@golden-palace/shared';
+
+const createTrader = (overrides: Partial<TraderRecord> = {}): TraderRecord => ({
+  id: 'trader1',
+  username: 'protrader',
+  avatarUrl: null,
+  bio: null,
+  specialties: ['stocks'],
+  tradingStyle: 'swing',
+  emailVerified: true,
+  createdAt: new Date('2024-01-01'),
+  followerCount: 10,
+  followingCount: 2,
+  stats: {
+    totalTrades: 40,
+    winRate: 65,
+    totalPnl: 5000,
+    profitFactor: 1.8,
+    sharpeRatio: 1.2,
+    averageHoldTime: 36,
+    maxDrawdown: 12,
+  },
+  ...overrides,
+});
+
+describe('SocialTradingService', () => {
+  let socialTradingService: SocialTradingService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    mockRepository = {
+      findTraderById: vi.fn(),
+      findTradersByIds: vi.fn(),
+      findTraderCandidates: vi.fn(),
+      findClosedPositions: vi.fn().mockResolvedValue([]),
+      findRecentPositions: vi.fn().mockResolvedValue([]),
+      getRatingAggregates: vi.fn().mockResolvedValue(new Map()),
+      findFollowedTraderIds: vi.fn().mockResolvedValue(new Set()),
+      findFollow: vi.fn(),
+      createFollow: vi.fn(),
+      updateFollow: vi.fn(),
+      deleteFollow: vi.fn(),
+      findFollowsByFollower: vi.fn(),
+      findFeed: vi.fn(),
+      findPostById: vi.fn(),
+      likePost: vi.fn(),
+      upsertRating: vi.fn(),
+    };
+
+    socialTradingService = new SocialTradingService(mockRepository as unknown as SocialTradingRepository);
+  });
+
+  describe('getTopTraders', () => {
+    it('should rank traders by ROI computed from closed positions', async () => {
+      mockRepository.findTraderCandidates.mockResolvedValue([
+        createTrader({ id: 'trader1', username: 'steady' }),
+        createTrader({ id: 'trader2', username: 'rocket' }),
+      ]);
+      mockRepository.findClosedPositions.mockResolvedValue([
+        { userId: 'trader1', quantity: 10, entryPrice: 100, pnl: 50, closedAt: new Date('2024-03-01') },
+        { userId: 'trader2', quantity: 10, entryPrice: 100, pnl: 300, closedAt: new Date('2024-03-01') },
+        { userId: 'trader2', quantity: 5, entryPrice: 200, pnl: -100, closedAt: new Date('2024-03-02') },
+      ]);
+
+      const result = await socialTradingService.getTopTraders('viewer', {
+        sortBy: 'performance',
+        timeframe: '30d',
+        limit: 10,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(t => t.id)).toEqual(['trader2', 'trader1']);
+      expect(result.data?.[0]?.performance.roi).toBe(10);
+      expect(result.data?.[1]?.performance.roi).toBe(5);
+      expect(result.data?.[0]?.statistics).toMatchObject({
+        totalVolume: 2000,
+        profitableDays: 1,
+        totalDays: 2,
+        consistency: 50,
+      });
+      expect(result.data?.[0]?.ranking).toEqual({ overall: 1, category: 'performance', percentile: 100 });
+      expect(result.data?.[1]?.ranking).toEqual({ overall: 2, category: 'performance', percentile: 50 });
+    });
+
+    it('should apply filters on computed metrics', async () => {
+      mockRepository.findTraderCandidates.mockResolvedValue([
+        createTrader({ id: 'trader1', followerCount: 2 }),
+        createTrader({ id: 'trader2', followerCount: 50 }),
+      ]);
+
+      const result = await socialTradingService.getTopTraders('viewer', {
+        sortBy: 'followers',
+        timeframe: '30d',
+        limit: 10,
+        filters: { minFollowers: 10 },
+      });
+
+      expect(result.data?.map(t => t.id)).toEqual(['trader2']);
+    });
+
+    it('should fall back to closed positions when stored stats are empty', async () => {
+      mockRepository.findTraderCandidates.mockResolvedValue([
+        createTrader({ stats: null }),
+      ]);
+      mockRepository.findClosedPositions.mockResolvedValue([
+        { userId: 'trader1', quantity: 1, entryPrice: 100, pnl: 10, closedAt: new Date('2024-03-01') },
+        { userId: 'trader1', quantity: 1, entryPrice: 100, pnl: -5, closedAt: new Date('2024-03-01') },
+      ]);
+
+      const result = await socialTradingService.getTopTraders('viewer', {
+        sortBy: 'winRate',
+        timeframe: '30d',
+        limit: 10,
+      });
+
+      expect(result.data?.[0]?.performance.winRate).toBe(50);
+      expect(result.data?.[0]?.performance.totalTrades).toBe(2);
+    });
+  });
+
+  describe('followTrader', () => {
+    it('should reject following yourself', async () => {
+      const result = await socialTradingService.followTrader('user1', 'user1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You cannot follow yourself');
+    });
+
+    it('should return error when trader does not exist', async () => {
+      mockRepository.findTraderById.mockResolvedValue(null);
+
+      const result = await socialTradingService.followTrader('user1', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Trader not found');
+    });
+
+    it('should reject duplicate follows', async () => {
+      mockRepository.findTraderById.mockResolvedValue(createTrader());
+      mockRepository.findFollow.mockResolvedValue({ id: 'follow1' });
+
+      const result = await socialTradingService.followTrader('user1', 'trader1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Already following this trader');
+    });
+
+    it('should store default copy settings merged with overrides', async () => {
+      mockRepository.findTraderById.mockResolvedValue(createTrader());
+      mockRepository.findFollow.mockResolvedValue(null);
+      mockRepository.createFollow.mockImplementation(async (_f: string, _t: string, settings: any) => ({
+        id: 'follow1',
+        followerId: 'user1',
+        traderId: 'trader1',
+        copySettings: settings,
+        status: 'active',
+        createdAt: new Date(),
+      }));
+
+      const result = await socialTradingService.followTrader('user1', 'trader1', { allocation: 0.25 });
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.createFollow).toHaveBeenCalledWith('user1', 'trader1', {
+        ...DEFAULT_COPY_SETTINGS,
+        allocation: 0.25,
+      });
+      expect(result.data?.status).toBe('active');
+    });
+  });
+
+  describe('updateCopySettings', () => {
+    it('should validate the merged settings', async () => {
+      mockRepository.findFollow.mockResolvedValue({
+        copySettings: { ...DEFAULT_COPY_SETTINGS, stopLoss: 0.05, takeProfit: 0.1 },
+      });
+
+      const result = await socialTradingService.updateCopySettings('user1', 'trader1', { takeProfit: 0.02 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Take profit must be greater than stop loss');
+      expect(mockRepository.updateFollow).not.toHaveBeenCalled();
+    });
+
+    it('should return error when not following the trader', async () => {
+      mockRepository.findFollow.mockResolvedValue(null);
+
+      const result = await socialTradingService.updateCopySettings('user1', 'trader1', { allocation: 0.2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Not following this trader');
+    });
+  });
+
+  describe('getFeed', () => {
+    it('should restrict the following feed to followed traders and the viewer', async () => {
+      mockRepository.findFollowedTraderIds.mockResolvedValue(new Set(['trader1', 'trader2']));
+      mockRepository.findFeed.mockResolvedValue([]);
+
+      await socialTradingService.getFeed('user1', { filter: 'following', limit: 20, offset: 0 });
+
+      expect(mockRepository.findFeed).toHaveBeenCalledWith({
+        viewerId: 'user1',
+        userIds: ['user1', 'trader1', 'trader2'],
+        offset: 0,
+        limit: 20,
+      });
+    });
+
+    it('should filter trade posts by type', async () => {
+      mockRepository.findFeed.mockResolvedValue([]);
+
+      await socialTradingService.getFeed('user1', { filter: 'trades', limit: 10, offset: 20 });
+
+      expect(mockRepository.findFeed).toHaveBeenCalledWith({
+        viewerId: 'user1',
+        types: ['trade_opened', 'trade_closed'],
+        offset: 20,
+        limit: 10,
+      });
+    });
+  });
+
+  describe('likePost', () => {
+    it('should return the updated like count', async () => {
+      mockRepository.findPostById.mockResolvedValue({ id: 'post1', userId: 'trader1' });
+      mockRepository.likePost.mockResolvedValue(3);
+
+      const result = await socialTradingService.likePost('user1', 'post1');
+
+      expect(result).toEqual({ success: true, data: { likesCount: 3 } });
+    });
+
+    it('should return error for missing post', async () => {
+      mockRepository.findPostById.mockResolvedValue(null);
+
+      const result = await socialTradingService.likePost('user1', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Post not found');
+    });
+  });
+
+  describe('rateTrader', () => {
+    it('should reject rating yourself', async () => {
+      const result = await socialTradingService.rateTrader('user1', 'user1', {
+        overall: 5,
+        performance: 5,
+        riskManagement: 5,
+        communication: 5,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You cannot rate yourself');
+      expect(mockRepository.upsertRating).not.toHaveBeenCalled();
+    });
+  });
+});
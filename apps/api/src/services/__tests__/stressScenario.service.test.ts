@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StressScenarioService } from '../stressScenario.service';
+import type { StressScenarioRepository } from '../../repositories/stressScenario.repository';
+import type { StressScenario } from '@golden-palace/shared';
+
+const createScenario = (overrides: Partial<StressScenario & { userId: string }> = {}) => ({
+  id: 'scenario1',
+  userId: 'user1',
+  name: 'Tech selloff',
+  marketChange: -5,
+  volatilityMultiplier: 2,
+  correlationShock: 0.3,
+  duration: '1M' as const,
+  assetShocks: { STOCK: -25 },
+  builtIn: false,
+  ...overrides,
+});
+
+describe('StressScenarioService', () => {
+  let service: StressScenarioService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    mockRepository = {
+      create: vi.fn().mockImplementation(async (_userId: string, data: any) => createScenario(data)),
+      findById: vi.fn().mockResolvedValue(createScenario()),
+      findByUserIdAndName: vi.fn().mockResolvedValue(null),
+      findByUserId: vi.fn().mockResolvedValue([createScenario()]),
+      update: vi.fn().mockImplementation(async (_id: string, data: any) => createScenario(data)),
+      delete: vi.fn(),
+    };
+
+    service = new StressScenarioService(mockRepository as unknown as StressScenarioRepository);
+  });
+
+  it('should list the historical library before saved scenarios', async () => {
+    const result = await service.listScenarios('user1');
+
+    const ids = result.data!.map(scenario => scenario.id);
+    expect(ids.slice(0, 4)).toEqual(['GFC_2008', 'COVID_2020', 'RATE_SHOCK_2022', 'CRYPTO_WINTER_2022']);
+    expect(ids[4]).toBe('scenario1');
+    expect(result.data!.find(scenario => scenario.id === 'CRYPTO_WINTER_2022')!.assetShocks.CRYPTO).toBe(-75);
+  });
+
+  it('should reject a duplicate scenario name', async () => {
+    mockRepository.findByUserIdAndName.mockResolvedValue(createScenario());
+
+    const result = await service.createScenario('user1', {
+      name: 'Tech selloff',
+      marketChange: -5,
+      volatilityMultiplier: 2,
+      correlationShock: 0.3,
+      duration: '1M',
+    });
+
+    expect(result).toEqual({ success: false, error: 'A scenario with this name already exists' });
+    expect(mockRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should not let a user change another user's scenario", async () => {
+    mockRepository.findById.mockResolvedValue(createScenario({ userId: 'user2' }));
+
+    const updated = await service.updateScenario('user1', 'scenario1', { marketChange: -10 });
+    const deleted = await service.deleteScenario('user1', 'scenario1');
+
+    expect(updated).toEqual({ success: false, error: 'Scenario not found' });
+    expect(deleted).toEqual({ success: false, error: 'Scenario not found' });
+    expect(mockRepository.update).not.toHaveBeenCalled();
+    expect(mockRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('should resolve built-in and saved scenarios in the order requested', async () => {
+    const result = await service.resolveScenarios('user1', ['scenario1', 'COVID_2020']);
+
+    expect(result.data!.map(scenario => scenario.id)).toEqual(['scenario1', 'COVID_2020']);
+    expect(result.data![1]).toMatchObject({ name: '2020 COVID Crash', duration: '1M', marketChange: -34 });
+    expect(mockRepository.findById).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail when a requested scenario does not exist', async () => {
+    mockRepository.findById.mockResolvedValue(null);
+
+    const result = await service.resolveScenarios('user1', ['GFC_2008', 'missing']);
+
+    expect(result).toEqual({ success: false, error: 'Scenario not found' });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TotpService } from '../totp.service';
+
+// Base32 of the ASCII secret "12345678901234567890" used by the RFC 6238 test vectors
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpService', () => {
+  let totpService: TotpService;
+
+  beforeEach(() => {
+    totpService = new TotpService();
+  });
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(totpService.generateCode(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(totpService.generateCode(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(totpService.generateCode(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+      expect(totpService.generateCode(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+    });
+  });
+
+  describe('verify', () => {
+    const now = 1234567890 * 1000;
+
+    it('should accept codes from the adjacent time steps', () => {
+      expect(totpService.verify(RFC_SECRET, totpService.generateCode(RFC_SECRET, now - 30_000), now)).toBe(true);
+      expect(totpService.verify(RFC_SECRET, totpService.generateCode(RFC_SECRET, now + 30_000), now)).toBe(true);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(totpService.verify(RFC_SECRET, totpService.generateCode(RFC_SECRET, now - 90_000), now)).toBe(false);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(totpService.verify(RFC_SECRET, '00592', now)).toBe(false);
+      expect(totpService.verify(RFC_SECRET, 'abcdef', now)).toBe(false);
+    });
+
+    it('should verify codes for freshly generated secrets', () => {
+      const secret = totpService.generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(totpService.verify(secret, totpService.generateCode(secret))).toBe(true);
+    });
+  });
+
+  describe('buildProvisioningUri', () => {
+    it('should build an otpauth URI with the issuer and account', () => {
+      const uri = totpService.buildProvisioningUri(RFC_SECRET, 'trader@example.com');
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/Golden%20Palace:trader%40example\.com\?/);
+      expect(uri).toContain(`secret=${RFC_SECRET}`);
+      expect(uri).toContain('issuer=Golden+Palace');
+    });
+  });
+
+  describe('secret encryption', () => {
+    it('should round-trip secrets without storing them in plain text', () => {
+      const encrypted = totpService.encryptSecret(RFC_SECRET);
+
+      expect(encrypted).not.toContain(RFC_SECRET);
+      expect(totpService.decryptSecret(encrypted)).toBe(RFC_SECRET);
+    });
+
+    it('should refuse tampered ciphertext', () => {
+      const [iv, tag, data] = totpService.encryptSecret(RFC_SECRET).split('.');
+      const tampered = Buffer.from(data!, 'base64');
+      tampered[0] = tampered[0]! ^ 1;
+
+      expect(() => totpService.decryptSecret([iv, tag, tampered.toString('base64')].join('.'))).toThrow();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate distinct codes whose hashes ignore formatting', () => {
+      const codes = totpService.generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(totpService.hashRecoveryCode(codes[0]!)).toBe(
+        totpService.hashRecoveryCode(codes[0]!.replace('-', '').toUpperCase())
+      );
+    });
+  });
+});
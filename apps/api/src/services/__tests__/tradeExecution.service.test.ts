@@ -3,6 +3,7 @@ import { TradeExecutionService } from '../tradeExecution.service';
 import { PaperPositionRepository } from '../../repositories/paperPosition.repository';
 import { TradeIdeaRepository } from '../../repositories/tradeIdea.repository';
 import { AlertRepository } from '../../repositories/alert.repository';
+import { ExecutionLogRepository } from '../../repositories/executionLog.repository';
 import type {
   PaperPositionWithDetails,
   TradeIdeaWithDetails,
@@ -11,10 +12,14 @@ import type {
   ServiceResult
 } from '@golden-palace/shared';
 import type { PositionStatus, TradeStatus, AlertStatus } from '@golden-palace/database';
+import type { UserNotifier } from '../../websocket/userNotifier';
+import type { WebhookService } from '../webhook.service';
+import type { OrderService } from '../order.service';
 
 // Mock the repositories
 const mockPaperPositionRepository = {
   findOpenPositions: vi.fn(),
+  getOpenPositions: vi.fn(),
   updateCurrentPrice: vi.fn(),
   close: vi.fn(),
   calculatePnL: vi.fn(),
@@ -36,6 +41,12 @@ const mockAlertRepository = {
   update: vi.fn(),
 } as jest.Mocked<Partial<AlertRepository>>;
 
+const mockExecutionLogRepository = {
+  create: vi.fn(),
+  findByUserId: vi.fn(),
+  getStats: vi.fn(),
+} as jest.Mocked<Partial<ExecutionLogRepository>>;
+
 describe('TradeExecutionService', () => {
   let tradeExecutionService: TradeExecutionService;
   const userId = 'user-123';
@@ -46,7 +57,8 @@ describe('TradeExecutionService', () => {
     tradeExecutionService = new TradeExecutionService(
       mockPaperPositionRepository as PaperPositionRepository,
       mockTradeIdeaRepository as TradeIdeaRepository,
-      mockAlertRepository as AlertRepository
+      mockAlertRepository as AlertRepository,
+      mockExecutionLogRepository as ExecutionLogRepository
     );
   });
 
@@ -123,6 +135,7 @@ describe('TradeExecutionService', () => {
         positionsClosed: 0,
         alertsTriggered: 0,
         tradesExecuted: 0,
+        ordersFilled: 0,
       });
       expect(mockPaperPositionRepository.findOpenPositions).toHaveBeenCalled();
       expect(mockPaperPositionRepository.updateCurrentPrice).toHaveBeenCalledWith('user-123', {
@@ -256,6 +269,7 @@ describe('TradeExecutionService', () => {
           symbol: 'AAPL',
           condition: 'ABOVE',
           targetPrice: 155.00,
+          threshold: null,
           message: 'AAPL broke resistance',
           status: 'ACTIVE' as AlertStatus,
           triggeredAt: null,
@@ -289,6 +303,44 @@ describe('TradeExecutionService', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe('Failed to process market update');
     });
+
+    it('should not stop out a position that an order fill closed in the same tick', async () => {
+      const position = {
+        id: 'pos-1',
+        userId,
+        groupId,
+        symbol: 'AAPL',
+        quantity: 100,
+        entryPrice: 150.50,
+        currentPrice: 144.50,
+        stopLoss: 145.00,
+        takeProfit: null,
+        status: 'OPEN' as PositionStatus,
+      } as PaperPositionWithDetails;
+      const orderService = {
+        matchOrders: vi.fn().mockResolvedValue({ success: true, data: { ordersFilled: 1, ordersExpired: 0 } }),
+      } as unknown as OrderService;
+      const service = new TradeExecutionService(
+        mockPaperPositionRepository as PaperPositionRepository,
+        mockTradeIdeaRepository as TradeIdeaRepository,
+        mockAlertRepository as AlertRepository,
+        mockExecutionLogRepository as ExecutionLogRepository,
+        undefined,
+        undefined,
+        orderService
+      );
+
+      // Open before matching, gone once the sell order has filled
+      mockPaperPositionRepository.getOpenPositions!
+        .mockResolvedValueOnce([position])
+        .mockResolvedValueOnce([]);
+      mockPaperPositionRepository.updateCurrentPrice!.mockResolvedValue(1);
+
+      const result = await service.processMarketUpdate([{ ...marketQuotes[0]!, price: 144.50 }]);
+
+      expect(result.data).toMatchObject({ ordersFilled: 1, positionsClosed: 0 });
+      expect(mockPaperPositionRepository.close).not.toHaveBeenCalled();
+    });
   });
 
   describe('executeStopLoss', () => {
@@ -338,6 +390,50 @@ describe('TradeExecutionService', () => {
         145.00,
         'Stop loss triggered'
       );
+      expect(mockExecutionLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          type: 'STOP_LOSS',
+          referenceId: 'pos-1',
+          triggerPrice: 145.00,
+          marketPrice: 144.50,
+          executionPrice: 145.00,
+          reason: 'Stop loss triggered',
+        })
+      );
+    });
+
+    it('should still close the position when the execution log cannot be written', async () => {
+      mockPaperPositionRepository.close!.mockResolvedValue({ ...position, status: 'STOPPED' as PositionStatus });
+      mockExecutionLogRepository.create!.mockRejectedValueOnce(new Error('Database unavailable'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await tradeExecutionService.executeStopLoss(position, 144.50);
+
+      expect(result.success).toBe(true);
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should log a failed execution when the position cannot be closed', async () => {
+      mockPaperPositionRepository.close!.mockRejectedValueOnce(new Error('Position not found'));
+
+      const result = await tradeExecutionService.executeStopLoss(position, 144.50);
+
+      expect(result.success).toBe(false);
+      expect(mockExecutionLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'STOP_LOSS', status: 'FAILED', error: 'Position not found' })
+      );
+    });
+
+    it('should truncate a long failure message to the log column length', async () => {
+      mockPaperPositionRepository.close!.mockRejectedValueOnce(new Error('x'.repeat(500)));
+
+      await tradeExecutionService.executeStopLoss(position, 144.50);
+
+      expect(mockExecutionLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'FAILED', error: 'x'.repeat(200) })
+      );
     });
 
     it('should not execute stop loss if price is above stop loss for long position', async () => {
@@ -451,6 +547,7 @@ describe('TradeExecutionService', () => {
           symbol: 'AAPL',
           condition: 'ABOVE',
           targetPrice: 155.00,
+          threshold: null,
           message: 'AAPL broke resistance',
           status: 'ACTIVE' as AlertStatus,
           triggeredAt: null,
@@ -463,6 +560,7 @@ describe('TradeExecutionService', () => {
           symbol: 'AAPL',
           condition: 'BELOW',
           targetPrice: 160.00, // Won't trigger
+          threshold: null,
           message: 'AAPL broke support',
           status: 'ACTIVE' as AlertStatus,
           triggeredAt: null,
@@ -490,6 +588,7 @@ describe('TradeExecutionService', () => {
           symbol: 'AAPL',
           condition: 'CROSSES_ABOVE',
           targetPrice: 155.00,
+          threshold: null,
           message: 'AAPL crossed above resistance',
           status: 'ACTIVE' as AlertStatus,
           triggeredAt: null,
@@ -523,6 +622,7 @@ describe('TradeExecutionService', () => {
           symbol: 'AAPL',
           condition: 'CROSSES_BELOW',
           targetPrice: 155.00,
+          threshold: null,
           message: 'AAPL crossed below support',
           status: 'ACTIVE' as AlertStatus,
           triggeredAt: null,
@@ -548,6 +648,127 @@ describe('TradeExecutionService', () => {
       expect(mockAlertRepository.trigger).toHaveBeenCalledWith('alert-1');
     });
 
+    it('should handle percent change and volume conditions', async () => {
+      const baseAlert = {
+        userId,
+        symbol: 'AAPL',
+        targetPrice: null,
+        message: null,
+        status: 'ACTIVE' as AlertStatus,
+        triggeredAt: null,
+        createdAt: new Date(),
+        user: { id: userId, username: 'testuser', avatarUrl: null },
+      };
+      const alerts: AlertWithDetails[] = [
+        { ...baseAlert, id: 'alert-up', condition: 'PERCENT_CHANGE_ABOVE', threshold: 3 },
+        { ...baseAlert, id: 'alert-drop', condition: 'PERCENT_CHANGE_BELOW', threshold: -5 },
+        { ...baseAlert, id: 'alert-volume', condition: 'VOLUME_ABOVE', threshold: 1000000 },
+        { ...baseAlert, id: 'alert-spike', condition: 'VOLUME_ABOVE', threshold: 2000000 },
+      ];
+
+      mockAlertRepository.findBySymbol!.mockResolvedValue(alerts);
+      mockAlertRepository.trigger!.mockResolvedValue(true);
+
+      const result = await tradeExecutionService.checkPriceAlerts(marketQuote);
+
+      expect(result.data).toBe(2);
+      expect(mockAlertRepository.trigger).toHaveBeenCalledWith('alert-up');
+      expect(mockAlertRepository.trigger).toHaveBeenCalledWith('alert-volume');
+      expect(mockExecutionLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          referenceId: 'alert-up',
+          triggerPrice: 155.50,
+          reason: 'Change 3.32% above 3%',
+        })
+      );
+    });
+
+    it('should deliver triggered alerts to the owner', async () => {
+      const notifier = { emitToUser: vi.fn() };
+      const webhookService = { dispatch: vi.fn().mockResolvedValue({ success: true, data: 1 }) };
+      tradeExecutionService = new TradeExecutionService(
+        mockPaperPositionRepository as PaperPositionRepository,
+        mockTradeIdeaRepository as TradeIdeaRepository,
+        mockAlertRepository as AlertRepository,
+        mockExecutionLogRepository as ExecutionLogRepository,
+        undefined,
+        undefined,
+        undefined,
+        notifier as unknown as UserNotifier,
+        undefined,
+        webhookService as unknown as WebhookService
+      );
+      const receivedAt = new Date('2024-03-01T15:00:00Z');
+
+      mockAlertRepository.findBySymbol!.mockResolvedValue([
+        {
+          id: 'alert-1',
+          userId,
+          symbol: 'AAPL',
+          condition: 'ABOVE',
+          targetPrice: 155.00,
+          threshold: null,
+          message: 'AAPL broke resistance',
+          status: 'ACTIVE' as AlertStatus,
+          triggeredAt: null,
+          createdAt: new Date(),
+          user: { id: userId, username: 'testuser', avatarUrl: null },
+        },
+      ]);
+      mockAlertRepository.trigger!.mockResolvedValue(true);
+
+      await tradeExecutionService.checkPriceAlerts(marketQuote, receivedAt);
+
+      expect(notifier.emitToUser).toHaveBeenCalledWith(userId, 'alert:triggered', {
+        alert: expect.objectContaining({ id: 'alert-1', status: 'TRIGGERED', triggeredAt: receivedAt }),
+        price: 155.50,
+        changePercent: 3.32,
+        volume: 1500000,
+        triggeredAt: receivedAt,
+      });
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        'alert.triggered',
+        expect.objectContaining({ alertId: 'alert-1', symbol: 'AAPL', price: 155.50 }),
+        { userIds: [userId] }
+      );
+    });
+
+    it('should not notify when the alert was already triggered elsewhere', async () => {
+      const notifier = { emitToUser: vi.fn() };
+      tradeExecutionService = new TradeExecutionService(
+        mockPaperPositionRepository as PaperPositionRepository,
+        mockTradeIdeaRepository as TradeIdeaRepository,
+        mockAlertRepository as AlertRepository,
+        mockExecutionLogRepository as ExecutionLogRepository,
+        undefined,
+        undefined,
+        undefined,
+        notifier as unknown as UserNotifier
+      );
+
+      mockAlertRepository.findBySymbol!.mockResolvedValue([
+        {
+          id: 'alert-1',
+          userId,
+          symbol: 'AAPL',
+          condition: 'VOLUME_ABOVE',
+          targetPrice: null,
+          threshold: 1000,
+          message: null,
+          status: 'ACTIVE' as AlertStatus,
+          triggeredAt: null,
+          createdAt: new Date(),
+          user: { id: userId, username: 'testuser', avatarUrl: null },
+        },
+      ]);
+      mockAlertRepository.trigger!.mockResolvedValue(false);
+
+      const result = await tradeExecutionService.checkPriceAlerts(marketQuote);
+
+      expect(result.data).toBe(0);
+      expect(notifier.emitToUser).not.toHaveBeenCalled();
+    });
+
     it('should return zero when no alerts are triggered', async () => {
       mockAlertRepository.findBySymbol!.mockResolvedValue([]);
 
@@ -838,30 +1059,34 @@ describe('TradeExecutionService', () => {
   });
 
   describe('getExecutionSummary', () => {
-    it('should return execution summary for user', async () => {
-      const mockSummary = {
-        totalExecutions: 25,
-        stopLossExecutions: 8,
-        takeProfitExecutions: 17,
-        totalPnlFromExecutions: 1250.75,
-        avgExecutionTime: 125, // milliseconds
-        successRate: 68.0, // percentage
-        lastExecutionTime: new Date(),
-      };
+    it('should summarize the execution log for the requested period', async () => {
+      const lastExecutedAt = new Date();
+      mockExecutionLogRepository.getStats!.mockResolvedValue({
+        total: 25,
+        succeeded: 24,
+        byType: { STOP_LOSS: 8, TAKE_PROFIT: 12, IDEA_AUTO_CLOSE: 3, ALERT_TRIGGER: 2 },
+        totalPnl: 1250.75,
+        avgLatencyMs: 125,
+        avgSlippage: 0.35,
+        lastExecutedAt,
+      });
 
-      // Mock implementation would come from repository
       const result = await tradeExecutionService.getExecutionSummary(userId, 30);
 
-      // For now, this would return a basic summary since we haven't implemented the repository method
       expect(result.success).toBe(true);
+      expect(mockExecutionLogRepository.getStats).toHaveBeenCalledWith(userId, expect.any(Date));
       expect(result.data).toEqual({
-        totalExecutions: 0,
-        stopLossExecutions: 0,
-        takeProfitExecutions: 0,
-        totalPnlFromExecutions: 0,
-        avgExecutionTime: 0,
-        successRate: 0,
-        lastExecutionTime: null,
+        totalExecutions: 25,
+        stopLossExecutions: 8,
+        takeProfitExecutions: 12,
+        totalPnlFromExecutions: 1250.75,
+        avgExecutionTime: 125,
+        successRate: 96,
+        lastExecutionTime: lastExecutedAt,
+        ideaExecutions: 3,
+        alertTriggers: 2,
+        failedExecutions: 1,
+        avgSlippage: 0.35,
       });
     });
   });
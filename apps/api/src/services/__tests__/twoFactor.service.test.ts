@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MAX_CHALLENGE_ATTEMPTS, TwoFactorService } from '../twoFactor.service';
+import { TotpService } from '../totp.service';
+import type { UserRepository } from '../../repositories/user.repository';
+import type { RedisService } from '../redis.service';
+
+describe('TwoFactorService', () => {
+  let twoFactorService: TwoFactorService;
+  let totpService: TotpService;
+  let mockUserRepository: any;
+  let mockRedisService: any;
+  let counters: Map<string, number>;
+  let user: any;
+
+  beforeEach(() => {
+    user = {
+      id: 'user1',
+      email: 'trader@example.com',
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+    };
+
+    mockUserRepository = {
+      findById: vi.fn().mockImplementation(async () => user),
+      update: vi.fn().mockImplementation(async (_id: string, data: any) => {
+        user = { ...user, ...data };
+        return user;
+      }),
+      consumeRecoveryCode: vi.fn().mockResolvedValue(true),
+      recordTotpStep: vi.fn().mockImplementation(async (_id: string, step: number) => {
+        if (user.twoFactorLastStep != null && user.twoFactorLastStep >= step) return false;
+        user = { ...user, twoFactorLastStep: step };
+        return true;
+      }),
+    };
+
+    counters = new Map();
+    mockRedisService = {
+      increment: vi.fn(async (key: string) => {
+        counters.set(key, (counters.get(key) ?? 0) + 1);
+        return counters.get(key);
+      }),
+      expire: vi.fn().mockResolvedValue(true),
+    };
+
+    totpService = new TotpService();
+    twoFactorService = new TwoFactorService(
+      mockUserRepository as unknown as UserRepository,
+      totpService,
+      mockRedisService as unknown as RedisService
+    );
+  });
+
+  describe('setup', () => {
+    it('should store the new secret encrypted and return a provisioning URI', async () => {
+      const result = await twoFactorService.setup('user1');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.otpauthUrl).toContain(`secret=${result.data!.secret}`);
+      expect(user.twoFactorSecret).not.toBe(result.data!.secret);
+      expect(totpService.decryptSecret(user.twoFactorSecret)).toBe(result.data!.secret);
+      expect(user.twoFactorEnabled).toBe(false);
+    });
+
+    it('should refuse to replace the secret while two-factor is enabled', async () => {
+      user.twoFactorEnabled = true;
+
+      const result = await twoFactorService.setup('user1');
+
+      expect(result).toEqual({ success: false, error: 'Two-factor authentication is already enabled' });
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enable', () => {
+    it('should require a code from the pending secret', async () => {
+      await twoFactorService.setup('user1');
+
+      const result = await twoFactorService.enable('user1', '000000');
+
+      expect(result.error).toBe('Invalid two-factor code');
+      expect(user.twoFactorEnabled).toBe(false);
+    });
+
+    it('should enable two-factor and store only hashes of the recovery codes', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+
+      const result = await twoFactorService.enable('user1', totpService.generateCode(secret));
+
+      expect(user.twoFactorEnabled).toBe(true);
+      expect(result.data!.recoveryCodes).toHaveLength(10);
+      expect(user.twoFactorRecoveryCodes).toEqual(
+        result.data!.recoveryCodes.map(code => totpService.hashRecoveryCode(code))
+      );
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should consume a recovery code and remove it from the stored hashes', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+      const { recoveryCodes } = (await twoFactorService.enable('user1', totpService.generateCode(secret))).data!;
+
+      const valid = await twoFactorService.verifyCode(user, recoveryCodes[2]!);
+
+      expect(valid).toBe(true);
+      const [, codeHash, remaining] = mockUserRepository.consumeRecoveryCode.mock.calls[0];
+      expect(codeHash).toBe(totpService.hashRecoveryCode(recoveryCodes[2]!));
+      expect(remaining).toHaveLength(9);
+      expect(remaining).not.toContain(codeHash);
+    });
+
+    it('should reject unknown codes without touching the stored recovery codes', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+      await twoFactorService.enable('user1', totpService.generateCode(secret));
+
+      const valid = await twoFactorService.verifyCode(user, 'aaaaa-bbbbb');
+
+      expect(valid).toBe(false);
+      expect(mockUserRepository.consumeRecoveryCode).not.toHaveBeenCalled();
+    });
+
+    it('should accept an authenticator code only once', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+      await twoFactorService.enable('user1', totpService.generateCode(secret));
+      const nextCode = totpService.generateCode(secret, Date.now() + 30_000);
+
+      expect(await twoFactorService.verifyCode(user, nextCode)).toBe(true);
+      expect(await twoFactorService.verifyCode(user, nextCode)).toBe(false);
+      // Nor can the code used to enable two-factor be replayed
+      expect(await twoFactorService.verifyCode(user, totpService.generateCode(secret))).toBe(false);
+    });
+  });
+
+  describe('verifyChallengeCode', () => {
+    it('should refuse every code once a challenge has used up its attempts', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+      await twoFactorService.enable('user1', totpService.generateCode(secret));
+
+      for (let attempt = 0; attempt < MAX_CHALLENGE_ATTEMPTS; attempt++) {
+        const result = await twoFactorService.verifyChallengeCode('challenge1', 300, user, '000000');
+        expect(result.error).toBe('Invalid two-factor code');
+      }
+      const locked = await twoFactorService.verifyChallengeCode(
+        'challenge1',
+        300,
+        user,
+        totpService.generateCode(secret, Date.now() + 30_000)
+      );
+
+      expect(locked).toEqual({ success: false, error: 'Too many invalid two-factor codes, please log in again' });
+      expect(mockRedisService.expire).toHaveBeenCalledTimes(1);
+      expect(mockRedisService.expire).toHaveBeenCalledWith('2fa:challenge:challenge1:attempts', 300);
+      // Another challenge starts with a clean count
+      expect((await twoFactorService.verifyChallengeCode('challenge2', 300, user, '000000')).error).toBe('Invalid two-factor code');
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes', async () => {
+      const { secret } = (await twoFactorService.setup('user1')).data!;
+      await twoFactorService.enable('user1', totpService.generateCode(secret));
+
+      // The enabling code is spent, so disable with the next one
+      const result = await twoFactorService.disable('user1', totpService.generateCode(secret, Date.now() + 30_000));
+
+      expect(result.success).toBe(true);
+      expect(user).toMatchObject({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorRecoveryCodes: [] });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { MAX_DELIVERY_ATTEMPTS, WebhookService, publicWebhookLookup, signWebhookPayload } from '../webhook.service';
+import type { WebhookRepository } from '../../repositories/webhook.repository';
+import type { GroupRepository } from '../../repositories/group.repository';
+import type { WebhookDelivery, WebhookWithSecret } from '@golden-palace/shared';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  // Local stand-in for a user's endpoint; answers with whatever status the test sets
+  let server: Server;
+  let endpointUrl: string;
+  let responseStatus: number;
+  let received: ReceivedRequest[];
+
+  let service: WebhookService;
+  let mockWebhookRepository: any;
+  let mockGroupRepository: any;
+
+  const createWebhook = (overrides: Partial<WebhookWithSecret> = {}): WebhookWithSecret => ({
+    id: 'webhook1',
+    userId: 'user1',
+    groupId: null,
+    url: endpointUrl,
+    secret: 'whsec_test_secret_value',
+    events: ['position.closed'],
+    description: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const createDelivery = (overrides: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+    id: 'delivery1',
+    webhookId: 'webhook1',
+    event: 'position.closed',
+    payload: { id: 'event1', event: 'position.closed', createdAt: new Date().toISOString(), data: {} },
+    status: 'PENDING',
+    attempts: 0,
+    responseStatus: null,
+    responseBody: null,
+    error: null,
+    nextAttemptAt: new Date(),
+    deliveredAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus, { 'Content-Type': 'text/plain' });
+        res.end(responseStatus < 300 ? 'ok' : 'nope');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpointUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'];
+  });
+
+  beforeEach(() => {
+    // The stand-in listens on loopback
+    process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'] = 'true';
+    responseStatus = 200;
+    received = [];
+
+    mockWebhookRepository = {
+      create: vi.fn().mockImplementation(async (data: any) => createWebhook(data)),
+      findById: vi.fn().mockImplementation(async () => createWebhook()),
+      findByUserId: vi.fn().mockImplementation(async () => [createWebhook()]),
+      countByUserId: vi.fn().mockResolvedValue(0),
+      findSubscribers: vi.fn().mockImplementation(async () => [createWebhook()]),
+      createDelivery: vi.fn().mockImplementation(async (data: any) => createDelivery(data)),
+      recordAttempt: vi.fn().mockImplementation(async (id: string, result: any) => createDelivery({ id, ...result })),
+      findDueDeliveries: vi.fn().mockResolvedValue([]),
+    };
+    mockGroupRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 'group1', ownerId: 'owner1' }),
+    };
+
+    service = new WebhookService(
+      mockWebhookRepository as unknown as WebhookRepository,
+      mockGroupRepository as unknown as GroupRepository
+    );
+  });
+
+  it('should generate a signing secret and hide it on later reads', async () => {
+    const created = await service.createWebhook('user1', { url: endpointUrl, events: ['alert.triggered'] });
+
+    expect(created.data?.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+    const listed = await service.getWebhooks('user1');
+    expect(listed.data?.[0]).not.toHaveProperty('secret');
+  });
+
+  it('should only let the group owner add a group webhook', async () => {
+    const result = await service.createWebhook('user1', {
+      url: endpointUrl,
+      events: ['trade_idea.created'],
+      groupId: 'group1',
+    });
+
+    expect(result).toEqual({ success: false, error: 'Only the group owner can add group webhooks' });
+    expect(mockWebhookRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should report another user\'s webhook as not found', async () => {
+    const result = await service.testWebhook('user2', 'webhook1');
+
+    expect(result).toEqual({ success: false, error: 'Webhook not found' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('should send a signed test event and log the response', async () => {
+    const result = await service.testWebhook('user1', 'webhook1');
+
+    expect(result.data).toMatchObject({ status: 'SUCCEEDED', attempts: 1, responseStatus: 200, responseBody: 'ok' });
+    expect(received).toHaveLength(1);
+
+    const [{ headers, body }] = received as [ReceivedRequest];
+    expect(headers['x-webhook-event']).toBe('webhook.test');
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload('whsec_test_secret_value', headers['x-webhook-timestamp'] as string, body)
+    );
+    expect(JSON.parse(body)).toMatchObject({ event: 'webhook.test', data: { webhookId: 'webhook1' } });
+  });
+
+  it('should queue a retry with backoff when the endpoint fails', async () => {
+    responseStatus = 503;
+
+    const result = await service.dispatch('position.closed', { positionId: 'position1' }, { userIds: ['user1'] });
+
+    expect(result.data).toBe(1);
+    await vi.waitFor(() => expect(mockWebhookRepository.recordAttempt).toHaveBeenCalled());
+
+    const [, attempt] = mockWebhookRepository.recordAttempt.mock.calls[0];
+    expect(attempt).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      responseStatus: 503,
+      responseBody: null,
+      error: 'Endpoint responded with 503'
+    });
+    expect(attempt.nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(25 * 1000);
+  });
+
+  it('should give up after the last retry', async () => {
+    responseStatus = 500;
+    mockWebhookRepository.findDueDeliveries.mockResolvedValue([
+      { ...createDelivery({ attempts: MAX_DELIVERY_ATTEMPTS - 1 }), webhook: createWebhook() },
+    ]);
+
+    const attempted = await service.retryDueDeliveries();
+
+    expect(attempted).toBe(1);
+    expect(mockWebhookRepository.recordAttempt).toHaveBeenCalledWith(
+      'delivery1',
+      expect.objectContaining({ status: 'FAILED', attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null })
+    );
+  });
+
+  it('should refuse to register or call private addresses', async () => {
+    delete process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'];
+
+    const created = await service.createWebhook('user1', { url: 'http://10.0.0.5/hooks', events: ['alert.triggered'] });
+    const updated = await service.updateWebhook('user1', 'webhook1', { url: 'http://[::ffff:127.0.0.1]/hooks' });
+
+    expect(created).toEqual({ success: false, error: 'URL must point to a public host' });
+    expect(updated).toEqual({ success: false, error: 'URL must point to a public host' });
+    expect(mockWebhookRepository.create).not.toHaveBeenCalled();
+
+    // A webhook registered before its host started resolving privately is not called either
+    const tested = await service.testWebhook('user1', 'webhook1');
+
+    expect(tested.data).toMatchObject({ status: 'FAILED', error: 'URL must point to a public host' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('should refuse to connect to private addresses embedded in IPv6', async () => {
+    delete process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'];
+
+    const nat64 = await service.createWebhook('user1', { url: 'http://[64:ff9b::a00:5]/hooks', events: ['alert.triggered'] });
+    const sixToFour = await service.createWebhook('user1', { url: 'http://[2002:c0a8:101::1]/hooks', events: ['alert.triggered'] });
+
+    expect(nat64).toEqual({ success: false, error: 'URL must point to a public host' });
+    expect(sixToFour).toEqual({ success: false, error: 'URL must point to a public host' });
+  });
+
+  it('should only resolve delivery connections to public addresses', async () => {
+    const resolve = (hostname: string, all: boolean) =>
+      new Promise<Error | null>(done => publicWebhookLookup(hostname, { all }, error => done(error)));
+
+    // The lookup a delivery dials through checks the address it connects to
+    expect(await resolve('127.0.0.1', false)).toEqual(new Error('URL must point to a public host'));
+    expect(await resolve('127.0.0.1', true)).toEqual(new Error('URL must point to a public host'));
+    expect(await resolve('93.184.216.34', true)).toBeNull();
+  });
+});
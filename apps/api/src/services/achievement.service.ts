@@ -0,0 +1,136 @@
+import type {
+  ServiceResult,
+  AchievementDefinition,
+  AchievementProgress,
+  AchievementSummary,
+  UnlockedAchievement
+} from '@golden-palace/shared';
+import { ACHIEVEMENT_CATALOG } from '@golden-palace/shared';
+import { AchievementRepository } from '../repositories/achievement.repository';
+import type { UserNotifier } from '../websocket/userNotifier';
+import type { NotificationService } from './notification.service';
+
+export class AchievementService {
+  constructor(
+    private achievementRepository: AchievementRepository,
+    private notifier?: UserNotifier,
+    private notificationService?: NotificationService
+  ) {}
+
+  /**
+   * Unlocks every catalog achievement whose requirement is met by the user's stored data
+   * and pushes each new unlock to the user's socket room and notification inbox.
+   */
+  async evaluate(userId: string): Promise<ServiceResult<UnlockedAchievement[]>> {
+    try {
+      const [metrics, unlocked] = await Promise.all([
+        this.achievementRepository.getMetrics(userId),
+        this.achievementRepository.findUnlocked(userId),
+      ]);
+      const unlockedIds = new Set(unlocked.map(unlock => unlock.achievementId));
+
+      const earned = ACHIEVEMENT_CATALOG
+        .filter(achievement => !unlockedIds.has(achievement.id))
+        .filter(achievement => metrics[achievement.requirement.type] >= achievement.requirement.value)
+        .map(achievement => ({
+          achievementId: achievement.id,
+          progress: metrics[achievement.requirement.type],
+        }));
+
+      if (earned.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const created = await this.achievementRepository.createUnlocked(userId, earned);
+      const newlyUnlocked = created.map(unlock => ({
+        achievement: this.getDefinition(unlock.achievementId)!,
+        unlockedAt: unlock.unlockedAt,
+      }));
+
+      for (const unlock of newlyUnlocked) {
+        this.notifier?.emitToUser(userId, 'achievement:unlocked', unlock);
+        await this.notificationService?.notify(userId, {
+          type: 'ACHIEVEMENT_UNLOCKED',
+          title: `${unlock.achievement.icon} ${unlock.achievement.name}`,
+          body: `Achievement unlocked: ${unlock.achievement.description}`,
+          data: { achievementId: unlock.achievement.id },
+        });
+      }
+
+      return { success: true, data: newlyUnlocked };
+    } catch (error) {
+      return { success: false, error: 'Failed to evaluate achievements' };
+    }
+  }
+
+  async getAchievements(userId: string): Promise<ServiceResult<AchievementSummary>> {
+    try {
+      const [metrics, unlocked] = await Promise.all([
+        this.achievementRepository.getMetrics(userId),
+        this.achievementRepository.findUnlocked(userId),
+      ]);
+      const unlockedAt = new Map(unlocked.map(unlock => [unlock.achievementId, unlock.unlockedAt]));
+
+      const achievements: AchievementProgress[] = ACHIEVEMENT_CATALOG.map(achievement => {
+        const targetValue = achievement.requirement.value;
+        const isUnlocked = unlockedAt.has(achievement.id);
+        const currentProgress = isUnlocked
+          ? Math.max(metrics[achievement.requirement.type], targetValue)
+          : metrics[achievement.requirement.type];
+
+        return {
+          achievement,
+          currentProgress,
+          targetValue,
+          percentageComplete: Math.min(100, Math.round((currentProgress / targetValue) * 10000) / 100),
+          isUnlocked,
+          unlockedAt: unlockedAt.get(achievement.id) ?? null,
+        };
+      });
+
+      // Locked achievements closest to completion first, unlocked ones last
+      achievements.sort((a, b) => {
+        if (a.isUnlocked !== b.isUnlocked) {
+          return a.isUnlocked ? 1 : -1;
+        }
+        return b.percentageComplete - a.percentageComplete;
+      });
+
+      const unlockedAchievements = achievements.filter(progress => progress.isUnlocked);
+
+      return {
+        success: true,
+        data: {
+          unlockedCount: unlockedAchievements.length,
+          totalCount: ACHIEVEMENT_CATALOG.length,
+          totalPoints: unlockedAchievements.reduce((sum, progress) => sum + progress.achievement.points, 0),
+          achievements,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get achievements' };
+    }
+  }
+
+  async getUnlocked(userId: string): Promise<ServiceResult<UnlockedAchievement[]>> {
+    try {
+      const unlocked = await this.achievementRepository.findUnlocked(userId);
+
+      return {
+        success: true,
+        data: unlocked
+          .filter(unlock => this.getDefinition(unlock.achievementId))
+          .map(unlock => ({
+            achievement: this.getDefinition(unlock.achievementId)!,
+            unlockedAt: unlock.unlockedAt,
+          })),
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get unlocked achievements' };
+    }
+  }
+
+  private getDefinition(achievementId: string): AchievementDefinition | undefined {
+    return ACHIEVEMENT_CATALOG.find(achievement => achievement.id === achievementId);
+  }
+}
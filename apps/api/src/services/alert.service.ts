@@ -0,0 +1,146 @@
+import {
+  MAX_ACTIVE_ALERTS_PER_USER,
+  isPriceAlertCondition,
+  type AlertWithDetails,
+  type CreateAlertInput,
+  type GetAlertsQuery,
+  type ServiceResult,
+  type UpdateAlertInput
+} from '@golden-palace/shared';
+import { AlertRepository } from '../repositories/alert.repository';
+
+export class AlertService {
+  constructor(private alertRepository: AlertRepository) {}
+
+  async createAlert(userId: string, input: CreateAlertInput): Promise<ServiceResult<AlertWithDetails>> {
+    try {
+      const activeCount = await this.alertRepository.getUserActiveAlertsCount(userId);
+      if (activeCount >= MAX_ACTIVE_ALERTS_PER_USER) {
+        return { success: false, error: 'Active alert limit reached' };
+      }
+
+      // Only the field the condition compares against is stored
+      const isPriceAlert = isPriceAlertCondition(input.condition);
+      const alert = await this.alertRepository.create({
+        userId,
+        symbol: input.symbol,
+        condition: input.condition,
+        targetPrice: isPriceAlert ? input.targetPrice : undefined,
+        threshold: isPriceAlert ? undefined : input.threshold,
+        message: input.message
+      });
+
+      return { success: true, data: alert };
+    } catch (error) {
+      return { success: false, error: 'Failed to create alert' };
+    }
+  }
+
+  async getAlerts(userId: string, query: GetAlertsQuery = {}): Promise<ServiceResult<AlertWithDetails[]>> {
+    try {
+      const alerts = await this.alertRepository.findByUserId(userId, query.status, query.symbol);
+      return { success: true, data: alerts };
+    } catch (error) {
+      return { success: false, error: 'Failed to get alerts' };
+    }
+  }
+
+  async getAlert(userId: string, alertId: string): Promise<ServiceResult<AlertWithDetails>> {
+    try {
+      const access = await this.getOwnedAlert(userId, alertId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      return { success: true, data: access.data };
+    } catch (error) {
+      return { success: false, error: 'Failed to get alert' };
+    }
+  }
+
+  /**
+   * Changes the target, threshold or message of an active alert. The condition is fixed, so
+   * the update must set the field that condition compares against.
+   */
+  async updateAlert(
+    userId: string,
+    alertId: string,
+    input: UpdateAlertInput
+  ): Promise<ServiceResult<AlertWithDetails>> {
+    try {
+      const access = await this.getOwnedAlert(userId, alertId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const alert = access.data;
+      if (alert.status !== 'ACTIVE') {
+        return { success: false, error: 'Only active alerts can be changed' };
+      }
+
+      if (isPriceAlertCondition(alert.condition)) {
+        if (input.threshold !== undefined) {
+          return { success: false, error: 'Price alerts use a target price, not a threshold' };
+        }
+      } else {
+        if (input.targetPrice !== undefined) {
+          return { success: false, error: 'Percent change and volume alerts use a threshold, not a target price' };
+        }
+        if (alert.condition === 'VOLUME_ABOVE' && input.threshold !== undefined && input.threshold <= 0) {
+          return { success: false, error: 'Volume threshold must be positive' };
+        }
+      }
+
+      const updated = await this.alertRepository.update(alertId, {
+        targetPrice: input.targetPrice,
+        threshold: input.threshold,
+        message: input.message
+      });
+
+      return { success: true, data: updated };
+    } catch (error) {
+      return { success: false, error: 'Failed to update alert' };
+    }
+  }
+
+  async cancelAlert(userId: string, alertId: string): Promise<ServiceResult<AlertWithDetails>> {
+    try {
+      const access = await this.getOwnedAlert(userId, alertId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      if (access.data.status !== 'ACTIVE') {
+        return { success: false, error: 'Only active alerts can be cancelled' };
+      }
+
+      const cancelled = await this.alertRepository.update(alertId, { status: 'CANCELLED' });
+      return { success: true, data: cancelled };
+    } catch (error) {
+      return { success: false, error: 'Failed to cancel alert' };
+    }
+  }
+
+  async deleteAlert(userId: string, alertId: string): Promise<ServiceResult<void>> {
+    try {
+      const access = await this.getOwnedAlert(userId, alertId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      await this.alertRepository.delete(alertId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete alert' };
+    }
+  }
+
+  // Another user's alert is reported as missing rather than forbidden
+  private async getOwnedAlert(userId: string, alertId: string) {
+    const alert = await this.alertRepository.findById(alertId);
+    if (!alert || alert.userId !== userId) {
+      return { success: false as const, error: 'Alert not found', data: undefined };
+    }
+    return { success: true as const, data: alert };
+  }
+}
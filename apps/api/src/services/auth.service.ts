@@ -1,7 +1,9 @@
 import { UserRepository, type UserWithStats } from '../repositories/user.repository';
 import { HashService } from './hash.service';
 import { TokenService } from './token.service';
-import type { RegisterInput, LoginInput, AuthResponse, TokenPair } from '@golden-palace/shared';
+import { RefreshTokenService, type RefreshTokenSession } from './refreshToken.service';
+import { TwoFactorService } from './twoFactor.service';
+import type { RegisterInput, LoginInput, LoginResponse, AuthResponse, TokenPair, TwoFactorLoginInput } from '@golden-palace/shared';
 
 interface ServiceResult<T> {
   success: boolean;
@@ -13,7 +15,9 @@ export class AuthService {
   constructor(
     private readonly userRepository: UserRepository,
     private readonly hashService: HashService,
-    private readonly tokenService: TokenService
+    private readonly tokenService: TokenService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly twoFactorService: TwoFactorService
   ) {}
 
   async register(input: RegisterInput): Promise<ServiceResult<AuthResponse>> {
@@ -50,7 +54,7 @@ export class AuthService {
       });
 
       // Generate tokens
-      const tokens = this.generateTokens(user);
+      const tokens = await this.generateTokens(user);
 
       // Return response without sensitive data
       const userResponse = this.sanitizeUser(user);
@@ -70,7 +74,11 @@ export class AuthService {
     }
   }
 
-  async login(input: LoginInput): Promise<ServiceResult<AuthResponse>> {
+  /**
+   * With two-factor authentication on, a correct password only earns a short-lived
+   * challenge token; tokens are issued by completeTwoFactorLogin.
+   */
+  async login(input: LoginInput): Promise<ServiceResult<LoginResponse>> {
     try {
       // Validate input
       const validation = this.validateLoginInput(input);
@@ -90,11 +98,22 @@ export class AuthService {
         return { success: false, error: 'Invalid credentials' };
       }
 
+      if (user.twoFactorEnabled) {
+        return {
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            challengeToken: this.tokenService.generateTwoFactorChallenge(user.id),
+            expiresIn: this.tokenService.getTwoFactorChallengeExpiry()
+          }
+        };
+      }
+
       // Update last seen
       await this.userRepository.updateLastSeen(user.id);
 
       // Generate tokens
-      const tokens = this.generateTokens(user);
+      const tokens = await this.generateTokens(user);
 
       // Return response without sensitive data
       const userResponse = this.sanitizeUser(user);
@@ -114,6 +133,47 @@ export class AuthService {
     }
   }
 
+  async completeTwoFactorLogin(input: TwoFactorLoginInput): Promise<ServiceResult<AuthResponse>> {
+    try {
+      const challenge = this.tokenService.verifyTwoFactorChallenge(input.challengeToken);
+      if (!challenge.success || !challenge.data?.jti) {
+        return { success: false, error: challenge.error ?? 'Invalid two-factor challenge' };
+      }
+
+      const user = await this.userRepository.findById(challenge.data.userId);
+      if (!user || !user.twoFactorEnabled) {
+        return { success: false, error: 'Invalid two-factor challenge' };
+      }
+
+      const verification = await this.twoFactorService.verifyChallengeCode(
+        challenge.data.jti,
+        challenge.data.exp - Math.floor(Date.now() / 1000),
+        user,
+        input.code
+      );
+      if (!verification.success) {
+        return { success: false, error: verification.error ?? 'Invalid two-factor code' };
+      }
+
+      await this.userRepository.updateLastSeen(user.id);
+
+      const tokens = await this.generateTokens(user);
+
+      return {
+        success: true,
+        data: {
+          user: this.sanitizeUser(user),
+          tokens
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   async refreshToken(refreshToken: string): Promise<ServiceResult<TokenPair>> {
     try {
       // Verify refresh token
@@ -122,14 +182,27 @@ export class AuthService {
         return { success: false, error: tokenResult.error };
       }
 
+      const { userId, fid, jti } = tokenResult.data;
+      if (!fid || !jti) {
+        return { success: false, error: 'Invalid refresh token' };
+      }
+
       // Find user
-      const user = await this.userRepository.findById(tokenResult.data.userId);
+      const user = await this.userRepository.findById(userId);
       if (!user) {
         return { success: false, error: 'User not found' };
       }
 
-      // Generate new tokens
-      const tokens = this.generateTokens(user);
+      // Swap the presented token for a new one in the same family
+      const rotation = await this.refreshTokenService.rotate(userId, { familyId: fid, tokenId: jti });
+      if (rotation.status === 'reused') {
+        return { success: false, error: 'Refresh token reuse detected, please log in again' };
+      }
+      if (rotation.status === 'revoked') {
+        return { success: false, error: 'Refresh token has been revoked' };
+      }
+
+      const tokens = await this.generateTokens(user, rotation.session);
 
       return {
         success: true,
@@ -143,6 +216,42 @@ export class AuthService {
     }
   }
 
+  /**
+   * Ends the session the refresh token belongs to. Tokens that no longer verify have
+   * nothing left to revoke, so logging out with them still succeeds.
+   */
+  async logout(refreshToken: string): Promise<ServiceResult<void>> {
+    try {
+      const tokenResult = this.tokenService.verifyRefreshToken(refreshToken);
+      if (tokenResult.success && tokenResult.data?.fid) {
+        await this.refreshTokenService.revokeFamily(tokenResult.data.userId, tokenResult.data.fid);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Logout failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Revokes every refresh token of the user. Access tokens already issued stay valid
+   * until they expire.
+   */
+  async logoutAll(userId: string): Promise<ServiceResult<{ sessionsRevoked: number }>> {
+    try {
+      const sessionsRevoked = await this.refreshTokenService.revokeAll(userId);
+      return { success: true, data: { sessionsRevoked } };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Logout failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   async verifyToken(accessToken: string): Promise<ServiceResult<{ userId: string; email: string; username: string }>> {
     try {
       const tokenResult = this.tokenService.verifyAccessToken(accessToken);
@@ -210,19 +319,21 @@ export class AuthService {
     return hasUpperCase && hasLowerCase && hasNumbers && hasSpecialChar;
   }
 
-  private generateTokens(user: UserWithStats): TokenPair {
+  // Without a session a new token family is started, as on login and registration
+  private async generateTokens(user: UserWithStats, session?: RefreshTokenSession): Promise<TokenPair> {
     const accessToken = this.tokenService.generateAccessToken(
       user.id,
       user.email,
       user.username
     );
-    const refreshToken = this.tokenService.generateRefreshToken(user.id);
+    const refreshSession = session ?? await this.refreshTokenService.createFamily(user.id);
+    const refreshToken = this.tokenService.generateRefreshToken(user.id, undefined, refreshSession);
 
     return { accessToken, refreshToken };
   }
 
   private sanitizeUser(user: UserWithStats) {
-    const { passwordHash, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    const { passwordHash, twoFactorSecret, twoFactorRecoveryCodes, ...userWithoutSecrets } = user;
+    return userWithoutSecrets;
   }
 }
\ No newline at end of file
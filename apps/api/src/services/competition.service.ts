@@ -1,6 +1,9 @@
 import type { Competition } from '@prisma/client';
 import { CompetitionRepository } from '../repositories/competition.repository';
 import { CompetitionEntryRepository } from '../repositories/competitionEntry.repository';
+import type { NotificationService } from './notification.service';
+import type { WebhookService } from './webhook.service';
+import type { CompetitionEntryService } from './competitionEntry.service';
 
 export interface ServiceResult<T = any> {
   success: boolean;
@@ -12,7 +15,10 @@ export class CompetitionService {
   constructor(
     private competitionRepository: CompetitionRepository,
     private entryRepository: CompetitionEntryRepository,
-    private groupRepository?: any
+    private groupRepository?: any,
+    private notificationService?: NotificationService,
+    private webhookService?: WebhookService,
+    private entryService?: CompetitionEntryService
   ) {}
 
   async createCompetition(
@@ -387,6 +393,15 @@ export class CompetitionService {
         };
       }
 
+      // Entries with their own competition accounts are scored from those positions only
+      if (this.entryService) {
+        await this.entryService.scoreCompetition(competition);
+        return {
+          success: true,
+          data: true
+        };
+      }
+
       const entries = await this.entryRepository.findByCompetitionId(competitionId);
 
       const sortField = competition.type === 'MONTHLY_ROI' ? 'totalRoi' :
@@ -464,6 +479,8 @@ export class CompetitionService {
 
       const updated = await (this.competitionRepository as any).updateStatus?.(competitionId, 'COMPLETED') ||
                       await this.competitionRepository.update(competitionId, { status: 'COMPLETED' });
+      await this.notifyEntrants(competition, 'COMPETITION_ENDED');
+      await this.dispatchCompleted(competition);
 
       return {
         success: true,
@@ -771,6 +788,7 @@ export class CompetitionService {
         await (this.competitionRepository as any).updateStatus?.(comp.id, 'ACTIVE') ||
         await this.competitionRepository.update(comp.id, { status: 'ACTIVE' });
         startedIds.push(comp.id);
+        await this.notifyEntrants(comp, 'COMPETITION_STARTED');
       } catch (error) {
         console.error(`Failed to start competition ${comp.id}:`, error);
       }
@@ -782,6 +800,8 @@ export class CompetitionService {
         await (this.competitionRepository as any).updateStatus?.(comp.id, 'COMPLETED') ||
         await this.competitionRepository.update(comp.id, { status: 'COMPLETED' });
         endedIds.push(comp.id);
+        await this.notifyEntrants(comp, 'COMPETITION_ENDED');
+        await this.dispatchCompleted(comp);
       } catch (error) {
         console.error(`Failed to end competition ${comp.id}:`, error);
       }
@@ -792,4 +812,64 @@ export class CompetitionService {
       ended: endedIds.length
     };
   }
-}
\ No newline at end of file
+
+  // Tells every entrant a competition started or ended; final ranks are set by updateScores first
+  private async notifyEntrants(
+    competition: Competition,
+    type: 'COMPETITION_STARTED' | 'COMPETITION_ENDED'
+  ): Promise<void> {
+    if (!this.notificationService) return;
+
+    try {
+      const entries = await this.entryRepository.findByCompetitionId(competition.id);
+
+      for (const entry of entries) {
+        const body = type === 'COMPETITION_STARTED'
+          ? `${competition.name} has started. Good luck!`
+          : entry.rank
+            ? `${competition.name} has ended. You finished #${entry.rank} of ${entries.length}.`
+            : `${competition.name} has ended. Check the final standings.`;
+
+        await this.notificationService.notify(entry.userId, {
+          type,
+          title: type === 'COMPETITION_STARTED' ? 'Competition started' : 'Competition ended',
+          body,
+          data: { competitionId: competition.id }
+        });
+      }
+    } catch (error) {
+      // The status change already happened; a failed notification must not undo it
+      console.error(`Failed to notify entrants of competition ${competition.id}:`, error);
+    }
+  }
+
+  // Sends the final standings to the group's webhooks and the entrants' own
+  private async dispatchCompleted(competition: Competition): Promise<void> {
+    if (!this.webhookService) return;
+
+    try {
+      const entries = await this.entryRepository.findByCompetitionId(competition.id);
+
+      await this.webhookService.dispatch(
+        'competition.completed',
+        {
+          competitionId: competition.id,
+          groupId: competition.groupId,
+          name: competition.name,
+          type: competition.type,
+          startDate: competition.startDate,
+          endDate: competition.endDate,
+          standings: entries.map(entry => ({
+            userId: entry.userId,
+            rank: entry.rank,
+            roi: entry.roi === null ? null : Number(entry.roi),
+            totalTrades: entry.totalTrades
+          }))
+        },
+        { userIds: entries.map(entry => entry.userId), groupId: competition.groupId }
+      );
+    } catch (error) {
+      console.error(`Failed to dispatch webhooks for competition ${competition.id}:`, error);
+    }
+  }
+}
@@ -1,11 +1,14 @@
-import type { CompetitionEntry, Trade } from '@prisma/client';
+import type { Competition, CompetitionEntry } from '@prisma/client';
+import type { CompetitionAccount, PaperPositionWithDetails, ServiceResult } from '@golden-palace/shared';
 import { CompetitionEntryRepository } from '../repositories/competitionEntry.repository';
-import { TradeRepository } from '../repositories/trade.repository';
+import { CompetitionRepository } from '../repositories/competition.repository';
+import { PaperPositionRepository, type CreatePaperPositionData } from '../repositories/paperPosition.repository';
 
 export class CompetitionEntryService {
   constructor(
     private entryRepository: CompetitionEntryRepository,
-    private tradeRepository: TradeRepository
+    private paperPositionRepository: PaperPositionRepository,
+    private competitionRepository: CompetitionRepository
   ) {}
 
   async createEntry(data: {
@@ -37,60 +40,105 @@ export class CompetitionEntryService {
     } as any);
   }
 
-  async updateEntryStats(
-    entryId: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<CompetitionEntry> {
+  /**
+   * Recomputes an entry's balance, trade counts and ROI from the positions opened in its
+   * competition account. Trades in the user's own account never count.
+   */
+  async updateEntryStats(entryId: string): Promise<CompetitionEntry> {
     const entry = await this.entryRepository.findById(entryId);
 
     if (!entry) {
       throw new Error('Competition entry not found');
     }
 
-    const trades = await this.tradeRepository.findByUserAndDateRange(
-      entry.userId,
-      startDate,
-      endDate
-    );
+    const account = await this.getAccount(entry);
+    return this.saveAccountStats(entry.id, account);
+  }
 
-    if (trades.length === 0) {
-      return this.entryRepository.updateStats(entryId, {
-        totalPnl: 0,
-        totalRoi: 0,
-        winRate: 0,
-        totalTrades: 0,
-        bestTrade: null,
-        worstTrade: null,
-        currentStreak: 0,
-        maxStreak: 0,
-        averagePnl: 0,
-        consistency: 0,
-        lastUpdated: new Date()
-      });
+  async getAccount(entry: CompetitionEntry): Promise<CompetitionAccount> {
+    const positions = await this.paperPositionRepository.findByCompetitionEntry(entry.id);
+    return this.summarizeAccount(entry, positions);
+  }
+
+  async getUserAccount(competitionId: string, userId: string): Promise<CompetitionAccount> {
+    const entry = await this.entryRepository.findByCompetitionAndUser(competitionId, userId);
+
+    if (!entry) {
+      throw new Error('Competition entry not found');
     }
 
-    const stats = await this.tradeRepository.calculateStats(trades);
-    const bestTrade = await this.tradeRepository.getBestTrade(trades);
-    const worstTrade = await this.tradeRepository.getWorstTrade(trades);
-    const consistency = await this.tradeRepository.calculateConsistency(trades);
-    const streaks = await this.tradeRepository.getWinningStreak(trades);
-
-    return this.entryRepository.updateStats(entryId, {
-      totalPnl: stats.totalPnl,
-      totalRoi: stats.totalRoi,
-      winRate: stats.winRate,
-      totalTrades: stats.totalTrades,
-      bestTrade,
-      worstTrade,
-      currentStreak: streaks.current,
-      maxStreak: streaks.max,
-      averagePnl: stats.averagePnl,
-      consistency,
-      lastUpdated: new Date()
+    return this.getAccount(entry);
+  }
+
+  /**
+   * Opens a position in the user's account for the competition, provided they joined it, it
+   * is running, the position is in the competition's group and the account has the cash. The
+   * balance check and the insert run under a lock on the entry, so concurrent opens cannot
+   * spend the same cash twice.
+   */
+  async openPosition(
+    competitionId: string,
+    data: CreatePaperPositionData
+  ): Promise<ServiceResult<PaperPositionWithDetails>> {
+    const competition = await this.competitionRepository.findById(competitionId);
+    if (!competition) {
+      return { success: false, error: 'Competition not found' };
+    }
+
+    if (competition.groupId !== data.groupId) {
+      return { success: false, error: 'Competition positions must be opened in the competition group' };
+    }
+
+    const now = new Date();
+    if (competition.status !== 'ACTIVE' || now < competition.startDate || now > competition.endDate) {
+      return { success: false, error: 'Competition is not running' };
+    }
+
+    const entry = await this.entryRepository.findByCompetitionAndUser(competitionId, data.userId);
+    if (!entry) {
+      return { success: false, error: 'You have not joined this competition' };
+    }
+
+    return this.paperPositionRepository.withCompetitionEntryLock(entry.id, async positions => {
+      const account = this.summarizeAccount(entry, await positions.findByCompetitionEntry(entry.id));
+      if (data.quantity * data.entryPrice > account.cashBalance) {
+        return { success: false, error: 'Insufficient competition balance' };
+      }
+
+      const position = await positions.create({ ...data, competitionEntryId: entry.id });
+      return { success: true, data: position };
     });
   }
 
+  /**
+   * Refreshes every entry's stats from its own positions, then ranks the entries that made the
+   * competition's minimum number of closed trades. Returns how many entries were ranked.
+   */
+  async scoreCompetition(competition: Competition): Promise<number> {
+    const entries = await this.entryRepository.findByCompetitionId(competition.id);
+    const accounts: CompetitionAccount[] = [];
+
+    for (const entry of entries) {
+      const account = await this.getAccount(entry);
+      await this.saveAccountStats(entry.id, account);
+      accounts.push(account);
+    }
+
+    const ranked = accounts
+      .filter(account => account.closedPositions >= competition.minTrades)
+      .sort((a, b) => this.score(b, competition.type) - this.score(a, competition.type));
+    const ranks = new Map(ranked.map((account, index) => [account.entryId, index + 1]));
+
+    for (const entry of entries) {
+      const rank = ranks.get(entry.id) ?? null;
+      if (rank !== entry.rank) {
+        await this.entryRepository.update(entry.id, { rank });
+      }
+    }
+
+    return ranked.length;
+  }
+
   async getEntryPerformance(entryId: string): Promise<{
     entry: CompetitionEntry;
     performance: {
@@ -214,11 +262,7 @@ export class CompetitionEntryService {
     return { entry, history, trends };
   }
 
-  async bulkUpdateStats(
-    competitionId: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<{
+  async bulkUpdateStats(competitionId: string): Promise<{
     updated: number;
     failed: number;
     errors?: any[];
@@ -230,23 +274,7 @@ export class CompetitionEntryService {
 
     for (const entry of entries) {
       try {
-        const trades = await this.tradeRepository.findByUserAndDateRange(
-          entry.userId,
-          startDate,
-          endDate
-        );
-
-        if (trades.length > 0) {
-          const stats = await this.tradeRepository.calculateStats(trades);
-          await this.entryRepository.updateStats(entry.id, {
-            totalPnl: stats.totalPnl,
-            totalRoi: stats.totalRoi,
-            winRate: stats.winRate,
-            totalTrades: stats.totalTrades,
-            lastUpdated: new Date()
-          });
-        }
-
+        await this.saveAccountStats(entry.id, await this.getAccount(entry));
         updated++;
       } catch (error) {
         failed++;
@@ -303,4 +331,57 @@ export class CompetitionEntryService {
   ): Promise<CompetitionEntry[]> {
     return (this.entryRepository as any).getTopPerformers(competitionId, limit);
   }
-}
\ No newline at end of file
+
+  private saveAccountStats(entryId: string, account: CompetitionAccount): Promise<CompetitionEntry> {
+    return this.entryRepository.update(entryId, {
+      currentBalance: account.equity,
+      totalTrades: account.closedPositions,
+      winningTrades: account.winningTrades,
+      roi: account.roi
+    });
+  }
+
+  private summarizeAccount(entry: CompetitionEntry, positions: PaperPositionWithDetails[]): CompetitionAccount {
+    const startingBalance = Number(entry.startingBalance);
+    const open = positions.filter(position => position.status === 'OPEN');
+    const closed = positions.filter(position => position.status !== 'OPEN');
+
+    const realizedPnl = closed.reduce((sum, position) => sum + (position.pnl ?? 0), 0);
+    const unrealizedPnl = open.reduce((sum, position) => sum + (position.pnl ?? 0), 0);
+    const openCost = open.reduce((sum, position) => sum + position.quantity * position.entryPrice, 0);
+    const equity = startingBalance + realizedPnl + unrealizedPnl;
+
+    return {
+      entryId: entry.id,
+      competitionId: entry.competitionId,
+      startingBalance,
+      cashBalance: this.round(startingBalance + realizedPnl - openCost),
+      equity: this.round(equity),
+      realizedPnl: this.round(realizedPnl),
+      unrealizedPnl: this.round(unrealizedPnl),
+      openPositions: open.length,
+      closedPositions: closed.length,
+      winningTrades: closed.filter(position => (position.pnl ?? 0) > 0).length,
+      bestTrade: closed.length > 0 ? Math.max(...closed.map(position => position.pnl ?? 0)) : null,
+      roi: startingBalance > 0 ? this.round(((equity - startingBalance) / startingBalance) * 100) : 0
+    };
+  }
+
+  // Higher is better for every competition type
+  private score(account: CompetitionAccount, type: string): number {
+    switch (type) {
+      case 'WEEKLY_PNL':
+        return account.equity - account.startingBalance;
+      case 'BEST_TRADE':
+        return account.bestTrade ?? Number.NEGATIVE_INFINITY;
+      case 'CONSISTENCY':
+        return account.closedPositions > 0 ? account.winningTrades / account.closedPositions : 0;
+      default:
+        return account.roi;
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
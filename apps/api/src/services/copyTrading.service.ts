@@ -0,0 +1,246 @@
+import type {
+  PaperPositionWithDetails,
+  ServiceResult,
+  CopySettings,
+  CopyTradeOutcome,
+  CopyTradingPerformance,
+  TraderCopyPerformance
+} from '@golden-palace/shared';
+import { DEFAULTS, DEFAULT_COPY_SETTINGS } from '@golden-palace/shared';
+import { PaperPositionRepository } from '../repositories/paperPosition.repository';
+import { SocialTradingRepository, type FollowRecord } from '../repositories/socialTrading.repository';
+import { GroupRepository } from '../repositories/group.repository';
+
+const COPY_CLOSE_REASON = 'Copied trader closed position';
+
+export class CopyTradingService {
+  constructor(
+    private socialTradingRepository: SocialTradingRepository,
+    private paperPositionRepository: PaperPositionRepository,
+    private groupRepository: GroupRepository
+  ) {}
+
+  /**
+   * Opens a proportional copy of a leader's new position for every active follower.
+   * Each follower is sized against their own equity, so one follower's failure never blocks another.
+   */
+  async mirrorOpen(leaderPosition: PaperPositionWithDetails): Promise<ServiceResult<CopyTradeOutcome>> {
+    const outcome: CopyTradeOutcome = { leaderPositionId: leaderPosition.id, copied: 0, skipped: [] };
+
+    try {
+      // Copies are never re-copied, which also prevents loops between traders who follow each other
+      if (leaderPosition.copiedFromPositionId) {
+        return { success: true, data: outcome };
+      }
+
+      const follows = await this.socialTradingRepository.findActiveFollows(leaderPosition.userId);
+      if (follows.length === 0) {
+        return { success: true, data: outcome };
+      }
+
+      const leaderEquity = await this.getEquity(leaderPosition.userId);
+      const leaderNotional = leaderPosition.quantity * leaderPosition.entryPrice;
+      const leaderWeight = leaderEquity > 0 ? Math.min(1, leaderNotional / leaderEquity) : 0;
+
+      for (const follow of follows) {
+        try {
+          const skipReason = await this.copyToFollower(follow, leaderPosition, leaderWeight);
+          if (skipReason) {
+            outcome.skipped.push({ followerId: follow.followerId, reason: skipReason });
+          } else {
+            outcome.copied++;
+          }
+        } catch (error) {
+          console.error(`[CopyTrading] Failed to copy position ${leaderPosition.id} for ${follow.followerId}:`, error);
+          outcome.skipped.push({ followerId: follow.followerId, reason: 'Copy failed' });
+        }
+      }
+
+      return { success: true, data: outcome };
+    } catch (error) {
+      return { success: false, error: 'Failed to mirror position' };
+    }
+  }
+
+  /**
+   * Closes every open copy of a leader position at the leader's exit price.
+   * Copies already closed by their own stop-loss or take-profit are left alone.
+   */
+  async mirrorClose(leaderPosition: PaperPositionWithDetails): Promise<ServiceResult<number>> {
+    try {
+      const closePrice = leaderPosition.closedPrice ?? leaderPosition.currentPrice;
+      if (!closePrice) {
+        return { success: false, error: 'Leader position has no exit price' };
+      }
+
+      const copies = await this.paperPositionRepository.findOpenCopies(leaderPosition.id);
+      let closed = 0;
+
+      for (const copy of copies) {
+        try {
+          await this.paperPositionRepository.close(copy.id, closePrice, COPY_CLOSE_REASON);
+          closed++;
+        } catch (error) {
+          console.error(`[CopyTrading] Failed to close copied position ${copy.id}:`, error);
+        }
+      }
+
+      return { success: true, data: closed };
+    } catch (error) {
+      return { success: false, error: 'Failed to mirror position close' };
+    }
+  }
+
+  async getPerformance(userId: string, traderId?: string): Promise<ServiceResult<CopyTradingPerformance>> {
+    try {
+      const positions = await this.paperPositionRepository.findCopiedPositions(userId, traderId);
+
+      const byTrader = new Map<string, typeof positions>();
+      for (const position of positions) {
+        const list = byTrader.get(position.traderId) ?? [];
+        list.push(position);
+        byTrader.set(position.traderId, list);
+      }
+
+      const traderPerformance: TraderCopyPerformance[] = Array.from(byTrader.entries()).map(
+        ([id, traderPositions]) => ({
+          traderId: id,
+          traderName: traderPositions[0]!.traderName,
+          ...this.summarize(traderPositions),
+        })
+      );
+
+      const totals = this.summarize(positions);
+
+      return {
+        success: true,
+        data: {
+          totalReturn: totals.return,
+          totalPnl: totals.pnl,
+          totalTrades: totals.trades,
+          openTrades: totals.openTrades,
+          winRate: totals.winRate,
+          traderPerformance: traderPerformance.sort((a, b) => b.pnl - a.pnl),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get copy trading performance' };
+    }
+  }
+
+  /**
+   * Sizes and opens one follower's copy. Returns the reason when the copy is skipped.
+   */
+  private async copyToFollower(
+    follow: FollowRecord,
+    leaderPosition: PaperPositionWithDetails,
+    leaderWeight: number
+  ): Promise<string | null> {
+    const settings: CopySettings = { ...DEFAULT_COPY_SETTINGS, ...follow.copySettings };
+    const symbol = leaderPosition.symbol.toUpperCase();
+
+    if (settings.onlySymbols?.length && !settings.onlySymbols.some(s => s.toUpperCase() === symbol)) {
+      return 'Symbol not in copy list';
+    }
+    if (settings.excludeSymbols?.some(s => s.toUpperCase() === symbol)) {
+      return 'Symbol excluded';
+    }
+
+    if (await this.paperPositionRepository.hasCopy(follow.followerId, leaderPosition.id)) {
+      return 'Already copied';
+    }
+
+    if (settings.maxOpenPositions !== undefined) {
+      const openCopies = await this.paperPositionRepository.countOpenCopiesFromTrader(
+        follow.followerId,
+        leaderPosition.userId
+      );
+      if (openCopies >= settings.maxOpenPositions) {
+        return 'Max open copied positions reached';
+      }
+    }
+
+    const entryPrice = leaderPosition.entryPrice;
+    const stopLoss = settings.stopLoss !== undefined
+      ? entryPrice * (1 - settings.stopLoss)
+      : leaderPosition.stopLoss ?? undefined;
+    const takeProfit = settings.takeProfit !== undefined
+      ? entryPrice * (1 + settings.takeProfit)
+      : leaderPosition.takeProfit ?? undefined;
+
+    const equity = await this.getEquity(follow.followerId);
+    let notional = equity * settings.allocation * leaderWeight;
+
+    // Cap the amount at risk between entry and stop-loss to maxRiskPerTrade of equity
+    if (stopLoss !== undefined && stopLoss < entryPrice) {
+      const stopDistance = (entryPrice - stopLoss) / entryPrice;
+      notional = Math.min(notional, (equity * settings.maxRiskPerTrade) / stopDistance);
+    }
+
+    if (settings.maxTradeAmount !== undefined) {
+      notional = Math.min(notional, settings.maxTradeAmount);
+    }
+
+    if (notional <= 0 || notional < (settings.minTradeAmount ?? 0)) {
+      return 'Below minimum trade amount';
+    }
+
+    // Quantities are stored with four decimal places
+    const quantity = Math.floor((notional / entryPrice) * 10000) / 10000;
+    if (quantity <= 0) {
+      return 'Below minimum trade amount';
+    }
+
+    const groupId = await this.resolveGroupId(follow.followerId, leaderPosition.groupId);
+    if (!groupId) {
+      return 'Follower has no group to trade in';
+    }
+
+    await this.paperPositionRepository.create({
+      userId: follow.followerId,
+      groupId,
+      symbol,
+      assetType: leaderPosition.assetType,
+      quantity,
+      entryPrice,
+      currentPrice: leaderPosition.currentPrice ?? entryPrice,
+      ...(stopLoss !== undefined && { stopLoss }),
+      ...(takeProfit !== undefined && { takeProfit }),
+      copiedFromPositionId: leaderPosition.id,
+    });
+
+    return null;
+  }
+
+  /**
+   * Copies land in the leader's group when the follower belongs to it, otherwise in the follower's own group.
+   */
+  private async resolveGroupId(followerId: string, leaderGroupId: string): Promise<string | null> {
+    if (await this.groupRepository.isUserMember(leaderGroupId, followerId)) {
+      return leaderGroupId;
+    }
+
+    const groups = await this.groupRepository.findUserGroups(followerId, { limit: 1 });
+    return groups.data[0]?.id ?? null;
+  }
+
+  private async getEquity(userId: string): Promise<number> {
+    const realizedPnl = await this.paperPositionRepository.getRealizedPnl(userId);
+    return DEFAULTS.PAPER_ACCOUNT_BALANCE + realizedPnl;
+  }
+
+  private summarize(positions: Array<{ quantity: number; entryPrice: number; pnl: number | null; status: string }>) {
+    const closed = positions.filter(p => p.status !== 'OPEN');
+    const cost = closed.reduce((sum, p) => sum + p.quantity * p.entryPrice, 0);
+    const pnl = closed.reduce((sum, p) => sum + (p.pnl ?? 0), 0);
+    const wins = closed.filter(p => (p.pnl ?? 0) > 0).length;
+
+    return {
+      return: cost > 0 ? Math.round((pnl / cost) * 10000) / 100 : 0,
+      pnl: Math.round(pnl * 100) / 100,
+      trades: closed.length,
+      openTrades: positions.length - closed.length,
+      winRate: closed.length > 0 ? Math.round((wins / closed.length) * 10000) / 100 : 0,
+    };
+  }
+}
@@ -0,0 +1,556 @@
+import type {
+  ServiceResult,
+  PaperPositionWithDetails,
+  XPActionType,
+  XpAwardResult,
+  XpEventWithDetails,
+  XpHistoryQuery,
+  GamificationProfile,
+  GamificationLeaderboardEntry,
+  ChallengeType,
+  ChallengeProgress,
+  QuestType,
+  QuestProgress,
+  PrestigeResult
+} from '@golden-palace/shared';
+import {
+  XP_ACTIONS,
+  PRESTIGE_LEVEL,
+  ACHIEVEMENT_RARITY_XP,
+  calculateLevel,
+  getLevelProgress
+} from '@golden-palace/shared';
+import {
+  GamificationRepository,
+  type PeriodPositionRecord
+} from '../repositories/gamification.repository';
+import type { AchievementService } from './achievement.service';
+
+interface ChallengeDefinition {
+  type: ChallengeType;
+  name: string;
+  description: string;
+  target: number;
+  xpReward: number;
+  bonusReward?: ChallengeProgress['bonusReward'];
+}
+
+interface QuestDefinition {
+  type: QuestType;
+  name: string;
+  description: string;
+  stages: number[];
+  xpReward: number;
+}
+
+const DAILY_CHALLENGES: ChallengeDefinition[] = [
+  { type: 'EXECUTE_TRADES', name: 'Trade Master', description: 'Close 5 trades', target: 5, xpReward: 100 },
+  { type: 'PROFIT_TARGET', name: 'Profit Hunter', description: 'Realize $500 profit', target: 500, xpReward: 150 },
+  {
+    type: 'PROFIT_STREAK',
+    name: 'Consistency Key',
+    description: 'Close 3 profitable trades in a row',
+    target: 3,
+    xpReward: 200,
+    bonusReward: { type: 'BOOSTER', multiplier: 2, durationMinutes: 60 },
+  },
+];
+
+const WEEKLY_QUESTS: QuestDefinition[] = [
+  { type: 'PROFIT_MILESTONE', name: 'Profit Master', description: 'Reach profit milestones', stages: [1000, 5000, 10000], xpReward: 1000 },
+  { type: 'TRADE_VOLUME', name: 'Volume Trader', description: 'Trade high volumes', stages: [10000, 50000], xpReward: 800 },
+  { type: 'WIN_STREAK', name: 'Winning Streak', description: 'Consecutive winning trades', stages: [5, 10], xpReward: 750 },
+  { type: 'DIVERSIFY', name: 'Portfolio Diversifier', description: 'Trade multiple assets', stages: [5], xpReward: 600 },
+  { type: 'COMPETITION', name: 'Competitor', description: 'Participate in competitions', stages: [3], xpReward: 700 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HIGH_ROI_THRESHOLD = 0.15;
+const HIGH_ROI_BONUS_XP = 50;
+const PODIUM_BONUS_XP = 100;
+
+export class GamificationService {
+  constructor(
+    private gamificationRepository: GamificationRepository,
+    private achievementService?: AchievementService
+  ) {}
+
+  // ===================
+  // SERVER EVENTS
+  // ===================
+
+  /**
+   * Rewards a closed position and re-evaluates the owner's challenges and quests.
+   * Mirrored copy-trading positions earn nothing since the follower did not trade them.
+   */
+  async handleTradeClosed(position: PaperPositionWithDetails): Promise<ServiceResult<XpAwardResult[]>> {
+    try {
+      if (position.copiedFromPositionId || position.status === 'OPEN') {
+        return { success: true, data: [] };
+      }
+
+      const awards: XpAwardResult[] = [];
+      const closed = await this.grant(position.userId, 'TRADE_CLOSED', { sourceId: position.id });
+      if (closed) awards.push(closed);
+
+      const pnl = position.pnl ?? 0;
+      if (pnl > 0) {
+        const cost = position.quantity * position.entryPrice;
+        const roi = cost > 0 ? pnl / cost : 0;
+        const profitable = await this.grant(position.userId, 'PROFITABLE_TRADE', {
+          sourceId: position.id,
+          bonusXP: roi >= HIGH_ROI_THRESHOLD ? HIGH_ROI_BONUS_XP : 0,
+        });
+        if (profitable) awards.push(profitable);
+      }
+
+      awards.push(...(await this.evaluateProgress(position.userId)));
+      awards.push(...(await this.evaluateAchievements(position.userId)));
+
+      return { success: true, data: awards };
+    } catch (error) {
+      return { success: false, error: 'Failed to award trade XP' };
+    }
+  }
+
+  async handleTradeIdeaPosted(userId: string, tradeIdeaId: string): Promise<ServiceResult<XpAwardResult | null>> {
+    try {
+      const award = await this.grant(userId, 'TRADE_IDEA_POSTED', { sourceId: tradeIdeaId });
+      await this.evaluateAchievements(userId);
+      return { success: true, data: award };
+    } catch (error) {
+      return { success: false, error: 'Failed to award trade idea XP' };
+    }
+  }
+
+  /**
+   * Rewards every participant of a finished competition, with extra XP for the top ten and the podium.
+   */
+  async handleCompetitionCompleted(competitionId: string): Promise<ServiceResult<XpAwardResult[]>> {
+    try {
+      const entries = await this.gamificationRepository.findCompetitionRanks(competitionId);
+      const awards: XpAwardResult[] = [];
+
+      for (const entry of entries) {
+        const completed = await this.grant(entry.userId, 'COMPETITION_COMPLETED', { sourceId: competitionId });
+        if (completed) awards.push(completed);
+
+        if (entry.rank !== null && entry.rank <= 10) {
+          const placed = await this.grant(entry.userId, 'LEADERBOARD_TOP10', {
+            sourceId: competitionId,
+            bonusXP: entry.rank <= 3 ? PODIUM_BONUS_XP : 0,
+            metadata: { rank: entry.rank },
+          });
+          if (placed) awards.push(placed);
+        }
+
+        awards.push(...(await this.evaluateAchievements(entry.userId)));
+      }
+
+      return { success: true, data: awards };
+    } catch (error) {
+      return { success: false, error: 'Failed to award competition XP' };
+    }
+  }
+
+  /**
+   * Unlocks achievements earned from the user's stored data and rewards each new unlock by rarity.
+   */
+  async evaluateAchievements(userId: string): Promise<XpAwardResult[]> {
+    if (!this.achievementService) {
+      return [];
+    }
+
+    const result = await this.achievementService.evaluate(userId);
+    const awards: XpAwardResult[] = [];
+
+    for (const unlock of result.data ?? []) {
+      const award = await this.grant(userId, 'ACHIEVEMENT_UNLOCKED', {
+        sourceId: unlock.achievement.id,
+        baseXP: ACHIEVEMENT_RARITY_XP[unlock.achievement.rarity],
+      });
+      if (award) awards.push(award);
+    }
+
+    return awards;
+  }
+
+  /**
+   * Records the first check-in of a UTC day and extends or resets the login streak.
+   */
+  async recordDailyLogin(userId: string): Promise<ServiceResult<XpAwardResult | null>> {
+    try {
+      const today = this.startOfDay(new Date());
+      const progress = await this.gamificationRepository.findProgress(userId);
+      const lastLogin = progress?.lastLoginDate ? this.startOfDay(progress.lastLoginDate) : null;
+
+      if (lastLogin && lastLogin.getTime() === today.getTime()) {
+        return { success: true, data: null };
+      }
+
+      const streak = lastLogin && today.getTime() - lastLogin.getTime() === DAY_MS
+        ? (progress?.loginStreak ?? 0) + 1
+        : 1;
+
+      await this.gamificationRepository.updateProgress(userId, { loginStreak: streak, lastLoginDate: today });
+
+      const award = await this.grant(userId, 'DAILY_LOGIN', {
+        sourceId: this.dayKey(today),
+        multiplier: streak >= 3 ? Math.min(1 + (streak - 1) * 0.1, 2) : 1,
+        metadata: { streak },
+      });
+
+      return { success: true, data: award };
+    } catch (error) {
+      return { success: false, error: 'Failed to record daily login' };
+    }
+  }
+
+  // ===================
+  // PROGRESS
+  // ===================
+
+  async getProfile(userId: string): Promise<ServiceResult<GamificationProfile>> {
+    try {
+      const [progress, rank, boosters] = await Promise.all([
+        this.gamificationRepository.findProgress(userId),
+        this.gamificationRepository.getRank(userId),
+        this.gamificationRepository.findActiveBoosters(userId),
+      ]);
+
+      const totalXP = progress?.totalXp ?? 0;
+      const level = progress?.level ?? 1;
+
+      return {
+        success: true,
+        data: {
+          userId,
+          level,
+          totalXP,
+          prestigeLevel: progress?.prestigeLevel ?? 0,
+          loginStreak: progress?.loginStreak ?? 0,
+          levelProgress: getLevelProgress(totalXP),
+          rank,
+          canPrestige: level >= PRESTIGE_LEVEL,
+          boosters,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get gamification profile' };
+    }
+  }
+
+  async getXpHistory(userId: string, query: XpHistoryQuery): Promise<ServiceResult<XpEventWithDetails[]>> {
+    try {
+      const events = await this.gamificationRepository.findXpEvents(userId, query.limit, query.offset);
+      return { success: true, data: events };
+    } catch (error) {
+      return { success: false, error: 'Failed to get XP history' };
+    }
+  }
+
+  async getXpSources(userId: string): Promise<ServiceResult<Record<string, number>>> {
+    try {
+      const sources = await this.gamificationRepository.sumXpByAction(userId);
+      return { success: true, data: sources };
+    } catch (error) {
+      return { success: false, error: 'Failed to get XP sources' };
+    }
+  }
+
+  async prestige(userId: string): Promise<ServiceResult<PrestigeResult>> {
+    try {
+      const progress = await this.gamificationRepository.findProgress(userId);
+      if (!progress || progress.level < PRESTIGE_LEVEL) {
+        return { success: false, error: `Prestige unlocks at level ${PRESTIGE_LEVEL}` };
+      }
+
+      const prestigeLevel = progress.prestigeLevel + 1;
+
+      await this.gamificationRepository.recordXpEvent({
+        userId,
+        action: 'PRESTIGE',
+        xp: 0,
+        bonusXp: 0,
+        multiplier: 1,
+        sourceId: `prestige:${prestigeLevel}`,
+        metadata: { totalXpBeforePrestige: progress.totalXp },
+      });
+      await this.gamificationRepository.updateProgress(userId, { prestigeLevel, totalXp: 0, level: 1 });
+
+      return {
+        success: true,
+        data: {
+          prestigeLevel,
+          totalXPBeforePrestige: progress.totalXp,
+          xpMultiplier: this.getPrestigeMultiplier(prestigeLevel),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to prestige' };
+    }
+  }
+
+  async getLeaderboard(limit: number): Promise<ServiceResult<GamificationLeaderboardEntry[]>> {
+    try {
+      const leaderboard = await this.gamificationRepository.findLeaderboard(limit);
+      return { success: true, data: leaderboard };
+    } catch (error) {
+      return { success: false, error: 'Failed to get leaderboard' };
+    }
+  }
+
+  // ===================
+  // CHALLENGES AND QUESTS
+  // ===================
+
+  async getDailyChallenges(userId: string): Promise<ServiceResult<ChallengeProgress[]>> {
+    try {
+      await this.evaluateProgress(userId);
+      return { success: true, data: await this.buildChallenges(userId) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get daily challenges' };
+    }
+  }
+
+  async getWeeklyQuests(userId: string): Promise<ServiceResult<QuestProgress[]>> {
+    try {
+      await this.evaluateProgress(userId);
+      return { success: true, data: await this.buildQuests(userId) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get weekly quests' };
+    }
+  }
+
+  /**
+   * Rewards challenges and quests completed in the current period that were not rewarded yet.
+   * Progress is always derived from stored trades, so it cannot be reported by the client.
+   */
+  private async evaluateProgress(userId: string): Promise<XpAwardResult[]> {
+    const awards: XpAwardResult[] = [];
+
+    for (const challenge of await this.buildChallenges(userId)) {
+      if (!challenge.completed) continue;
+
+      const award = await this.grant(userId, 'CHALLENGE_COMPLETED', {
+        sourceId: challenge.id,
+        baseXP: challenge.xpReward,
+      });
+      if (!award) continue;
+
+      awards.push(award);
+      if (challenge.bonusReward) {
+        await this.gamificationRepository.createBooster(
+          userId,
+          challenge.bonusReward.multiplier,
+          challenge.type,
+          new Date(Date.now() + challenge.bonusReward.durationMinutes * 60 * 1000)
+        );
+      }
+    }
+
+    for (const quest of await this.buildQuests(userId)) {
+      if (!quest.completed) continue;
+
+      const award = await this.grant(userId, 'QUEST_COMPLETED', { sourceId: quest.id, baseXP: quest.xpReward });
+      if (award) awards.push(award);
+    }
+
+    return awards;
+  }
+
+  private async buildChallenges(userId: string): Promise<ChallengeProgress[]> {
+    const dayStart = this.startOfDay(new Date());
+    const positions = await this.gamificationRepository.findClosedPositionsSince(userId, dayStart);
+    const expiresAt = new Date(dayStart.getTime() + DAY_MS);
+
+    return DAILY_CHALLENGES.map(definition => {
+      const progress = Math.min(this.getChallengeValue(definition.type, positions), definition.target);
+
+      return {
+        id: `${definition.type}:${this.dayKey(dayStart)}`,
+        type: definition.type,
+        name: definition.name,
+        description: definition.description,
+        progress,
+        maxProgress: definition.target,
+        xpReward: definition.xpReward,
+        ...(definition.bonusReward && { bonusReward: definition.bonusReward }),
+        completed: progress >= definition.target,
+        expiresAt,
+      };
+    });
+  }
+
+  private async buildQuests(userId: string): Promise<QuestProgress[]> {
+    const weekStart = this.startOfWeek(new Date());
+    const [positions, competitions] = await Promise.all([
+      this.gamificationRepository.findClosedPositionsSince(userId, weekStart),
+      this.gamificationRepository.countCompetitionsSince(userId, weekStart),
+    ]);
+    const expiresAt = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+    return WEEKLY_QUESTS.map(definition => {
+      const value = definition.type === 'COMPETITION'
+        ? competitions
+        : this.getQuestValue(definition.type, positions);
+      const stages = definition.stages.map(target => ({
+        target,
+        progress: Math.min(value, target),
+        completed: value >= target,
+      }));
+      const stagesCompleted = stages.filter(stage => stage.completed).length;
+
+      return {
+        id: `${definition.type}:${this.dayKey(weekStart)}`,
+        type: definition.type,
+        name: definition.name,
+        description: definition.description,
+        stages,
+        stagesCompleted,
+        xpReward: definition.xpReward,
+        completed: stagesCompleted === stages.length,
+        expiresAt,
+      };
+    });
+  }
+
+  private getChallengeValue(type: ChallengeType, positions: PeriodPositionRecord[]): number {
+    switch (type) {
+      case 'EXECUTE_TRADES':
+        return positions.length;
+      case 'PROFIT_TARGET':
+        return Math.max(0, this.round(positions.reduce((sum, p) => sum + p.pnl, 0)));
+      case 'PROFIT_STREAK':
+        return this.longestWinStreak(positions);
+    }
+  }
+
+  private getQuestValue(type: QuestType, positions: PeriodPositionRecord[]): number {
+    switch (type) {
+      case 'PROFIT_MILESTONE':
+        return Math.max(0, this.round(positions.reduce((sum, p) => sum + p.pnl, 0)));
+      case 'TRADE_VOLUME':
+        return this.round(positions.reduce((sum, p) => sum + p.quantity * p.entryPrice, 0));
+      case 'WIN_STREAK':
+        return this.longestWinStreak(positions);
+      case 'DIVERSIFY':
+        return new Set(positions.map(p => p.symbol)).size;
+      default:
+        return 0;
+    }
+  }
+
+  // ===================
+  // XP AWARDS
+  // ===================
+
+  /**
+   * Applies multipliers and records an award. Returns null when the action's daily limit
+   * is reached or the source was already rewarded.
+   */
+  private async grant(
+    userId: string,
+    action: XPActionType,
+    options: {
+      sourceId?: string;
+      baseXP?: number;
+      bonusXP?: number;
+      multiplier?: number;
+      metadata?: Record<string, unknown>;
+    } = {}
+  ): Promise<XpAwardResult | null> {
+    const definition: { baseXP: number; dailyLimit?: number } = XP_ACTIONS[action];
+
+    if (definition.dailyLimit !== undefined) {
+      const awardedToday = await this.gamificationRepository.countXpEventsSince(
+        userId,
+        action,
+        this.startOfDay(new Date())
+      );
+      if (awardedToday >= definition.dailyLimit) {
+        return null;
+      }
+    }
+
+    const [progress, boosters] = await Promise.all([
+      this.gamificationRepository.findProgress(userId),
+      this.gamificationRepository.findActiveBoosters(userId),
+    ]);
+
+    const baseXP = options.baseXP ?? definition.baseXP;
+    const bonusXP = options.bonusXP ?? 0;
+    const totalMultiplier = this.round(
+      (options.multiplier ?? 1) *
+        this.getPrestigeMultiplier(progress?.prestigeLevel ?? 0) *
+        boosters.reduce((product, booster) => product * booster.multiplier, 1)
+    );
+    const xp = Math.round((baseXP + bonusXP) * totalMultiplier);
+
+    const recorded = await this.gamificationRepository.recordXpEvent({
+      userId,
+      action,
+      xp,
+      bonusXp: bonusXP,
+      multiplier: totalMultiplier,
+      ...(options.sourceId && { sourceId: options.sourceId }),
+      ...(options.metadata && { metadata: options.metadata }),
+    });
+    if (!recorded) {
+      return null;
+    }
+
+    const previousLevel = recorded.progress.level;
+    const level = calculateLevel(recorded.progress.totalXp);
+    if (level !== previousLevel) {
+      await this.gamificationRepository.updateProgress(userId, { level });
+    }
+
+    return {
+      id: recorded.event.id,
+      action,
+      xpAwarded: xp,
+      bonusXP,
+      totalMultiplier,
+      totalXP: recorded.progress.totalXp,
+      level,
+      leveledUp: level > previousLevel,
+      timestamp: recorded.event.timestamp,
+    };
+  }
+
+  private getPrestigeMultiplier(prestigeLevel: number): number {
+    return 1 + prestigeLevel * 0.1;
+  }
+
+  private longestWinStreak(positions: PeriodPositionRecord[]): number {
+    let longest = 0;
+    let current = 0;
+
+    for (const position of positions) {
+      current = position.pnl > 0 ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    }
+
+    return longest;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  // Weeks start on Monday (UTC)
+  private startOfWeek(date: Date): Date {
+    const dayStart = this.startOfDay(date);
+    const daysSinceMonday = (dayStart.getUTCDay() + 6) % 7;
+    return new Date(dayStart.getTime() - daysSinceMonday * DAY_MS);
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,5 +1,6 @@
 import { GroupRepository, type GroupWithDetails, type GroupMembershipWithUser } from '../repositories/group.repository';
 import { UserRepository } from '../repositories/user.repository';
+import type { NotificationService } from './notification.service';
 import type {
   CreateGroupInput,
   UpdateGroupInput,
@@ -12,7 +13,8 @@ import type {
 export class GroupService {
   constructor(
     private readonly groupRepository: GroupRepository,
-    private readonly userRepository: UserRepository
+    private readonly userRepository: UserRepository,
+    private readonly notificationService?: NotificationService
   ) {}
 
   async createGroup(
@@ -183,6 +185,13 @@ export class GroupService {
       // Add member
       const membership = await this.groupRepository.addMember(groupId, memberId, role);
 
+      await this.notificationService?.notify(memberId, {
+        type: 'GROUP_INVITE',
+        title: `You were added to ${group.name}`,
+        body: `You can now chat and share trade ideas in ${group.name}.`,
+        data: { groupId }
+      });
+
       return { success: true, data: membership };
     } catch (error) {
       return {
@@ -335,7 +344,9 @@ export class GroupService {
         ...member,
         user: {
           ...member.user,
-          passwordHash: undefined
+          passwordHash: undefined,
+          twoFactorSecret: undefined,
+          twoFactorRecoveryCodes: undefined
         }
       }));
 
@@ -1,62 +1,157 @@
-import { AlphaVantageClient } from './alphaVantageClient';
+import type { MarketQuote } from '@golden-palace/shared';
+import {
+  SyntheticMarketDataProvider,
+  createMarketDataProvider,
+  type DailyStats,
+  type MarketDataProvider,
+  type RateLimitInfo
+} from './marketDataProvider';
+
+/**
+ * Daily return statistics for a set of symbols over the dates they all have a price for.
+ * Matrices are indexed in the order of `symbols`; covariance is of daily returns.
+ */
+export interface ReturnStatistics {
+  symbols: string[];
+  observations: number;
+  returns: Record<string, number[]>;
+  correlation: number[][];
+  covariance: number[][];
+}
+
+/**
+ * Where a quoted price came from: the configured provider, or generated prices, either because
+ * synthetic data is configured or because the provider failed and the service fell back.
+ */
+export type QuoteSource = 'provider' | 'synthetic';
+
+/**
+ * A quote for the execution engine, tagged with the source of its price. Volume is 0 when the
+ * provider reports none; generated volumes are never used.
+ */
+export interface SourcedMarketQuote extends MarketQuote {
+  source: QuoteSource;
+}
+
+const toDateKey = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Turns price histories into daily returns over the dates every symbol has a price for,
+ * so the i-th return of each symbol covers the same day.
+ */
+export function alignDailyReturns(
+  histories: Record<string, Array<{ date: Date; price: number }>>
+): Record<string, number[]> {
+  return alignDailyReturnsByDate(histories).returns;
+}
+
+/**
+ * Same as `alignDailyReturns`, also returning the ISO date each return ends on.
+ */
+export function alignDailyReturnsByDate(
+  histories: Record<string, Array<{ date: Date; price: number }>>
+): { dates: string[]; returns: Record<string, number[]> } {
+  const symbols = Object.keys(histories);
+  const pricesBySymbol = new Map<string, Map<string, number>>();
+
+  for (const symbol of symbols) {
+    const prices = new Map<string, number>();
+    for (const point of histories[symbol] ?? []) {
+      if (point.price > 0) prices.set(toDateKey(point.date), point.price);
+    }
+    pricesBySymbol.set(symbol, prices);
+  }
+
+  const commonDates = [...(pricesBySymbol.get(symbols[0]!)?.keys() ?? [])]
+    .filter(date => symbols.every(symbol => pricesBySymbol.get(symbol)!.has(date)))
+    .sort();
+
+  const returns: Record<string, number[]> = {};
+  for (const symbol of symbols) {
+    const prices = pricesBySymbol.get(symbol)!;
+    returns[symbol] = [];
+    for (let i = 1; i < commonDates.length; i++) {
+      const previous = prices.get(commonDates[i - 1]!)!;
+      returns[symbol].push((prices.get(commonDates[i]!)! - previous) / previous);
+    }
+  }
+
+  return { dates: commonDates.slice(1), returns };
+}
+
+/**
+ * Sample covariance and Pearson correlation matrices of aligned return series. A symbol
+ * whose returns never move has no defined correlation, which is reported as 0.
+ */
+export function calculateReturnStatistics(returns: Record<string, number[]>): ReturnStatistics {
+  const symbols = Object.keys(returns);
+  const observations = symbols.length > 0 ? Math.min(...symbols.map(symbol => returns[symbol]!.length)) : 0;
+  const means = symbols.map(symbol =>
+    observations > 0 ? returns[symbol]!.slice(0, observations).reduce((a, b) => a + b, 0) / observations : 0
+  );
+
+  const covariance = symbols.map((first, i) =>
+    symbols.map((second, j) => {
+      if (observations < 2) return 0;
+      let sum = 0;
+      for (let k = 0; k < observations; k++) {
+        sum += (returns[first]![k]! - means[i]!) * (returns[second]![k]! - means[j]!);
+      }
+      return sum / (observations - 1);
+    })
+  );
+
+  const correlation = symbols.map((_, i) =>
+    symbols.map((_, j) => {
+      if (i === j) return 1;
+      const denominator = Math.sqrt(covariance[i]![i]! * covariance[j]![j]!);
+      return denominator > 0 ? covariance[i]![j]! / denominator : 0;
+    })
+  );
+
+  return { symbols, observations, returns, correlation, covariance };
+}
+
+// Repeatable stand-in for Math.random(): the same key always gives the same value in [0, 1)
+function seededUnit(key: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
 
 export class MarketDataService {
   private cache: Map<string, { data: any; expiry: number }> = new Map();
-  private alphaVantageClient: AlphaVantageClient;
+  private provider: MarketDataProvider;
+  // Serves prices when the default provider fails
+  private fallback: MarketDataProvider = new SyntheticMarketDataProvider();
   private isUsingRealData: boolean;
+  // Only the provider picked by default falls back; a chosen provider's failures reach the caller
+  private syntheticFallback: boolean;
 
-  constructor() {
-    const apiKey = process.env.ALPHA_VANTAGE_API_KEY || 'demo';
-    this.alphaVantageClient = new AlphaVantageClient(apiKey);
-    // Use real data if we have a valid API key (not demo) regardless of environment
-    this.isUsingRealData = apiKey !== 'demo';
+  constructor(provider?: MarketDataProvider) {
+    this.provider = provider ?? createMarketDataProvider();
+    this.isUsingRealData = this.provider.isLive;
+    this.syntheticFallback = !provider && !process.env['MARKET_DATA_PROVIDER']?.trim();
 
-    console.log('[MarketDataService] Initialized with',
-      this.isUsingRealData ? `real Alpha Vantage data (${apiKey.substring(0, 4)}***)` : 'synthetic data'
-    );
+    console.log(`[MarketDataService] Initialized with ${this.provider.name} market data`);
   }
 
-  async getCurrentPrice(symbol: string): Promise<number> {
-    const cached = this.getFromCache(`price:${symbol}`);
-    if (cached) return cached;
-
-    let currentPrice: number;
-
-    if (this.isUsingRealData) {
-      try {
-        // Use smart data fetching for better real-time accuracy
-        const smartData = await this.alphaVantageClient.getSmartPriceData(symbol, true);
-        currentPrice = smartData.currentPrice;
-
-        console.log(`[MarketDataService] Got ${smartData.isRealTime ? 'real-time' : 'daily'} price for ${symbol}: $${currentPrice}`);
-
-        // Cache real-time data for less time
-        const cacheTime = smartData.isRealTime ? 60 : 300; // 1 min for real-time, 5 min for daily
-        this.setCache(`price:${symbol}`, currentPrice, cacheTime);
-        return currentPrice;
-      } catch (error) {
-        console.warn(`[MarketDataService] Failed to get real data for ${symbol}, falling back to synthetic:`, error);
-      }
-    }
-
-    // Fallback to synthetic data
-    const basePrices: Record<string, number> = {
-      AAPL: 180,
-      GOOGL: 140,
-      MSFT: 380,
-      AMZN: 170,
-      TSLA: 250,
-      BTC: 45000,
-      ETH: 2500,
-      SPY: 450
-    };
-
-    const price = basePrices[symbol] || 100 + Math.random() * 200;
-    const variance = price * 0.002;
-    currentPrice = price + (Math.random() - 0.5) * variance;
+  /**
+   * Steps a replaying provider to its next trading day and drops cached figures from the
+   * previous one. Returns false when the provider does not replay or has no days left.
+   */
+  advance(): boolean {
+    if (!this.provider.advance?.()) return false;
+    this.cache.clear();
+    return true;
+  }
 
-    this.setCache(`price:${symbol}`, currentPrice, 60);
-    return currentPrice;
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const { price } = await this.getSourcedPrice(symbol);
+    return price;
   }
 
   async getBatchPrices(symbols: string[]): Promise<Record<string, number>> {
@@ -69,6 +164,33 @@ export class MarketDataService {
     return prices;
   }
 
+  /**
+   * A full quote for the execution engine: the current price with the day's range, volume and
+   * change from the previous close, or from the open when the provider has no previous close.
+   * Without provider stats the quote is flat at the current price with no volume.
+   */
+  async getQuote(symbol: string): Promise<SourcedMarketQuote> {
+    const { price, source } = await this.getSourcedPrice(symbol);
+    const stats = source === 'provider' ? await this.getProviderStats(symbol) : null;
+    const open = stats?.open ?? price;
+    const previousClose = stats?.previousClose ?? open;
+    const change = price - previousClose;
+
+    return {
+      symbol,
+      price,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      volume: stats?.volume ?? 0,
+      high: Math.max(stats?.high ?? price, price),
+      low: Math.min(stats?.low ?? price, price),
+      open,
+      previousClose,
+      timestamp: new Date(),
+      source
+    };
+  }
+
   async getHistoricalPrices(
     symbol: string,
     days: number
@@ -76,34 +198,19 @@ export class MarketDataService {
     const cached = this.getFromCache(`history:${symbol}:${days}`);
     if (cached) return cached;
 
-    let prices: Array<{ date: Date; price: number }>;
-
-    if (this.isUsingRealData) {
+    if (this.provider !== this.fallback) {
       try {
-        const realData = await this.alphaVantageClient.getHistoricalPrices(symbol, days);
-        prices = realData.map(item => ({ date: item.date, price: item.price }));
-        console.log(`[MarketDataService] Got real historical data for ${symbol}: ${prices.length} points`);
+        const prices = await this.provider.getHistoricalPrices(symbol, days);
+        console.log(`[MarketDataService] Got ${this.provider.name} historical data for ${symbol}: ${prices.length} points`);
         this.setCache(`history:${symbol}:${days}`, prices, 1800); // Cache for 30 minutes
         return prices;
       } catch (error) {
-        console.warn(`[MarketDataService] Failed to get real historical data for ${symbol}, falling back to synthetic:`, error);
+        if (!this.syntheticFallback) throw error;
+        console.warn(`[MarketDataService] Failed to get ${this.provider.name} historical data for ${symbol}, falling back to synthetic:`, error);
       }
     }
 
-    // Fallback to synthetic data
-    const currentPrice = await this.getCurrentPrice(symbol);
-    prices = [];
-    const volatility = 0.02;
-
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-
-      const randomReturn = (Math.random() - 0.5) * volatility;
-      const price = currentPrice * (1 + randomReturn * Math.sqrt(i));
-
-      prices.push({ date, price });
-    }
+    const prices = await this.fallback.getHistoricalPrices(symbol, days);
 
     this.setCache(`history:${symbol}:${days}`, prices, 300);
     return prices;
@@ -136,20 +243,34 @@ export class MarketDataService {
     return volatilities;
   }
 
-  async getCorrelations(symbols: string[]): Promise<Record<string, number>> {
+  async getCorrelations(symbols: string[], days: number = 90): Promise<Record<string, number>> {
+    const { correlation } = await this.getReturnStatistics(symbols, days);
     const correlations: Record<string, number> = {};
 
     for (let i = 0; i < symbols.length; i++) {
       for (let j = i + 1; j < symbols.length; j++) {
-        const corr = 0.3 + Math.random() * 0.5; // Realistic correlation range
-        correlations[`${symbols[i]}-${symbols[j]}`] = corr;
-        correlations[`${symbols[j]}-${symbols[i]}`] = corr;
+        correlations[`${symbols[i]}-${symbols[j]}`] = correlation[i]![j]!;
+        correlations[`${symbols[j]}-${symbols[i]}`] = correlation[i]![j]!;
       }
     }
 
     return correlations;
   }
 
+  /**
+   * Correlation and covariance of daily returns over the last `days` of price history.
+   */
+  async getReturnStatistics(symbols: string[], days: number = 90): Promise<ReturnStatistics> {
+    const unique = [...new Set(symbols)];
+    const histories: Record<string, Array<{ date: Date; price: number }>> = {};
+
+    for (const symbol of unique) {
+      histories[symbol] = await this.getHistoricalPrices(symbol, days);
+    }
+
+    return calculateReturnStatistics(alignDailyReturns(histories));
+  }
+
   async getBenchmarkReturns(benchmark: string = 'SPY'): Promise<number> {
     const history = await this.getHistoricalPrices(benchmark, 365);
     const startPrice = history[0].price;
@@ -179,7 +300,7 @@ export class MarketDataService {
     for (const symbol of symbolArray) {
       const baseVolume = baseVolumes[symbol] || 1000000;
       const variance = baseVolume * 0.2;
-      volumes[symbol] = baseVolume + (Math.random() - 0.5) * variance;
+      volumes[symbol] = baseVolume + (this.generated(`${symbol}:volume`) - 0.5) * variance;
     }
 
     return volumes;
@@ -191,26 +312,24 @@ export class MarketDataService {
     low: number;
     close: number;
     volume: number;
+    previousClose?: number | undefined;
     marketCap: number;
     peRatio: number;
     dividendYield: number;
   }> {
-    if (this.isUsingRealData) {
+    if (this.provider.getMarketStats) {
       try {
-        const realStats = await this.alphaVantageClient.getMarketStats(symbol);
-        console.log(`[MarketDataService] Got real market stats for ${symbol}`);
+        const stats = await this.provider.getMarketStats(symbol);
+        console.log(`[MarketDataService] Got ${this.provider.name} market stats for ${symbol}`);
         return {
-          open: realStats.open,
-          high: realStats.high,
-          low: realStats.low,
-          close: realStats.close,
-          volume: realStats.volume,
-          marketCap: realStats.close * realStats.volume * 100, // Estimate
-          peRatio: 15 + Math.random() * 20, // Not available in free Alpha Vantage
-          dividendYield: Math.random() * 4 // Not available in free Alpha Vantage
+          ...stats,
+          marketCap: stats.close * stats.volume * 100, // Estimate
+          peRatio: 15 + this.generated(`${symbol}:pe`) * 20, // Not available from any provider yet
+          dividendYield: this.generated(`${symbol}:dividend`) * 4 // Not available from any provider yet
         };
       } catch (error) {
-        console.warn(`[MarketDataService] Failed to get real market stats for ${symbol}, falling back to synthetic:`, error);
+        if (!this.syntheticFallback) throw error;
+        console.warn(`[MarketDataService] Failed to get ${this.provider.name} market stats for ${symbol}, falling back to synthetic:`, error);
       }
     }
 
@@ -219,14 +338,14 @@ export class MarketDataService {
     const volumes = await this.getVolume([symbol]);
 
     return {
-      open: currentPrice * (1 + (Math.random() - 0.5) * 0.02),
-      high: currentPrice * (1 + Math.random() * 0.03),
-      low: currentPrice * (1 - Math.random() * 0.03),
+      open: currentPrice * (1 + (this.generated(`${symbol}:open`) - 0.5) * 0.02),
+      high: currentPrice * (1 + this.generated(`${symbol}:high`) * 0.03),
+      low: currentPrice * (1 - this.generated(`${symbol}:low`) * 0.03),
       close: currentPrice,
       volume: volumes[symbol],
       marketCap: currentPrice * volumes[symbol] * 100,
-      peRatio: 15 + Math.random() * 20,
-      dividendYield: Math.random() * 4
+      peRatio: 15 + this.generated(`${symbol}:pe`) * 20,
+      dividendYield: this.generated(`${symbol}:dividend`) * 4
     };
   }
 
@@ -238,6 +357,54 @@ export class MarketDataService {
     return 0.10; // Historical S&P 500 average annual return
   }
 
+  private async getSourcedPrice(symbol: string): Promise<{ price: number; source: QuoteSource }> {
+    const cached = this.getFromCache(`price:${symbol}`);
+    if (cached) return cached;
+
+    if (this.provider !== this.fallback) {
+      try {
+        const quote = await this.provider.getCurrentPrice(symbol);
+
+        console.log(`[MarketDataService] Got ${quote.isRealTime ? 'real-time' : 'daily'} ${this.provider.name} price for ${symbol}: $${quote.price}`);
+
+        const sourced = {
+          price: quote.price,
+          source: this.provider instanceof SyntheticMarketDataProvider ? 'synthetic' as const : 'provider' as const
+        };
+        // Cache real-time data for less time
+        const cacheTime = quote.isRealTime ? 60 : 300; // 1 min for real-time, 5 min for daily
+        this.setCache(`price:${symbol}`, sourced, cacheTime);
+        return sourced;
+      } catch (error) {
+        if (!this.syntheticFallback) throw error;
+        console.warn(`[MarketDataService] Failed to get ${this.provider.name} price for ${symbol}, falling back to synthetic:`, error);
+      }
+    }
+
+    const { price } = await this.fallback.getCurrentPrice(symbol);
+    const sourced = { price, source: 'synthetic' as const };
+
+    this.setCache(`price:${symbol}`, sourced, 60);
+    return sourced;
+  }
+
+  // The provider's daily stats for quoting, cached so each tick costs one price request per symbol
+  private async getProviderStats(symbol: string): Promise<DailyStats | null> {
+    if (!this.provider.getMarketStats) return null;
+
+    const cached = this.getFromCache(`stats:${symbol}`);
+    if (cached) return cached;
+
+    try {
+      const stats = await this.provider.getMarketStats(symbol);
+      this.setCache(`stats:${symbol}`, stats, 300);
+      return stats;
+    } catch (error) {
+      console.warn(`[MarketDataService] Failed to get ${this.provider.name} market stats for ${symbol}, quoting without them:`, error);
+      return null;
+    }
+  }
+
   private getFromCache(key: string): any | null {
     const cached = this.cache.get(key);
     if (!cached) return null;
@@ -272,7 +439,7 @@ export class MarketDataService {
     return rates[`${from}-${to}`] || 1;
   }
 
-  // Enhanced methods using new Alpha Vantage capabilities
+  // Optional provider capabilities, with demo data when the provider lacks them
   async searchSymbol(keywords: string): Promise<Array<{
     symbol: string;
     name: string;
@@ -284,7 +451,7 @@ export class MarketDataService {
     currency: string;
     matchScore: number;
   }>> {
-    if (!this.isUsingRealData) {
+    if (!this.provider.searchSymbol) {
       // Return mock search results for demo mode
       const mockResults = [
         {
@@ -318,7 +485,7 @@ export class MarketDataService {
     }
 
     try {
-      return await this.alphaVantageClient.searchSymbol(keywords);
+      return await this.provider.searchSymbol(keywords);
     } catch (error) {
       console.error(`[MarketDataService] Symbol search failed for '${keywords}':`, error);
       return [];
@@ -351,7 +518,7 @@ export class MarketDataService {
     const cached = this.getFromCache('market:movers');
     if (cached) return cached;
 
-    if (!this.isUsingRealData) {
+    if (!this.provider.getMarketMovers) {
       // Return mock market movers for demo mode
       const mockMovers = {
         topGainers: [
@@ -373,7 +540,7 @@ export class MarketDataService {
     }
 
     try {
-      const movers = await this.alphaVantageClient.getMarketMovers();
+      const movers = await this.provider.getMarketMovers();
       this.setCache('market:movers', movers, 300); // Cache for 5 minutes
       return movers;
     } catch (error) {
@@ -409,7 +576,7 @@ export class MarketDataService {
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
 
-    if (!this.isUsingRealData) {
+    if (!this.provider.getNewsSentiment) {
       // Return mock news for demo mode
       const mockNews = {
         items: 2,
@@ -458,7 +625,7 @@ export class MarketDataService {
     }
 
     try {
-      const news = await this.alphaVantageClient.getNewsSentiment(tickers, topics, undefined, undefined, 'LATEST', limit);
+      const news = await this.provider.getNewsSentiment(tickers, topics, limit);
       const result = {
         items: news.items,
         feed: news.feed.map(item => ({
@@ -494,7 +661,7 @@ export class MarketDataService {
     const cached = this.getFromCache('market:status');
     if (cached) return cached;
 
-    if (!this.isUsingRealData) {
+    if (!this.provider.getMarketStatus) {
       // Return mock market status for demo mode
       const mockStatus = [
         {
@@ -513,7 +680,7 @@ export class MarketDataService {
     }
 
     try {
-      const status = await this.alphaVantageClient.getMarketStatus();
+      const status = await this.provider.getMarketStatus();
       this.setCache('market:status', status, 300); // Cache for 5 minutes
       return status;
     } catch (error) {
@@ -529,7 +696,7 @@ export class MarketDataService {
     const cached = this.getFromCache(`intraday:${symbol}:${interval}`);
     if (cached) return cached;
 
-    if (!this.isUsingRealData) {
+    if (!this.provider.getIntradayPrices) {
       // Generate synthetic intraday data
       const currentPrice = await this.getCurrentPrice(symbol);
       const data = [];
@@ -538,15 +705,16 @@ export class MarketDataService {
       for (let i = 60; i >= 0; i--) {
         const datetime = new Date(now.getTime() - i * 60000); // 1 minute intervals
         const variance = currentPrice * 0.001;
-        const price = currentPrice + (Math.random() - 0.5) * variance;
+        const key = `${symbol}:intraday:${i}`;
+        const price = currentPrice + (this.generated(`${key}:close`) - 0.5) * variance;
 
         data.push({
           datetime,
-          open: price * (1 + (Math.random() - 0.5) * 0.001),
-          high: price * (1 + Math.random() * 0.002),
-          low: price * (1 - Math.random() * 0.002),
+          open: price * (1 + (this.generated(`${key}:open`) - 0.5) * 0.001),
+          high: price * (1 + this.generated(`${key}:high`) * 0.002),
+          low: price * (1 - this.generated(`${key}:low`) * 0.002),
           close: price,
-          volume: Math.floor(100000 + Math.random() * 500000)
+          volume: Math.floor(100000 + this.generated(`${key}:volume`) * 500000)
         });
       }
 
@@ -555,7 +723,7 @@ export class MarketDataService {
     }
 
     try {
-      const data = await this.alphaVantageClient.getIntradayPrices(symbol, interval);
+      const data = await this.provider.getIntradayPrices(symbol, interval);
       this.setCache(`intraday:${symbol}:${interval}`, data, 60); // Cache for 1 minute
       return data;
     } catch (error) {
@@ -564,19 +732,28 @@ export class MarketDataService {
     }
   }
 
+  // Figures no provider supplies are random next to live prices, and repeatable for recorded or
+  // generated data so replayed runs see the same numbers every time
+  private generated(key: string): number {
+    return this.provider.isLive ? Math.random() : seededUnit(key);
+  }
+
   // Rate limiting and API status
   getApiStatus(): {
+    provider: string;
     isUsingRealData: boolean;
-    rateLimitInfo: {
-      requestCount: number;
-      lastRequestTime: number;
-      timeUntilNextRequest: number;
-      isDemoMode: boolean;
-    };
+    rateLimitInfo: RateLimitInfo;
   } {
     return {
+      provider: this.provider.name,
       isUsingRealData: this.isUsingRealData,
-      rateLimitInfo: this.alphaVantageClient.getRateLimitInfo()
+      // Only rate-limited providers report usage
+      rateLimitInfo: this.provider.getRateLimitInfo?.() ?? {
+        requestCount: 0,
+        lastRequestTime: 0,
+        timeUntilNextRequest: 0,
+        isDemoMode: !this.isUsingRealData
+      }
     };
   }
-}
\ No newline at end of file
+}
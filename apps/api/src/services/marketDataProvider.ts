@@ -0,0 +1,197 @@
+import { AlphaVantageClient } from './alphaVantageClient';
+import { ReplayMarketDataProvider } from './replayMarketDataProvider';
+
+export type IntradayInterval = '1min' | '5min' | '15min' | '30min' | '60min';
+
+export interface PriceQuote {
+  price: number;
+  // Real-time quotes go stale faster than end-of-day closes
+  isRealTime: boolean;
+}
+
+export interface PricePoint {
+  date: Date;
+  price: number;
+}
+
+export interface PriceBar {
+  datetime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface DailyStats {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  previousClose?: number | undefined;
+}
+
+export interface RateLimitInfo {
+  requestCount: number;
+  lastRequestTime: number;
+  timeUntilNextRequest: number;
+  isDemoMode: boolean;
+}
+
+/**
+ * A source of prices for `MarketDataService`. Prices and history are required; the rest is
+ * optional, and the service serves its built-in demo data for anything a provider leaves out.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  // Whether prices come from a live market rather than generated or recorded data
+  readonly isLive: boolean;
+
+  getCurrentPrice(symbol: string): Promise<PriceQuote>;
+  getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]>;
+  getMarketStats?(symbol: string): Promise<DailyStats>;
+  getIntradayPrices?(symbol: string, interval: IntradayInterval): Promise<PriceBar[]>;
+  searchSymbol?(keywords: string): ReturnType<AlphaVantageClient['searchSymbol']>;
+  getMarketMovers?(): ReturnType<AlphaVantageClient['getMarketMovers']>;
+  getNewsSentiment?(tickers: string[] | undefined, topics: string[] | undefined, limit: number): ReturnType<AlphaVantageClient['getNewsSentiment']>;
+  getMarketStatus?(): ReturnType<AlphaVantageClient['getMarketStatus']>;
+  getRateLimitInfo?(): RateLimitInfo;
+  // Recorded data steps to its next trading day; returns false once there is none
+  advance?(): boolean;
+}
+
+const SYNTHETIC_BASE_PRICES: Record<string, number> = {
+  AAPL: 180,
+  GOOGL: 140,
+  MSFT: 380,
+  AMZN: 170,
+  TSLA: 250,
+  BTC: 45000,
+  ETH: 2500,
+  SPY: 450
+};
+
+/**
+ * Random prices around a fixed base per symbol. Used when no real data source is configured
+ * and as the fallback when another provider fails.
+ */
+export class SyntheticMarketDataProvider implements MarketDataProvider {
+  readonly name = 'synthetic';
+  readonly isLive = false;
+
+  async getCurrentPrice(symbol: string): Promise<PriceQuote> {
+    const price = SYNTHETIC_BASE_PRICES[symbol] || 100 + Math.random() * 200;
+    const variance = price * 0.002;
+
+    return { price: price + (Math.random() - 0.5) * variance, isRealTime: false };
+  }
+
+  async getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]> {
+    const { price: currentPrice } = await this.getCurrentPrice(symbol);
+    const prices: PricePoint[] = [];
+    const volatility = 0.02;
+
+    for (let i = days; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+
+      const randomReturn = (Math.random() - 0.5) * volatility;
+      const price = currentPrice * (1 + randomReturn * Math.sqrt(i));
+
+      prices.push({ date, price });
+    }
+
+    return prices;
+  }
+}
+
+export class AlphaVantageMarketDataProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+  readonly isLive = true;
+  private client: AlphaVantageClient;
+
+  constructor(apiKey: string) {
+    this.client = new AlphaVantageClient(apiKey);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<PriceQuote> {
+    // Intraday prices while the market is open, the last close otherwise
+    const smartData = await this.client.getSmartPriceData(symbol, true);
+    return { price: smartData.currentPrice, isRealTime: smartData.isRealTime };
+  }
+
+  async getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]> {
+    const history = await this.client.getHistoricalPrices(symbol, days);
+    return history.map(item => ({ date: item.date, price: item.price }));
+  }
+
+  async getMarketStats(symbol: string): Promise<DailyStats> {
+    const { open, high, low, close, volume, change } = await this.client.getMarketStats(symbol);
+    return { open, high, low, close, volume, previousClose: close - change };
+  }
+
+  getIntradayPrices(symbol: string, interval: IntradayInterval): Promise<PriceBar[]> {
+    return this.client.getIntradayPrices(symbol, interval);
+  }
+
+  searchSymbol(keywords: string) {
+    return this.client.searchSymbol(keywords);
+  }
+
+  getMarketMovers() {
+    return this.client.getMarketMovers();
+  }
+
+  getNewsSentiment(tickers: string[] | undefined, topics: string[] | undefined, limit: number) {
+    return this.client.getNewsSentiment(tickers, topics, undefined, undefined, 'LATEST', limit);
+  }
+
+  getMarketStatus() {
+    return this.client.getMarketStatus();
+  }
+
+  getRateLimitInfo(): RateLimitInfo {
+    return this.client.getRateLimitInfo();
+  }
+}
+
+type MarketDataProviderFactory = (env: NodeJS.ProcessEnv) => MarketDataProvider;
+
+/**
+ * Providers selectable through `MARKET_DATA_PROVIDER`. New sources only need an entry here.
+ */
+export const MARKET_DATA_PROVIDERS: Record<string, MarketDataProviderFactory> = {
+  synthetic: () => new SyntheticMarketDataProvider(),
+  alphavantage: env => new AlphaVantageMarketDataProvider(env['ALPHA_VANTAGE_API_KEY'] || 'demo'),
+  replay: env => {
+    if (!env['MARKET_DATA_REPLAY_FILE']) {
+      throw new Error('MARKET_DATA_REPLAY_FILE is required for the replay market data provider');
+    }
+    return ReplayMarketDataProvider.fromFile(env['MARKET_DATA_REPLAY_FILE'], {
+      startDate: env['MARKET_DATA_REPLAY_START']
+    });
+  }
+};
+
+/**
+ * Builds the provider named by `MARKET_DATA_PROVIDER`. Without one, Alpha Vantage is used
+ * when a real API key is configured and synthetic prices otherwise.
+ */
+export function createMarketDataProvider(env: NodeJS.ProcessEnv = process.env): MarketDataProvider {
+  const configured = env['MARKET_DATA_PROVIDER']?.trim().toLowerCase();
+
+  if (!configured) {
+    const apiKey = env['ALPHA_VANTAGE_API_KEY'] || 'demo';
+    return apiKey !== 'demo' ? new AlphaVantageMarketDataProvider(apiKey) : new SyntheticMarketDataProvider();
+  }
+
+  const factory = MARKET_DATA_PROVIDERS[configured];
+  if (!factory) {
+    throw new Error(
+      `Unknown market data provider '${configured}'. Expected one of: ${Object.keys(MARKET_DATA_PROVIDERS).join(', ')}`
+    );
+  }
+
+  return factory(env);
+}
@@ -0,0 +1,141 @@
+import { PaperPositionRepository } from '../repositories/paperPosition.repository';
+import { AlertRepository } from '../repositories/alert.repository';
+import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
+import { OrderRepository } from '../repositories/order.repository';
+import { RiskLimitRepository } from '../repositories/riskLimit.repository';
+import { MarketDataService, type SourcedMarketQuote } from './marketData.service';
+import type { MarketUpdateResult, TradeExecutionService } from './tradeExecution.service';
+
+export interface MarketTickResult extends MarketUpdateResult {
+  symbols: number;
+  quoteFailures: number;
+  // Symbols only quoted from generated prices, which never execute anything
+  syntheticSkipped: number;
+  ranAt: Date;
+}
+
+/**
+ * Drives stop-loss, take-profit, order, alert and trade idea execution from server-side
+ * prices. Every tick quotes each symbol something is waiting on and feeds the quotes to
+ * `TradeExecutionService.processMarketUpdate`. Synthetic quotes are skipped unless
+ * `MARKET_DATA_PROVIDER=synthetic` asks for them, so nothing fills on made-up prices.
+ */
+export class MarketTickService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly intervalMs: number;
+  private readonly executeSynthetic: boolean;
+  // Ticks per replayed trading day; 0 keeps a replay on its starting day
+  private readonly replayStepTicks: number;
+  private ticks = 0;
+
+  constructor(
+    private marketDataService: MarketDataService,
+    private tradeExecutionService: TradeExecutionService,
+    private paperPositionRepository: PaperPositionRepository,
+    private alertRepository: AlertRepository,
+    private tradeIdeaRepository: TradeIdeaRepository,
+    private orderRepository: OrderRepository,
+    private riskLimitRepository: RiskLimitRepository,
+    private onQuotes?: (prices: Record<string, number>) => Promise<void>
+  ) {
+    this.intervalMs = parseInt(process.env['MARKET_TICK_INTERVAL_MS'] || '60000');
+    this.executeSynthetic = process.env['MARKET_DATA_PROVIDER']?.trim().toLowerCase() === 'synthetic';
+    this.replayStepTicks = parseInt(process.env['MARKET_DATA_REPLAY_STEP_TICKS'] || '1');
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('[MarketTick] Tick failed:', error));
+    }, this.intervalMs);
+
+    console.log(`[MarketTick] Quoting watched symbols every ${Math.round(this.intervalMs / 1000)} seconds`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs one tick. Returns null when the previous tick is still in flight, so slow quote
+   * sources never stack up overlapping runs. A replaying provider moves to its next trading
+   * day after every `MARKET_DATA_REPLAY_STEP_TICKS` ticks.
+   */
+  async tick(): Promise<MarketTickResult | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const ranAt = new Date();
+      const symbols = await this.getWatchedSymbols();
+      const quotes: SourcedMarketQuote[] = [];
+      let quoteFailures = 0;
+      let syntheticSkipped = 0;
+
+      for (const symbol of symbols) {
+        try {
+          const quote = await this.marketDataService.getQuote(symbol);
+          if (quote.source === 'synthetic' && !this.executeSynthetic) {
+            syntheticSkipped++;
+            continue;
+          }
+          quotes.push(quote);
+        } catch (error) {
+          quoteFailures++;
+          console.error(`[MarketTick] Failed to quote ${symbol}:`, error);
+        }
+      }
+
+      const result: MarketTickResult = {
+        symbols: symbols.length,
+        quoteFailures,
+        syntheticSkipped,
+        ranAt,
+        positionsUpdated: 0,
+        positionsClosed: 0,
+        alertsTriggered: 0,
+        tradesExecuted: 0,
+        ordersFilled: 0
+      };
+
+      if (quotes.length === 0) return result;
+
+      const update = await this.tradeExecutionService.processMarketUpdate(quotes);
+      if (!update.success) {
+        console.error('[MarketTick] Market update failed:', update.error);
+      } else {
+        Object.assign(result, update.data);
+      }
+
+      if (this.onQuotes) {
+        await this.onQuotes(Object.fromEntries(quotes.map(quote => [quote.symbol, quote.price])));
+      }
+
+      return result;
+    } finally {
+      this.ticks++;
+      if (this.replayStepTicks > 0 && this.ticks % this.replayStepTicks === 0) {
+        this.marketDataService.advance();
+      }
+      this.running = false;
+    }
+  }
+
+  // Symbols held in open positions, working orders or risk-limited portfolios, or watched by active alerts and ideas
+  private async getWatchedSymbols(): Promise<string[]> {
+    const [positions, orders, alerts, ideas, limited] = await Promise.all([
+      this.paperPositionRepository.findOpenSymbols(),
+      this.orderRepository.findOpenSymbols(),
+      this.alertRepository.findActiveSymbols(),
+      this.tradeIdeaRepository.findActiveSymbols(),
+      this.riskLimitRepository.findActiveSymbols()
+    ]);
+
+    return [...new Set([...positions, ...orders, ...alerts, ...ideas, ...limited].map(symbol => symbol.toUpperCase()))];
+  }
+}
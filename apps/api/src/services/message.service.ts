@@ -1,6 +1,7 @@
 import { MessageRepository, type MessageWithDetails } from '../repositories/message.repository';
 import { GroupRepository } from '../repositories/group.repository';
 import { UserRepository } from '../repositories/user.repository';
+import type { NotificationService } from './notification.service';
 import type {
   CreateMessageInput,
   UpdateMessageInput,
@@ -9,11 +10,16 @@ import type {
   ServiceResult
 } from '@golden-palace/shared';
 
+// Usernames are letters, numbers and underscores; one message notifies at most this many of them
+const MENTION_PATTERN = /(?:^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,50})/g;
+const MAX_MENTIONS_PER_MESSAGE = 10;
+
 export class MessageService {
   constructor(
     private readonly messageRepository: MessageRepository,
     private readonly groupRepository: GroupRepository,
-    private readonly userRepository: UserRepository
+    private readonly userRepository: UserRepository,
+    private readonly notificationService?: NotificationService
   ) {}
 
   async createMessage(
@@ -57,6 +63,10 @@ export class MessageService {
         replyToId: input.replyToId
       });
 
+      if (input.content) {
+        await this.notifyMentions(group.name, message, input.content);
+      }
+
       return { success: true, data: message };
     } catch (error) {
       return {
@@ -330,4 +340,27 @@ export class MessageService {
     const emojiRegex = /^[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F900}-\u{1F9FF}]|[\u{1F018}-\u{1F0FF}]|[\u{1F0A0}-\u{1F0FF}]|[👍👎❤️🔥💯]$/u;
     return emojiRegex.test(emoji) && emoji.length <= 10;
   }
-}
\ No newline at end of file
+
+  // Notifies group members named with @username, never the author
+  private async notifyMentions(groupName: string, message: MessageWithDetails, content: string): Promise<void> {
+    if (!this.notificationService) return;
+
+    const usernames = [...new Set([...content.matchAll(MENTION_PATTERN)].map(match => match[1]!))]
+      .slice(0, MAX_MENTIONS_PER_MESSAGE);
+
+    for (const username of usernames) {
+      const mentioned = await this.userRepository.findByUsername(username);
+      if (!mentioned || mentioned.id === message.userId) continue;
+
+      const isMember = await this.groupRepository.isUserMember(message.groupId, mentioned.id);
+      if (!isMember) continue;
+
+      await this.notificationService.notify(mentioned.id, {
+        type: 'MENTION',
+        title: `${message.user.username} mentioned you in ${groupName}`,
+        body: content.length > 200 ? `${content.slice(0, 197)}...` : content,
+        data: { groupId: message.groupId, messageId: message.id }
+      });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type GetNotificationsQuery,
+  type NotificationEvent,
+  type NotificationList,
+  type NotificationPreferences,
+  type NotificationType,
+  type ServiceResult,
+  type UpdateNotificationPreferencesInput,
+  type UserNotification
+} from '@golden-palace/shared';
+import { NotificationRepository } from '../repositories/notification.repository';
+import type { UserNotifier } from '../websocket/userNotifier';
+
+export interface NotifyInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown> | undefined;
+}
+
+export class NotificationService {
+  constructor(
+    private notificationRepository: NotificationRepository,
+    private notifier?: UserNotifier
+  ) {}
+
+  /**
+   * Stores a notification in the user's inbox and pushes it to their socket as
+   * `notification:new`. Types the user has switched off are dropped and yield null.
+   */
+  async notify(userId: string, input: NotifyInput): Promise<ServiceResult<UserNotification | null>> {
+    try {
+      const preferences = await this.loadPreferences(userId);
+      if (!preferences[input.type]) {
+        return { success: true, data: null };
+      }
+
+      const notification = await this.notificationRepository.create({ userId, ...input });
+      const unreadCount = await this.notificationRepository.countUnread(userId);
+
+      const event: NotificationEvent = { notification, unreadCount };
+      this.notifier?.emitToUser(userId, 'notification:new', event);
+
+      return { success: true, data: notification };
+    } catch (error) {
+      return { success: false, error: 'Failed to send notification' };
+    }
+  }
+
+  /**
+   * Sends the same notification to several users. Returns how many were delivered.
+   */
+  async notifyMany(userIds: string[], input: NotifyInput): Promise<ServiceResult<number>> {
+    let delivered = 0;
+
+    for (const userId of new Set(userIds)) {
+      const result = await this.notify(userId, input);
+      if (result.success && result.data) {
+        delivered++;
+      }
+    }
+
+    return { success: true, data: delivered };
+  }
+
+  async getNotifications(
+    userId: string,
+    query: GetNotificationsQuery
+  ): Promise<ServiceResult<NotificationList>> {
+    try {
+      const [{ notifications, total }, unreadCount] = await Promise.all([
+        this.notificationRepository.findByUserId(userId, query),
+        this.notificationRepository.countUnread(userId),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          notifications,
+          unreadCount,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            hasMore: query.page * query.limit < total,
+          },
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get notifications' };
+    }
+  }
+
+  // Marking is idempotent: notifications that are already read, or not the user's, are skipped
+  async markRead(userId: string, notificationIds: string[]): Promise<ServiceResult<{ marked: number; unreadCount: number }>> {
+    try {
+      const marked = await this.notificationRepository.markRead(userId, notificationIds);
+      const unreadCount = await this.notificationRepository.countUnread(userId);
+      return { success: true, data: { marked, unreadCount } };
+    } catch (error) {
+      return { success: false, error: 'Failed to mark notifications as read' };
+    }
+  }
+
+  async markAllRead(userId: string): Promise<ServiceResult<{ marked: number; unreadCount: number }>> {
+    try {
+      const marked = await this.notificationRepository.markRead(userId);
+      return { success: true, data: { marked, unreadCount: 0 } };
+    } catch (error) {
+      return { success: false, error: 'Failed to mark notifications as read' };
+    }
+  }
+
+  async getPreferences(userId: string): Promise<ServiceResult<NotificationPreferences>> {
+    try {
+      return { success: true, data: await this.loadPreferences(userId) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get notification preferences' };
+    }
+  }
+
+  async updatePreferences(
+    userId: string,
+    input: UpdateNotificationPreferencesInput
+  ): Promise<ServiceResult<NotificationPreferences>> {
+    try {
+      const settings = (await this.notificationRepository.getUserSettings(userId)) ?? {};
+      const preferences = this.mergePreferences(settings['notifications']);
+
+      for (const [type, enabled] of Object.entries(input) as Array<[NotificationType, boolean | undefined]>) {
+        if (enabled !== undefined) {
+          preferences[type] = enabled;
+        }
+      }
+
+      // Other keys in User.settings belong to other features and are kept as they are
+      await this.notificationRepository.updateUserSettings(userId, { ...settings, notifications: preferences });
+
+      return { success: true, data: preferences };
+    } catch (error) {
+      return { success: false, error: 'Failed to update notification preferences' };
+    }
+  }
+
+  private async loadPreferences(userId: string): Promise<NotificationPreferences> {
+    const settings = await this.notificationRepository.getUserSettings(userId);
+    return this.mergePreferences(settings?.['notifications']);
+  }
+
+  // Types added after a user saved their preferences fall back to the defaults
+  private mergePreferences(stored: unknown): NotificationPreferences {
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+
+    if (stored && typeof stored === 'object') {
+      for (const type of Object.keys(preferences) as NotificationType[]) {
+        const value = (stored as Record<string, unknown>)[type];
+        if (typeof value === 'boolean') {
+          preferences[type] = value;
+        }
+      }
+    }
+
+    return preferences;
+  }
+}
@@ -0,0 +1,316 @@
+import type {
+  CreateOrderInput,
+  GetOrdersQuery,
+  OrderWithDetails,
+  MarketQuote,
+  PaginatedResult,
+  PaperPositionWithDetails,
+  ServiceResult
+} from '@golden-palace/shared';
+import { OrderRepository, type FillRepositories } from '../repositories/order.repository';
+import { PaperPositionRepository } from '../repositories/paperPosition.repository';
+import { GroupRepository } from '../repositories/group.repository';
+import type { CopyTradingService } from './copyTrading.service';
+import type { GamificationService } from './gamification.service';
+import type { WebhookService } from './webhook.service';
+
+export interface OrderMatchResult {
+  ordersFilled: number;
+  ordersExpired: number;
+}
+
+interface AppliedFill {
+  quantity: number;
+  opened?: PaperPositionWithDetails;
+  closed?: PaperPositionWithDetails;
+  closedPart?: PaperPositionWithDetails;
+}
+
+// Share of a quote's reported volume one tick can fill across all orders; larger orders fill partially
+const MAX_VOLUME_PARTICIPATION = 0.01;
+const SELL_FILL_REASON = 'Sell order filled';
+
+export class OrderService {
+  constructor(
+    private orderRepository: OrderRepository,
+    private paperPositionRepository: PaperPositionRepository,
+    private groupRepository: GroupRepository,
+    private copyTradingService?: CopyTradingService,
+    private gamificationService?: GamificationService,
+    private webhookService?: WebhookService
+  ) {}
+
+  /**
+   * Places a working order. Every order type, including MARKET, fills against the next
+   * incoming quote for its symbol in processMarketUpdate.
+   */
+  async placeOrder(userId: string, input: CreateOrderInput): Promise<ServiceResult<OrderWithDetails>> {
+    try {
+      const isMember = await this.groupRepository.isUserMember(input.groupId, userId);
+      if (!isMember) {
+        return { success: false, error: 'You are not a member of this group' };
+      }
+
+      if (input.side === 'SELL') {
+        if (input.stopLoss !== undefined || input.takeProfit !== undefined) {
+          return { success: false, error: 'Stop loss and take profit only apply to buy orders' };
+        }
+
+        const position = await this.findOpenPosition(userId, input.groupId, input.symbol);
+        const reserved = await this.orderRepository.getReservedSellQuantity(userId, input.groupId, input.symbol);
+        if (!position || position.quantity - reserved < input.quantity) {
+          return { success: false, error: 'Insufficient position quantity to sell' };
+        }
+      }
+
+      const order = await this.orderRepository.create({
+        userId,
+        groupId: input.groupId,
+        symbol: input.symbol,
+        assetType: input.assetType,
+        side: input.side,
+        type: input.type,
+        quantity: input.quantity,
+        ...(input.price !== undefined && { price: input.price }),
+        ...(input.stopPrice !== undefined && { stopPrice: input.stopPrice }),
+        ...(input.stopLoss !== undefined && { stopLoss: input.stopLoss }),
+        ...(input.takeProfit !== undefined && { takeProfit: input.takeProfit }),
+        timeInForce: input.timeInForce,
+        expiresAt: input.timeInForce === 'DAY' ? this.endOfDay(new Date()) : null,
+      });
+
+      return { success: true, data: order };
+    } catch (error) {
+      return { success: false, error: 'Failed to place order' };
+    }
+  }
+
+  async getOrders(userId: string, query: GetOrdersQuery): Promise<ServiceResult<PaginatedResult<OrderWithDetails>>> {
+    try {
+      const orders = await this.orderRepository.findByUserId(userId, query);
+      return { success: true, data: orders };
+    } catch (error) {
+      return { success: false, error: 'Failed to get orders' };
+    }
+  }
+
+  async getOrder(userId: string, id: string): Promise<ServiceResult<OrderWithDetails>> {
+    try {
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      if (order.userId !== userId) {
+        return { success: false, error: 'Access denied' };
+      }
+
+      return { success: true, data: order };
+    } catch (error) {
+      return { success: false, error: 'Failed to get order' };
+    }
+  }
+
+  async cancelOrder(userId: string, id: string): Promise<ServiceResult<OrderWithDetails>> {
+    try {
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      if (order.userId !== userId) {
+        return { success: false, error: 'Only the order owner can cancel it' };
+      }
+
+      if (!this.isWorking(order)) {
+        return { success: false, error: 'Order is no longer open' };
+      }
+
+      const cancelled = await this.orderRepository.cancel(id, 'Cancelled by user');
+      return { success: true, data: cancelled };
+    } catch (error) {
+      return { success: false, error: 'Failed to cancel order' };
+    }
+  }
+
+  /**
+   * Expires stale DAY orders, then fills working orders whose price conditions are met by
+   * the quotes. Fills execute at the quote price, which is at or better than any limit.
+   */
+  async matchOrders(marketQuotes: MarketQuote[]): Promise<ServiceResult<OrderMatchResult>> {
+    try {
+      const ordersExpired = await this.orderRepository.expireOrders();
+
+      const quotes = new Map(marketQuotes.map(quote => [quote.symbol.toUpperCase(), quote]));
+      const liquidity = new Map(
+        marketQuotes.map(quote => [
+          quote.symbol.toUpperCase(),
+          quote.volume > 0 ? quote.volume * MAX_VOLUME_PARTICIPATION : Infinity,
+        ])
+      );
+      const orders = await this.orderRepository.findOpenOrders([...quotes.keys()]);
+      let ordersFilled = 0;
+
+      for (const order of orders) {
+        const quote = quotes.get(order.symbol);
+        if (!quote) continue;
+
+        try {
+          const fillPrice = await this.getFillPrice(order, quote.price);
+          if (fillPrice === null) continue;
+
+          const available = liquidity.get(order.symbol) ?? Infinity;
+          const quantity = this.floorQuantity(Math.min(order.quantity - order.filledQuantity, available));
+          if (quantity <= 0) continue;
+
+          const filled = await this.fill(order, quantity, fillPrice);
+          if (filled > 0) {
+            liquidity.set(order.symbol, available - filled);
+            ordersFilled++;
+          }
+        } catch (error) {
+          // A failing order stays working and must not stop the rest of the book from matching
+          console.error(`Failed to fill order ${order.id}:`, error);
+        }
+      }
+
+      return { success: true, data: { ordersFilled, ordersExpired } };
+    } catch (error) {
+      return { success: false, error: 'Failed to match orders' };
+    }
+  }
+
+  /**
+   * Applies a fill to the user's position: buys open or add to it, sells close it fully or
+   * split off the sold quantity. The position change and the order update share one
+   * transaction, and notifications go out only once it has committed. Returns the quantity
+   * actually filled.
+   */
+  private async fill(order: OrderWithDetails, quantity: number, price: number): Promise<number> {
+    const applied = await this.orderRepository.transaction(repositories =>
+      this.applyFill(repositories, order, quantity, price)
+    );
+
+    if (applied.opened) {
+      await this.copyTradingService?.mirrorOpen(applied.opened);
+    }
+    if (applied.closed) {
+      await this.copyTradingService?.mirrorClose(applied.closed);
+      await this.gamificationService?.handleTradeClosed(applied.closed);
+      await this.webhookService?.dispatchPositionClosed(applied.closed);
+    }
+    if (applied.closedPart) {
+      await this.gamificationService?.handleTradeClosed(applied.closedPart);
+    }
+
+    return applied.quantity;
+  }
+
+  private async applyFill(
+    { orders, positions }: FillRepositories,
+    order: OrderWithDetails,
+    quantity: number,
+    price: number
+  ): Promise<AppliedFill> {
+    const position = await this.findOpenPosition(order.userId, order.groupId, order.symbol, positions);
+
+    if (order.side === 'BUY') {
+      if (position) {
+        const increased = await positions.increasePosition(position.id, quantity, price);
+        await orders.recordFill(order, quantity, price, increased.id);
+        return { quantity };
+      }
+
+      const opened = await positions.create({
+        userId: order.userId,
+        groupId: order.groupId,
+        symbol: order.symbol,
+        assetType: order.assetType,
+        quantity,
+        entryPrice: price,
+        currentPrice: price,
+        ...(order.stopLoss !== null && { stopLoss: order.stopLoss }),
+        ...(order.takeProfit !== null && { takeProfit: order.takeProfit }),
+      });
+      await orders.recordFill(order, quantity, price, opened.id);
+      return { quantity, opened };
+    }
+
+    if (!position) {
+      await orders.cancel(order.id, 'Position is no longer open');
+      return { quantity: 0 };
+    }
+
+    const sellQuantity = Math.min(quantity, position.quantity);
+
+    if (sellQuantity < position.quantity) {
+      const closedPart = await positions.closePartial(position.id, sellQuantity, price, SELL_FILL_REASON);
+      await orders.recordFill(order, sellQuantity, price, position.id);
+      return { quantity: sellQuantity, closedPart };
+    }
+
+    const closed = await positions.close(position.id, price, SELL_FILL_REASON);
+    const updated = await orders.recordFill(order, sellQuantity, price, position.id);
+    if (this.isWorking(updated)) {
+      await orders.cancel(order.id, 'Position is no longer open');
+    }
+
+    return { quantity: sellQuantity, closed };
+  }
+
+  private async getFillPrice(order: OrderWithDetails, price: number): Promise<number | null> {
+    switch (order.type) {
+      case 'MARKET':
+        return price;
+      case 'LIMIT':
+        return this.reachesLimit(order, price) ? price : null;
+      case 'STOP_LOSS':
+        return this.reachesStop(order, price) ? price : null;
+      case 'STOP_LIMIT':
+        // Once the stop is reached the order keeps working as a limit order
+        if (!order.triggeredAt) {
+          if (!this.reachesStop(order, price)) return null;
+          await this.orderRepository.markTriggered(order.id);
+        }
+        return this.reachesLimit(order, price) ? price : null;
+      default:
+        return null;
+    }
+  }
+
+  private reachesLimit(order: OrderWithDetails, price: number): boolean {
+    if (order.price === null) return false;
+    return order.side === 'BUY' ? price <= order.price : price >= order.price;
+  }
+
+  private reachesStop(order: OrderWithDetails, price: number): boolean {
+    if (order.stopPrice === null) return false;
+    return order.side === 'BUY' ? price >= order.stopPrice : price <= order.stopPrice;
+  }
+
+  // Orders trade the user's own position; mirrored copies are managed by copy trading and
+  // competition positions stay in their entry's account
+  private async findOpenPosition(
+    userId: string,
+    groupId: string,
+    symbol: string,
+    paperPositionRepository: PaperPositionRepository = this.paperPositionRepository
+  ): Promise<PaperPositionWithDetails | undefined> {
+    const positions = await paperPositionRepository.getOpenPositions(userId, [symbol]);
+    return positions.find(
+      position => position.groupId === groupId && !position.copiedFromPositionId && !position.competitionEntryId
+    );
+  }
+
+  private isWorking(order: OrderWithDetails): boolean {
+    return order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED';
+  }
+
+  private endOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+  }
+
+  private floorQuantity(quantity: number): number {
+    return Math.floor(quantity * 10000) / 10000;
+  }
+}
@@ -7,15 +7,23 @@ import type {
   PaginatedResult,
   ServiceResult
 } from '@golden-palace/shared';
-import { PaperPositionRepository, type GetPositionsQuery } from '../repositories/paperPosition.repository';
+import { PaperPositionRepository, type CreatePaperPositionData, type GetPositionsQuery } from '../repositories/paperPosition.repository';
 import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
 import { GroupRepository } from '../repositories/group.repository';
+import type { CopyTradingService } from './copyTrading.service';
+import type { GamificationService } from './gamification.service';
+import type { WebhookService } from './webhook.service';
+import type { CompetitionEntryService } from './competitionEntry.service';
 
 export class PortfolioService {
   constructor(
     private paperPositionRepository: PaperPositionRepository,
     private tradeIdeaRepository: TradeIdeaRepository,
-    private groupRepository: GroupRepository
+    private groupRepository: GroupRepository,
+    private copyTradingService?: CopyTradingService,
+    private gamificationService?: GamificationService,
+    private webhookService?: WebhookService,
+    private competitionEntryService?: CompetitionEntryService
   ) {}
 
   async createPaperPosition(
@@ -47,19 +55,36 @@ export class PortfolioService {
         }
       }
 
-      // Create the position
-      const position = await this.paperPositionRepository.create({
+      const data: CreatePaperPositionData = {
         userId,
         groupId,
-        tradeIdeaId: input.tradeIdeaId,
+        ...(input.tradeIdeaId && { tradeIdeaId: input.tradeIdeaId }),
         symbol: input.symbol,
         assetType: input.assetType,
         quantity: input.quantity,
         entryPrice: input.entryPrice,
         currentPrice: input.entryPrice, // Start with entry price
-        stopLoss: input.stopLoss,
-        takeProfit: input.takeProfit,
-      });
+        ...(input.stopLoss !== undefined && { stopLoss: input.stopLoss }),
+        ...(input.takeProfit !== undefined && { takeProfit: input.takeProfit }),
+      };
+
+      // A competition position is paid for from the user's account for that competition and
+      // stays out of followers' accounts
+      if (input.competitionId) {
+        if (!this.competitionEntryService) {
+          return { success: false, error: 'Competition trading is not available' };
+        }
+        const opened = await this.competitionEntryService.openPosition(input.competitionId, data);
+        if (!opened.success || !opened.data) {
+          return { success: false, error: opened.error || 'Failed to open competition position' };
+        }
+        return opened;
+      }
+
+      const position = await this.paperPositionRepository.create(data);
+
+      // Mirror the new position to followers; copy failures never fail the leader's trade
+      await this.copyTradingService?.mirrorOpen(position);
 
       return { success: true, data: position };
     } catch (error) {
@@ -178,6 +203,10 @@ export class PortfolioService {
       }
 
       const closedPosition = await this.paperPositionRepository.close(id, closePrice, closeReason);
+      await this.copyTradingService?.mirrorClose(closedPosition);
+      await this.gamificationService?.handleTradeClosed(closedPosition);
+      await this.webhookService?.dispatchPositionClosed(closedPosition);
+
       return { success: true, data: closedPosition };
     } catch (error) {
       return { success: false, error: 'Failed to close position' };
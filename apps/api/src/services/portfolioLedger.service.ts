@@ -0,0 +1,614 @@
+import type {
+  CostBasisLot,
+  CostBasisMethod,
+  LedgerHolding,
+  PaginatedResult,
+  PortfolioLedger,
+  RecordTransactionInput,
+  ServiceResult,
+  Transaction,
+  TransactionQuery
+} from '@golden-palace/shared';
+import type { Portfolio, PortfolioAsset } from '@golden-palace/database';
+import { PortfolioRepository } from '../repositories/portfolio.repository';
+import { AssetRepository } from '../repositories/asset.repository';
+import {
+  PortfolioTransactionRepository,
+  type CreatePortfolioTransactionData,
+  type LedgerRepositories
+} from '../repositories/portfolioTransaction.repository';
+
+type LedgerEntry = Pick<Transaction, 'id' | 'type' | 'symbol' | 'quantity' | 'price' | 'fee' | 'executedAt'>;
+
+// How a new holding arrived: moved in from another account, or bought with the portfolio's cash
+export type HoldingSource = 'TRANSFER' | 'BUY';
+
+export interface AddHoldingInput {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  source: HoldingSource;
+}
+
+interface HoldingState {
+  lots: CostBasisLot[];
+  realizedPnl: number;
+  lastPrice: number;
+}
+
+export interface LedgerState {
+  cashBalance: number;
+  realizedPnl: number;
+  netContributions: number; // Opening balance plus deposits less withdrawals
+  holdings: Map<string, HoldingState>;
+  realizedByTransaction: Map<string, number>;
+}
+
+const EPSILON = 1e-8;
+
+/**
+ * Signed effect of a transaction on cash. For dividends with a quantity the price is
+ * per share; deposits, withdrawals and fees carry their amount in the price.
+ */
+export function cashEffect(entry: Pick<LedgerEntry, 'type' | 'quantity' | 'price' | 'fee'>): number {
+  const gross = entry.quantity !== undefined ? entry.quantity * entry.price : entry.price;
+
+  switch (entry.type) {
+    case 'BUY':
+      return -(gross + entry.fee);
+    case 'SELL':
+    case 'DIVIDEND':
+      return gross - entry.fee;
+    case 'DEPOSIT':
+      return entry.price - entry.fee;
+    case 'FEE':
+    case 'WITHDRAW':
+      return -(entry.price + entry.fee);
+  }
+}
+
+/**
+ * Rebuilds cash, holdings and realized P&L from the ledger, oldest transaction first.
+ * Fails on the first transaction that sells more than is held or overdraws cash, so a
+ * backdated entry cannot make later history impossible.
+ */
+export function replayLedger(
+  entries: LedgerEntry[],
+  method: CostBasisMethod,
+  openingBalance: number
+): ServiceResult<LedgerState> {
+  const state: LedgerState = {
+    cashBalance: openingBalance,
+    realizedPnl: 0,
+    netContributions: openingBalance,
+    holdings: new Map(),
+    realizedByTransaction: new Map()
+  };
+
+  for (const entry of entries) {
+    const symbol = entry.symbol?.toUpperCase();
+    const date = entry.executedAt.toISOString().slice(0, 10);
+
+    if (entry.type === 'BUY' && symbol && entry.quantity) {
+      const holding = getHolding(state, symbol);
+      const unitCost = (entry.quantity * entry.price + entry.fee) / entry.quantity;
+      addLot(holding, { quantity: entry.quantity, unitCost, acquiredAt: entry.executedAt }, method);
+      holding.lastPrice = entry.price;
+    }
+
+    if (entry.type === 'SELL' && symbol && entry.quantity) {
+      const holding = getHolding(state, symbol);
+      const held = holding.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      if (entry.quantity > held + EPSILON) {
+        return { success: false, error: `Cannot sell ${entry.quantity} ${symbol} on ${date}: only ${roundQuantity(held)} held` };
+      }
+
+      const cost = consumeLots(holding, entry.quantity, method);
+      const realized = entry.quantity * entry.price - entry.fee - cost;
+      holding.realizedPnl += realized;
+      holding.lastPrice = entry.price;
+      state.realizedPnl += realized;
+      state.realizedByTransaction.set(entry.id, realized);
+    }
+
+    if (entry.type === 'DEPOSIT') {
+      state.netContributions += entry.price;
+    }
+    if (entry.type === 'WITHDRAW') {
+      state.netContributions -= entry.price;
+    }
+
+    state.cashBalance += cashEffect(entry);
+    if (state.cashBalance < -0.005) {
+      return { success: false, error: `Insufficient cash for the ${entry.type.toLowerCase()} on ${date}` };
+    }
+  }
+
+  return { success: true, data: state };
+}
+
+function getHolding(state: LedgerState, symbol: string): HoldingState {
+  let holding = state.holdings.get(symbol);
+  if (!holding) {
+    holding = { lots: [], realizedPnl: 0, lastPrice: 0 };
+    state.holdings.set(symbol, holding);
+  }
+  return holding;
+}
+
+// Average cost keeps a single pooled lot; FIFO and LIFO keep every purchase separately
+function addLot(holding: HoldingState, lot: CostBasisLot, method: CostBasisMethod): void {
+  const pooled = holding.lots[0];
+  if (method === 'AVERAGE_COST' && pooled) {
+    const quantity = pooled.quantity + lot.quantity;
+    pooled.unitCost = (pooled.quantity * pooled.unitCost + lot.quantity * lot.unitCost) / quantity;
+    pooled.quantity = quantity;
+    return;
+  }
+
+  holding.lots.push(lot);
+}
+
+// Returns the cost basis of the quantity taken out of the lots
+function consumeLots(holding: HoldingState, quantity: number, method: CostBasisMethod): number {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > EPSILON && holding.lots.length > 0) {
+    const lot = method === 'LIFO' ? holding.lots[holding.lots.length - 1]! : holding.lots[0]!;
+    const taken = Math.min(lot.quantity, remaining);
+
+    cost += taken * lot.unitCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+
+    if (lot.quantity <= EPSILON) {
+      if (method === 'LIFO') {
+        holding.lots.pop();
+      } else {
+        holding.lots.shift();
+      }
+    }
+  }
+
+  return cost;
+}
+
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1e4) / 1e4;
+}
+
+function toLedgerHolding(symbol: string, holding: HoldingState): LedgerHolding {
+  const quantity = holding.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const totalCost = holding.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+
+  return {
+    symbol,
+    quantity: roundQuantity(quantity),
+    averageCost: quantity > EPSILON ? totalCost / quantity : 0,
+    totalCost,
+    realizedPnl: holding.realizedPnl,
+    lots: holding.lots.map(lot => ({ ...lot, quantity: roundQuantity(lot.quantity) }))
+  };
+}
+
+// Shares moved in from elsewhere: a deposit of their cost and a buy at that cost, so
+// cash is unchanged
+function transferIn(
+  portfolioId: string,
+  symbol: string,
+  quantity: number,
+  unitCost: number,
+  executedAt: Date
+): CreatePortfolioTransactionData[] {
+  const cost = quantity * unitCost;
+  const notes = `Transfer in of ${quantity} ${symbol}`;
+
+  return [
+    { portfolioId, type: 'DEPOSIT', price: cost, fee: 0, totalAmount: cost, currency: 'USD', executedAt, notes },
+    {
+      portfolioId,
+      type: 'BUY',
+      symbol,
+      quantity,
+      price: unitCost,
+      fee: 0,
+      totalAmount: -cost,
+      currency: 'USD',
+      executedAt,
+      notes
+    }
+  ];
+}
+
+/**
+ * Append-only transaction ledger per portfolio. Every write replays the whole ledger and
+ * writes the result back to the portfolio's assets, cash balance and realized P&L, so
+ * those columns are always a projection of the ledger rather than independent state.
+ */
+export class PortfolioLedgerService {
+  private repositories: LedgerRepositories;
+
+  constructor(
+    portfolioRepository: PortfolioRepository,
+    assetRepository: AssetRepository,
+    private transactionRepository: PortfolioTransactionRepository
+  ) {
+    this.repositories = { portfolios: portfolioRepository, assets: assetRepository, transactions: transactionRepository };
+  }
+
+  /**
+   * Validates and appends a transaction under the portfolio's lock, so concurrent writes
+   * cannot each pass validation against a history the other is about to change.
+   */
+  async recordTransaction(userId: string, input: RecordTransactionInput): Promise<ServiceResult<Transaction>> {
+    try {
+      return await this.transactionRepository.withPortfolioLock(input.portfolioId, async repositories => {
+        const access = await this.getOwnedPortfolio(userId, input.portfolioId, repositories);
+        if (!access.success || !access.data) {
+          return { success: false, error: access.error || 'Portfolio not found' };
+        }
+        const portfolio = access.data;
+        const symbol = input.symbol?.toUpperCase();
+
+        const entry: LedgerEntry = {
+          id: 'pending',
+          type: input.type,
+          ...(symbol && { symbol }),
+          ...(input.quantity !== undefined && { quantity: input.quantity }),
+          price: input.price,
+          fee: input.fee,
+          executedAt: input.executedAt
+        };
+
+        // A holding added before the ledger tracked its symbol joins the ledger first, so
+        // replaying this transaction cannot overwrite it
+        const adopted = symbol ? await this.adoptDirectHolding(repositories, portfolio.id, symbol) : [];
+        const appended = await this.append(repositories, portfolio, [
+          ...adopted,
+          {
+            portfolioId: portfolio.id,
+            type: input.type,
+            symbol: input.symbol ?? null,
+            quantity: input.quantity ?? null,
+            price: input.price,
+            fee: input.fee,
+            totalAmount: cashEffect(entry),
+            currency: input.currency,
+            executedAt: input.executedAt,
+            notes: input.notes ?? null
+          }
+        ]);
+        if (!appended.success || !appended.data) {
+          return { success: false, error: appended.error || 'Transaction is not consistent with the ledger' };
+        }
+
+        const transaction = appended.data[appended.data.length - 1]!;
+        const state = await this.rebuild(repositories, portfolio.id, portfolio.costBasisMethod);
+        const realizedPnl = state.realizedByTransaction.get(transaction.id);
+
+        return {
+          success: true,
+          data: { ...transaction, ...(realizedPnl !== undefined && { realizedPnl }) }
+        };
+      });
+    } catch (error) {
+      return { success: false, error: 'Failed to record transaction' };
+    }
+  }
+
+  async getTransactions(
+    userId: string,
+    portfolioId: string,
+    query: TransactionQuery
+  ): Promise<ServiceResult<PaginatedResult<Transaction>>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error || 'Portfolio not found' };
+      }
+
+      const [page, all] = await Promise.all([
+        this.transactionRepository.findByPortfolioId(portfolioId, query),
+        this.transactionRepository.findAllByPortfolioId(portfolioId)
+      ]);
+
+      // Realized P&L depends on everything before the sell, so it comes from a full replay
+      const replay = replayLedger(all, access.data.costBasisMethod, Number(access.data.initialBalance));
+      const realizedByTransaction = replay.data?.realizedByTransaction ?? new Map<string, number>();
+
+      return {
+        success: true,
+        data: {
+          ...page,
+          data: page.data.map(transaction => {
+            const realizedPnl = realizedByTransaction.get(transaction.id);
+            return { ...transaction, ...(realizedPnl !== undefined && { realizedPnl }) };
+          })
+        }
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get transactions' };
+    }
+  }
+
+  async getLedger(userId: string, portfolioId: string): Promise<ServiceResult<PortfolioLedger>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error || 'Portfolio not found' };
+      }
+
+      const transactions = await this.transactionRepository.findAllByPortfolioId(portfolioId);
+      const replay = replayLedger(transactions, access.data.costBasisMethod, Number(access.data.initialBalance));
+      if (!replay.success || !replay.data) {
+        return { success: false, error: replay.error || 'Ledger is inconsistent' };
+      }
+
+      return { success: true, data: this.toPortfolioLedger(access.data.costBasisMethod, replay.data) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get ledger' };
+    }
+  }
+
+  /**
+   * Switching method re-derives every lot and realized P&L figure from the same ledger.
+   */
+  async setCostBasisMethod(
+    userId: string,
+    portfolioId: string,
+    method: CostBasisMethod
+  ): Promise<ServiceResult<PortfolioLedger>> {
+    try {
+      return await this.transactionRepository.withPortfolioLock(portfolioId, async repositories => {
+        const access = await this.getOwnedPortfolio(userId, portfolioId, repositories);
+        if (!access.success || !access.data) {
+          return { success: false, error: access.error || 'Portfolio not found' };
+        }
+
+        await repositories.portfolios.update(portfolioId, { costBasisMethod: method });
+        const state = await this.rebuild(repositories, portfolioId, method);
+
+        return { success: true, data: this.toPortfolioLedger(method, state) };
+      });
+    } catch (error) {
+      return { success: false, error: 'Failed to change cost basis method' };
+    }
+  }
+
+  /**
+   * Adds a holding through the ledger. A transfer from another account is recorded as a
+   * deposit of its cost and a buy at that cost, so cash is unchanged; a buy is paid from
+   * the portfolio's cash and rejected if the cash does not cover it.
+   */
+  async addHolding(
+    userId: string,
+    portfolioId: string,
+    input: AddHoldingInput
+  ): Promise<ServiceResult<PortfolioAsset>> {
+    try {
+      return await this.transactionRepository.withPortfolioLock(portfolioId, async repositories => {
+        const access = await this.getOwnedPortfolio(userId, portfolioId, repositories);
+        if (!access.success || !access.data) {
+          return { success: false, error: access.error || 'Portfolio not found' };
+        }
+
+        const symbol = input.symbol.toUpperCase();
+        const adopted = await this.adoptDirectHolding(repositories, portfolioId, symbol);
+        const executedAt = new Date();
+        const rows: CreatePortfolioTransactionData[] = input.source === 'TRANSFER'
+          ? transferIn(portfolioId, symbol, input.quantity, input.averageCost, executedAt)
+          : [{
+              portfolioId,
+              type: 'BUY',
+              symbol,
+              quantity: input.quantity,
+              price: input.averageCost,
+              fee: 0,
+              totalAmount: -(input.quantity * input.averageCost),
+              currency: 'USD',
+              executedAt
+            }];
+
+        const appended = await this.append(repositories, access.data, [...adopted, ...rows]);
+        if (!appended.success) {
+          return { success: false, error: appended.error || 'Failed to add holding' };
+        }
+
+        await this.rebuild(repositories, portfolioId, access.data.costBasisMethod);
+
+        const asset = await repositories.assets.findBySymbol(portfolioId, symbol);
+        if (!asset) {
+          return { success: false, error: 'Failed to add holding' };
+        }
+
+        return { success: true, data: asset };
+      });
+    } catch (error) {
+      return { success: false, error: 'Failed to add holding' };
+    }
+  }
+
+  /**
+   * Whether the symbol's quantity and cost come from the ledger, in which case they can
+   * only change through transactions.
+   */
+  async isLedgerManaged(
+    portfolioId: string,
+    symbol: string,
+    repositories: LedgerRepositories = this.repositories
+  ): Promise<boolean> {
+    if (!symbol) return false;
+
+    const transactions = await repositories.transactions.findAllByPortfolioId(portfolioId);
+    return transactions.some(transaction => transaction.symbol?.toUpperCase() === symbol.toUpperCase());
+  }
+
+  /**
+   * Recomputes the portfolio's cash and value after an asset outside the ledger changed.
+   */
+  async revalue(portfolioId: string): Promise<void> {
+    await this.transactionRepository.withPortfolioLock(portfolioId, async repositories => {
+      const portfolio = await repositories.portfolios.findById(portfolioId);
+      if (!portfolio) {
+        throw new Error('Portfolio not found');
+      }
+
+      await this.rebuild(repositories, portfolioId, portfolio.costBasisMethod);
+    });
+  }
+
+  // Transfer-in rows that bring a directly added holding of a symbol the ledger has never
+  // seen into the ledger; nothing is written until the caller appends them
+  private async adoptDirectHolding(
+    repositories: LedgerRepositories,
+    portfolioId: string,
+    symbol: string
+  ): Promise<CreatePortfolioTransactionData[]> {
+    if (await this.isLedgerManaged(portfolioId, symbol, repositories)) return [];
+
+    const asset = await repositories.assets.findBySymbol(portfolioId, symbol);
+    if (!asset || Number(asset.quantity) <= 0) return [];
+
+    return transferIn(portfolioId, symbol, Number(asset.quantity), Number(asset.averageCost), asset.createdAt);
+  }
+
+  /**
+   * Replays the ledger with the new rows and writes them only if the result is consistent.
+   */
+  private async append(
+    repositories: LedgerRepositories,
+    portfolio: Portfolio,
+    rows: CreatePortfolioTransactionData[]
+  ): Promise<ServiceResult<Transaction[]>> {
+    const existing = await repositories.transactions.findAllByPortfolioId(portfolio.id);
+    const pending: LedgerEntry[] = rows.map((row, index) => ({
+      id: `pending-${index}`,
+      type: row.type,
+      ...(row.symbol && { symbol: row.symbol.toUpperCase() }),
+      ...(row.quantity !== null && row.quantity !== undefined && { quantity: row.quantity }),
+      price: row.price,
+      fee: row.fee,
+      executedAt: row.executedAt
+    }));
+
+    const preview = replayLedger(
+      [...existing, ...pending].sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime()),
+      portfolio.costBasisMethod,
+      Number(portfolio.initialBalance)
+    );
+    if (!preview.success) {
+      return { success: false, error: preview.error || 'Transaction is not consistent with the ledger' };
+    }
+
+    const created: Transaction[] = [];
+    for (const row of rows) {
+      created.push(await repositories.transactions.create(row));
+    }
+
+    return { success: true, data: created };
+  }
+
+  private async getOwnedPortfolio(
+    userId: string,
+    portfolioId: string,
+    repositories: LedgerRepositories = this.repositories
+  ) {
+    const portfolio = await repositories.portfolios.findById(portfolioId);
+    if (!portfolio) {
+      return { success: false as const, error: 'Portfolio not found' };
+    }
+    if (portfolio.userId !== userId) {
+      return { success: false as const, error: 'Access denied' };
+    }
+    return { success: true as const, data: portfolio };
+  }
+
+  /**
+   * Writes the replayed ledger back to the portfolio. Only symbols that appear in the
+   * ledger are touched; assets without a ledger symbol, such as manually valued ones,
+   * keep their values and still count towards the portfolio value.
+   */
+  private async rebuild(
+    { portfolios, assets: assetRepository, transactions: transactionRepository }: LedgerRepositories,
+    portfolioId: string,
+    method: CostBasisMethod
+  ): Promise<LedgerState> {
+    const portfolio = await portfolios.findById(portfolioId);
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const transactions = await transactionRepository.findAllByPortfolioId(portfolioId);
+    const replay = replayLedger(transactions, method, Number(portfolio.initialBalance));
+    if (!replay.success || !replay.data) {
+      throw new Error(replay.error || 'Ledger is inconsistent');
+    }
+    const state = replay.data;
+
+    for (const [symbol, holding] of state.holdings) {
+      const derived = toLedgerHolding(symbol, holding);
+      const asset = await assetRepository.findBySymbol(portfolioId, symbol);
+
+      if (derived.quantity <= 0) {
+        if (asset) {
+          await assetRepository.delete(asset.id);
+        }
+        continue;
+      }
+
+      const currentPrice = asset?.currentPrice !== null && asset?.currentPrice !== undefined
+        ? Number(asset.currentPrice)
+        : holding.lastPrice;
+      const marketValue = derived.quantity * currentPrice;
+      const unrealizedGain = marketValue - derived.totalCost;
+      const values = {
+        quantity: derived.quantity,
+        averageCost: derived.averageCost,
+        totalCost: derived.totalCost,
+        realizedPnl: derived.realizedPnl,
+        currentPrice,
+        marketValue,
+        unrealizedGain,
+        unrealizedGainPct: derived.totalCost > 0 ? (unrealizedGain / derived.totalCost) * 100 : 0,
+        lastValuationDate: new Date()
+      };
+
+      if (asset) {
+        await assetRepository.update(asset.id, values);
+      } else {
+        await assetRepository.create({
+          ...values,
+          symbol,
+          name: symbol,
+          portfolio: { connect: { id: portfolioId } }
+        });
+      }
+    }
+
+    const assets = await assetRepository.findByPortfolioId(portfolioId);
+    const holdingsValue = assets.reduce((sum, asset) => sum + Number(asset.marketValue || 0), 0);
+    const currentValue = state.cashBalance + holdingsValue;
+    const totalReturn = currentValue - state.netContributions;
+
+    await portfolios.update(portfolioId, {
+      cashBalance: state.cashBalance,
+      realizedPnl: state.realizedPnl,
+      currentValue,
+      totalReturn,
+      totalReturnPct: state.netContributions > 0 ? (totalReturn / state.netContributions) * 100 : 0
+    });
+
+    return state;
+  }
+
+  private toPortfolioLedger(method: CostBasisMethod, state: LedgerState): PortfolioLedger {
+    return {
+      costBasisMethod: method,
+      cashBalance: state.cashBalance,
+      realizedPnl: state.realizedPnl,
+      holdings: Array.from(state.holdings, ([symbol, holding]) => toLedgerHolding(symbol, holding))
+        .filter(holding => holding.quantity > 0 || holding.realizedPnl !== 0)
+    };
+  }
+}
@@ -0,0 +1,172 @@
+import type { PortfolioAsset, PortfolioSnapshot } from '@golden-palace/database';
+import { PortfolioRepository, type SnapshotAsset } from '../repositories/portfolio.repository';
+import { AssetRepository } from '../repositories/asset.repository';
+import { MarketDataService } from './marketData.service';
+
+export interface SnapshotRunResult {
+  processed: number;
+  failed: number;
+  runAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PortfolioSnapshotService {
+  private timer: NodeJS.Timeout | null = null;
+  private readonly snapshotHourUtc: number;
+
+  constructor(
+    private portfolioRepository: PortfolioRepository,
+    private assetRepository: AssetRepository,
+    private marketDataService: MarketDataService
+  ) {
+    // 21:00 UTC is after the US equity close in both EST and EDT
+    this.snapshotHourUtc = parseInt(process.env['PORTFOLIO_SNAPSHOT_HOUR_UTC'] || '21');
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.scheduleNextRun();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Re-prices the holdings, records the day's value and writes it back to the portfolio.
+   * Cash is the ledger's balance; a holding that cannot be quoted keeps its stored price.
+   */
+  async captureSnapshot(portfolioId: string, date: Date = new Date()): Promise<PortfolioSnapshot> {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio) throw new Error('Portfolio not found');
+
+    const holdings = await this.repriceHoldings(await this.assetRepository.findByPortfolioId(portfolioId));
+
+    const assets: SnapshotAsset[] = holdings.map(asset => ({
+      symbol: asset.symbol,
+      quantity: Number(asset.quantity),
+      price: Number(asset.currentPrice ?? asset.averageCost),
+      value: Number(asset.marketValue ?? 0),
+      cost: Number(asset.totalCost)
+    }));
+
+    const holdingsValue = assets.reduce((sum, asset) => sum + asset.value, 0);
+    const totalCost = assets.reduce((sum, asset) => sum + asset.cost, 0);
+    const cashBalance = Number(portfolio.cashBalance ?? 0);
+    const totalValue = holdingsValue + cashBalance;
+
+    const previous = await this.portfolioRepository.getLatestSnapshot(portfolioId, date);
+
+    const snapshot = await this.portfolioRepository.createSnapshot(portfolioId, {
+      date,
+      totalValue,
+      totalCost,
+      cashBalance,
+      assets
+    });
+
+    const previousValue = previous ? Number(previous.totalValue) : Number(portfolio.initialBalance);
+    const dayChange = totalValue - previousValue;
+    const initialBalance = Number(portfolio.initialBalance);
+    const totalReturn = totalValue - initialBalance;
+
+    await this.portfolioRepository.update(portfolioId, {
+      currentValue: totalValue,
+      dayChange,
+      dayChangePct: previousValue > 0 ? (dayChange / previousValue) * 100 : 0,
+      totalReturn,
+      totalReturnPct: initialBalance > 0 ? (totalReturn / initialBalance) * 100 : 0
+    });
+
+    return snapshot;
+  }
+
+  // Quotes each listed holding from the market data provider and stores the new valuation
+  private async repriceHoldings(holdings: PortfolioAsset[]): Promise<PortfolioAsset[]> {
+    const repriced = await Promise.all(holdings.map(async asset => {
+      const quantity = Number(asset.quantity);
+      let price = Number(asset.currentPrice ?? asset.averageCost);
+
+      if (asset.symbol) {
+        try {
+          const quote = await this.marketDataService.getQuote(asset.symbol);
+          // Generated prices would put made-up moves into the history
+          if (quote.source === 'provider') {
+            price = quote.price;
+          }
+        } catch (error) {
+          console.warn(`[PortfolioSnapshot] Failed to price ${asset.symbol}, using its stored price:`, error);
+        }
+      } else if (asset.marketValue !== null) {
+        // Manually valued assets keep their recorded value
+        return asset;
+      }
+
+      const marketValue = quantity * price;
+      const totalCost = Number(asset.totalCost);
+      const unrealizedGain = marketValue - totalCost;
+
+      return {
+        ...asset,
+        currentPrice: price,
+        marketValue,
+        unrealizedGain,
+        unrealizedGainPct: totalCost > 0 ? (unrealizedGain / totalCost) * 100 : 0
+      } as unknown as PortfolioAsset;
+    }));
+
+    await this.assetRepository.updatePrices(repriced.filter((asset, index) => asset !== holdings[index]));
+    return repriced;
+  }
+
+  async captureAllSnapshots(date: Date = new Date()): Promise<SnapshotRunResult> {
+    const portfolios = await this.portfolioRepository.findAll();
+    let processed = 0;
+    let failed = 0;
+
+    for (const portfolio of portfolios) {
+      try {
+        await this.captureSnapshot(portfolio.id, date);
+        processed++;
+      } catch (error) {
+        failed++;
+        console.error(`[PortfolioSnapshot] Failed to snapshot portfolio ${portfolio.id}:`, error);
+      }
+    }
+
+    console.log(`[PortfolioSnapshot] Recorded ${processed} snapshots (${failed} failed)`);
+    return { processed, failed, runAt: date };
+  }
+
+  getNextRunTime(from: Date = new Date()): Date {
+    const next = new Date(from);
+    next.setUTCHours(this.snapshotHourUtc, 0, 0, 0);
+    if (next.getTime() <= from.getTime()) {
+      next.setTime(next.getTime() + DAY_MS);
+    }
+    return next;
+  }
+
+  private scheduleNextRun(): void {
+    const delay = this.getNextRunTime().getTime() - Date.now();
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.captureAllSnapshots();
+      } catch (error) {
+        console.error('[PortfolioSnapshot] Snapshot run failed:', error);
+      }
+
+      // stop() may have been called while the run was in flight
+      if (this.timer) {
+        this.scheduleNextRun();
+      }
+    }, delay);
+
+    console.log(`[PortfolioSnapshot] Next snapshot run in ${Math.round(delay / 60000)} minutes`);
+  }
+}
@@ -0,0 +1,373 @@
+import type {
+  AllocationStrategy,
+  RebalancePlan,
+  RebalancePortfolioInput,
+  RebalancePreviewQuery,
+  RebalanceRecommendation,
+  ServiceResult,
+  Transaction
+} from '@golden-palace/shared';
+import { PortfolioRepository } from '../repositories/portfolio.repository';
+import { AssetRepository } from '../repositories/asset.repository';
+import { PortfolioLedgerService } from './portfolioLedger.service';
+import { MarketDataService } from './marketData.service';
+
+export interface RebalanceHolding {
+  assetId: string | null;
+  symbol: string;
+  quantity: number;
+  price: number;
+}
+
+export interface RebalanceOptions {
+  minTradeSize?: number | undefined;
+  maxTradeSize?: number | undefined;
+}
+
+// Portfolio asset quantities are stored with four decimals
+const QUANTITY_PRECISION = 10000;
+const MIN_TRADE_VALUE = 0.01;
+
+const roundDownQuantity = (quantity: number): number =>
+  Math.floor(quantity * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+
+/**
+ * Turns the drift between current and target weights into trades. Targets are percent of
+ * total value (holdings plus cash) and anything not allocated stays in cash. Sells run
+ * first so their proceeds can fund the buys; buys are filled largest shortfall first
+ * until cash runs out. Trades are capped at maxTradeSize and dropped below minTradeSize.
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  cashBalance: number,
+  targetAllocations: Record<string, number>,
+  options: RebalanceOptions = {}
+): { totalValue: number; maxDrift: number; recommendations: RebalanceRecommendation[] } {
+  const bySymbol = new Map(holdings.map(holding => [holding.symbol, holding]));
+  const totalValue = cashBalance + holdings.reduce((sum, holding) => sum + holding.quantity * holding.price, 0);
+  const symbols = Array.from(new Set([...bySymbol.keys(), ...Object.keys(targetAllocations)]));
+  const minTradeSize = options.minTradeSize ?? MIN_TRADE_VALUE;
+  const maxTradeSize = options.maxTradeSize ?? Infinity;
+
+  const rows = symbols.map(symbol => {
+    const holding = bySymbol.get(symbol);
+    const quantity = holding?.quantity ?? 0;
+    const price = holding?.price ?? 0;
+    const value = quantity * price;
+    const currentAllocation = totalValue > 0 ? (value / totalValue) * 100 : 0;
+    const targetAllocation = targetAllocations[symbol] ?? 0;
+
+    const recommendation: RebalanceRecommendation = {
+      assetId: holding?.assetId ?? null,
+      symbol,
+      currentAllocation,
+      targetAllocation,
+      drift: currentAllocation - targetAllocation,
+      action: 'HOLD',
+      quantity: 0,
+      estimatedPrice: price,
+      estimatedCost: 0
+    };
+
+    return { recommendation, heldQuantity: quantity, shortfall: (targetAllocation / 100) * totalValue - value };
+  });
+
+  let availableCash = cashBalance;
+
+  for (const { recommendation, heldQuantity, shortfall } of rows) {
+    if (shortfall > -MIN_TRADE_VALUE) continue;
+    if (recommendation.estimatedPrice <= 0) {
+      recommendation.reason = 'No price available';
+      continue;
+    }
+
+    const tradeValue = Math.min(-shortfall, maxTradeSize);
+    const quantity = Math.min(roundDownQuantity(tradeValue / recommendation.estimatedPrice), heldQuantity);
+    const proceeds = quantity * recommendation.estimatedPrice;
+    if (quantity <= 0 || proceeds < minTradeSize) {
+      recommendation.reason = 'Below minimum trade size';
+      continue;
+    }
+
+    recommendation.action = 'SELL';
+    recommendation.quantity = quantity;
+    recommendation.estimatedCost = proceeds;
+    if (-shortfall > maxTradeSize) {
+      recommendation.reason = 'Capped at maximum trade size';
+    }
+    availableCash += proceeds;
+  }
+
+  const buys = rows
+    .filter(row => row.shortfall >= MIN_TRADE_VALUE)
+    .sort((a, b) => b.shortfall - a.shortfall);
+
+  for (const { recommendation, shortfall } of buys) {
+    if (recommendation.estimatedPrice <= 0) {
+      recommendation.reason = 'No price available';
+      continue;
+    }
+
+    const tradeValue = Math.min(shortfall, maxTradeSize, availableCash);
+    const quantity = roundDownQuantity(tradeValue / recommendation.estimatedPrice);
+    const cost = quantity * recommendation.estimatedPrice;
+    if (quantity <= 0 || cost < minTradeSize) {
+      recommendation.reason = availableCash < Math.min(shortfall, maxTradeSize) ? 'Insufficient cash' : 'Below minimum trade size';
+      continue;
+    }
+
+    recommendation.action = 'BUY';
+    recommendation.quantity = quantity;
+    recommendation.estimatedCost = cost;
+    if (availableCash < Math.min(shortfall, maxTradeSize)) {
+      recommendation.reason = 'Limited by available cash';
+    } else if (shortfall > maxTradeSize) {
+      recommendation.reason = 'Capped at maximum trade size';
+    }
+    availableCash -= cost;
+  }
+
+  const recommendations = rows
+    .map(row => row.recommendation)
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+  return {
+    totalValue,
+    maxDrift: recommendations.reduce((max, recommendation) => Math.max(max, Math.abs(recommendation.drift)), 0),
+    recommendations
+  };
+}
+
+/**
+ * Stores a target allocation per portfolio and turns its drift from the live asset values
+ * into buy/sell recommendations. Applying a plan records each trade as a paper transaction
+ * in the portfolio ledger at the current price.
+ */
+export class RebalanceService {
+  constructor(
+    private portfolioRepository: PortfolioRepository,
+    private assetRepository: AssetRepository,
+    private portfolioLedgerService: PortfolioLedgerService,
+    private marketDataService: MarketDataService
+  ) {}
+
+  async rebalance(userId: string, input: RebalancePortfolioInput): Promise<ServiceResult<RebalancePlan>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, input.portfolioId);
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error || 'Portfolio not found' };
+      }
+
+      const customTargets = input.targetAllocations && this.normalizeTargets(input.targetAllocations);
+
+      // Only custom targets are stored; the other strategies are recomputed from live data
+      await this.portfolioRepository.update(input.portfolioId, {
+        allocationStrategy: input.strategy,
+        ...(input.strategy === 'CUSTOM' && customTargets && { targetAllocations: customTargets })
+      });
+
+      const plan = await this.buildPlan(userId, access.data, input.strategy, customTargets, input);
+      if (!plan.success || !plan.data) {
+        return plan;
+      }
+
+      if (!input.apply) {
+        return plan;
+      }
+
+      return { success: true, data: await this.applyPlan(userId, access.data, plan.data) };
+    } catch (error) {
+      return { success: false, error: 'Failed to rebalance portfolio' };
+    }
+  }
+
+  /**
+   * Recomputes the plan for the stored target allocation without trading.
+   */
+  async preview(
+    userId: string,
+    portfolioId: string,
+    options: RebalancePreviewQuery
+  ): Promise<ServiceResult<RebalancePlan>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error || 'Portfolio not found' };
+      }
+
+      const strategy = access.data.allocationStrategy;
+      if (!strategy) {
+        return { success: false, error: 'No target allocation has been set for this portfolio' };
+      }
+
+      const storedTargets = access.data.targetAllocations as Record<string, number> | null;
+      return this.buildPlan(userId, access.data, strategy, storedTargets ?? undefined, options);
+    } catch (error) {
+      return { success: false, error: 'Failed to preview rebalance' };
+    }
+  }
+
+  private async getOwnedPortfolio(userId: string, portfolioId: string) {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio) {
+      return { success: false as const, error: 'Portfolio not found' };
+    }
+    if (portfolio.userId !== userId) {
+      return { success: false as const, error: 'Access denied' };
+    }
+    return { success: true as const, data: portfolio };
+  }
+
+  /**
+   * Quantities and cash come from the replayed ledger, which is what applying the plan
+   * trades against. Holdings added before the ledger tracked their symbol count at their
+   * asset quantity, since the ledger takes them over in full on their first trade.
+   */
+  private async buildPlan(
+    userId: string,
+    portfolio: { id: string },
+    strategy: AllocationStrategy,
+    customTargets: Record<string, number> | undefined,
+    options: RebalanceOptions
+  ): Promise<ServiceResult<RebalancePlan>> {
+    const ledger = await this.portfolioLedgerService.getLedger(userId, portfolio.id);
+    if (!ledger.success || !ledger.data) {
+      return { success: false, error: ledger.error || 'Ledger is inconsistent' };
+    }
+    const ledgerQuantities = new Map(ledger.data.holdings.map(holding => [holding.symbol, holding.quantity]));
+
+    const assets = await this.assetRepository.findByPortfolioId(portfolio.id);
+    const holdings: RebalanceHolding[] = [];
+
+    for (const asset of assets) {
+      // Manually valued assets have no symbol to trade
+      if (!asset.symbol) continue;
+      const symbol = asset.symbol.toUpperCase();
+      const quantity = ledgerQuantities.get(symbol) ?? Number(asset.quantity);
+      if (quantity <= 0) continue;
+      const price = asset.currentPrice !== null
+        ? Number(asset.currentPrice)
+        : await this.marketDataService.getCurrentPrice(asset.symbol);
+      holdings.push({ assetId: asset.id, symbol, quantity, price });
+    }
+
+    const targets = await this.resolveTargets(strategy, holdings.map(holding => holding.symbol), customTargets);
+    if (!targets.success || !targets.data) {
+      return { success: false, error: targets.error || 'Could not determine target allocations' };
+    }
+
+    // Symbols targeted but not held yet need a quote to size the buy
+    for (const symbol of Object.keys(targets.data)) {
+      if (!holdings.some(holding => holding.symbol === symbol)) {
+        const price = await this.marketDataService.getCurrentPrice(symbol);
+        holdings.push({ assetId: null, symbol, quantity: 0, price });
+      }
+    }
+
+    const cashBalance = ledger.data.cashBalance;
+    const { totalValue, maxDrift, recommendations } = planRebalance(holdings, cashBalance, targets.data, options);
+
+    return {
+      success: true,
+      data: {
+        portfolioId: portfolio.id,
+        strategy,
+        totalValue,
+        cashBalance,
+        targetAllocations: targets.data,
+        maxDrift,
+        recommendations,
+        applied: false,
+        executed: [],
+        failed: []
+      }
+    };
+  }
+
+  private async resolveTargets(
+    strategy: AllocationStrategy,
+    symbols: string[],
+    customTargets?: Record<string, number>
+  ): Promise<ServiceResult<Record<string, number>>> {
+    if (strategy === 'CUSTOM') {
+      if (!customTargets || Object.keys(customTargets).length === 0) {
+        return { success: false, error: 'Target allocations are required for the custom strategy' };
+      }
+      return { success: true, data: customTargets };
+    }
+
+    if (symbols.length === 0) {
+      return { success: false, error: 'Portfolio has no holdings to rebalance' };
+    }
+
+    let weights: number[] = symbols.map(() => 1);
+
+    if (strategy === 'MARKET_CAP') {
+      weights = await Promise.all(
+        symbols.map(async symbol => (await this.marketDataService.getMarketStats(symbol)).marketCap || 0)
+      );
+    } else if (strategy === 'RISK_PARITY') {
+      // Weight each holding by inverse volatility so each contributes similar risk
+      const volatilities = await this.marketDataService.getVolatility(symbols);
+      weights = symbols.map(symbol => {
+        const volatility = volatilities[symbol];
+        return volatility && Number.isFinite(volatility) && volatility > 0 ? 1 / volatility : 0;
+      });
+    }
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!(totalWeight > 0)) {
+      weights = symbols.map(() => 1);
+    }
+    const normalizer = totalWeight > 0 ? totalWeight : symbols.length;
+
+    return {
+      success: true,
+      data: Object.fromEntries(symbols.map((symbol, index) => [symbol, ((weights[index] ?? 0) / normalizer) * 100]))
+    };
+  }
+
+  private async applyPlan(
+    userId: string,
+    portfolio: { id: string; currency: string },
+    plan: RebalancePlan
+  ): Promise<RebalancePlan> {
+    const executed: Transaction[] = [];
+    const failed: RebalancePlan['failed'] = [];
+    const executedAt = new Date();
+
+    // Sells first so their proceeds are in the ledger before the buys are checked
+    const trades = [
+      ...plan.recommendations.filter(recommendation => recommendation.action === 'SELL'),
+      ...plan.recommendations.filter(recommendation => recommendation.action === 'BUY')
+    ];
+
+    for (const trade of trades) {
+      const result = await this.portfolioLedgerService.recordTransaction(userId, {
+        portfolioId: portfolio.id,
+        type: trade.action === 'SELL' ? 'SELL' : 'BUY',
+        symbol: trade.symbol,
+        quantity: trade.quantity,
+        price: trade.estimatedPrice,
+        fee: 0,
+        currency: portfolio.currency,
+        executedAt,
+        notes: `Rebalance (${plan.strategy})`
+      });
+
+      if (result.success && result.data) {
+        executed.push(result.data);
+      } else {
+        failed.push({ symbol: trade.symbol, error: result.error || 'Failed to record transaction' });
+      }
+    }
+
+    return { ...plan, applied: true, executed, failed };
+  }
+
+  private normalizeTargets(targets: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(targets).map(([symbol, percent]) => [symbol.trim().toUpperCase(), percent])
+    );
+  }
+}
@@ -356,6 +356,19 @@ export class RedisService {
     }
   }
 
+  // Scripting
+  async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    try {
+      this.ensureConnected();
+      return await this.client!.eval(script, {
+        keys: keys.map(key => this.getKey(key)),
+        arguments: args
+      });
+    } catch (error) {
+      throw new Error(`Cache operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Cache patterns
   async getOrSet(key: string, loader: () => Promise<string>, ttl?: number): Promise<string> {
     try {
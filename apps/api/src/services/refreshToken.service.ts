@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { RedisService } from './redis.service';
+
+export interface RefreshTokenSession {
+  familyId: string;
+  tokenId: string;
+}
+
+export type RefreshTokenRotation =
+  | { status: 'rotated'; session: RefreshTokenSession }
+  | { status: 'revoked' }
+  | { status: 'reused' };
+
+interface RefreshTokenFamily {
+  userId: string;
+  tokenId: string;
+}
+
+/**
+ * Compares the presented token id with the family's current one and swaps in the new id in a
+ * single step, so two refreshes racing with the same token cannot both succeed. A stale id
+ * revokes the family. KEYS: family, user's families. ARGV: user id, presented token id,
+ * family id, rotated family JSON, TTL in seconds.
+ */
+const ROTATE_SCRIPT = `
+local stored = redis.call('GET', KEYS[1])
+if not stored then return 'revoked' end
+local ok, family = pcall(cjson.decode, stored)
+if not ok or type(family) ~= 'table' or family.userId ~= ARGV[1] then return 'revoked' end
+if family.tokenId ~= ARGV[2] then
+  redis.call('DEL', KEYS[1])
+  redis.call('SREM', KEYS[2], ARGV[3])
+  return 'reused'
+end
+redis.call('SET', KEYS[1], ARGV[4], 'EX', tonumber(ARGV[5]))
+redis.call('EXPIRE', KEYS[2], tonumber(ARGV[5]))
+return 'rotated'
+`;
+
+/**
+ * Server-side state for refresh tokens. Every login starts a family; each refresh swaps
+ * the family's single valid token id for a new one. Presenting an older id means the
+ * token was copied, so the whole family is revoked and every holder must log in again.
+ */
+export class RefreshTokenService {
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly ttlSeconds: number
+  ) {}
+
+  async createFamily(userId: string): Promise<RefreshTokenSession> {
+    const session = { familyId: randomUUID(), tokenId: randomUUID() };
+
+    await this.redisService.setJSON<RefreshTokenFamily>(
+      this.familyKey(session.familyId),
+      { userId, tokenId: session.tokenId },
+      this.ttlSeconds
+    );
+    await this.redisService.sAdd(this.userKey(userId), session.familyId);
+    await this.redisService.expire(this.userKey(userId), this.ttlSeconds);
+
+    return session;
+  }
+
+  async rotate(userId: string, session: RefreshTokenSession): Promise<RefreshTokenRotation> {
+    const rotated = { familyId: session.familyId, tokenId: randomUUID() };
+    const family: RefreshTokenFamily = { userId, tokenId: rotated.tokenId };
+
+    const status = await this.redisService.eval(
+      ROTATE_SCRIPT,
+      [this.familyKey(session.familyId), this.userKey(userId)],
+      [userId, session.tokenId, session.familyId, JSON.stringify(family), String(this.ttlSeconds)]
+    );
+
+    if (status === 'rotated') {
+      return { status: 'rotated', session: rotated };
+    }
+    return status === 'reused' ? { status: 'reused' } : { status: 'revoked' };
+  }
+
+  async revokeFamily(userId: string, familyId: string): Promise<void> {
+    await this.redisService.delete(this.familyKey(familyId));
+    await this.redisService.sRem(this.userKey(userId), familyId);
+  }
+
+  /**
+   * Revokes every session of the user. Returns how many were still active.
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const familyIds = await this.redisService.sMembers(this.userKey(userId));
+    if (familyIds.length === 0) {
+      return 0;
+    }
+
+    const revoked = await this.redisService.deleteMany(familyIds.map(familyId => this.familyKey(familyId)));
+    await this.redisService.delete(this.userKey(userId));
+
+    return revoked;
+  }
+
+  private familyKey(familyId: string): string {
+    return `refresh:family:${familyId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `refresh:user:${userId}`;
+  }
+}
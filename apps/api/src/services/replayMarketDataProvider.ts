@@ -0,0 +1,251 @@
+import { readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parquetMetadata, parquetReadObjects, parquetSchema } from 'hyparquet';
+import type { DailyStats, MarketDataProvider, PricePoint, PriceQuote } from './marketDataProvider';
+
+export interface ReplayBar extends DailyStats {
+  date: Date;
+  symbol: string;
+}
+
+export interface ReplayOptions {
+  // Replay from the last trading day on or before this date instead of the end of the file
+  startDate?: string | Date | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REQUIRED_COLUMNS = ['date', 'symbol', 'close'];
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Parquet decoding takes a standalone ArrayBuffer, not a view into Node's buffer pool
+const toArrayBuffer = (buffer: Buffer): ArrayBuffer => {
+  const copy = new ArrayBuffer(buffer.byteLength);
+  new Uint8Array(copy).set(buffer);
+  return copy;
+};
+
+/**
+ * Builds one bar from a row's named fields, which are undefined when the column is absent or
+ * empty. `location` names the row in error messages.
+ */
+function toBar(field: (name: string) => unknown, location: string): ReplayBar {
+  const number = (name: string, fallback?: number): number => {
+    const raw = field(name);
+    const value = raw === undefined ? fallback : Number(raw);
+    if (value === undefined || !Number.isFinite(value)) {
+      throw new Error(`${location}: invalid ${name} '${raw ?? ''}'`);
+    }
+    return value;
+  };
+
+  const rawDate = field('date');
+  const date = rawDate instanceof Date ? rawDate : new Date(typeof rawDate === 'number' ? rawDate : String(rawDate ?? ''));
+  const symbol = field('symbol')?.toString().trim().toUpperCase();
+  if (Number.isNaN(date.getTime()) || !symbol) {
+    throw new Error(`${location}: a date and symbol are required`);
+  }
+
+  const close = number('close');
+  return {
+    date,
+    symbol,
+    open: number('open', close),
+    high: number('high', close),
+    low: number('low', close),
+    close,
+    volume: number('volume', 0)
+  };
+}
+
+/**
+ * Replays recorded daily bars so development and CI see the same prices on every run. The
+ * replay stands on one trading day at a time: quotes are that day's close and history ends
+ * there. `advance()` steps to the next day in the file.
+ *
+ * Bars may also arrive as a promise, as Parquet files are decoded asynchronously. Until they
+ * load, quotes wait for them, `advance()` returns false and `currentDate` throws.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = 'replay';
+  readonly isLive = false;
+  private bars = new Map<string, ReplayBar[]>();
+  private dates: string[] = [];
+  private cursor = -1;
+  private ready: Promise<void> = Promise.resolve();
+
+  constructor(bars: ReplayBar[] | Promise<ReplayBar[]>, options: ReplayOptions = {}) {
+    if (Array.isArray(bars)) {
+      this.load(bars, options);
+      return;
+    }
+
+    this.ready = bars.then(loaded => this.load(loaded, options));
+    this.ready.catch(error => console.error('Failed to load replay market data:', error));
+  }
+
+  private load(bars: ReplayBar[], options: ReplayOptions): void {
+    if (bars.length === 0) {
+      throw new Error('Replay market data has no price bars');
+    }
+
+    const sorted = [...bars].sort((a, b) => a.date.getTime() - b.date.getTime());
+    for (const bar of sorted) {
+      const series = this.bars.get(bar.symbol) ?? [];
+      series.push(bar);
+      this.bars.set(bar.symbol, series);
+    }
+
+    this.dates = [...new Set(sorted.map(bar => toDateKey(bar.date)))];
+    this.cursor = this.dates.length - 1;
+
+    if (options.startDate !== undefined) {
+      const start = toDateKey(new Date(options.startDate));
+      const index = this.dates.findLastIndex(date => date <= start);
+      if (index < 0) {
+        throw new Error(`Replay market data starts after ${start}`);
+      }
+      this.cursor = index;
+    }
+  }
+
+  /**
+   * Parses CSV with a header row naming at least `date`, `symbol` and `close` columns, in any
+   * order. `open`, `high` and `low` default to the close and `volume` to zero.
+   */
+  static fromCsv(content: string, options: ReplayOptions = {}): ReplayMarketDataProvider {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const headerIndex = lines.findIndex(line => line && !line.startsWith('#'));
+    if (headerIndex < 0) {
+      throw new Error('Replay CSV is empty');
+    }
+
+    const header = lines[headerIndex]!.split(',').map(column => column.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Replay CSV is missing columns: ${missing.join(', ')}`);
+    }
+    const column = (cells: string[], name: string): string | undefined => {
+      const index = header.indexOf(name);
+      return index >= 0 ? cells[index]?.trim() || undefined : undefined;
+    };
+
+    const bars: ReplayBar[] = [];
+    lines.slice(headerIndex + 1).forEach((line, offset) => {
+      if (!line || line.startsWith('#')) return;
+
+      const cells = line.split(',');
+      bars.push(toBar(name => column(cells, name), `Replay CSV line ${headerIndex + offset + 2}`));
+    });
+
+    return new ReplayMarketDataProvider(bars, options);
+  }
+
+  /**
+   * Decodes a Parquet file with the same columns as the CSV form, matched case-insensitively.
+   * Dates may be DATE, TIMESTAMP or string columns. Only Snappy or uncompressed files are read.
+   */
+  static async readParquet(file: ArrayBuffer): Promise<ReplayBar[]> {
+    const metadata = parquetMetadata(file);
+    const columns = new Map(
+      parquetSchema(metadata).children.map(child => [child.element.name.toLowerCase(), child.element.name])
+    );
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.has(column));
+    if (missing.length > 0) {
+      throw new Error(`Replay Parquet file is missing columns: ${missing.join(', ')}`);
+    }
+
+    const rows = await parquetReadObjects({ file, metadata });
+    return rows.map((row, index) =>
+      toBar(name => {
+        const value = row[columns.get(name) ?? name];
+        return value === null || value === '' ? undefined : value;
+      }, `Replay Parquet row ${index + 1}`)
+    );
+  }
+
+  static fromParquet(file: ArrayBuffer, options: ReplayOptions = {}): ReplayMarketDataProvider {
+    return new ReplayMarketDataProvider(ReplayMarketDataProvider.readParquet(file), options);
+  }
+
+  static fromFile(path: string, options: ReplayOptions = {}): ReplayMarketDataProvider {
+    switch (extname(path).toLowerCase()) {
+      case '.csv':
+        return ReplayMarketDataProvider.fromCsv(readFileSync(path, 'utf8'), options);
+      case '.parquet':
+        return new ReplayMarketDataProvider(
+          readFile(path).then(buffer => ReplayMarketDataProvider.readParquet(toArrayBuffer(buffer))),
+          options
+        );
+      default:
+        throw new Error(`Replay market data must be a CSV or Parquet file, got '${path}'`);
+    }
+  }
+
+  get currentDate(): Date {
+    if (this.cursor < 0) {
+      throw new Error('Replay market data is still loading');
+    }
+    return new Date(this.dates[this.cursor]!);
+  }
+
+  /**
+   * Moves the replay to the next trading day. Returns false once the file is exhausted, after
+   * which prices stay on the last day.
+   */
+  advance(): boolean {
+    if (this.cursor < 0 || this.cursor >= this.dates.length - 1) return false;
+    this.cursor++;
+    return true;
+  }
+
+  async getCurrentPrice(symbol: string): Promise<PriceQuote> {
+    await this.ready;
+    return { price: this.currentBar(symbol).close, isRealTime: false };
+  }
+
+  async getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]> {
+    await this.ready;
+    const end = this.currentDate.getTime();
+    const start = end - days * DAY_MS;
+
+    return this.series(symbol)
+      .filter(bar => bar.date.getTime() >= start && toDateKey(bar.date) <= this.dates[this.cursor]!)
+      .map(bar => ({ date: bar.date, price: bar.close }));
+  }
+
+  async getMarketStats(symbol: string): Promise<DailyStats> {
+    await this.ready;
+    const series = this.series(symbol);
+    const bar = this.currentBar(symbol);
+    const previous = series[series.indexOf(bar) - 1];
+
+    return {
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      previousClose: previous?.close
+    };
+  }
+
+  private series(symbol: string): ReplayBar[] {
+    const series = this.bars.get(symbol.toUpperCase());
+    if (!series) {
+      throw new Error(`No replay prices for ${symbol}`);
+    }
+    return series;
+  }
+
+  // The latest bar on or before the current replay day
+  private currentBar(symbol: string): ReplayBar {
+    const today = this.dates[this.cursor]!;
+    const bar = this.series(symbol).findLast(candidate => toDateKey(candidate.date) <= today);
+    if (!bar) {
+      throw new Error(`No replay prices for ${symbol} on or before ${today}`);
+    }
+    return bar;
+  }
+}
@@ -1,28 +1,313 @@
 import { RiskMetricsRepository } from '../repositories/riskMetrics.repository';
 import { PortfolioRepository } from '../repositories/portfolio.repository';
 import { AssetRepository } from '../repositories/asset.repository';
-import { MarketDataService } from './marketData.service';
+import { MarketDataService, alignDailyReturnsByDate, type ReturnStatistics } from './marketData.service';
+import type { RiskLimitService } from './riskLimit.service';
 import type {
   RiskMetrics,
   PositionRisk,
+  CorrelationMatrix,
   StressTestResult,
   RiskAnalyticsLevel,
   TimeHorizon,
   ConfidenceLevel,
   CalculateRiskInput,
-  StressTestInput,
-  RiskLimitsInput,
   RiskReportInput,
   MonteCarloSimulation,
-  LiquidityRisk
+  LiquidityRisk,
+  ReturnDistribution,
+  ScenarioAssetType,
+  StressScenarioInput,
+  VaRBacktest,
+  VaRBacktestObservation,
+  VaRContribution,
+  VaRMethod,
+  HypothesisTest,
+  BenchmarkComparison,
+  BenchmarkStatistics
 } from '@golden-palace/shared';
+import { DEFAULT_BENCHMARK_SYMBOL } from '@golden-palace/shared';
+
+// One-tailed z-score of the 95% confidence level used for position VaR
+const POSITION_VAR_Z = 1.645;
+// Assumed annualized volatility of a holding without enough price history
+const DEFAULT_VOLATILITY = 0.2;
+// Assets correlated at least this strongly are grouped into one cluster
+const CLUSTER_CORRELATION = 0.7;
+const DEFAULT_SIMULATIONS = 10000;
+const DEFAULT_DEGREES_OF_FREEDOM = 5;
+// Calendar days of history the benchmark-relative metrics are measured over
+const BENCHMARK_HISTORY_DAYS = 365;
+// VaR backtests fail when the model is rejected at this significance level
+const BACKTEST_SIGNIFICANCE = 0.05;
+// Stored VaR is a one-day loss; the time horizon only picks the returns it is estimated from
+const VAR_HORIZON_DAYS = 1;
+
+// A scenario to run, with the id of the built-in or saved scenario it came from
+export type StressScenarioRun = StressScenarioInput & { id?: string };
+
+export interface VaRBacktestOptions {
+  startDate: Date;
+  endDate: Date;
+  confidenceLevel: number;
+  timeHorizon?: TimeHorizon | undefined; // Only test forecasts estimated over this lookback window
+}
+
+export interface MonteCarloOptions {
+  distribution?: ReturnDistribution | undefined;
+  degreesOfFreedom?: number | undefined;
+}
+
+// Daily return model of a portfolio's holdings, or of the portfolio as a whole without them
+interface ReturnModel {
+  symbols: string[];
+  exposures: number[];
+  means: number[];
+  covariance: number[][];
+}
+
+export interface VaRDecomposition {
+  portfolioVaR: number;
+  individualVaR: number[];
+  marginalVaR: number[];
+  componentVaR: number[];
+  incrementalVaR: number[];
+  correlationToPortfolio: number[];
+}
+
+/**
+ * Splits parametric VaR across positions from their dollar exposures and the covariance of
+ * their daily returns. Marginal VaR is the change in portfolio VaR per dollar added to a
+ * position; component VaR is exposure times marginal VaR, so the components sum to the
+ * portfolio VaR. Incremental VaR is how much portfolio VaR falls if the position is closed.
+ */
+export function decomposeVaR(exposures: number[], covariance: number[][], z: number = POSITION_VAR_Z): VaRDecomposition {
+  const covarianceTimesExposure = exposures.map((_, i) =>
+    exposures.reduce((sum, exposure, j) => sum + covariance[i]![j]! * exposure, 0)
+  );
+  const portfolioVariance = exposures.reduce((sum, exposure, i) => sum + exposure * covarianceTimesExposure[i]!, 0);
+  const portfolioStdDev = Math.sqrt(Math.max(0, portfolioVariance));
+  const portfolioVaR = z * portfolioStdDev;
+
+  const individualVaR: number[] = [];
+  const marginalVaR: number[] = [];
+  const componentVaR: number[] = [];
+  const incrementalVaR: number[] = [];
+  const correlationToPortfolio: number[] = [];
+
+  exposures.forEach((exposure, i) => {
+    const variance = covariance[i]![i]!;
+    const stdDev = Math.sqrt(Math.max(0, variance));
+    const marginal = portfolioStdDev > 0 ? z * covarianceTimesExposure[i]! / portfolioStdDev : 0;
+    const varianceWithout = portfolioVariance - 2 * exposure * covarianceTimesExposure[i]! + exposure * exposure * variance;
+
+    individualVaR.push(z * Math.abs(exposure) * stdDev);
+    marginalVaR.push(marginal);
+    componentVaR.push(exposure * marginal);
+    incrementalVaR.push(portfolioVaR - z * Math.sqrt(Math.max(0, varianceWithout)));
+    correlationToPortfolio.push(
+      stdDev > 0 && portfolioStdDev > 0 ? covarianceTimesExposure[i]! / (stdDev * portfolioStdDev) : 0
+    );
+  });
+
+  return { portfolioVaR, individualVaR, marginalVaR, componentVaR, incrementalVaR, correlationToPortfolio };
+}
+
+// Standard normal CDF by the Abramowitz and Stegun 7.1.26 approximation, accurate to about 1e-7
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-x * x / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, relative error
+ * below 1.2e-9), used for the z-score of a confidence level.
+ */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -inverseNormalCdf(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Lower-triangular L with L·Lᵀ equal to a covariance matrix. Sample covariances are only
+ * positive semi-definite, so a zero pivot (e.g. a perfectly correlated pair) contributes
+ * no further independent factor instead of failing.
+ */
+export function choleskyDecomposition(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let j = 0; j < n; j++) {
+    let diagonal = matrix[j]![j]!;
+    for (let k = 0; k < j; k++) diagonal -= lower[j]![k]! ** 2;
+    // Rounding leaves a tiny residual where the pivot should be exactly zero
+    lower[j]![j] = diagonal > 1e-12 * Math.abs(matrix[j]![j]!) ? Math.sqrt(diagonal) : 0;
+
+    for (let i = j + 1; i < n; i++) {
+      let sum = matrix[i]![j]!;
+      for (let k = 0; k < j; k++) sum -= lower[i]![k]! * lower[j]![k]!;
+      lower[i]![j] = lower[j]![j]! > 0 ? sum / lower[j]![j]! : 0;
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Upper-tail probability of a chi-square statistic. The VaR backtests only need one or two
+ * degrees of freedom, and both have closed forms.
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: 1 | 2): number {
+  if (!(statistic > 0)) return 1;
+  return degreesOfFreedom === 1 ? 2 * (1 - normalCdf(Math.sqrt(statistic))) : Math.exp(-statistic / 2);
+}
+
+// x·ln(y), taking 0·ln(0) as 0 so empty cells drop out of a likelihood
+const xLogY = (x: number, y: number): number => (x === 0 ? 0 : x * Math.log(y));
+
+function toHypothesisTest(statistic: number, degreesOfFreedom: 1 | 2): HypothesisTest {
+  // Rounding can leave a likelihood ratio a hair below zero
+  const bounded = Math.max(0, statistic);
+  const pValue = chiSquarePValue(bounded, degreesOfFreedom);
+  return { statistic: bounded, degreesOfFreedom, pValue, passed: pValue >= BACKTEST_SIGNIFICANCE };
+}
+
+/**
+ * Kupiec's proportion-of-failures test: the likelihood ratio of the observed violation rate
+ * against the 1 - confidence rate a correct VaR model should produce.
+ */
+export function kupiecTest(observations: number, violations: number, confidenceLevel: number): HypothesisTest {
+  const expectedRate = 1 - confidenceLevel;
+  const observedRate = observations > 0 ? violations / observations : 0;
+  const passes = observations - violations;
+
+  const expected = xLogY(passes, 1 - expectedRate) + xLogY(violations, expectedRate);
+  const observed = xLogY(passes, 1 - observedRate) + xLogY(violations, observedRate);
+  return toHypothesisTest(-2 * (expected - observed), 1);
+}
+
+/**
+ * Christoffersen's independence test: whether a violation is more likely the period after
+ * another one, from the first-order Markov transitions between the periods.
+ */
+export function christoffersenTest(violations: boolean[]): HypothesisTest {
+  // nij counts periods in state j that followed a period in state i (1 = violation)
+  let n00 = 0, n01 = 0, n10 = 0, n11 = 0;
+  for (let t = 1; t < violations.length; t++) {
+    if (violations[t - 1]) {
+      if (violations[t]) n11++; else n10++;
+    } else {
+      if (violations[t]) n01++; else n00++;
+    }
+  }
+
+  const transitions = n00 + n01 + n10 + n11;
+  const rate = transitions > 0 ? (n01 + n11) / transitions : 0;
+  const rateAfterPass = n00 + n01 > 0 ? n01 / (n00 + n01) : 0;
+  const rateAfterViolation = n10 + n11 > 0 ? n11 / (n10 + n11) : 0;
+
+  const independent = xLogY(n00 + n10, 1 - rate) + xLogY(n01 + n11, rate);
+  const markov = xLogY(n00, 1 - rateAfterPass) + xLogY(n01, rateAfterPass) +
+    xLogY(n10, 1 - rateAfterViolation) + xLogY(n11, rateAfterViolation);
+  return toHypothesisTest(-2 * (independent - markov), 1);
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Geometric mean daily return, the basis of Morningstar-style capture ratios
+const geometricMean = (values: number[]): number =>
+  Math.pow(values.reduce((product, value) => product * (1 + value), 1), 1 / values.length) - 1;
+
+/**
+ * Compares aligned daily portfolio and benchmark returns: beta and correlation from their
+ * sample covariance, Jensen's alpha, tracking error and information ratio (annualized over
+ * 252 trading days), and the share of the benchmark's up and down days the portfolio captured.
+ */
+export function calculateBenchmarkStatistics(
+  portfolioReturns: number[],
+  benchmarkReturns: number[],
+  riskFreeRate: number
+): Omit<BenchmarkStatistics, 'benchmarkSymbol'> {
+  const observations = Math.min(portfolioReturns.length, benchmarkReturns.length);
+  if (observations < 2) {
+    return { observations, beta: 1, alpha: 0, correlation: 0, trackingError: 0, informationRatio: 0, upCaptureRatio: 0, downCaptureRatio: 0 };
+  }
+
+  const portfolio = portfolioReturns.slice(0, observations);
+  const benchmark = benchmarkReturns.slice(0, observations);
+  const portfolioMean = mean(portfolio);
+  const benchmarkMean = mean(benchmark);
+
+  let covariance = 0, portfolioVariance = 0, benchmarkVariance = 0;
+  for (let i = 0; i < observations; i++) {
+    covariance += (portfolio[i]! - portfolioMean) * (benchmark[i]! - benchmarkMean);
+    portfolioVariance += (portfolio[i]! - portfolioMean) ** 2;
+    benchmarkVariance += (benchmark[i]! - benchmarkMean) ** 2;
+  }
+  covariance /= observations - 1;
+  portfolioVariance /= observations - 1;
+  benchmarkVariance /= observations - 1;
+
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : 1;
+  const correlation = portfolioVariance > 0 && benchmarkVariance > 0 ?
+    covariance / Math.sqrt(portfolioVariance * benchmarkVariance) : 0;
+  const dailyRiskFree = riskFreeRate / 252;
+  const alpha = ((portfolioMean - dailyRiskFree) - beta * (benchmarkMean - dailyRiskFree)) * 252;
+
+  const active = portfolio.map((value, i) => value - benchmark[i]!);
+  const activeMean = mean(active);
+  const trackingError = Math.sqrt(active.reduce((sum, value) => sum + (value - activeMean) ** 2, 0) / (observations - 1)) *
+    Math.sqrt(252);
+  const informationRatio = trackingError > 0 ? (activeMean * 252) / trackingError : 0;
+
+  const captureRatio = (days: number[]): number => {
+    if (days.length === 0) return 0;
+    const benchmarkGeometric = geometricMean(days.map(i => benchmark[i]!));
+    return benchmarkGeometric !== 0 ? (geometricMean(days.map(i => portfolio[i]!)) / benchmarkGeometric) * 100 : 0;
+  };
+  const indices = benchmark.map((_, i) => i);
+
+  return {
+    observations,
+    beta,
+    alpha,
+    correlation,
+    trackingError,
+    informationRatio,
+    upCaptureRatio: captureRatio(indices.filter(i => benchmark[i]! > 0)),
+    downCaptureRatio: captureRatio(indices.filter(i => benchmark[i]! < 0))
+  };
+}
 
 export class RiskAnalyticsService {
   constructor(
     private riskMetricsRepository: RiskMetricsRepository,
     private portfolioRepository: PortfolioRepository,
     private assetRepository: AssetRepository,
-    private marketDataService: MarketDataService
+    private marketDataService: MarketDataService,
+    private riskLimitService?: RiskLimitService
   ) {}
 
   async calculateRiskMetrics(input: CalculateRiskInput): Promise<RiskMetrics> {
@@ -49,21 +334,38 @@ export class RiskAnalyticsService {
 
     // Calculate VaR using historical simulation
     console.log('[RiskAnalytics Service] Calculating VaR');
+    const varMethod: VaRMethod = input.method ?? 'HISTORICAL';
     const sortedReturns = [...returns].sort((a, b) => a - b);
     const varIndex = Math.floor(returns.length * (1 - input.confidenceLevel));
     console.log('[RiskAnalytics Service] VaR index:', varIndex, 'of', returns.length);
     const portfolioValue = Number(portfolio.currentValue);
     console.log('[RiskAnalytics Service] Portfolio value for calculations:', portfolioValue);
-    const valueAtRisk = Math.abs(sortedReturns[varIndex] * portfolioValue);
-    console.log('[RiskAnalytics Service] Value at Risk:', valueAtRisk);
+    // No recorded history yet (fewer than two snapshots) means no measurable VaR
+    let valueAtRisk = sortedReturns.length > 0 ? Math.abs(sortedReturns[varIndex] * portfolioValue) : 0;
 
     // Calculate CVaR (Expected Shortfall)
     console.log('[RiskAnalytics Service] Calculating CVaR');
     const tailReturns = sortedReturns.slice(0, varIndex + 1);
     console.log('[RiskAnalytics Service] Tail returns length:', tailReturns.length);
-    const conditionalVaR = tailReturns.length > 0 ? Math.abs(
+    let conditionalVaR = tailReturns.length > 0 ? Math.abs(
       tailReturns.reduce((a, b) => a + b, 0) / tailReturns.length * portfolioValue
     ) : 0;
+
+    // Parametric and Monte Carlo VaR model the holdings rather than replaying portfolio returns
+    let varContributions: VaRContribution[] | undefined;
+    if (varMethod !== 'HISTORICAL') {
+      const model = await this.buildReturnModel(portfolio, assets, returns);
+      const estimate = varMethod === 'PARAMETRIC' ?
+        this.parametricVaR(model, input.confidenceLevel) :
+        this.monteCarloVaR(model, input.confidenceLevel, input.simulations ?? DEFAULT_SIMULATIONS, {
+          distribution: input.distribution,
+          degreesOfFreedom: input.degreesOfFreedom
+        });
+      valueAtRisk = estimate.valueAtRisk;
+      conditionalVaR = estimate.conditionalVaR;
+      varContributions = estimate.contributions;
+    }
+    console.log('[RiskAnalytics Service] Value at Risk (' + varMethod + '):', valueAtRisk);
     console.log('[RiskAnalytics Service] Conditional VaR:', conditionalVaR);
 
     // Calculate volatility
@@ -103,31 +405,38 @@ export class RiskAnalyticsService {
       console.log('[RiskAnalytics Service] Using default drawdown values');
     }
 
-    // Calculate Beta and Alpha
-    console.log('[RiskAnalytics Service] Calculating Beta and Alpha');
-    let beta = 1, alpha = 0;
+    // Beta, alpha and the other benchmark-relative metrics from aligned daily returns
+    console.log('[RiskAnalytics Service] Comparing with benchmark');
+    let benchmark: BenchmarkStatistics | null = null;
     try {
-      const marketReturn = await this.marketDataService.getMarketReturn();
-      console.log('[RiskAnalytics Service] Market return:', marketReturn);
-      beta = this.calculateBeta(returns, marketReturn);
-      alpha = avgReturn * 252 - (riskFreeRate + beta * (marketReturn - riskFreeRate));
-      console.log('[RiskAnalytics Service] Beta:', beta, 'Alpha:', alpha);
+      const aligned = await this.alignWithBenchmark(portfolio, BENCHMARK_HISTORY_DAYS);
+      const statistics = calculateBenchmarkStatistics(aligned.portfolio, aligned.benchmark, riskFreeRate);
+      if (statistics.observations >= 2) {
+        benchmark = { ...statistics, benchmarkSymbol: aligned.benchmarkSymbol };
+      }
+      console.log('[RiskAnalytics Service] Benchmark statistics:', benchmark);
     } catch (error) {
-      console.error('[RiskAnalytics Service] Error calculating Beta/Alpha:', error);
+      console.error('[RiskAnalytics Service] Error comparing with benchmark:', error);
       console.log('[RiskAnalytics Service] Using default Beta/Alpha values');
     }
+    const beta = benchmark?.beta ?? 1;
+    const alpha = benchmark?.alpha ?? 0;
 
-    // Get correlations if requested
-    console.log('[RiskAnalytics Service] Getting correlations, requested:', input.includeCorrelations);
-    let correlations = {};
+    // Correlation and covariance of the holdings' daily returns
+    console.log('[RiskAnalytics Service] Getting return statistics, correlations requested:', input.includeCorrelations);
+    let correlations: Record<string, number> = {};
+    let covariance: Record<string, number> = {};
     try {
-      correlations = input.includeCorrelations && assets.length > 0 ?
-        await this.marketDataService.getCorrelations(assets.map(a => a.symbol)) :
-        {};
-      console.log('[RiskAnalytics Service] Correlations fetched');
+      if (assets.length > 0) {
+        const statistics = await this.marketDataService.getReturnStatistics(assets.map(a => a.symbol));
+        covariance = this.toPairRecord(statistics.symbols, statistics.covariance, true);
+        if (input.includeCorrelations) {
+          correlations = this.toPairRecord(statistics.symbols, statistics.correlation, false);
+        }
+      }
+      console.log('[RiskAnalytics Service] Return statistics fetched');
     } catch (error) {
-      console.error('[RiskAnalytics Service] Error getting correlations:', error);
-      correlations = {};
+      console.error('[RiskAnalytics Service] Error getting return statistics:', error);
     }
 
     // Determine risk level
@@ -156,13 +465,15 @@ export class RiskAnalyticsService {
       valueAtRisk,
       conditionalVaR,
       expectedShortfall: conditionalVaR,
+      varMethod,
+      ...(varContributions && { varContributions }),
       volatility,
       annualizedVolatility,
       downsideVolatility,
       sharpeRatio,
       sortinoRatio,
       calmarRatio: maxDrawdown > 0 ? (avgReturn * 252) / maxDrawdown : 0,
-      informationRatio: 0,
+      informationRatio: benchmark?.informationRatio ?? 0,
       beta,
       alpha,
       treynorRatio: beta > 0 ? excessReturn / beta : 0,
@@ -172,8 +483,11 @@ export class RiskAnalyticsService {
       currentDrawdown,
       recoveryTime: 0,
       correlation: correlations,
-      covariance: {},
-      trackingError: 0,
+      covariance,
+      trackingError: benchmark?.trackingError ?? 0,
+      ...(benchmark && { benchmarkSymbol: benchmark.benchmarkSymbol }),
+      upCaptureRatio: benchmark?.upCaptureRatio ?? 0,
+      downCaptureRatio: benchmark?.downCaptureRatio ?? 0,
       riskLevel,
       riskScore
     };
@@ -187,6 +501,13 @@ export class RiskAnalyticsService {
       // Continue even if saving fails
     }
 
+    try {
+      await this.riskLimitService?.evaluate(input.portfolioId, { metrics });
+    } catch (error) {
+      console.error('[RiskAnalytics Service] Error evaluating risk limits:', error);
+      // Limit breaches are re-checked on the next market update
+    }
+
     console.log('[RiskAnalytics Service] calculateRiskMetrics - Complete');
     console.log('[RiskAnalytics Service] Returning metrics for portfolio:', input.portfolioId);
     return metrics;
@@ -197,21 +518,17 @@ export class RiskAnalyticsService {
     if (!portfolio) throw new Error('Portfolio not found');
 
     const assets = await this.assetRepository.findByPortfolioId(portfolioId);
-    const volatilities = await this.marketDataService.getVolatility(assets.map(a => a.symbol));
-
-    return assets.map(asset => {
-      const volatility = volatilities[asset.symbol] || 0.2;
-      const exposure = Number(asset.marketValue || 0);
-      const percentageOfPortfolio = (exposure / Number(portfolio.currentValue)) * 100;
+    if (assets.length === 0) return [];
 
-      // Individual VaR at 95% confidence
-      const individualVaR = exposure * volatility * 1.645 / Math.sqrt(252);
+    const symbols: string[] = assets.map(a => a.symbol);
+    const statistics = await this.marketDataService.getReturnStatistics(symbols);
+    const covariance = this.positionCovariance(symbols, statistics);
+    const exposures: number[] = assets.map(a => Number(a.marketValue || 0));
+    const decomposition = decomposeVaR(exposures, covariance);
 
-      // Marginal VaR approximation
-      const marginalVaR = individualVaR * (exposure / Number(portfolio.currentValue));
-
-      // Component VaR
-      const componentVaR = marginalVaR * percentageOfPortfolio / 100;
+    return assets.map((asset, i) => {
+      const exposure = exposures[i]!;
+      const percentageOfPortfolio = (exposure / Number(portfolio.currentValue)) * 100;
 
       // Concentration risk increases exponentially with allocation
       const concentrationRisk = Math.pow(percentageOfPortfolio / 100, 2) * 100;
@@ -221,13 +538,13 @@ export class RiskAnalyticsService {
         symbol: asset.symbol,
         exposure,
         percentageOfPortfolio,
-        individualVaR,
-        marginalVaR,
-        componentVaR,
-        incrementalVaR: marginalVaR,
+        individualVaR: decomposition.individualVaR[i]!,
+        marginalVaR: decomposition.marginalVaR[i]!,
+        componentVaR: decomposition.componentVaR[i]!,
+        incrementalVaR: decomposition.incrementalVaR[i]!,
         beta: 1,
-        correlation: 0.5,
-        volatility,
+        correlation: decomposition.correlationToPortfolio[i]!,
+        volatility: Math.sqrt(covariance[i]![i]! * 252),
         concentrationRisk,
         liquidityRisk: 0,
         creditRisk: 0
@@ -235,35 +552,103 @@ export class RiskAnalyticsService {
     });
   }
 
-  async runStressTests(input: StressTestInput): Promise<StressTestResult[]> {
+  /**
+   * Correlation matrix of the portfolio's holdings for a heatmap, with the pairs whose
+   * correlation is statistically significant and clusters of strongly correlated assets.
+   */
+  async calculateCorrelationMatrix(portfolioId: string, days: number = 90): Promise<CorrelationMatrix> {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio) throw new Error('Portfolio not found');
+
+    const assets = await this.assetRepository.findByPortfolioId(portfolioId);
+    const symbols: string[] = [...new Set<string>(assets.map(a => a.symbol))];
+    if (symbols.length === 0) {
+      return { assets: [], matrix: [], covariance: [], observations: 0, significantCorrelations: [], clusterAnalysis: [] };
+    }
+
+    const statistics = await this.marketDataService.getReturnStatistics(symbols, days);
+    const { correlation, observations } = statistics;
+
+    const significantCorrelations: CorrelationMatrix['significantCorrelations'] = [];
+    for (let i = 0; i < symbols.length; i++) {
+      for (let j = i + 1; j < symbols.length; j++) {
+        const pValue = this.correlationPValue(correlation[i]![j]!, observations);
+        if (pValue < 0.05) {
+          significantCorrelations.push({ asset1: symbols[i]!, asset2: symbols[j]!, correlation: correlation[i]![j]!, pValue });
+        }
+      }
+    }
+    significantCorrelations.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+    return {
+      assets: symbols,
+      matrix: correlation,
+      covariance: statistics.covariance,
+      observations,
+      significantCorrelations,
+      clusterAnalysis: this.clusterByCorrelation(symbols, correlation)
+    };
+  }
+
+  /**
+   * Applies each scenario's shock for an asset's type (or its market-wide change) to the
+   * holdings. Stressed risk comes from the holdings' covariance with correlations pushed
+   * towards 1 by the correlation shock and volatility scaled by the multiplier; probability
+   * is how likely a loss this large is over the scenario duration under normal conditions.
+   */
+  async runStressTests(input: { portfolioId: string; scenarios: StressScenarioRun[] }): Promise<StressTestResult[]> {
     const portfolio = await this.portfolioRepository.findById(input.portfolioId);
     if (!portfolio) throw new Error('Portfolio not found');
 
     const assets = await this.assetRepository.findByPortfolioId(input.portfolioId);
+    const returns = await this.portfolioRepository.getReturns?.(input.portfolioId, '1M') ||
+                    this.generateReturns(portfolio, 30);
+    const model = await this.buildReturnModel(portfolio, assets, returns);
+    const riskFreeRate = await this.marketDataService.getRiskFreeRate();
+
+    const portfolioValue = Number(portfolio.currentValue);
+    // Daily standard deviation of portfolio P&L in normal conditions (VaR at z = 1)
+    const baseStdDev = decomposeVaR(model.exposures, model.covariance, 1).portfolioVaR;
     const results: StressTestResult[] = [];
 
     for (const scenario of input.scenarios) {
       const assetImpacts = assets.map(asset => {
-        const stressedPrice = asset.currentPrice * (1 + scenario.marketChange / 100);
-        const stressedValue = stressedPrice * asset.quantity;
-        const loss = Number(asset.marketValue || 0) - stressedValue;
+        const assetType: string = asset.assetType ?? 'STOCK';
+        const shock = scenario.assetShocks?.[assetType as ScenarioAssetType] ?? scenario.marketChange;
+        const currentValue = Number(asset.marketValue ?? Number(asset.quantity) * Number(asset.currentPrice ?? 0));
+        const stressedValue = currentValue * (1 + shock / 100);
+        const loss = currentValue - stressedValue;
 
         return {
           symbol: asset.symbol,
-          currentValue: Number(asset.marketValue || 0),
+          assetType,
+          shock,
+          currentValue,
           stressedValue,
           loss,
-          lossPercentage: (loss / Number(asset.marketValue || 1)) * 100
+          lossPercentage: currentValue !== 0 ? (loss / currentValue) * 100 : 0
         };
       });
 
-      const totalLoss = assetImpacts.reduce((sum, impact) => sum + impact.loss, 0);
-      const portfolioLoss = totalLoss;
-      const lossPercentage = (portfolioLoss / Number(portfolio.currentValue)) * 100;
-
-      // Calculate stressed metrics
-      const stressedVolatility = 0.3 * scenario.volatilityMultiplier;
-      const stressedVaR = Number(portfolio.currentValue) * stressedVolatility * 1.645 / Math.sqrt(252);
+      const portfolioLoss = assetImpacts.reduce((sum, impact) => sum + impact.loss, 0);
+      const lossPercentage = portfolioValue > 0 ? (portfolioLoss / portfolioValue) * 100 : 0;
+      const stressedPortfolioValue = portfolioValue - portfolioLoss;
+
+      // A portfolio without holdings is modelled as one position that moves with the market
+      const stressedExposures = model.exposures.map((exposure, i) =>
+        exposure * (1 + (assetImpacts.length === model.exposures.length ? assetImpacts[i]!.shock : scenario.marketChange) / 100)
+      );
+      const stressedCovariance = this.stressCovariance(model.covariance, scenario.correlationShock, scenario.volatilityMultiplier);
+      const stressedVaR = decomposeVaR(stressedExposures, stressedCovariance).portfolioVaR;
+      const stressedStdDev = stressedVaR / POSITION_VAR_Z;
+      const stressedVolatility = stressedPortfolioValue > 0 ? (stressedStdDev / stressedPortfolioValue) * Math.sqrt(252) : 0;
+
+      const days = this.getDaysFromHorizon(scenario.duration);
+      const annualizedReturn = (-lossPercentage / 100) * (365 / days);
+      const horizonStdDev = portfolioValue > 0 ? (baseStdDev / portfolioValue) * Math.sqrt(days * 252 / 365) : 0;
+      const probability = horizonStdDev > 0 ?
+        normalCdf(-(lossPercentage / 100) / horizonStdDev) :
+        (lossPercentage > 0 ? 0 : 1);
 
       const severity: RiskAnalyticsLevel =
         lossPercentage > 30 ? 'EXTREME' :
@@ -271,18 +656,19 @@ export class RiskAnalyticsService {
         lossPercentage > 10 ? 'MEDIUM' : 'LOW';
 
       results.push({
+        ...(scenario.id && { scenarioId: scenario.id }),
         scenarioName: scenario.name,
-        portfolioValue: Number(portfolio.currentValue) - portfolioLoss,
+        portfolioValue: stressedPortfolioValue,
         portfolioLoss,
-        lossPercentage: Math.abs(lossPercentage),
+        lossPercentage,
         assetImpacts,
         metricsUnderStress: {
           var: stressedVaR,
           volatility: stressedVolatility,
-          sharpeRatio: -0.5,
-          maxDrawdown: Math.abs(lossPercentage)
+          sharpeRatio: stressedVolatility > 0 ? (annualizedReturn - riskFreeRate) / stressedVolatility : 0,
+          maxDrawdown: Math.max(0, lossPercentage)
         },
-        probability: 0.05,
+        probability,
         severity
       });
     }
@@ -290,113 +676,52 @@ export class RiskAnalyticsService {
     return results;
   }
 
-  async setRiskLimits(input: RiskLimitsInput): Promise<any> {
-    const portfolio = await this.portfolioRepository.findById(input.portfolioId);
-    if (!portfolio) throw new Error('Portfolio not found');
-
-    // Validate risk limits
-    if (input.maxDrawdown > 100) {
-      throw new Error('Invalid risk limits');
-    }
-
-    const limits = {
-      id: `limit_${Date.now()}`,
-      portfolioId: input.portfolioId,
-      maxDrawdown: input.maxDrawdown,
-      maxVaR: input.maxVaR,
-      maxLeverage: input.maxLeverage || 1,
-      maxConcentration: input.maxConcentration,
-      maxVolatility: input.maxVolatility,
-      minSharpeRatio: input.minSharpeRatio,
-      breaches: [],
-      active: true,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-
-    await this.riskMetricsRepository.saveMetrics(limits);
-    return limits;
-  }
-
-  async checkRiskLimits(portfolioId: string, limits: any): Promise<any> {
-    const portfolio = await this.portfolioRepository.findById(portfolioId);
-    if (!portfolio) throw new Error('Portfolio not found');
-
-    const metrics = await this.riskMetricsRepository.findLatest(portfolioId) as any;
-    const breaches: any[] = [];
-
-    if (limits.maxDrawdown && metrics.maxDrawdown > limits.maxDrawdown) {
-      breaches.push({
-        limitType: 'maxDrawdown',
-        currentValue: metrics.maxDrawdown,
-        limitValue: limits.maxDrawdown,
-        breachAmount: metrics.maxDrawdown - limits.maxDrawdown,
-        breachPercentage: ((metrics.maxDrawdown - limits.maxDrawdown) / limits.maxDrawdown) * 100,
-        breachedAt: new Date(),
-        resolved: false
-      });
-    }
-
-    if (limits.maxVaR && metrics.valueAtRisk > limits.maxVaR) {
-      breaches.push({
-        limitType: 'maxVaR',
-        currentValue: metrics.valueAtRisk,
-        limitValue: limits.maxVaR,
-        breachAmount: metrics.valueAtRisk - limits.maxVaR,
-        breachPercentage: ((metrics.valueAtRisk - limits.maxVaR) / limits.maxVaR) * 100,
-        breachedAt: new Date(),
-        resolved: false
-      });
-    }
-
-    if (limits.maxVolatility && metrics.volatility > limits.maxVolatility) {
-      breaches.push({
-        limitType: 'maxVolatility',
-        currentValue: metrics.volatility,
-        limitValue: limits.maxVolatility,
-        breachAmount: metrics.volatility - limits.maxVolatility,
-        breachPercentage: ((metrics.volatility - limits.maxVolatility) / limits.maxVolatility) * 100,
-        breachedAt: new Date(),
-        resolved: false
-      });
-    }
-
-    return {
-      breaches,
-      allWithinLimits: breaches.length === 0
-    };
-  }
-
+  /**
+   * Simulates the portfolio over the horizon by compounding correlated daily returns of each
+   * holding (Cholesky factor of their covariance), optionally with Student-t fat tails.
+   */
   async runMonteCarloSimulation(
     portfolioId: string,
     numberOfSimulations: number,
-    timeHorizon: TimeHorizon
+    timeHorizon: TimeHorizon,
+    options: MonteCarloOptions = {}
   ): Promise<MonteCarloSimulation> {
     const portfolio = await this.portfolioRepository.findById(portfolioId);
     if (!portfolio) throw new Error('Portfolio not found');
 
+    const assets = await this.assetRepository.findByPortfolioId(portfolioId);
     const returns = await this.portfolioRepository.getReturns?.(portfolioId, timeHorizon) ||
                     this.generateReturns(portfolio, 30);
 
-    const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const stdDev = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length);
+    const model = await this.buildReturnModel(portfolio, assets, returns);
+    const lower = choleskyDecomposition(model.covariance);
+    const initialValue = Number(portfolio.currentValue);
+    // Whatever is not held in the modelled positions is cash and does not move
+    const cash = initialValue - model.exposures.reduce((sum, exposure) => sum + exposure, 0);
+    const days = this.getDaysFromHorizon(timeHorizon);
 
     const simResults: number[] = [];
+    const finalPositions: number[][] = [];
     const paths: any[] = [];
 
     for (let sim = 0; sim < numberOfSimulations; sim++) {
-      let value = Number(portfolio.currentValue);
+      const positions = [...model.exposures];
+      let value = initialValue;
       const path = [value];
 
       // Simulate daily returns for the time horizon
-      const days = this.getDaysFromHorizon(timeHorizon);
       for (let day = 0; day < days; day++) {
-        const randomReturn = avgReturn + stdDev * this.normalRandom();
-        value *= (1 + randomReturn);
+        const shocks = this.correlatedShocks(lower, options);
+        value = cash;
+        for (let i = 0; i < positions.length; i++) {
+          positions[i] = positions[i]! * (1 + model.means[i]! + shocks[i]!);
+          value += positions[i]!;
+        }
         path.push(value);
       }
 
       simResults.push(value);
+      finalPositions.push(positions);
 
       if (sim < 100) { // Store first 100 paths
         paths.push({
@@ -409,6 +734,24 @@ export class RiskAnalyticsService {
       }
     }
 
+    // Worst 5% of outcomes, attributed to the holdings that lost the most in them
+    const tail = simResults
+      .map((value, index) => ({ value, index }))
+      .sort((a, b) => a.value - b.value)
+      .slice(0, Math.max(1, Math.ceil(numberOfSimulations * 0.05)));
+    const tailContributions = this.toContributions(
+      model,
+      model.exposures.map((exposure, i) =>
+        tail.reduce((sum, outcome) => sum + exposure - finalPositions[outcome.index]![i]!, 0) / tail.length
+      )
+    );
+
+    const outcomeReturns = simResults.map(value => (value - initialValue) / initialValue);
+    const expectedReturn = outcomeReturns.reduce((a, b) => a + b, 0) / numberOfSimulations;
+    const expectedVolatility = Math.sqrt(
+      outcomeReturns.reduce((sum, r) => sum + Math.pow(r - expectedReturn, 2), 0) / numberOfSimulations
+    );
+
     simResults.sort((a, b) => a - b);
 
     const percentiles: Record<number, number> = {};
@@ -416,8 +759,7 @@ export class RiskAnalyticsService {
       percentiles[p] = simResults[Math.floor(simResults.length * p / 100)];
     });
 
-    const probabilityOfLoss = simResults.filter(v => v < Number(portfolio.currentValue)).length / numberOfSimulations;
-    const expectedReturn = (simResults.reduce((a, b) => a + b, 0) / numberOfSimulations - Number(portfolio.currentValue)) / Number(portfolio.currentValue);
+    const probabilityOfLoss = simResults.filter(v => v < initialValue).length / numberOfSimulations;
 
     return {
       portfolioId,
@@ -425,7 +767,7 @@ export class RiskAnalyticsService {
       timeHorizon,
       results: {
         expectedReturn,
-        expectedVolatility: stdDev * Math.sqrt(this.getDaysFromHorizon(timeHorizon)),
+        expectedVolatility,
         percentiles,
         probabilityOfLoss,
         probabilityOfTarget: 0.5,
@@ -441,7 +783,8 @@ export class RiskAnalyticsService {
           value: percentiles[50],
           probability: 0.5
         },
-        paths
+        paths,
+        tailContributions
       }
     };
   }
@@ -498,6 +841,106 @@ export class RiskAnalyticsService {
     };
   }
 
+  /**
+   * Measures a portfolio against its benchmark, with both cumulative return lines for charting.
+   */
+  async getBenchmarkComparison(
+    userId: string,
+    portfolioId: string,
+    days: number = BENCHMARK_HISTORY_DAYS
+  ): Promise<BenchmarkComparison> {
+    const portfolio = await this.getOwnedPortfolio(userId, portfolioId);
+
+    const [aligned, riskFreeRate] = await Promise.all([
+      this.alignWithBenchmark(portfolio, days),
+      this.marketDataService.getRiskFreeRate()
+    ]);
+
+    let portfolioGrowth = 1, benchmarkGrowth = 1;
+    const series = aligned.dates.map((date, i) => {
+      portfolioGrowth *= 1 + aligned.portfolio[i]!;
+      benchmarkGrowth *= 1 + aligned.benchmark[i]!;
+      return { date, portfolio: (portfolioGrowth - 1) * 100, benchmark: (benchmarkGrowth - 1) * 100 };
+    });
+
+    return {
+      portfolioId,
+      benchmarkSymbol: aligned.benchmarkSymbol,
+      ...calculateBenchmarkStatistics(aligned.portfolio, aligned.benchmark, riskFreeRate),
+      series
+    };
+  }
+
+  async setBenchmark(userId: string, portfolioId: string, benchmarkSymbol: string): Promise<BenchmarkComparison> {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio) throw new Error('Portfolio not found');
+    if (portfolio.userId !== userId) throw new Error('Access denied');
+
+    await this.portfolioRepository.update(portfolioId, { benchmarkSymbol });
+    return this.getBenchmarkComparison(userId, portfolioId);
+  }
+
+  /**
+   * Backtests the VaR forecasts stored for a portfolio against the change in its value over
+   * the following day, the period a stored VaR covers whatever window it was estimated from.
+   * Forecasts whose day overlaps the previous tested one are skipped, so one loss is not
+   * counted twice and the independence test sees a sequence.
+   */
+  async backtestVaR(userId: string, portfolioId: string, options: VaRBacktestOptions): Promise<VaRBacktest> {
+    await this.getOwnedPortfolio(userId, portfolioId);
+
+    const [forecasts, values] = await Promise.all([
+      this.riskMetricsRepository.getHistorical(portfolioId, options.startDate, options.endDate),
+      // Forecasts near the end of the period are realized after it
+      this.portfolioRepository.getHistoricalValues(portfolioId, options.startDate)
+    ]);
+
+    const history: VaRBacktestObservation[] = [];
+    let nextForecastAt = 0;
+
+    for (const forecast of forecasts) {
+      if (Math.abs(Number(forecast.confidenceLevel) - options.confidenceLevel) > 1e-6) continue;
+      if (options.timeHorizon && forecast.timeHorizon !== options.timeHorizon) continue;
+
+      const forecastAt = new Date(forecast.calculatedAt);
+      if (forecastAt.getTime() < nextForecastAt) continue;
+
+      const timeHorizon = forecast.timeHorizon as TimeHorizon;
+      const outcome = this.realizedProfitLoss(values, forecastAt, VAR_HORIZON_DAYS);
+      if (!outcome) continue;
+
+      const valueAtRisk = Number(forecast.valueAtRisk);
+      history.push({
+        forecastAt,
+        realizedAt: outcome.realizedAt,
+        timeHorizon,
+        valueAtRisk,
+        profitLoss: outcome.profitLoss,
+        violation: -outcome.profitLoss > valueAtRisk
+      });
+      nextForecastAt = outcome.realizedAt.getTime();
+    }
+
+    const hits = history.map(observation => observation.violation);
+    const violations = hits.filter(Boolean).length;
+    const kupiec = kupiecTest(history.length, violations, options.confidenceLevel);
+    const christoffersen = christoffersenTest(hits);
+
+    return {
+      portfolioId,
+      confidenceLevel: options.confidenceLevel,
+      period: { start: options.startDate, end: options.endDate },
+      observations: history.length,
+      violations,
+      expectedViolations: history.length * (1 - options.confidenceLevel),
+      violationRate: history.length > 0 ? violations / history.length : 0,
+      kupiecTest: kupiec,
+      christoffersenTest: christoffersen,
+      conditionalCoverageTest: toHypothesisTest(kupiec.statistic + christoffersen.statistic, 2),
+      history
+    };
+  }
+
   async generateRiskReport(input: RiskReportInput): Promise<any> {
     const portfolio = await this.portfolioRepository.findById(input.portfolioId);
     if (!portfolio) throw new Error('Portfolio not found');
@@ -510,6 +953,7 @@ export class RiskAnalyticsService {
                     });
 
     const positionRisks = await this.calculatePositionRisks(input.portfolioId);
+    const correlations = await this.calculateCorrelationMatrix(input.portfolioId);
 
     const historicalValues = await this.portfolioRepository.getHistoricalValues?.(
       input.portfolioId,
@@ -530,24 +974,35 @@ export class RiskAnalyticsService {
       }
     }
 
-    // VaR backtesting for regulatory reports
-    let varBacktest = null;
-    if (input.reportType === 'REGULATORY') {
-      const returns = await this.portfolioRepository.getReturns?.(input.portfolioId, '1M') ||
-                      this.generateReturns(portfolio, 100);
-      const violations = returns.filter(r => r < -metrics.valueAtRisk / Number(portfolio.currentValue)).length;
-      const expectedViolations = returns.length * (1 - 0.95);
-
-      varBacktest = {
-        violations,
-        expectedViolations,
-        kupiecTest: {
-          statistic: Math.abs(violations - expectedViolations),
-          pValue: 0.95,
-          passed: Math.abs(violations - expectedViolations) < expectedViolations * 0.5
-        }
-      };
-    }
+    let peak = historicalValues[0]?.value ?? 0;
+    const drawdownTrend = historicalValues.map((point: { date: Date; value: number }) => {
+      peak = Math.max(peak, point.value);
+      return { date: point.date, drawdown: peak > 0 ? ((peak - point.value) / peak) * 100 : 0 };
+    });
+
+    // Metrics stored over the period chart how VaR and volatility evolved
+    const storedMetrics = await this.riskMetricsRepository.getHistorical(
+      input.portfolioId,
+      new Date(input.startDate),
+      new Date(input.endDate)
+    ) || [];
+    const valueAtRiskTrend = storedMetrics.map(stored => ({
+      date: stored.calculatedAt,
+      valueAtRisk: Number(stored.valueAtRisk)
+    }));
+    const volatilityTrend = storedMetrics.map(stored => ({
+      date: stored.calculatedAt,
+      volatility: Number(stored.annualizedVolatility)
+    }));
+
+    // Regulatory reports backtest the stored VaR forecasts made during the period
+    const varBacktest = input.reportType === 'REGULATORY'
+      ? await this.backtestVaR(portfolio.userId, input.portfolioId, {
+          startDate: new Date(input.startDate),
+          endDate: new Date(input.endDate),
+          confidenceLevel: Number(metrics.confidenceLevel) || 0.95
+        })
+      : null;
 
     return {
       id: `report_${Date.now()}`,
@@ -567,16 +1022,13 @@ export class RiskAnalyticsService {
       metrics,
       positionRisks,
       stressTests: [],
-      correlations: {
-        assets: [],
-        matrix: [],
-        significantCorrelations: [],
-        clusterAnalysis: []
-      },
+      correlations,
       historicalAnalysis: {
         worstDay,
         bestDay,
-        volatilityTrend: [],
+        volatilityTrend,
+        valueAtRiskTrend,
+        drawdownTrend,
         varBacktest
       },
       riskAttribution: {
@@ -588,6 +1040,13 @@ export class RiskAnalyticsService {
     };
   }
 
+  // Another user's portfolio is reported as missing, so its id cannot be probed
+  private async getOwnedPortfolio(userId: string, portfolioId: string) {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio || portfolio.userId !== userId) throw new Error('Portfolio not found');
+    return portfolio;
+  }
+
   private generateReturns(portfolio: any, days: number): number[] {
     const returns: number[] = [];
     for (let i = 0; i < days; i++) {
@@ -596,6 +1055,26 @@ export class RiskAnalyticsService {
     return returns;
   }
 
+  // Change in value from the last snapshot at the forecast to the first one a horizon later
+  private realizedProfitLoss(
+    values: Array<{ date: Date; value: number }>,
+    forecastAt: Date,
+    horizonDays: number
+  ): { realizedAt: Date; profitLoss: number } | null {
+    let start: { date: Date; value: number } | undefined;
+    for (const point of values) {
+      if (point.date.getTime() > forecastAt.getTime()) break;
+      start = point;
+    }
+    if (!start) return null;
+
+    const realizeBy = start.date.getTime() + horizonDays * 24 * 60 * 60 * 1000;
+    const end = values.find(point => point.date.getTime() >= realizeBy);
+    if (!end) return null;
+
+    return { realizedAt: end.date, profitLoss: end.value - start.value };
+  }
+
   private async calculateDrawdown(portfolioId: string): Promise<{ maxDrawdown: number; currentDrawdown: number }> {
     const history = await this.portfolioRepository.getHistoricalValues?.(portfolioId, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), new Date()) || [];
 
@@ -620,11 +1099,222 @@ export class RiskAnalyticsService {
     return { maxDrawdown, currentDrawdown: Math.max(0, currentDrawdown) };
   }
 
-  private calculateBeta(returns: number[], marketReturn: number): number {
-    const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const covariance = returns.reduce((sum, r) => sum + (r - avgReturn) * (marketReturn - marketReturn), 0) / returns.length;
-    const marketVariance = Math.pow(marketReturn, 2);
-    return marketVariance > 0 ? covariance / marketVariance : 1;
+  // Daily returns of the portfolio's recorded value and of its benchmark over the same days
+  private async alignWithBenchmark(portfolio: any, days: number) {
+    const benchmarkSymbol: string = portfolio.benchmarkSymbol || DEFAULT_BENCHMARK_SYMBOL;
+    const [values, prices] = await Promise.all([
+      this.portfolioRepository.getHistoricalValues(portfolio.id, new Date(Date.now() - days * 24 * 60 * 60 * 1000)),
+      this.marketDataService.getHistoricalPrices(benchmarkSymbol, days)
+    ]);
+
+    const { dates, returns } = alignDailyReturnsByDate({
+      portfolio: (values || []).map(point => ({ date: point.date, price: point.value })),
+      benchmark: prices || []
+    });
+
+    return { benchmarkSymbol, dates, portfolio: returns['portfolio']!, benchmark: returns['benchmark']! };
+  }
+
+  /**
+   * Daily return model of the holdings from their price history. A portfolio without
+   * holdings is modelled as a single position following its own recorded returns.
+   */
+  private async buildReturnModel(portfolio: any, assets: any[], returns: number[]): Promise<ReturnModel> {
+    if (assets.length > 0) {
+      const symbols: string[] = [];
+      const exposures: number[] = [];
+      for (const asset of assets) {
+        symbols.push(asset.symbol);
+        exposures.push(Number(asset.marketValue || 0));
+      }
+
+      const statistics = await this.marketDataService.getReturnStatistics(symbols);
+      const means = symbols.map(symbol => {
+        const series = statistics.observations >= 2 ? statistics.returns[symbol] ?? [] : [];
+        return series.length > 0 ? series.reduce((a, b) => a + b, 0) / series.length : 0;
+      });
+
+      return { symbols, exposures, means, covariance: this.positionCovariance(symbols, statistics) };
+    }
+
+    const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+    const variance = returns.length > 1 ?
+      returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1) :
+      0;
+
+    return {
+      symbols: ['PORTFOLIO'],
+      exposures: [Number(portfolio.currentValue)],
+      means: [mean],
+      covariance: [[variance]]
+    };
+  }
+
+  // Variance-covariance VaR; contributions are component VaR and sum to the total
+  private parametricVaR(model: ReturnModel, confidenceLevel: number) {
+    const z = inverseNormalCdf(confidenceLevel);
+    const decomposition = decomposeVaR(model.exposures, model.covariance, z);
+    const expectedPnl = model.exposures.reduce((sum, exposure, i) => sum + exposure * model.means[i]!, 0);
+    const portfolioStdDev = z > 0 ? decomposition.portfolioVaR / z : 0;
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+
+    return {
+      valueAtRisk: Math.max(0, decomposition.portfolioVaR - expectedPnl),
+      conditionalVaR: Math.max(0, portfolioStdDev * density / (1 - confidenceLevel) - expectedPnl),
+      contributions: this.toContributions(
+        model,
+        decomposition.componentVaR.map((component, i) => component - model.exposures[i]! * model.means[i]!)
+      )
+    };
+  }
+
+  // One-day simulated VaR; contributions are each asset's average loss in the tail, summing to CVaR
+  private monteCarloVaR(model: ReturnModel, confidenceLevel: number, simulations: number, options: MonteCarloOptions) {
+    const lower = choleskyDecomposition(model.covariance);
+    const scenarios: Array<{ loss: number; assetLosses: number[] }> = [];
+
+    for (let sim = 0; sim < simulations; sim++) {
+      const shocks = this.correlatedShocks(lower, options);
+      const assetLosses = model.exposures.map((exposure, i) => -exposure * (model.means[i]! + shocks[i]!));
+      scenarios.push({ loss: assetLosses.reduce((a, b) => a + b, 0), assetLosses });
+    }
+
+    scenarios.sort((a, b) => b.loss - a.loss);
+    const tail = scenarios.slice(0, Math.max(1, Math.ceil(simulations * (1 - confidenceLevel))));
+    const conditionalVaR = tail.reduce((sum, scenario) => sum + scenario.loss, 0) / tail.length;
+
+    return {
+      valueAtRisk: Math.max(0, tail[tail.length - 1]!.loss),
+      conditionalVaR: Math.max(0, conditionalVaR),
+      contributions: this.toContributions(
+        model,
+        model.exposures.map((_, i) => tail.reduce((sum, scenario) => sum + scenario.assetLosses[i]!, 0) / tail.length)
+      )
+    };
+  }
+
+  /**
+   * One day of correlated return shocks. Student-t shocks divide the whole vector by one
+   * chi-squared draw, so assets crash together, and are rescaled to keep the same variance.
+   */
+  private correlatedShocks(lower: number[][], options: MonteCarloOptions): number[] {
+    const independent = lower.map(() => this.normalRandom());
+    let scale = 1;
+
+    if (options.distribution === 'STUDENT_T') {
+      const degreesOfFreedom = options.degreesOfFreedom ?? DEFAULT_DEGREES_OF_FREEDOM;
+      let chiSquared = 0;
+      for (let k = 0; k < degreesOfFreedom; k++) chiSquared += Math.pow(this.normalRandom(), 2);
+      scale = Math.sqrt((degreesOfFreedom - 2) / chiSquared);
+    }
+
+    return lower.map(row => row.reduce((sum, factor, k) => sum + factor * independent[k]!, 0) * scale);
+  }
+
+  private toContributions(model: ReturnModel, contributions: number[]): VaRContribution[] {
+    const total = contributions.reduce((a, b) => a + b, 0);
+
+    return model.symbols.map((symbol, i) => ({
+      symbol,
+      exposure: model.exposures[i]!,
+      contribution: contributions[i]!,
+      percentage: total !== 0 ? (contributions[i]! / total) * 100 : 0
+    }));
+  }
+
+  // Pushes correlations towards 1 (or 0 for a negative shock) and scales every volatility
+  private stressCovariance(covariance: number[][], correlationShock: number, volatilityMultiplier: number): number[][] {
+    const stdDevs = covariance.map((row, i) => Math.sqrt(Math.max(0, row[i]!)));
+
+    return covariance.map((row, i) =>
+      row.map((value, j) => {
+        if (i === j) return value * volatilityMultiplier ** 2;
+        const denominator = stdDevs[i]! * stdDevs[j]!;
+        if (denominator === 0) return 0;
+
+        const correlation = value / denominator;
+        const shocked = correlationShock >= 0 ?
+          correlation + correlationShock * (1 - correlation) :
+          correlation * (1 + correlationShock);
+        return Math.max(-1, Math.min(1, shocked)) * denominator * volatilityMultiplier ** 2;
+      })
+    );
+  }
+
+  // Flattens a symbol matrix into the `${a}-${b}` keyed record stored with risk metrics
+  private toPairRecord(symbols: string[], matrix: number[][], includeDiagonal: boolean): Record<string, number> {
+    const record: Record<string, number> = {};
+    symbols.forEach((first, i) => {
+      symbols.forEach((second, j) => {
+        if (i !== j || includeDiagonal) record[`${first}-${second}`] = matrix[i]![j]!;
+      });
+    });
+    return record;
+  }
+
+  // Covariance of the positions in order; without enough history each is assumed independent
+  private positionCovariance(symbols: string[], statistics: ReturnStatistics): number[][] {
+    const defaultVariance = Math.pow(DEFAULT_VOLATILITY, 2) / 252;
+
+    return symbols.map((first, i) =>
+      symbols.map((second, j) => {
+        const row = statistics.symbols.indexOf(first);
+        const column = statistics.symbols.indexOf(second);
+        if (statistics.observations < 2 || row < 0 || column < 0) {
+          return i === j ? defaultVariance : 0;
+        }
+        return statistics.covariance[row]![column]!;
+      })
+    );
+  }
+
+  // Two-tailed p-value of a correlation from n observations, via the Fisher transformation
+  private correlationPValue(correlation: number, observations: number): number {
+    if (observations < 4) return 1;
+    const bounded = Math.max(-0.999999, Math.min(0.999999, correlation));
+    const z = Math.abs(Math.atanh(bounded)) * Math.sqrt(observations - 3);
+    return 2 * (1 - normalCdf(z));
+  }
+
+  // Groups assets linked by correlations of at least CLUSTER_CORRELATION
+  private clusterByCorrelation(symbols: string[], correlation: number[][]): CorrelationMatrix['clusterAnalysis'] {
+    const visited = new Set<number>();
+    const clusters: CorrelationMatrix['clusterAnalysis'] = [];
+
+    for (let start = 0; start < symbols.length; start++) {
+      if (visited.has(start)) continue;
+
+      const members: number[] = [];
+      const queue = [start];
+      visited.add(start);
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        members.push(current);
+        for (let next = 0; next < symbols.length; next++) {
+          if (!visited.has(next) && correlation[current]![next]! >= CLUSTER_CORRELATION) {
+            visited.add(next);
+            queue.push(next);
+          }
+        }
+      }
+      if (members.length < 2) continue;
+
+      let total = 0, pairs = 0;
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          total += correlation[members[i]!]![members[j]!]!;
+          pairs++;
+        }
+      }
+
+      clusters.push({
+        clusterId: `cluster-${clusters.length + 1}`,
+        assets: members.sort((a, b) => a - b).map(index => symbols[index]!),
+        averageCorrelation: total / pairs
+      });
+    }
+
+    return clusters;
   }
 
   private calculateRiskScore(metrics: any): number {
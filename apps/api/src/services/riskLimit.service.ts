@@ -0,0 +1,266 @@
+import type {
+  PaginatedResult,
+  RiskBreachQuery,
+  RiskLimitBreach,
+  RiskLimitType,
+  RiskLimits,
+  RiskLimitsInput,
+  ServiceResult
+} from '@golden-palace/shared';
+import { RiskLimitRepository, type BreachMeasurement } from '../repositories/riskLimit.repository';
+import { RiskMetricsRepository } from '../repositories/riskMetrics.repository';
+import { PortfolioRepository } from '../repositories/portfolio.repository';
+import { AssetRepository } from '../repositories/asset.repository';
+import type { PortfolioNotifier } from '../websocket/portfolioNotifier';
+
+/**
+ * Measured values a limit can be checked against. Only the values present are checked,
+ * so a market update can re-check exposure without recalculating VaR.
+ */
+export interface RiskLimitValues {
+  maxDrawdown?: number; // Percent
+  valueAtRisk?: number;
+  volatility?: number; // Annualized, percent
+  sharpeRatio?: number;
+  concentration?: number; // Largest position, percent of portfolio value
+  leverage?: number;
+}
+
+// Either freshly calculated metrics or the latest stored row, whose numbers are Decimals
+interface MetricsSnapshot {
+  maxDrawdown: unknown;
+  valueAtRisk: unknown;
+  annualizedVolatility: unknown;
+  sharpeRatio: unknown;
+}
+
+export interface EvaluateOptions {
+  metrics?: MetricsSnapshot;
+  prices?: Record<string, number>;
+}
+
+type LimitThresholds = Pick<RiskLimits, RiskLimitType>;
+
+const LIMIT_CHECKS: Array<{ limitType: RiskLimitType; value: keyof RiskLimitValues; minimum?: boolean }> = [
+  { limitType: 'maxDrawdown', value: 'maxDrawdown' },
+  { limitType: 'maxVaR', value: 'valueAtRisk' },
+  { limitType: 'maxVolatility', value: 'volatility' },
+  { limitType: 'minSharpeRatio', value: 'sharpeRatio', minimum: true },
+  { limitType: 'maxConcentration', value: 'concentration' },
+  { limitType: 'maxLeverage', value: 'leverage' }
+];
+
+/**
+ * Compares measured values with a portfolio's limits and describes each one breached.
+ */
+export function findLimitBreaches(limits: LimitThresholds, values: RiskLimitValues): BreachMeasurement[] {
+  const breaches: BreachMeasurement[] = [];
+
+  for (const check of LIMIT_CHECKS) {
+    const currentValue = values[check.value];
+    const limitValue = limits[check.limitType];
+    if (currentValue === undefined || !Number.isFinite(currentValue)) continue;
+
+    const breachAmount = check.minimum ? limitValue - currentValue : currentValue - limitValue;
+    if (breachAmount <= 0) continue;
+
+    breaches.push({
+      limitType: check.limitType,
+      currentValue,
+      limitValue,
+      breachAmount,
+      breachPercentage: limitValue !== 0 ? (breachAmount / Math.abs(limitValue)) * 100 : 0
+    });
+  }
+
+  return breaches;
+}
+
+/**
+ * Stores one set of risk limits per portfolio and keeps a breach history for it. Limits are
+ * re-evaluated after every risk calculation and market update: a new breach is opened (and
+ * pushed to the portfolio room) the first time a limit is crossed, kept up to date while it
+ * lasts, and resolved once the value is back within the limit.
+ */
+export class RiskLimitService {
+  constructor(
+    private riskLimitRepository: RiskLimitRepository,
+    private riskMetricsRepository: RiskMetricsRepository,
+    private portfolioRepository: PortfolioRepository,
+    private assetRepository: AssetRepository,
+    private notifier?: PortfolioNotifier
+  ) {}
+
+  async setLimits(userId: string, input: RiskLimitsInput): Promise<ServiceResult<RiskLimits>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, input.portfolioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const { portfolioId, ...data } = input;
+      await this.riskLimitRepository.upsert(portfolioId, data);
+
+      // Surface breaches of the new limits straight away rather than on the next update
+      await this.evaluate(portfolioId);
+
+      const limits = await this.riskLimitRepository.findByPortfolioId(portfolioId);
+      return { success: true, data: limits! };
+    } catch (error) {
+      return { success: false, error: 'Failed to set risk limits' };
+    }
+  }
+
+  async getLimits(userId: string, portfolioId: string): Promise<ServiceResult<RiskLimits | null>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      return { success: true, data: await this.riskLimitRepository.findByPortfolioId(portfolioId) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get risk limits' };
+    }
+  }
+
+  async getOpenBreaches(
+    userId: string,
+    portfolioId: string
+  ): Promise<ServiceResult<{ breaches: RiskLimitBreach[]; allWithinLimits: boolean }>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const limits = await this.riskLimitRepository.findByPortfolioId(portfolioId);
+      const breaches = limits?.active ? limits.breaches : [];
+
+      return { success: true, data: { breaches, allWithinLimits: breaches.length === 0 } };
+    } catch (error) {
+      return { success: false, error: 'Failed to check risk breaches' };
+    }
+  }
+
+  async getBreachHistory(
+    userId: string,
+    portfolioId: string,
+    query: RiskBreachQuery
+  ): Promise<ServiceResult<PaginatedResult<RiskLimitBreach>>> {
+    try {
+      const access = await this.getOwnedPortfolio(userId, portfolioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      return { success: true, data: await this.riskLimitRepository.findBreaches(portfolioId, query) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get breach history' };
+    }
+  }
+
+  /**
+   * Checks a portfolio's active limits and returns the breaches this call opened. Without
+   * metrics the latest stored ones are used; prices override the stored asset prices.
+   */
+  async evaluate(portfolioId: string, options: EvaluateOptions = {}): Promise<RiskLimitBreach[]> {
+    const limits = await this.riskLimitRepository.findByPortfolioId(portfolioId);
+    if (!limits || !limits.active) {
+      return [];
+    }
+
+    const values = await this.collectValues(portfolioId, options);
+    const measured = findLimitBreaches(limits, values);
+    const opened: RiskLimitBreach[] = [];
+
+    for (const measurement of measured) {
+      const open = limits.breaches.find(breach => breach.limitType === measurement.limitType);
+      if (open) {
+        await this.riskLimitRepository.updateBreach(open.id, measurement);
+        continue;
+      }
+
+      const breach = await this.riskLimitRepository.createBreach(limits.id, portfolioId, measurement);
+      opened.push(breach);
+      this.notifier?.emitToPortfolio(portfolioId, 'risk:breach', { portfolioId, breach });
+    }
+
+    // Only limits that were measured this time can be declared back within bounds
+    const checkedTypes = new Set(
+      LIMIT_CHECKS.filter(check => values[check.value] !== undefined).map(check => check.limitType)
+    );
+    for (const open of limits.breaches) {
+      if (!checkedTypes.has(open.limitType)) continue;
+      if (measured.some(measurement => measurement.limitType === open.limitType)) continue;
+
+      const breach = await this.riskLimitRepository.resolveBreach(open.id);
+      this.notifier?.emitToPortfolio(portfolioId, 'risk:breach:resolved', { portfolioId, breach });
+    }
+
+    return opened;
+  }
+
+  /**
+   * Re-checks every portfolio with active limits that holds one of the quoted symbols.
+   */
+  async evaluateMarketUpdate(prices: Record<string, number>): Promise<void> {
+    const symbols = Object.keys(prices);
+    if (symbols.length === 0) return;
+
+    const portfolioIds = await this.riskLimitRepository.findActivePortfolioIdsBySymbols(symbols);
+    for (const portfolioId of portfolioIds) {
+      try {
+        await this.evaluate(portfolioId, { prices });
+      } catch (error) {
+        console.error(`[RiskLimitService] Failed to evaluate limits for portfolio ${portfolioId}:`, error);
+      }
+    }
+  }
+
+  private async getOwnedPortfolio(userId: string, portfolioId: string) {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    if (!portfolio) {
+      return { success: false as const, error: 'Portfolio not found' };
+    }
+    if (portfolio.userId !== userId) {
+      return { success: false as const, error: 'Access denied' };
+    }
+    return { success: true as const, data: portfolio };
+  }
+
+  private async collectValues(portfolioId: string, options: EvaluateOptions): Promise<RiskLimitValues> {
+    const values: RiskLimitValues = {};
+
+    const metrics = options.metrics ?? await this.riskMetricsRepository.findLatest(portfolioId);
+    if (metrics) {
+      values.maxDrawdown = Number(metrics.maxDrawdown);
+      values.valueAtRisk = Number(metrics.valueAtRisk);
+      values.volatility = Number(metrics.annualizedVolatility) * 100;
+      values.sharpeRatio = Number(metrics.sharpeRatio);
+    }
+
+    const [portfolio, assets] = await Promise.all([
+      this.portfolioRepository.findById(portfolioId),
+      this.assetRepository.findByPortfolioId(portfolioId)
+    ]);
+    if (!portfolio || assets.length === 0) {
+      return values;
+    }
+
+    const positionValues: number[] = [];
+    for (const asset of assets) {
+      const price = options.prices?.[asset.symbol] ?? Number(asset.currentPrice ?? asset.averageCost);
+      positionValues.push(Number(asset.quantity) * price);
+    }
+    const holdingsValue = positionValues.reduce((sum, value) => sum + value, 0);
+    const equity = Number(portfolio.cashBalance) + holdingsValue;
+
+    if (equity > 0) {
+      values.concentration = (Math.max(...positionValues) / equity) * 100;
+      values.leverage = holdingsValue / equity;
+    }
+
+    return values;
+  }
+}
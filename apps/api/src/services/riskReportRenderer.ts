@@ -0,0 +1,263 @@
+import PDFDocument from 'pdfkit';
+import type { HypothesisTest, RiskReport } from '@golden-palace/shared';
+
+const PAGE_MARGIN = 50;
+const CHART_HEIGHT = 140;
+const ROW_HEIGHT = 16;
+const MAX_POSITION_ROWS = 25;
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+// Stored metrics come back as Prisma Decimals, freshly calculated ones as numbers
+const toNumber = (value: unknown): number => Number(value ?? 0);
+
+const formatCurrency = (value: unknown): string => currency.format(toNumber(value));
+const formatPercent = (value: unknown): string => `${toNumber(value).toFixed(2)}%`;
+const formatFraction = (value: unknown): string => `${(toNumber(value) * 100).toFixed(2)}%`;
+const formatRatio = (value: unknown): string => toNumber(value).toFixed(2);
+const formatDate = (value: Date | string): string => new Date(value).toISOString().slice(0, 10);
+
+/**
+ * Flattens a risk report into `field,value` rows, one per scalar, with dotted paths such as
+ * `positionRisks.AAPL.componentVaR`. Array items are keyed by symbol where they have one.
+ */
+export function renderRiskReportCsv(report: RiskReport): string {
+  const rows: Array<[string, string]> = [];
+
+  const visit = (path: string, value: unknown): void => {
+    if (value === null || value === undefined) return;
+
+    if (value instanceof Date) {
+      rows.push([path, value.toISOString()]);
+    } else if (typeof value === 'object' && typeof (value as { toNumber?: unknown }).toNumber === 'function') {
+      rows.push([path, String(Number(value))]);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const key = typeof item?.symbol === 'string' ? item.symbol : String(index);
+        visit(`${path}.${key}`, item);
+      });
+    } else if (typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        visit(path ? `${path}.${key}` : key, child);
+      }
+    } else {
+      rows.push([path, String(value)]);
+    }
+  };
+
+  // Chart images only make sense in the PDF
+  visit('', { ...report, charts: undefined });
+
+  return [['field', 'value'], ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Lays out a risk report as a PDF: executive summary, metrics table, VaR and drawdown charts,
+ * the position risk breakdown and, for regulatory reports, the VaR backtest. The returned
+ * document has been ended and only needs piping to its destination.
+ */
+export function renderRiskReportPdf(report: RiskReport): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, info: { Title: `Risk Report ${report.id}` } });
+  const { metrics, historicalAnalysis } = report;
+
+  doc.font('Helvetica-Bold').fontSize(20).text(`${titleCase(report.reportType)} Risk Report`);
+  doc.font('Helvetica').fontSize(10).fillColor('#555555')
+    .text(`Portfolio ${report.portfolioId}`)
+    .text(`Period ${formatDate(report.period.start)} to ${formatDate(report.period.end)}`)
+    .text(`Generated ${new Date(report.generatedAt).toISOString()}`)
+    .fillColor('black');
+
+  sectionHeading(doc, 'Executive Summary');
+  doc.font('Helvetica').fontSize(10)
+    .text(`Overall risk level: ${report.executiveSummary.overallRiskLevel ?? 'N/A'} (score ${formatRatio(report.executiveSummary.riskScore)})`);
+  bulletList(doc, 'Key risks', report.executiveSummary.keyRisks);
+  bulletList(doc, 'Recommendations', report.executiveSummary.recommendations);
+
+  sectionHeading(doc, 'Risk Metrics');
+  drawTable(doc, ['Metric', 'Value'], [
+    ['Value at Risk', formatCurrency(metrics.valueAtRisk)],
+    ['Conditional VaR', formatCurrency(metrics.conditionalVaR)],
+    ['Expected Shortfall', formatCurrency(metrics.expectedShortfall)],
+    ['Confidence Level', formatFraction(metrics.confidenceLevel)],
+    ['Volatility (annualized)', formatFraction(metrics.annualizedVolatility)],
+    ['Sharpe Ratio', formatRatio(metrics.sharpeRatio)],
+    ['Sortino Ratio', formatRatio(metrics.sortinoRatio)],
+    ['Beta', formatRatio(metrics.beta)],
+    ['Tracking Error', formatFraction(metrics.trackingError)],
+    ['Information Ratio', formatRatio(metrics.informationRatio)],
+    ['Max Drawdown', formatPercent(metrics.maxDrawdown)],
+    ['Current Drawdown', formatPercent(metrics.currentDrawdown)]
+  ], [250, 150]);
+
+  sectionHeading(doc, 'Value at Risk');
+  drawLineChart(
+    doc,
+    historicalAnalysis.valueAtRiskTrend.map(point => ({ date: point.date, value: toNumber(point.valueAtRisk) })),
+    { color: '#ea580c', format: formatCurrency }
+  );
+
+  sectionHeading(doc, 'Drawdown');
+  drawLineChart(
+    doc,
+    // Plotted below zero so the chart reads as a fall from the peak
+    historicalAnalysis.drawdownTrend.map(point => ({ date: point.date, value: -point.drawdown })),
+    { color: '#dc2626', format: formatPercent, fill: true }
+  );
+
+  sectionHeading(doc, 'Position Risk Breakdown');
+  const totalComponentVaR = report.positionRisks.reduce((sum, position) => sum + toNumber(position.componentVaR), 0);
+  if (report.positionRisks.length === 0) {
+    emptyNote(doc, 'The portfolio holds no positions.');
+  } else {
+    drawTable(
+      doc,
+      ['Symbol', 'Exposure', 'Weight', 'Individual VaR', 'Component VaR', 'Share of VaR'],
+      report.positionRisks.slice(0, MAX_POSITION_ROWS).map(position => [
+        position.symbol,
+        formatCurrency(position.exposure),
+        formatPercent(position.percentageOfPortfolio),
+        formatCurrency(position.individualVaR),
+        formatCurrency(position.componentVaR),
+        formatPercent(totalComponentVaR !== 0 ? (toNumber(position.componentVaR) / totalComponentVaR) * 100 : 0)
+      ]),
+      [70, 90, 60, 90, 90, 80]
+    );
+    if (report.positionRisks.length > MAX_POSITION_ROWS) {
+      emptyNote(doc, `+${report.positionRisks.length - MAX_POSITION_ROWS} more positions in the CSV export.`);
+    }
+  }
+
+  const backtest = historicalAnalysis.varBacktest;
+  if (backtest) {
+    sectionHeading(doc, 'VaR Backtest');
+    doc.font('Helvetica').fontSize(10).text(
+      `${backtest.violations} violations in ${backtest.observations} forecasts ` +
+      `(${backtest.expectedViolations.toFixed(1)} expected at ${formatFraction(backtest.confidenceLevel)} confidence)`
+    );
+    doc.moveDown(0.5);
+    const tests: Array<[string, HypothesisTest]> = [
+      ['Kupiec proportion of failures', backtest.kupiecTest],
+      ['Christoffersen independence', backtest.christoffersenTest],
+      ['Conditional coverage', backtest.conditionalCoverageTest]
+    ];
+    drawTable(
+      doc,
+      ['Test', 'LR statistic', 'p-value', 'Result'],
+      tests.map(([label, test]) => [label, test.statistic.toFixed(3), test.pValue.toFixed(3), test.passed ? 'Pass' : 'Reject']),
+      [200, 90, 80, 80]
+    );
+  }
+
+  doc.end();
+  return doc;
+}
+
+// Quotes cells that need it and defuses spreadsheet formulas in text cells
+function escapeCsvCell(cell: string): string {
+  const safe = /^[=+\-@\t\r]/.test(cell) && Number.isNaN(Number(cell)) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function titleCase(value: string): string {
+  return value.charAt(0) + value.slice(1).toLowerCase();
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+// Starts a new page when the next block would run past the bottom margin
+function ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function sectionHeading(doc: PDFKit.PDFDocument, title: string): void {
+  ensureSpace(doc, 60);
+  doc.moveDown(1);
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('black').text(title, PAGE_MARGIN);
+  doc.moveDown(0.4);
+}
+
+function emptyNote(doc: PDFKit.PDFDocument, note: string): void {
+  doc.font('Helvetica-Oblique').fontSize(9).fillColor('#777777').text(note, PAGE_MARGIN).fillColor('black');
+}
+
+function bulletList(doc: PDFKit.PDFDocument, label: string, items: string[]): void {
+  if (items.length === 0) return;
+  doc.moveDown(0.4);
+  doc.font('Helvetica-Bold').fontSize(10).text(label);
+  doc.font('Helvetica').list(items, { bulletRadius: 1.5 });
+}
+
+function drawTable(doc: PDFKit.PDFDocument, headers: string[], rows: string[][], widths: number[]): void {
+  const drawRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, ROW_HEIGHT);
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    cells.forEach((cell, index) => {
+      doc.text(cell, x + 2, y + 4, { width: widths[index]! - 4, lineBreak: false, ellipsis: true });
+      x += widths[index]!;
+    });
+    doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(x, y + ROW_HEIGHT).lineWidth(0.5).strokeColor('#dddddd').stroke();
+    doc.x = PAGE_MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+}
+
+function drawLineChart(
+  doc: PDFKit.PDFDocument,
+  points: Array<{ date: Date; value: number }>,
+  options: { color: string; format: (value: number) => string; fill?: boolean }
+): void {
+  if (points.length < 2) {
+    emptyNote(doc, 'Not enough history in this period to chart.');
+    return;
+  }
+
+  ensureSpace(doc, CHART_HEIGHT + 30);
+  const left = PAGE_MARGIN + 60;
+  const top = doc.y;
+  const width = contentWidth(doc) - 60;
+  const bottom = top + CHART_HEIGHT;
+
+  const values = points.map(point => point.value);
+  const min = Math.min(0, ...values);
+  let max = Math.max(0, ...values);
+  if (max === min) max = min + 1;
+  const range = max - min;
+
+  const xAt = (index: number) => left + (index / (points.length - 1)) * width;
+  const yAt = (value: number) => bottom - ((value - min) / range) * CHART_HEIGHT;
+
+  // Axes, the zero line and the value range
+  doc.lineWidth(0.5).strokeColor('#999999')
+    .moveTo(left, top).lineTo(left, bottom).lineTo(left + width, bottom).stroke();
+  if (min < 0 && max > 0) {
+    doc.strokeColor('#cccccc').moveTo(left, yAt(0)).lineTo(left + width, yAt(0)).stroke();
+  }
+  doc.font('Helvetica').fontSize(8).fillColor('#555555')
+    .text(options.format(max), PAGE_MARGIN, top - 4, { width: 56, align: 'right' })
+    .text(options.format(min), PAGE_MARGIN, bottom - 4, { width: 56, align: 'right' })
+    .text(formatDate(points[0]!.date), left, bottom + 4)
+    .text(formatDate(points[points.length - 1]!.date), left + width - 60, bottom + 4, { width: 60, align: 'right' });
+
+  if (options.fill) {
+    doc.moveTo(xAt(0), yAt(0));
+    points.forEach((point, index) => doc.lineTo(xAt(index), yAt(point.value)));
+    doc.lineTo(xAt(points.length - 1), yAt(0)).closePath().fillOpacity(0.2).fill(options.color).fillOpacity(1);
+  }
+
+  doc.moveTo(xAt(0), yAt(points[0]!.value));
+  points.slice(1).forEach((point, index) => doc.lineTo(xAt(index + 1), yAt(point.value)));
+  doc.lineWidth(1.5).strokeColor(options.color).stroke();
+
+  doc.fillColor('black').strokeColor('black');
+  doc.x = PAGE_MARGIN;
+  doc.y = bottom + 20;
+}
@@ -0,0 +1,634 @@
+import type {
+  ServiceResult,
+  CopySettings,
+  TraderProfile,
+  TraderDetails,
+  TraderTimeframe,
+  TraderSummary,
+  FollowedTrader,
+  FollowStatus,
+  TopTradersQuery,
+  SocialFeedQuery,
+  SocialPostType,
+  SocialPostWithDetails,
+  PostCommentWithDetails,
+  CreateSocialPostInput,
+  RateTraderInput,
+  TraderRatingWithDetails,
+  TraderRatingSummary
+} from '@golden-palace/shared';
+import { copySettingsSchema, DEFAULT_COPY_SETTINGS } from '@golden-palace/shared';
+import {
+  SocialTradingRepository,
+  type TraderRecord,
+  type ClosedPositionRecord,
+  type RatingAggregate
+} from '../repositories/socialTrading.repository';
+
+const TIMEFRAME_DAYS: Record<TraderTimeframe, number> = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+const TRADE_POST_TYPES: SocialPostType[] = ['trade_opened', 'trade_closed'];
+const INSIGHT_POST_TYPES: SocialPostType[] = ['market_insight', 'strategy_update'];
+
+export class SocialTradingService {
+  constructor(private socialTradingRepository: SocialTradingRepository) {}
+
+  // ===================
+  // TRADER DISCOVERY
+  // ===================
+
+  async getTopTraders(viewerId: string, query: TopTradersQuery): Promise<ServiceResult<TraderProfile[]>> {
+    try {
+      // Over-fetch so that filters applied on computed metrics still leave enough traders
+      const candidates = await this.socialTradingRepository.findTraderCandidates(
+        query.sortBy,
+        Math.min(query.limit * 5, 200)
+      );
+
+      const profiles = await this.buildProfiles(candidates, viewerId, this.getTimeframeStart(query.timeframe));
+      const { filters } = query;
+
+      const ranked = profiles
+        .filter(profile => {
+          if (!filters) return true;
+          if (filters.minRoi !== undefined && profile.performance.roi < filters.minRoi) return false;
+          if (filters.minWinRate !== undefined && profile.performance.winRate < filters.minWinRate) return false;
+          if (filters.minFollowers !== undefined && profile.followerCount < filters.minFollowers) return false;
+          if (filters.category && !this.matchesCategory(profile, filters.category)) return false;
+          return true;
+        })
+        .sort((a, b) => this.getSortValue(b, query.sortBy) - this.getSortValue(a, query.sortBy));
+
+      const total = ranked.length;
+      const traders = ranked.slice(0, query.limit).map((profile, index) => ({
+        ...profile,
+        ranking: {
+          overall: index + 1,
+          category: query.sortBy,
+          percentile: Math.round(((total - index) / total) * 100),
+        },
+      }));
+
+      return { success: true, data: traders };
+    } catch (error) {
+      return { success: false, error: 'Failed to get top traders' };
+    }
+  }
+
+  async searchTraders(viewerId: string, query: string): Promise<ServiceResult<TraderProfile[]>> {
+    try {
+      const term = query.trim();
+      if (term.length < 2) {
+        return { success: false, error: 'Search query must be at least 2 characters' };
+      }
+
+      const traders = await this.socialTradingRepository.searchTraders(term, 20);
+      const profiles = await this.buildProfiles(traders, viewerId);
+
+      return { success: true, data: profiles };
+    } catch (error) {
+      return { success: false, error: 'Failed to search traders' };
+    }
+  }
+
+  async getTraderDetails(viewerId: string, traderId: string): Promise<ServiceResult<TraderDetails>> {
+    try {
+      const trader = await this.socialTradingRepository.findTraderById(traderId);
+      if (!trader) {
+        return { success: false, error: 'Trader not found' };
+      }
+
+      const [[profile], positions] = await Promise.all([
+        this.buildProfiles([trader], viewerId),
+        this.socialTradingRepository.findRecentPositions(traderId, 10),
+      ]);
+
+      const recentTrades = positions.map(position => ({
+        id: position.id,
+        traderId: position.userId,
+        symbol: position.symbol,
+        side: position.side,
+        quantity: position.quantity,
+        price: position.closedPrice ?? position.entryPrice,
+        timestamp: position.closedAt ?? position.openedAt,
+        status: position.status === 'OPEN' ? 'open' as const : 'closed' as const,
+        pnl: position.pnl,
+      }));
+
+      return { success: true, data: { ...profile!, recentTrades } };
+    } catch (error) {
+      return { success: false, error: 'Failed to get trader details' };
+    }
+  }
+
+  async getFollowers(traderId: string): Promise<ServiceResult<TraderSummary[]>> {
+    try {
+      const followers = await this.socialTradingRepository.findFollowers(traderId);
+      return { success: true, data: followers };
+    } catch (error) {
+      return { success: false, error: 'Failed to get followers' };
+    }
+  }
+
+  async getFollowing(userId: string): Promise<ServiceResult<TraderSummary[]>> {
+    try {
+      const following = await this.socialTradingRepository.findFollowing(userId);
+      return { success: true, data: following };
+    } catch (error) {
+      return { success: false, error: 'Failed to get followed traders' };
+    }
+  }
+
+  // ===================
+  // FOLLOW GRAPH
+  // ===================
+
+  async followTrader(
+    userId: string,
+    traderId: string,
+    settings?: Partial<CopySettings>
+  ): Promise<ServiceResult<FollowedTrader>> {
+    try {
+      if (userId === traderId) {
+        return { success: false, error: 'You cannot follow yourself' };
+      }
+
+      const trader = await this.socialTradingRepository.findTraderById(traderId);
+      if (!trader) {
+        return { success: false, error: 'Trader not found' };
+      }
+
+      const existing = await this.socialTradingRepository.findFollow(userId, traderId);
+      if (existing) {
+        return { success: false, error: 'Already following this trader' };
+      }
+
+      const copySettings = { ...DEFAULT_COPY_SETTINGS, ...settings };
+      const follow = await this.socialTradingRepository.createFollow(userId, traderId, copySettings);
+
+      // Re-read the trader so the follower count includes this follow
+      const updatedTrader = (await this.socialTradingRepository.findTraderById(traderId)) ?? trader;
+      const [profile] = await this.buildProfiles([updatedTrader], userId);
+
+      return {
+        success: true,
+        data: {
+          traderId,
+          trader: profile!,
+          settings: copySettings,
+          followedDate: follow.createdAt,
+          status: follow.status,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to follow trader' };
+    }
+  }
+
+  async unfollowTrader(userId: string, traderId: string): Promise<ServiceResult<void>> {
+    try {
+      const deleted = await this.socialTradingRepository.deleteFollow(userId, traderId);
+      if (!deleted) {
+        return { success: false, error: 'Not following this trader' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to unfollow trader' };
+    }
+  }
+
+  async updateCopySettings(
+    userId: string,
+    traderId: string,
+    settings: Partial<CopySettings>
+  ): Promise<ServiceResult<CopySettings>> {
+    try {
+      const follow = await this.socialTradingRepository.findFollow(userId, traderId);
+      if (!follow) {
+        return { success: false, error: 'Not following this trader' };
+      }
+
+      // Validate the merged settings so cross-field rules see the full picture
+      const merged = copySettingsSchema.safeParse({
+        ...DEFAULT_COPY_SETTINGS,
+        ...follow.copySettings,
+        ...settings,
+      });
+      if (!merged.success) {
+        return { success: false, error: merged.error.errors[0]?.message || 'Invalid copy settings' };
+      }
+
+      await this.socialTradingRepository.updateFollow(userId, traderId, { copySettings: merged.data });
+      return { success: true, data: merged.data };
+    } catch (error) {
+      return { success: false, error: 'Failed to update copy settings' };
+    }
+  }
+
+  /**
+   * Pauses or resumes copying a followed trader. Paused follows keep their settings
+   * and existing copies, but new leader positions are not mirrored.
+   */
+  async setFollowStatus(
+    userId: string,
+    traderId: string,
+    status: FollowStatus
+  ): Promise<ServiceResult<{ status: FollowStatus }>> {
+    try {
+      const follow = await this.socialTradingRepository.findFollow(userId, traderId);
+      if (!follow) {
+        return { success: false, error: 'Not following this trader' };
+      }
+
+      if (follow.status !== status) {
+        await this.socialTradingRepository.updateFollow(userId, traderId, { status });
+      }
+
+      return { success: true, data: { status } };
+    } catch (error) {
+      return { success: false, error: 'Failed to update follow status' };
+    }
+  }
+
+  async getFollowedTraders(userId: string): Promise<ServiceResult<FollowedTrader[]>> {
+    try {
+      const follows = await this.socialTradingRepository.findFollowsByFollower(userId);
+      const traders = await this.socialTradingRepository.findTradersByIds(
+        follows.map(follow => follow.traderId)
+      );
+      const profiles = await this.buildProfiles(traders, userId);
+      const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+
+      const followed = follows
+        .filter(follow => profilesById.has(follow.traderId))
+        .map(follow => ({
+          traderId: follow.traderId,
+          trader: profilesById.get(follow.traderId)!,
+          settings: { ...DEFAULT_COPY_SETTINGS, ...follow.copySettings },
+          followedDate: follow.createdAt,
+          status: follow.status,
+        }));
+
+      return { success: true, data: followed };
+    } catch (error) {
+      return { success: false, error: 'Failed to get followed traders' };
+    }
+  }
+
+  // ===================
+  // SOCIAL FEED
+  // ===================
+
+  async getFeed(userId: string, query: SocialFeedQuery): Promise<ServiceResult<SocialPostWithDetails[]>> {
+    try {
+      let userIds: string[] | undefined;
+      let types: SocialPostType[] | undefined;
+
+      if (query.filter === 'following') {
+        const followed = await this.socialTradingRepository.findFollowedTraderIds(userId);
+        userIds = [userId, ...followed];
+      } else if (query.filter === 'trades') {
+        types = TRADE_POST_TYPES;
+      } else if (query.filter === 'insights') {
+        types = INSIGHT_POST_TYPES;
+      }
+
+      const posts = await this.socialTradingRepository.findFeed({
+        viewerId: userId,
+        ...(userIds && { userIds }),
+        ...(types && { types }),
+        offset: query.offset,
+        limit: query.limit,
+      });
+
+      return { success: true, data: posts };
+    } catch (error) {
+      return { success: false, error: 'Failed to get social feed' };
+    }
+  }
+
+  async createPost(userId: string, input: CreateSocialPostInput): Promise<ServiceResult<SocialPostWithDetails>> {
+    try {
+      if (TRADE_POST_TYPES.includes(input.type) && !input.symbol) {
+        return { success: false, error: 'Trade posts must include a symbol' };
+      }
+
+      const post = await this.socialTradingRepository.createPost({
+        userId,
+        type: input.type,
+        ...(input.comment && { content: input.comment.trim() }),
+        ...(input.symbol && { symbol: input.symbol }),
+        ...(input.side && { side: input.side }),
+        ...(input.quantity !== undefined && { quantity: input.quantity }),
+        ...(input.price !== undefined && { price: input.price }),
+        ...(input.pnl !== undefined && { pnl: input.pnl }),
+        ...(input.tags && { tags: input.tags }),
+      });
+
+      return { success: true, data: post };
+    } catch (error) {
+      return { success: false, error: 'Failed to create post' };
+    }
+  }
+
+  async deletePost(userId: string, postId: string): Promise<ServiceResult<void>> {
+    try {
+      const post = await this.socialTradingRepository.findPostById(postId, userId);
+      if (!post) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      if (post.userId !== userId) {
+        return { success: false, error: 'Only the post author can delete it' };
+      }
+
+      await this.socialTradingRepository.deletePost(postId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete post' };
+    }
+  }
+
+  async likePost(userId: string, postId: string): Promise<ServiceResult<{ likesCount: number }>> {
+    try {
+      const post = await this.socialTradingRepository.findPostById(postId, userId);
+      if (!post) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      const likesCount = await this.socialTradingRepository.likePost(postId, userId);
+      return { success: true, data: { likesCount } };
+    } catch (error) {
+      return { success: false, error: 'Failed to like post' };
+    }
+  }
+
+  async unlikePost(userId: string, postId: string): Promise<ServiceResult<{ likesCount: number }>> {
+    try {
+      const post = await this.socialTradingRepository.findPostById(postId, userId);
+      if (!post) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      const likesCount = await this.socialTradingRepository.unlikePost(postId, userId);
+      return { success: true, data: { likesCount } };
+    } catch (error) {
+      return { success: false, error: 'Failed to unlike post' };
+    }
+  }
+
+  async commentOnPost(
+    userId: string,
+    postId: string,
+    content: string
+  ): Promise<ServiceResult<{ comment: PostCommentWithDetails }>> {
+    try {
+      const post = await this.socialTradingRepository.findPostById(postId, userId);
+      if (!post) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      const comment = await this.socialTradingRepository.createComment(postId, userId, content);
+      return { success: true, data: { comment } };
+    } catch (error) {
+      return { success: false, error: 'Failed to comment on post' };
+    }
+  }
+
+  async getComments(
+    userId: string,
+    postId: string,
+    offset = 0,
+    limit = 50
+  ): Promise<ServiceResult<PostCommentWithDetails[]>> {
+    try {
+      const post = await this.socialTradingRepository.findPostById(postId, userId);
+      if (!post) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      const comments = await this.socialTradingRepository.findComments(postId, offset, limit);
+      return { success: true, data: comments };
+    } catch (error) {
+      return { success: false, error: 'Failed to get comments' };
+    }
+  }
+
+  // ===================
+  // RATINGS
+  // ===================
+
+  async rateTrader(
+    userId: string,
+    traderId: string,
+    input: RateTraderInput
+  ): Promise<ServiceResult<{ rating: TraderRatingWithDetails }>> {
+    try {
+      if (userId === traderId) {
+        return { success: false, error: 'You cannot rate yourself' };
+      }
+
+      const trader = await this.socialTradingRepository.findTraderById(traderId);
+      if (!trader) {
+        return { success: false, error: 'Trader not found' };
+      }
+
+      const rating = await this.socialTradingRepository.upsertRating({
+        traderId,
+        reviewerId: userId,
+        overall: input.overall,
+        performance: input.performance,
+        riskManagement: input.riskManagement,
+        communication: input.communication,
+        ...(input.comment && { comment: input.comment }),
+      });
+
+      return { success: true, data: { rating } };
+    } catch (error) {
+      return { success: false, error: 'Failed to rate trader' };
+    }
+  }
+
+  async getTraderRatings(traderId: string): Promise<ServiceResult<TraderRatingSummary>> {
+    try {
+      const [aggregates, reviews] = await Promise.all([
+        this.socialTradingRepository.getRatingAggregates([traderId]),
+        this.socialTradingRepository.findRatings(traderId, 20),
+      ]);
+      const aggregate = aggregates.get(traderId);
+
+      return {
+        success: true,
+        data: {
+          averageRating: this.round(aggregate?.average ?? 0),
+          totalRatings: aggregate?.count ?? 0,
+          reviews,
+          breakdown: {
+            performance: this.round(aggregate?.performance ?? 0),
+            riskManagement: this.round(aggregate?.riskManagement ?? 0),
+            communication: this.round(aggregate?.communication ?? 0),
+          },
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get trader ratings' };
+    }
+  }
+
+  // ===================
+  // PROFILE COMPUTATION
+  // ===================
+
+  private async buildProfiles(
+    traders: TraderRecord[],
+    viewerId: string,
+    since?: Date
+  ): Promise<TraderProfile[]> {
+    if (traders.length === 0) return [];
+
+    const traderIds = traders.map(trader => trader.id);
+    const [positions, ratings, followedIds] = await Promise.all([
+      this.socialTradingRepository.findClosedPositions(traderIds, since),
+      this.socialTradingRepository.getRatingAggregates(traderIds),
+      this.socialTradingRepository.findFollowedTraderIds(viewerId, traderIds),
+    ]);
+
+    const positionsByTrader = new Map<string, ClosedPositionRecord[]>();
+    for (const position of positions) {
+      const list = positionsByTrader.get(position.userId) ?? [];
+      list.push(position);
+      positionsByTrader.set(position.userId, list);
+    }
+
+    return traders.map(trader =>
+      this.toProfile(
+        trader,
+        positionsByTrader.get(trader.id) ?? [],
+        ratings.get(trader.id),
+        followedIds.has(trader.id)
+      )
+    );
+  }
+
+  private toProfile(
+    trader: TraderRecord,
+    positions: ClosedPositionRecord[],
+    rating: RatingAggregate | undefined,
+    isFollowing: boolean
+  ): TraderProfile {
+    const stats = trader.stats;
+    const totalVolume = positions.reduce((sum, p) => sum + p.quantity * p.entryPrice, 0);
+    const windowPnl = positions.reduce((sum, p) => sum + p.pnl, 0);
+
+    const dailyPnl = new Map<string, number>();
+    for (const position of positions) {
+      const day = position.closedAt.toISOString().slice(0, 10);
+      dailyPnl.set(day, (dailyPnl.get(day) ?? 0) + position.pnl);
+    }
+    const totalDays = dailyPnl.size;
+    const profitableDays = Array.from(dailyPnl.values()).filter(pnl => pnl > 0).length;
+
+    // Stored stats are authoritative once populated; closed positions fill in until then
+    const hasStats = stats !== null && stats.totalTrades > 0;
+    const winningTrades = positions.filter(p => p.pnl > 0).length;
+    const maxDrawdown = stats?.maxDrawdown ?? 0;
+
+    return {
+      id: trader.id,
+      username: trader.username,
+      displayName: trader.username,
+      avatar: trader.avatarUrl,
+      verified: trader.emailVerified,
+      bio: trader.bio,
+      specialties: trader.specialties,
+      tradingStyle: trader.tradingStyle,
+      followerCount: trader.followerCount,
+      followingCount: trader.followingCount,
+      joinDate: trader.createdAt,
+      isFollowing,
+      performance: {
+        roi: totalVolume > 0 ? this.round((windowPnl / totalVolume) * 100) : 0,
+        winRate: hasStats
+          ? stats.winRate
+          : positions.length > 0 ? this.round((winningTrades / positions.length) * 100) : 0,
+        totalTrades: hasStats ? stats.totalTrades : positions.length,
+        totalPnl: hasStats ? stats.totalPnl : this.round(windowPnl),
+        averageHoldTime: stats?.averageHoldTime ?? 0,
+        maxDrawdown,
+        sharpeRatio: stats?.sharpeRatio ?? 0,
+        profitFactor: stats?.profitFactor ?? 0,
+        monthlyReturns: this.calculateMonthlyReturns(positions),
+      },
+      statistics: {
+        totalVolume: this.round(totalVolume),
+        profitableDays,
+        totalDays,
+        averageTradeSize: positions.length > 0 ? this.round(totalVolume / positions.length) : 0,
+        // 1 (drawdown under 5%) to 10 (drawdown of 45% or more)
+        riskScore: Math.min(10, Math.max(1, Math.ceil(maxDrawdown / 5))),
+        consistency: totalDays > 0 ? this.round((profitableDays / totalDays) * 100) : 0,
+      },
+      rating: {
+        average: this.round(rating?.average ?? 0),
+        count: rating?.count ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Return on capital deployed per calendar month, oldest first, for the last 12 months with trades.
+   */
+  private calculateMonthlyReturns(positions: ClosedPositionRecord[]): number[] {
+    const months = new Map<string, { pnl: number; cost: number }>();
+
+    for (const position of positions) {
+      const month = position.closedAt.toISOString().slice(0, 7);
+      const bucket = months.get(month) ?? { pnl: 0, cost: 0 };
+      bucket.pnl += position.pnl;
+      bucket.cost += position.quantity * position.entryPrice;
+      months.set(month, bucket);
+    }
+
+    return Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(-12)
+      .map(([, bucket]) => (bucket.cost > 0 ? this.round((bucket.pnl / bucket.cost) * 100) : 0));
+  }
+
+  private getTimeframeStart(timeframe: TraderTimeframe): Date {
+    return new Date(Date.now() - TIMEFRAME_DAYS[timeframe] * 24 * 60 * 60 * 1000);
+  }
+
+  private getSortValue(profile: TraderProfile, sortBy: TopTradersQuery['sortBy']): number {
+    switch (sortBy) {
+      case 'followers':
+        return profile.followerCount;
+      case 'winRate':
+        return profile.performance.winRate;
+      case 'volume':
+        return profile.statistics.totalVolume;
+      case 'performance':
+      default:
+        return profile.performance.roi;
+    }
+  }
+
+  private matchesCategory(profile: TraderProfile, category: string): boolean {
+    const needle = category.toLowerCase();
+    return (
+      profile.tradingStyle?.toLowerCase() === needle ||
+      profile.specialties.some(specialty => specialty.toLowerCase() === needle)
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,228 @@
+import type {
+  CreateStressScenarioInput,
+  ServiceResult,
+  StressScenario,
+  StressScenarioInput,
+  UpdateStressScenarioInput
+} from '@golden-palace/shared';
+import { StressScenarioRepository } from '../repositories/stressScenario.repository';
+
+/**
+ * Peak-to-trough moves of each asset type in past market crises, in percent. Asset types a
+ * scenario does not list move by its `marketChange`.
+ */
+const HISTORICAL_SCENARIOS: StressScenario[] = [
+  {
+    id: 'GFC_2008',
+    name: '2008 Financial Crisis',
+    description: 'October 2007 to March 2009: equities halved, credit froze and oil collapsed while Treasuries rallied.',
+    marketChange: -50,
+    volatilityMultiplier: 3,
+    correlationShock: 0.5,
+    duration: '1Y',
+    assetShocks: {
+      STOCK: -55,
+      ETF: -55,
+      INDEX: -55,
+      OPTION: -80,
+      FUTURE: -40,
+      BOND: 6,
+      REAL_ESTATE: -65,
+      LAND: -25,
+      BUSINESS: -40,
+      COMMODITY_ENERGY: -75,
+      COMMODITY_METALS: 5,
+      COMMODITY_AGRICULTURE: -35,
+      COMMODITY_LIVESTOCK: -20,
+      FOREX: -10
+    },
+    builtIn: true
+  },
+  {
+    id: 'COVID_2020',
+    name: '2020 COVID Crash',
+    description: 'February to March 2020: the fastest bear market on record, with oil and crypto hit hardest.',
+    marketChange: -34,
+    volatilityMultiplier: 4,
+    correlationShock: 0.6,
+    duration: '1M',
+    assetShocks: {
+      STOCK: -34,
+      ETF: -34,
+      INDEX: -34,
+      OPTION: -60,
+      FUTURE: -30,
+      BOND: 3,
+      REAL_ESTATE: -42,
+      LAND: -5,
+      BUSINESS: -30,
+      CRYPTO: -50,
+      COMMODITY_ENERGY: -65,
+      COMMODITY_METALS: -15,
+      COMMODITY_AGRICULTURE: -10,
+      COMMODITY_LIVESTOCK: -25,
+      FOREX: -5
+    },
+    builtIn: true
+  },
+  {
+    id: 'RATE_SHOCK_2022',
+    name: '2022 Rate Shock',
+    description: 'January to October 2022: rapid rate hikes sank stocks and bonds together while energy rallied.',
+    marketChange: -20,
+    volatilityMultiplier: 1.8,
+    correlationShock: 0.4,
+    duration: '6M',
+    assetShocks: {
+      STOCK: -25,
+      ETF: -25,
+      INDEX: -25,
+      OPTION: -45,
+      FUTURE: -15,
+      BOND: -17,
+      REAL_ESTATE: -30,
+      LAND: -5,
+      BUSINESS: -20,
+      CRYPTO: -65,
+      COMMODITY_ENERGY: 40,
+      COMMODITY_METALS: -10,
+      COMMODITY_AGRICULTURE: 15,
+      COMMODITY_LIVESTOCK: 5,
+      FOREX: -10
+    },
+    builtIn: true
+  },
+  {
+    id: 'CRYPTO_WINTER_2022',
+    name: 'Crypto Winter',
+    description: 'November 2021 to November 2022: crypto lost three quarters of its value through a chain of exchange and lender failures.',
+    marketChange: -10,
+    volatilityMultiplier: 2.5,
+    correlationShock: 0.3,
+    duration: '1Y',
+    assetShocks: {
+      CRYPTO: -75,
+      STOCK: -15,
+      ETF: -15,
+      INDEX: -15,
+      OPTION: -30,
+      BOND: -10,
+      COMMODITY_ENERGY: 20,
+      COMMODITY_METALS: -5
+    },
+    builtIn: true
+  }
+];
+
+/**
+ * The built-in historical scenario library plus scenarios each user saves for themselves.
+ * Scenarios are referenced by id when running stress tests.
+ */
+export class StressScenarioService {
+  constructor(private stressScenarioRepository: StressScenarioRepository) {}
+
+  async listScenarios(userId: string): Promise<ServiceResult<StressScenario[]>> {
+    try {
+      const saved = await this.stressScenarioRepository.findByUserId(userId);
+      return { success: true, data: [...HISTORICAL_SCENARIOS, ...saved] };
+    } catch (error) {
+      return { success: false, error: 'Failed to get stress scenarios' };
+    }
+  }
+
+  async createScenario(userId: string, input: CreateStressScenarioInput): Promise<ServiceResult<StressScenario>> {
+    try {
+      const existing = await this.stressScenarioRepository.findByUserIdAndName(userId, input.name);
+      if (existing) {
+        return { success: false, error: 'A scenario with this name already exists' };
+      }
+
+      const scenario = await this.stressScenarioRepository.create(userId, input);
+      return { success: true, data: scenario };
+    } catch (error) {
+      return { success: false, error: 'Failed to create stress scenario' };
+    }
+  }
+
+  async updateScenario(
+    userId: string,
+    scenarioId: string,
+    input: UpdateStressScenarioInput
+  ): Promise<ServiceResult<StressScenario>> {
+    try {
+      const access = await this.getOwnedScenario(userId, scenarioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      if (input.name && input.name !== access.data.name) {
+        const existing = await this.stressScenarioRepository.findByUserIdAndName(userId, input.name);
+        if (existing) {
+          return { success: false, error: 'A scenario with this name already exists' };
+        }
+      }
+
+      const scenario = await this.stressScenarioRepository.update(scenarioId, input);
+      return { success: true, data: scenario };
+    } catch (error) {
+      return { success: false, error: 'Failed to update stress scenario' };
+    }
+  }
+
+  async deleteScenario(userId: string, scenarioId: string): Promise<ServiceResult<void>> {
+    try {
+      const access = await this.getOwnedScenario(userId, scenarioId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      await this.stressScenarioRepository.delete(scenarioId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete stress scenario' };
+    }
+  }
+
+  /**
+   * Looks up built-in and saved scenarios by id, in the order requested, ready to be run.
+   */
+  async resolveScenarios(
+    userId: string,
+    scenarioIds: string[]
+  ): Promise<ServiceResult<Array<StressScenarioInput & { id: string }>>> {
+    try {
+      const resolved: Array<StressScenarioInput & { id: string }> = [];
+
+      for (const scenarioId of scenarioIds) {
+        const builtIn = HISTORICAL_SCENARIOS.find(scenario => scenario.id === scenarioId);
+        const scenario = builtIn ?? (await this.getOwnedScenario(userId, scenarioId)).data;
+        if (!scenario) {
+          return { success: false, error: 'Scenario not found' };
+        }
+
+        resolved.push({
+          id: scenario.id,
+          name: scenario.name,
+          marketChange: scenario.marketChange,
+          volatilityMultiplier: scenario.volatilityMultiplier,
+          correlationShock: scenario.correlationShock,
+          duration: scenario.duration,
+          assetShocks: scenario.assetShocks
+        });
+      }
+
+      return { success: true, data: resolved };
+    } catch (error) {
+      return { success: false, error: 'Failed to load stress scenarios' };
+    }
+  }
+
+  // Another user's scenario is reported as missing rather than forbidden
+  private async getOwnedScenario(userId: string, scenarioId: string) {
+    const scenario = await this.stressScenarioRepository.findById(scenarioId);
+    if (!scenario || scenario.userId !== userId) {
+      return { success: false as const, error: 'Scenario not found', data: undefined };
+    }
+    return { success: true as const, data: scenario };
+  }
+}
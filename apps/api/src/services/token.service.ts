@@ -1,5 +1,7 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import type { JWTPayload } from '@golden-palace/shared';
+import type { RefreshTokenSession } from './refreshToken.service';
 
 interface TokenVerificationResult {
   success: boolean;
@@ -10,12 +12,23 @@ interface TokenVerificationResult {
 export class TokenService {
   private readonly accessTokenSecret: string;
   private readonly refreshTokenSecret: string;
+  private readonly twoFactorChallengeSecret: string;
   private readonly accessTokenExpiry = 24 * 60 * 60; // 24 hours for development (was 15 minutes)
   private readonly refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days
+  private readonly twoFactorChallengeExpiry = 5 * 60; // 5 minutes
 
   constructor() {
     this.accessTokenSecret = process.env['JWT_ACCESS_SECRET'] || 'dev-access-secret-key';
     this.refreshTokenSecret = process.env['JWT_REFRESH_SECRET'] || 'dev-refresh-secret-key';
+    this.twoFactorChallengeSecret = process.env['JWT_TWO_FACTOR_SECRET'] || 'dev-two-factor-secret-key';
+  }
+
+  getRefreshTokenExpiry(): number {
+    return this.refreshTokenExpiry;
+  }
+
+  getTwoFactorChallengeExpiry(): number {
+    return this.twoFactorChallengeExpiry;
   }
 
   generateAccessToken(
@@ -37,11 +50,16 @@ export class TokenService {
     });
   }
 
-  generateRefreshToken(userId: string, expiresIn?: number): string {
+  /**
+   * When a session is given, the token carries its family and token id so the server
+   * can rotate and revoke it; see RefreshTokenService.
+   */
+  generateRefreshToken(userId: string, expiresIn?: number, session?: RefreshTokenSession): string {
     const payload = {
       userId,
       type: 'refresh',
-      jti: Math.random().toString(36).substring(2, 15) // Random token ID for uniqueness
+      jti: session?.tokenId ?? Math.random().toString(36).substring(2, 15), // Random token ID for uniqueness
+      ...(session && { fid: session.familyId })
     };
 
     return jwt.sign(payload, this.refreshTokenSecret, {
@@ -49,6 +67,44 @@ export class TokenService {
     });
   }
 
+  /**
+   * Proof that the password step of a login passed. It is signed with its own secret so
+   * it can never be used as an access or refresh token.
+   */
+  generateTwoFactorChallenge(userId: string): string {
+    // The id lets wrong codes be counted against this challenge
+    return jwt.sign({ userId, type: 'two_factor', jti: randomUUID() }, this.twoFactorChallengeSecret, {
+      expiresIn: this.twoFactorChallengeExpiry
+    });
+  }
+
+  verifyTwoFactorChallenge(token: string): TokenVerificationResult {
+    try {
+      if (!token || typeof token !== 'string') {
+        return { success: false, error: 'Invalid token format' };
+      }
+
+      const decoded = jwt.verify(token, this.twoFactorChallengeSecret) as any;
+
+      if (!decoded.userId || decoded.type !== 'two_factor' || !decoded.jti) {
+        return { success: false, error: 'Invalid token claims' };
+      }
+
+      return {
+        success: true,
+        data: decoded as JWTPayload
+      };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return { success: false, error: 'Two-factor challenge expired, please log in again' };
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        return { success: false, error: 'Invalid token' };
+      }
+      return { success: false, error: 'Token verification failed' };
+    }
+  }
+
   verifyAccessToken(token: string): TokenVerificationResult {
     try {
       if (!token || typeof token !== 'string') {
@@ -0,0 +1,167 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function decodeBase32(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30 second steps) as
+ * produced by authenticator apps, plus the storage helpers around them: secrets are
+ * kept AES-256-GCM encrypted and recovery codes only as SHA-256 hashes.
+ */
+export class TotpService {
+  private readonly issuer = 'Golden Palace';
+  private readonly digits = 6;
+  private readonly stepSeconds = 30;
+  private readonly window = 1; // Steps accepted either side of now, for clock drift
+  private readonly encryptionKey: Buffer;
+
+  constructor() {
+    const key = process.env['TWO_FACTOR_ENCRYPTION_KEY'] || 'dev-two-factor-encryption-key';
+    this.encryptionKey = createHash('sha256').update(key).digest();
+  }
+
+  generateSecret(): string {
+    return encodeBase32(randomBytes(20));
+  }
+
+  /**
+   * The `otpauth://` URI authenticator apps read from a QR code.
+   */
+  buildProvisioningUri(secret: string, accountName: string): string {
+    const label = `${encodeURIComponent(this.issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.stepSeconds)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  generateCode(secret: string, timestamp: number = Date.now()): string {
+    return this.codeForStep(decodeBase32(secret), this.stepAt(timestamp));
+  }
+
+  verify(secret: string, code: string, timestamp: number = Date.now()): boolean {
+    return this.matchStep(secret, code, timestamp) !== null;
+  }
+
+  /**
+   * The time step the code was generated for, or null when it matches none in the window.
+   * Callers record the step to refuse the same code a second time.
+   */
+  matchStep(secret: string, code: string, timestamp: number = Date.now()): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.digits}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = decodeBase32(secret);
+    const currentStep = this.stepAt(timestamp);
+
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      const expected = this.codeForStep(key, currentStep + offset);
+      if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return currentStep + offset;
+      }
+    }
+
+    return null;
+  }
+
+  encryptSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    if (!iv || !authTag || !encrypted) {
+      throw new Error('Invalid encrypted secret');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  generateRecoveryCodes(count = 10): string[] {
+    return Array.from({ length: count }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  // Case, dashes and spaces are ignored so codes can be typed the way they were read
+  hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private stepAt(timestamp: number): number {
+    return Math.floor(timestamp / 1000 / this.stepSeconds);
+  }
+
+  private codeForStep(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    const binary =
+      ((hmac[offset]! & 0x7f) << 24) |
+      (hmac[offset + 1]! << 16) |
+      (hmac[offset + 2]! << 8) |
+      hmac[offset + 3]!;
+
+    return String(binary % 10 ** this.digits).padStart(this.digits, '0');
+  }
+}
@@ -2,18 +2,30 @@ import type {
   PaperPositionWithDetails,
   TradeIdeaWithDetails,
   AlertWithDetails,
+  AlertTriggeredEvent,
   MarketQuote,
+  ExecutionLogEntry,
+  GetExecutionLogQuery,
+  PaginatedResult,
   ServiceResult
 } from '@golden-palace/shared';
 import { PaperPositionRepository } from '../repositories/paperPosition.repository';
 import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
 import { AlertRepository } from '../repositories/alert.repository';
+import { ExecutionLogRepository, type CreateExecutionLogData } from '../repositories/executionLog.repository';
+import type { CopyTradingService } from './copyTrading.service';
+import type { GamificationService } from './gamification.service';
+import type { OrderService } from './order.service';
+import type { NotificationService } from './notification.service';
+import type { WebhookService } from './webhook.service';
+import type { UserNotifier } from '../websocket/userNotifier';
 
 export interface MarketUpdateResult {
   positionsUpdated: number;
   positionsClosed: number;
   alertsTriggered: number;
   tradesExecuted: number;
+  ordersFilled: number;
 }
 
 export interface ExecutionSummary {
@@ -24,13 +36,28 @@ export interface ExecutionSummary {
   avgExecutionTime: number;
   successRate: number;
   lastExecutionTime: Date | null;
+  ideaExecutions: number;
+  alertTriggers: number;
+  failedExecutions: number;
+  avgSlippage: number;
 }
 
+// Column lengths of ExecutionLog.reason and ExecutionLog.error
+const MAX_REASON_LENGTH = 100;
+const MAX_ERROR_LENGTH = 200;
+
 export class TradeExecutionService {
   constructor(
     private paperPositionRepository: PaperPositionRepository,
     private tradeIdeaRepository: TradeIdeaRepository,
-    private alertRepository: AlertRepository
+    private alertRepository: AlertRepository,
+    private executionLogRepository: ExecutionLogRepository,
+    private copyTradingService?: CopyTradingService,
+    private gamificationService?: GamificationService,
+    private orderService?: OrderService,
+    private notifier?: UserNotifier,
+    private notificationService?: NotificationService,
+    private webhookService?: WebhookService
   ) {}
 
   async processMarketUpdate(marketQuotes: MarketQuote[]): Promise<ServiceResult<MarketUpdateResult>> {
@@ -43,6 +70,8 @@ export class TradeExecutionService {
       let positionsClosed = 0;
       let alertsTriggered = 0;
       let tradesExecuted = 0;
+      let ordersFilled = 0;
+      const receivedAt = new Date();
 
       // Extract symbols from market quotes
       const symbols = marketQuotes.map(quote => quote.symbol);
@@ -79,14 +108,25 @@ export class TradeExecutionService {
         }
       }
 
+      // Match working orders against the new quotes
+      let positionsToCheck = openPositions;
+      if (this.orderService) {
+        const orderResult = await this.orderService.matchOrders(marketQuotes);
+        if (orderResult.success) {
+          ordersFilled += orderResult.data!.ordersFilled;
+        }
+        // Fills may have closed or resized positions, so check stops against what is still open
+        positionsToCheck = await this.paperPositionRepository.getOpenPositions(undefined, symbols);
+      }
+
       // Process stop loss and take profit executions
-      for (const position of openPositions) {
+      for (const position of positionsToCheck) {
         const currentPrice = priceMap.get(position.symbol);
         if (!currentPrice) continue;
 
         // Check stop loss
         if (position.stopLoss && this.shouldExecuteStopLoss(position, currentPrice)) {
-          const result = await this.executeStopLoss(position, currentPrice);
+          const result = await this.executeStopLoss(position, currentPrice, receivedAt);
           if (result.success) {
             positionsClosed++;
           }
@@ -94,7 +134,7 @@ export class TradeExecutionService {
 
         // Check take profit
         if (position.takeProfit && this.shouldExecuteTakeProfit(position, currentPrice)) {
-          const result = await this.executeTakeProfit(position, currentPrice);
+          const result = await this.executeTakeProfit(position, currentPrice, receivedAt);
           if (result.success) {
             positionsClosed++;
           }
@@ -103,14 +143,14 @@ export class TradeExecutionService {
 
       // Process price alerts
       for (const quote of marketQuotes) {
-        const alertResult = await this.checkPriceAlerts(quote);
+        const alertResult = await this.checkPriceAlerts(quote, receivedAt);
         if (alertResult.success) {
           alertsTriggered += alertResult.data!;
         }
       }
 
       // Process trade idea auto-execution
-      const tradeResult = await this.autoExecuteTradeIdeas(marketQuotes);
+      const tradeResult = await this.autoExecuteTradeIdeas(marketQuotes, receivedAt);
       if (tradeResult.success) {
         tradesExecuted += tradeResult.data!;
       }
@@ -122,6 +162,7 @@ export class TradeExecutionService {
           positionsClosed,
           alertsTriggered,
           tradesExecuted,
+          ordersFilled,
         },
       };
     } catch (error) {
@@ -131,7 +172,8 @@ export class TradeExecutionService {
 
   async executeStopLoss(
     position: PaperPositionWithDetails,
-    currentPrice: number
+    currentPrice: number,
+    receivedAt: Date = new Date()
   ): Promise<ServiceResult<PaperPositionWithDetails>> {
     try {
       if (!position.stopLoss) {
@@ -147,16 +189,48 @@ export class TradeExecutionService {
         position.stopLoss,
         'Stop loss triggered'
       );
+      await this.record(receivedAt, {
+        userId: position.userId,
+        type: 'STOP_LOSS',
+        symbol: position.symbol,
+        referenceId: position.id,
+        triggerPrice: position.stopLoss,
+        marketPrice: currentPrice,
+        executionPrice: position.stopLoss,
+        pnl: closedPosition.pnl,
+        reason: 'Stop loss triggered',
+      });
+      await this.copyTradingService?.mirrorClose(closedPosition);
+      await this.gamificationService?.handleTradeClosed(closedPosition);
+      await this.notificationService?.notify(position.userId, {
+        type: 'STOP_LOSS_FILLED',
+        title: `Stop loss filled on ${position.symbol}`,
+        body: this.describeClose(closedPosition, position.stopLoss),
+        data: { positionId: position.id, symbol: position.symbol },
+      });
+      await this.webhookService?.dispatchPositionClosed(closedPosition);
 
       return { success: true, data: closedPosition };
     } catch (error) {
+      await this.record(receivedAt, {
+        userId: position.userId,
+        type: 'STOP_LOSS',
+        status: 'FAILED',
+        symbol: position.symbol,
+        referenceId: position.id,
+        triggerPrice: position.stopLoss,
+        marketPrice: currentPrice,
+        reason: 'Stop loss triggered',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
       return { success: false, error: 'Failed to execute stop loss' };
     }
   }
 
   async executeTakeProfit(
     position: PaperPositionWithDetails,
-    currentPrice: number
+    currentPrice: number,
+    receivedAt: Date = new Date()
   ): Promise<ServiceResult<PaperPositionWithDetails>> {
     try {
       if (!position.takeProfit) {
@@ -172,14 +246,45 @@ export class TradeExecutionService {
         position.takeProfit,
         'Take profit triggered'
       );
+      await this.record(receivedAt, {
+        userId: position.userId,
+        type: 'TAKE_PROFIT',
+        symbol: position.symbol,
+        referenceId: position.id,
+        triggerPrice: position.takeProfit,
+        marketPrice: currentPrice,
+        executionPrice: position.takeProfit,
+        pnl: closedPosition.pnl,
+        reason: 'Take profit triggered',
+      });
+      await this.copyTradingService?.mirrorClose(closedPosition);
+      await this.gamificationService?.handleTradeClosed(closedPosition);
+      await this.notificationService?.notify(position.userId, {
+        type: 'TAKE_PROFIT_FILLED',
+        title: `Take profit filled on ${position.symbol}`,
+        body: this.describeClose(closedPosition, position.takeProfit),
+        data: { positionId: position.id, symbol: position.symbol },
+      });
+      await this.webhookService?.dispatchPositionClosed(closedPosition);
 
       return { success: true, data: closedPosition };
     } catch (error) {
+      await this.record(receivedAt, {
+        userId: position.userId,
+        type: 'TAKE_PROFIT',
+        status: 'FAILED',
+        symbol: position.symbol,
+        referenceId: position.id,
+        triggerPrice: position.takeProfit,
+        marketPrice: currentPrice,
+        reason: 'Take profit triggered',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
       return { success: false, error: 'Failed to execute take profit' };
     }
   }
 
-  async checkPriceAlerts(marketQuote: MarketQuote): Promise<ServiceResult<number>> {
+  async checkPriceAlerts(marketQuote: MarketQuote, receivedAt: Date = new Date()): Promise<ServiceResult<number>> {
     try {
       const alerts = await this.alertRepository.findBySymbol(marketQuote.symbol, 'ACTIVE');
       let triggeredCount = 0;
@@ -188,7 +293,48 @@ export class TradeExecutionService {
         if (this.shouldTriggerAlert(alert, marketQuote)) {
           const success = await this.alertRepository.trigger(alert.id);
           if (success) {
+            await this.record(receivedAt, {
+              userId: alert.userId,
+              type: 'ALERT_TRIGGER',
+              symbol: alert.symbol,
+              referenceId: alert.id,
+              triggerPrice: alert.targetPrice ?? marketQuote.price,
+              marketPrice: marketQuote.price,
+              reason: this.describeAlertTrigger(alert, marketQuote),
+            });
             triggeredCount++;
+
+            await this.notificationService?.notify(alert.userId, {
+              type: 'ALERT_TRIGGERED',
+              title: `${alert.symbol} alert triggered`,
+              body: alert.message || this.describeAlertTrigger(alert, marketQuote),
+              data: { alertId: alert.id, symbol: alert.symbol, price: marketQuote.price },
+            });
+
+            const event: AlertTriggeredEvent = {
+              alert: { ...alert, status: 'TRIGGERED', triggeredAt: receivedAt },
+              price: marketQuote.price,
+              changePercent: marketQuote.changePercent,
+              volume: marketQuote.volume,
+              triggeredAt: receivedAt,
+            };
+            this.notifier?.emitToUser(alert.userId, 'alert:triggered', event);
+            await this.webhookService?.dispatch(
+              'alert.triggered',
+              {
+                alertId: alert.id,
+                symbol: alert.symbol,
+                condition: alert.condition,
+                targetPrice: alert.targetPrice,
+                threshold: alert.threshold,
+                message: alert.message,
+                price: marketQuote.price,
+                changePercent: marketQuote.changePercent,
+                volume: marketQuote.volume,
+                triggeredAt: receivedAt,
+              },
+              { userIds: [alert.userId] }
+            );
           }
         }
       }
@@ -199,7 +345,10 @@ export class TradeExecutionService {
     }
   }
 
-  async autoExecuteTradeIdeas(marketQuotes: MarketQuote[]): Promise<ServiceResult<number>> {
+  async autoExecuteTradeIdeas(
+    marketQuotes: MarketQuote[],
+    receivedAt: Date = new Date()
+  ): Promise<ServiceResult<number>> {
     try {
       const symbols = marketQuotes.map(quote => quote.symbol);
       const activeIdeas = await this.tradeIdeaRepository.findActiveIdeas(symbols);
@@ -219,6 +368,17 @@ export class TradeExecutionService {
             closedAt: new Date(),
             pnl,
           });
+          await this.record(receivedAt, {
+            userId: idea.userId,
+            type: 'IDEA_AUTO_CLOSE',
+            symbol: idea.symbol,
+            referenceId: idea.id,
+            triggerPrice: execution.executionPrice!,
+            marketPrice: quote.price,
+            executionPrice: execution.executionPrice!,
+            pnl,
+            reason: execution.executionPrice === idea.stopLoss ? 'Stop loss reached' : 'Take profit reached',
+          });
 
           executedCount++;
         }
@@ -232,16 +392,21 @@ export class TradeExecutionService {
 
   async getExecutionSummary(userId: string, days?: number): Promise<ServiceResult<ExecutionSummary>> {
     try {
-      // This would typically be implemented with a dedicated execution log table
-      // For now, return a basic summary
+      const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      const stats = await this.executionLogRepository.getStats(userId, since);
+
       const summary: ExecutionSummary = {
-        totalExecutions: 0,
-        stopLossExecutions: 0,
-        takeProfitExecutions: 0,
-        totalPnlFromExecutions: 0,
-        avgExecutionTime: 0,
-        successRate: 0,
-        lastExecutionTime: null,
+        totalExecutions: stats.total,
+        stopLossExecutions: stats.byType.STOP_LOSS,
+        takeProfitExecutions: stats.byType.TAKE_PROFIT,
+        totalPnlFromExecutions: stats.totalPnl,
+        avgExecutionTime: stats.avgLatencyMs,
+        successRate: stats.total > 0 ? (stats.succeeded / stats.total) * 100 : 0,
+        lastExecutionTime: stats.lastExecutedAt,
+        ideaExecutions: stats.byType.IDEA_AUTO_CLOSE,
+        alertTriggers: stats.byType.ALERT_TRIGGER,
+        failedExecutions: stats.total - stats.succeeded,
+        avgSlippage: stats.avgSlippage,
       };
 
       return { success: true, data: summary };
@@ -250,6 +415,36 @@ export class TradeExecutionService {
     }
   }
 
+  async getExecutionLog(
+    userId: string,
+    query: GetExecutionLogQuery
+  ): Promise<ServiceResult<PaginatedResult<ExecutionLogEntry>>> {
+    try {
+      const log = await this.executionLogRepository.findByUserId(userId, query);
+      return { success: true, data: log };
+    } catch (error) {
+      return { success: false, error: 'Failed to get execution log' };
+    }
+  }
+
+  /**
+   * Writes an execution log entry timed from when the triggering quote arrived. Logging
+   * failures are reported but never undo or block the execution itself.
+   */
+  private async record(receivedAt: Date, data: Omit<CreateExecutionLogData, 'latencyMs'>): Promise<void> {
+    try {
+      await this.executionLogRepository.create({
+        ...data,
+        reason: data.reason.slice(0, MAX_REASON_LENGTH),
+        ...(data.error && { error: data.error.slice(0, MAX_ERROR_LENGTH) }),
+        latencyMs: Date.now() - receivedAt.getTime(),
+      });
+    } catch (error) {
+      // The execution already happened; a missing log entry is preferable to a failed tick
+      console.error(`Failed to record ${data.type} execution for ${data.referenceId}:`, error);
+    }
+  }
+
   private shouldExecuteStopLoss(position: PaperPositionWithDetails, currentPrice: number): boolean {
     if (!position.stopLoss) return false;
 
@@ -280,23 +475,48 @@ export class TradeExecutionService {
   }
 
   private shouldTriggerAlert(alert: AlertWithDetails, marketQuote: MarketQuote): boolean {
-    const { condition, targetPrice } = alert;
-    const { price, previousClose } = marketQuote;
+    const { condition, targetPrice, threshold } = alert;
+    const { price, previousClose, changePercent, volume } = marketQuote;
 
     switch (condition) {
       case 'ABOVE':
-        return price > targetPrice;
+        return targetPrice !== null && price > targetPrice;
       case 'BELOW':
-        return price < targetPrice;
+        return targetPrice !== null && price < targetPrice;
       case 'CROSSES_ABOVE':
-        return price > targetPrice && previousClose <= targetPrice;
+        return targetPrice !== null && price > targetPrice && previousClose <= targetPrice;
       case 'CROSSES_BELOW':
-        return price < targetPrice && previousClose >= targetPrice;
+        return targetPrice !== null && price < targetPrice && previousClose >= targetPrice;
+      // Percent change is measured from the previous close, so a threshold of -5 fires on a 5% drop
+      case 'PERCENT_CHANGE_ABOVE':
+        return threshold !== null && changePercent >= threshold;
+      case 'PERCENT_CHANGE_BELOW':
+        return threshold !== null && changePercent <= threshold;
+      // A volume of 0 means the quote source reported none
+      case 'VOLUME_ABOVE':
+        return threshold !== null && volume > 0 && volume >= threshold;
       default:
         return false;
     }
   }
 
+  private describeClose(position: PaperPositionWithDetails, price: number): string {
+    const pnl = position.pnl !== null ? `, P&L ${position.pnl >= 0 ? '+' : ''}${position.pnl.toFixed(2)}` : '';
+    return `Closed ${position.quantity} ${position.symbol} at ${price}${pnl}`;
+  }
+
+  private describeAlertTrigger(alert: AlertWithDetails, marketQuote: MarketQuote): string {
+    switch (alert.condition) {
+      case 'PERCENT_CHANGE_ABOVE':
+      case 'PERCENT_CHANGE_BELOW':
+        return `Change ${marketQuote.changePercent.toFixed(2)}% ${alert.condition === 'PERCENT_CHANGE_ABOVE' ? 'above' : 'below'} ${alert.threshold}%`;
+      case 'VOLUME_ABOVE':
+        return `Volume ${marketQuote.volume} above ${alert.threshold}`;
+      default:
+        return `Price ${alert.condition.toLowerCase().replace('_', ' ')} ${alert.targetPrice}`;
+    }
+  }
+
   private shouldExecuteTradeIdea(
     idea: TradeIdeaWithDetails,
     currentPrice: number
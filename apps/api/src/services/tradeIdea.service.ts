@@ -12,11 +12,15 @@ import type {
 import type { TradeDirection } from '@golden-palace/database';
 import { TradeIdeaRepository } from '../repositories/tradeIdea.repository';
 import { GroupRepository } from '../repositories/group.repository';
+import type { GamificationService } from './gamification.service';
+import type { WebhookService } from './webhook.service';
 
 export class TradeIdeaService {
   constructor(
     private tradeIdeaRepository: TradeIdeaRepository,
-    private groupRepository: GroupRepository
+    private groupRepository: GroupRepository,
+    private gamificationService?: GamificationService,
+    private webhookService?: WebhookService
   ) {}
 
   async createTradeIdea(
@@ -41,6 +45,24 @@ export class TradeIdeaService {
         userId,
         ...input,
       });
+      await this.gamificationService?.handleTradeIdeaPosted(userId, tradeIdea.id);
+      await this.webhookService?.dispatch(
+        'trade_idea.created',
+        {
+          tradeIdeaId: tradeIdea.id,
+          userId,
+          groupId: tradeIdea.groupId,
+          symbol: tradeIdea.symbol,
+          direction: tradeIdea.direction,
+          entryPrice: tradeIdea.entryPrice,
+          stopLoss: tradeIdea.stopLoss,
+          takeProfit1: tradeIdea.takeProfit1,
+          timeframe: tradeIdea.timeframe,
+          confidence: tradeIdea.confidence,
+          createdAt: tradeIdea.createdAt,
+        },
+        { userIds: [userId], groupId: tradeIdea.groupId }
+      );
 
       return { success: true, data: tradeIdea };
     } catch (error) {
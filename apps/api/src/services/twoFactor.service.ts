@@ -0,0 +1,214 @@
+import { UserRepository, type UserWithStats } from '../repositories/user.repository';
+import { TotpService } from './totp.service';
+import { RedisService } from './redis.service';
+import type { TwoFactorSetup, TwoFactorRecoveryCodes } from '@golden-palace/shared';
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Codes a login challenge accepts before it must be started over with the password
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * Enrollment and verification for TOTP two-factor authentication. Setup stores a pending
+ * secret that only takes effect once the user proves their authenticator produces
+ * matching codes; enabling then hands out single-use recovery codes.
+ */
+export class TwoFactorService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly totpService: TotpService,
+    private readonly redisService: RedisService
+  ) {}
+
+  async setup(userId: string): Promise<ServiceResult<TwoFactorSetup>> {
+    try {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (user.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is already enabled' };
+      }
+
+      const secret = this.totpService.generateSecret();
+      await this.userRepository.update(userId, {
+        twoFactorSecret: this.totpService.encryptSecret(secret),
+        twoFactorRecoveryCodes: []
+      });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUrl: this.totpService.buildProvisioningUri(secret, user.email)
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Two-factor setup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async enable(userId: string, code: string): Promise<ServiceResult<TwoFactorRecoveryCodes>> {
+    try {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (user.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is already enabled' };
+      }
+
+      if (!user.twoFactorSecret) {
+        return { success: false, error: 'Two-factor setup has not been started' };
+      }
+
+      if (!(await this.verifyTotp(user, code))) {
+        return { success: false, error: 'Invalid two-factor code' };
+      }
+
+      const recoveryCodes = this.totpService.generateRecoveryCodes();
+      await this.userRepository.update(userId, {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => this.totpService.hashRecoveryCode(recoveryCode))
+      });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Enabling two-factor authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async disable(userId: string, code: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (!user.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is not enabled' };
+      }
+
+      if (!(await this.verifyCode(user, code))) {
+        return { success: false, error: 'Invalid two-factor code' };
+      }
+
+      await this.userRepository.update(userId, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: []
+      });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Disabling two-factor authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Replaces all recovery codes. Requires an authenticator code, since a recovery code
+   * being used up is usually why new ones are wanted.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<ServiceResult<TwoFactorRecoveryCodes>> {
+    try {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (!user.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is not enabled' };
+      }
+
+      if (!(await this.verifyTotp(user, code))) {
+        return { success: false, error: 'Invalid two-factor code' };
+      }
+
+      const recoveryCodes = this.totpService.generateRecoveryCodes();
+      await this.userRepository.update(userId, {
+        twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => this.totpService.hashRecoveryCode(recoveryCode))
+      });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Regenerating recovery codes failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Accepts a current authenticator code or an unused recovery code; a recovery code is
+   * consumed by a successful check, and an authenticator code cannot be used again.
+   */
+  async verifyCode(user: UserWithStats, code: string): Promise<boolean> {
+    if (await this.verifyTotp(user, code)) {
+      return true;
+    }
+
+    const codeHash = this.totpService.hashRecoveryCode(code);
+    if (!user.twoFactorRecoveryCodes.includes(codeHash)) {
+      return false;
+    }
+
+    const remaining = user.twoFactorRecoveryCodes.filter((stored: string) => stored !== codeHash);
+    return await this.userRepository.consumeRecoveryCode(user.id, codeHash, remaining);
+  }
+
+  /**
+   * Checks a code for the login challenge with the given id. Every code tried counts against
+   * the challenge for as long as it lives; after MAX_CHALLENGE_ATTEMPTS it is refused outright.
+   */
+  async verifyChallengeCode(
+    challengeId: string,
+    expiresInSeconds: number,
+    user: UserWithStats,
+    code: string
+  ): Promise<ServiceResult<void>> {
+    const key = `2fa:challenge:${challengeId}:attempts`;
+    const attempts = await this.redisService.increment(key);
+    if (attempts === 1) {
+      await this.redisService.expire(key, Math.max(1, expiresInSeconds));
+    }
+
+    if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+      return { success: false, error: 'Too many invalid two-factor codes, please log in again' };
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      return { success: false, error: 'Invalid two-factor code' };
+    }
+
+    return { success: true };
+  }
+
+  // A matching code is accepted once: its time step must be later than the last one used
+  private async verifyTotp(user: UserWithStats, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = this.totpService.matchStep(this.totpService.decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    return await this.userRepository.recordTotpStep(user.id, step);
+  }
+}
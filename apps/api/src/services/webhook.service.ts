@@ -0,0 +1,452 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import type { LookupFunction } from 'net';
+import { Agent, fetch } from 'undici';
+import {
+  MAX_WEBHOOKS_PER_USER,
+  WEBHOOK_TEST_EVENT,
+  allowsPrivateWebhookHosts,
+  isPrivateAddress,
+  type CreateWebhookInput,
+  type GetWebhookDeliveriesQuery,
+  type PaginatedResult,
+  type PaperPositionWithDetails,
+  type ServiceResult,
+  type UpdateWebhookInput,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookWithSecret
+} from '@golden-palace/shared';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { GroupRepository } from '../repositories/group.repository';
+
+// Attempts before a delivery is given up on; retries wait 30s, 1m, 2m, 4m, 8m
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RETRY_BATCH_SIZE = 50;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Who an event concerns. Personal webhooks of the listed users receive it, as do webhooks
+ * registered on the group.
+ */
+export interface WebhookScope {
+  userIds: string[];
+  groupId?: string | undefined;
+}
+
+/**
+ * Signature sent in `X-Webhook-Signature`. Receivers recompute it from the raw body and the
+ * `X-Webhook-Timestamp` header.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Resolves the webhook's host and returns why it may not be called, or null when every address
+ * it resolves to is public. Checked on registration and again before each attempt, since DNS
+ * can change in between.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (allowsPrivateWebhookHosts()) return null;
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return 'Invalid URL';
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return 'URL must point to a public host';
+    }
+    return null;
+  } catch {
+    return 'URL host could not be resolved';
+  }
+}
+
+/**
+ * Resolves like dns.lookup but fails when any address is private. Deliveries connect through
+ * it, so the address dialled is the one that was checked and a rebinding DNS answer between
+ * checkWebhookTarget and the request cannot point the connection at an internal host.
+ */
+export const publicWebhookLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry))) {
+      callback(new Error('URL must point to a public host'), address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+};
+
+const publicWebhookAgent = new Agent({ connect: { lookup: publicWebhookLookup } });
+
+export class WebhookService {
+  private retrying = false;
+
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private groupRepository: GroupRepository
+  ) {}
+
+  /**
+   * Registers an endpoint. Group webhooks can only be added by the group owner. The secret is
+   * returned here and nowhere else.
+   */
+  async createWebhook(userId: string, input: CreateWebhookInput): Promise<ServiceResult<WebhookWithSecret>> {
+    try {
+      const count = await this.webhookRepository.countByUserId(userId);
+      if (count >= MAX_WEBHOOKS_PER_USER) {
+        return { success: false, error: 'Webhook limit reached' };
+      }
+
+      const targetError = await checkWebhookTarget(input.url);
+      if (targetError) {
+        return { success: false, error: targetError };
+      }
+
+      if (input.groupId) {
+        const group = await this.groupRepository.findById(input.groupId);
+        if (!group) {
+          return { success: false, error: 'Group not found' };
+        }
+        if (group.ownerId !== userId) {
+          return { success: false, error: 'Only the group owner can add group webhooks' };
+        }
+      }
+
+      const webhook = await this.webhookRepository.create({
+        userId,
+        groupId: input.groupId,
+        url: input.url,
+        secret: input.secret ?? `whsec_${randomBytes(24).toString('hex')}`,
+        events: input.events,
+        description: input.description,
+      });
+
+      return { success: true, data: webhook };
+    } catch (error) {
+      return { success: false, error: 'Failed to create webhook' };
+    }
+  }
+
+  async getWebhooks(userId: string): Promise<ServiceResult<Webhook[]>> {
+    try {
+      const webhooks = await this.webhookRepository.findByUserId(userId);
+      return { success: true, data: webhooks.map(webhook => this.withoutSecret(webhook)) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get webhooks' };
+    }
+  }
+
+  async getWebhook(userId: string, webhookId: string): Promise<ServiceResult<Webhook>> {
+    try {
+      const access = await this.getOwnedWebhook(userId, webhookId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      return { success: true, data: this.withoutSecret(access.data) };
+    } catch (error) {
+      return { success: false, error: 'Failed to get webhook' };
+    }
+  }
+
+  async updateWebhook(
+    userId: string,
+    webhookId: string,
+    input: UpdateWebhookInput
+  ): Promise<ServiceResult<Webhook>> {
+    try {
+      const access = await this.getOwnedWebhook(userId, webhookId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      if (input.url) {
+        const targetError = await checkWebhookTarget(input.url);
+        if (targetError) {
+          return { success: false, error: targetError };
+        }
+      }
+
+      const webhook = await this.webhookRepository.update(webhookId, input);
+      return { success: true, data: this.withoutSecret(webhook) };
+    } catch (error) {
+      return { success: false, error: 'Failed to update webhook' };
+    }
+  }
+
+  async deleteWebhook(userId: string, webhookId: string): Promise<ServiceResult<boolean>> {
+    try {
+      const access = await this.getOwnedWebhook(userId, webhookId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      await this.webhookRepository.delete(webhookId);
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete webhook' };
+    }
+  }
+
+  async getDeliveries(
+    userId: string,
+    webhookId: string,
+    query: GetWebhookDeliveriesQuery
+  ): Promise<ServiceResult<PaginatedResult<WebhookDelivery>>> {
+    try {
+      const access = await this.getOwnedWebhook(userId, webhookId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const { deliveries, total } = await this.webhookRepository.findDeliveries(webhookId, query);
+
+      return {
+        success: true,
+        data: {
+          data: deliveries,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            hasMore: query.page * query.limit < total,
+          },
+        },
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to get webhook deliveries' };
+    }
+  }
+
+  /**
+   * Sends a `webhook.test` event right away, even to inactive webhooks, and returns the logged
+   * delivery. A failed test is not retried.
+   */
+  async testWebhook(userId: string, webhookId: string): Promise<ServiceResult<WebhookDelivery>> {
+    try {
+      const access = await this.getOwnedWebhook(userId, webhookId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const delivery = await this.webhookRepository.createDelivery({
+        webhookId,
+        event: WEBHOOK_TEST_EVENT,
+        payload: this.buildPayload(WEBHOOK_TEST_EVENT, {
+          webhookId,
+          message: 'Test delivery from Golden Palace',
+        }),
+        nextAttemptAt: this.retryAt(1),
+      });
+
+      return { success: true, data: await this.attempt(access.data, delivery, false) };
+    } catch (error) {
+      return { success: false, error: 'Failed to send test delivery' };
+    }
+  }
+
+  /**
+   * Logs a delivery for every active webhook subscribed to the event in scope and makes the first
+   * attempt in the background, so callers never wait on a slow endpoint. Returns how many
+   * deliveries were queued; failures are logged rather than passed to the caller.
+   */
+  async dispatch(
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    scope: WebhookScope
+  ): Promise<ServiceResult<number>> {
+    try {
+      const webhooks = await this.webhookRepository.findSubscribers(event, scope.userIds, scope.groupId);
+      if (webhooks.length === 0) {
+        return { success: true, data: 0 };
+      }
+
+      // One event id for every endpoint, so receivers can recognise the same event and retries
+      const payload = this.buildPayload(event, data);
+
+      for (const webhook of webhooks) {
+        const delivery = await this.webhookRepository.createDelivery({
+          webhookId: webhook.id,
+          event,
+          payload,
+          nextAttemptAt: this.retryAt(1),
+        });
+        this.attempt(webhook, delivery, true).catch(error => {
+          console.error(`[Webhooks] Delivery ${delivery.id} failed to record:`, error);
+        });
+      }
+
+      return { success: true, data: webhooks.length };
+    } catch (error) {
+      console.error(`[Webhooks] Failed to dispatch ${event}:`, error);
+      return { success: false, error: 'Failed to dispatch webhook event' };
+    }
+  }
+
+  async dispatchPositionClosed(position: PaperPositionWithDetails): Promise<ServiceResult<number>> {
+    return this.dispatch(
+      'position.closed',
+      {
+        positionId: position.id,
+        userId: position.userId,
+        groupId: position.groupId,
+        symbol: position.symbol,
+        quantity: position.quantity,
+        entryPrice: position.entryPrice,
+        closedPrice: position.closedPrice,
+        pnl: position.pnl,
+        pnlPercent: position.pnlPercent,
+        closeReason: position.closeReason,
+        closedAt: position.closedAt,
+      },
+      { userIds: [position.userId], groupId: position.groupId }
+    );
+  }
+
+  /**
+   * Retries pending deliveries whose backoff has elapsed. Returns how many were attempted, or
+   * null when the previous run is still in flight.
+   */
+  async retryDueDeliveries(now: Date = new Date()): Promise<number | null> {
+    if (this.retrying) return null;
+    this.retrying = true;
+
+    try {
+      const deliveries = await this.webhookRepository.findDueDeliveries(now, RETRY_BATCH_SIZE);
+
+      for (const { webhook, ...delivery } of deliveries) {
+        await this.attempt(webhook, delivery, true);
+      }
+
+      return deliveries.length;
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  /**
+   * POSTs the signed payload and records the outcome. A 2xx response succeeds; anything else is
+   * scheduled for another attempt with exponential backoff until the attempts run out. Only a
+   * successful response's body is kept, so a redirect or error page is never echoed back.
+   */
+  private async attempt(
+    webhook: WebhookWithSecret,
+    delivery: WebhookDelivery,
+    retry: boolean
+  ): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const targetError = await checkWebhookTarget(webhook.url);
+      if (targetError) {
+        throw new Error(targetError);
+      }
+
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'GoldenPalace-Webhooks/1.0',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        ...(!allowsPrivateWebhookHosts() && { dispatcher: publicWebhookAgent }),
+      });
+
+      responseStatus = response.status;
+      if (response.ok) {
+        responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH) || null;
+      } else {
+        await response.body?.cancel();
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError) {
+      // fetch reports connection failures, including a refused address, as the cause
+      const cause = requestError instanceof Error && requestError.cause instanceof Error
+        ? requestError.cause
+        : requestError;
+      error = cause instanceof Error ? cause.message.slice(0, 500) : 'Request failed';
+    }
+
+    if (!error) {
+      return this.webhookRepository.recordAttempt(delivery.id, {
+        status: 'SUCCEEDED',
+        attempts,
+        responseStatus,
+        responseBody,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+    }
+
+    const willRetry = retry && attempts < MAX_DELIVERY_ATTEMPTS;
+    return this.webhookRepository.recordAttempt(delivery.id, {
+      status: willRetry ? 'PENDING' : 'FAILED',
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      nextAttemptAt: willRetry ? this.retryAt(attempts) : null,
+      deliveredAt: null,
+    });
+  }
+
+  // Backoff doubles after every failed attempt
+  private retryAt(failedAttempts: number): Date {
+    return new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1));
+  }
+
+  private buildPayload(event: string, data: Record<string, unknown>): WebhookPayload {
+    return {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private withoutSecret({ secret: _secret, ...webhook }: WebhookWithSecret): Webhook {
+    return webhook;
+  }
+
+  // Another user's webhook is reported as missing rather than forbidden
+  private async getOwnedWebhook(userId: string, webhookId: string) {
+    const webhook = await this.webhookRepository.findById(webhookId);
+    if (!webhook || webhook.userId !== userId) {
+      return { success: false as const, error: 'Webhook not found', data: undefined };
+    }
+    return { success: true as const, data: webhook };
+  }
+}
@@ -21,7 +21,7 @@ describe('MarketDataHandler', () => {
     });
 
     // Create handler
-    handler = new MarketDataHandler(io);
+    handler = new MarketDataHandler(io.of('/'));
 
     // Start server
     await new Promise<void>((resolve) => {
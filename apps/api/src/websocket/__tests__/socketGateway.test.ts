@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server as SocketIOServer } from 'socket.io';
+import { createServer, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { io as ioc, type Socket as ClientSocket } from 'socket.io-client';
+import { SocketGateway } from '../socketGateway';
+import { TokenService } from '../../services/token.service';
+import type { GroupRepository } from '../../repositories/group.repository';
+import type { PortfolioRepository } from '../../repositories/portfolio.repository';
+
+describe('SocketGateway', () => {
+  let httpServer: HttpServer;
+  let io: SocketIOServer;
+  let gateway: SocketGateway;
+  let tokenService: TokenService;
+  let mockGroupRepository: any;
+  let mockPortfolioRepository: any;
+  let clientSocket: ClientSocket | null;
+  let url: string;
+
+  const connect = (namespace: string, token?: string): ClientSocket => {
+    clientSocket = ioc(`${url}${namespace}`, {
+      ...(token && { auth: { token } }),
+      forceNew: true,
+      transports: ['websocket'],
+    });
+    return clientSocket;
+  };
+
+  const waitFor = <T = any>(socket: ClientSocket, event: string): Promise<T> =>
+    new Promise(resolve => socket.once(event, resolve));
+
+  beforeEach(async () => {
+    httpServer = createServer();
+    io = new SocketIOServer(httpServer);
+    tokenService = new TokenService();
+    vi.spyOn(tokenService, 'verifyAccessToken').mockImplementation((token: string) =>
+      token === 'valid-token'
+        ? { success: true, data: { userId: 'user1', email: 'user1@example.com', username: 'user1', iat: 0, exp: 0 } }
+        : { success: false, error: 'Invalid token' }
+    );
+
+    mockGroupRepository = { isUserMember: vi.fn().mockResolvedValue(true) };
+    mockPortfolioRepository = { findById: vi.fn() };
+
+    gateway = new SocketGateway(
+      io,
+      tokenService,
+      mockGroupRepository as unknown as GroupRepository,
+      mockPortfolioRepository as unknown as PortfolioRepository
+    );
+
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    clientSocket = null;
+  });
+
+  afterEach(async () => {
+    clientSocket?.disconnect();
+    io.close();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    vi.restoreAllMocks();
+  });
+
+  it('should reject connections without a valid access token on every namespace', async () => {
+    for (const namespace of ['/', '/chat', '/market-data', '/trading']) {
+      const error = await waitFor<Error>(connect(namespace, 'forged-token'), 'connect_error');
+      expect(error.message).toBe('Authentication failed: Invalid token');
+      clientSocket!.disconnect();
+    }
+
+    const error = await waitFor<Error>(connect('/trading'), 'connect_error');
+    expect(error.message).toBe('Authentication failed: No token provided');
+  });
+
+  it('should only join group rooms the user is an active member of', async () => {
+    mockGroupRepository.isUserMember.mockResolvedValue(false);
+    const socket = connect('/trading', 'valid-token');
+    await waitFor(socket, 'connect');
+
+    socket.emit('group:join', 'group1');
+    const error = await waitFor(socket, 'group:join-error');
+
+    expect(error).toEqual({ groupId: 'group1', message: 'You are not a member of this group' });
+    expect(mockGroupRepository.isUserMember).toHaveBeenCalledWith('group1', 'user1');
+  });
+
+  it('should deliver group events to members who joined the room', async () => {
+    const socket = connect('/trading', 'valid-token');
+    await waitFor(socket, 'connect');
+
+    socket.emit('group:join', 'group1');
+    await waitFor(socket, 'group:joined');
+
+    const received = waitFor(socket, 'trade:opened');
+    gateway.emitToGroup('group1', 'trade:opened', { symbol: 'AAPL' });
+
+    expect(await received).toEqual({ symbol: 'AAPL' });
+  });
+
+  it('should not let a socket subscribe to another user\'s trades', async () => {
+    const socket = connect('/trading', 'valid-token');
+    await waitFor(socket, 'connect');
+
+    socket.emit('join:trades', 'user2');
+    const error = await waitFor(socket, 'trades:error');
+
+    expect(error.message).toBe('You can only subscribe to your own trades');
+    expect(io.of('/trading').adapter.rooms.get('user:user2:trades')).toBeUndefined();
+  });
+
+  it('should only grant portfolio access to the owner', async () => {
+    mockPortfolioRepository.findById.mockResolvedValue({ id: 'portfolio1', userId: 'user2' });
+
+    await expect(gateway.canAccessPortfolio('user1', 'portfolio1')).resolves.toBe(false);
+    await expect(gateway.canAccessPortfolio('user2', 'portfolio1')).resolves.toBe(true);
+  });
+});
@@ -1,14 +1,8 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Namespace } from 'socket.io';
 import { MessageService } from '../services/message.service';
-import { GroupService } from '../services/group.service';
-import { AuthService } from '../services/auth.service';
+import { GroupRepository } from '../repositories/group.repository';
 import type { CreateMessageInput } from '@golden-palace/shared';
-
-interface AuthenticatedSocket extends Socket {
-  userId?: string;
-  username?: string;
-  email?: string;
-}
+import type { AuthenticatedSocket } from './socketGateway';
 
 interface TypingTracker {
   [groupId: string]: {
@@ -22,42 +16,15 @@ interface TypingTracker {
 export class ChatHandler {
   private typingUsers: TypingTracker = {};
 
+  // Sockets are authenticated by SocketGateway before they reach this namespace
   constructor(
-    private io: SocketIOServer,
+    private io: Namespace,
     private messageService: MessageService,
-    private groupService: GroupService,
-    private authService: AuthService
+    private groupRepository: GroupRepository
   ) {
-    this.setupMiddleware();
     this.setupEventHandlers();
   }
 
-  private setupMiddleware(): void {
-    this.io.use(async (socket: AuthenticatedSocket, next) => {
-      try {
-        const token = socket.handshake.auth?.token;
-
-        if (!token) {
-          return next(new Error('Authentication failed: No token provided'));
-        }
-
-        const authResult = await this.authService.verifyToken(token);
-
-        if (!authResult.success || !authResult.data) {
-          return next(new Error('Authentication failed: Invalid token'));
-        }
-
-        socket.userId = authResult.data.userId;
-        socket.username = authResult.data.username;
-        socket.email = authResult.data.email;
-
-        next();
-      } catch (error) {
-        next(new Error('Authentication failed: Server error'));
-      }
-    });
-  }
-
   private setupEventHandlers(): void {
     this.io.on('connection', (socket: AuthenticatedSocket) => {
       console.log(`User ${socket.username} connected`);
@@ -79,9 +46,9 @@ export class ChatHandler {
           return;
         }
 
-        const membershipResult = await this.groupService.getMembership(socket.userId, groupId);
+        const isMember = await this.groupRepository.isUserMember(groupId, socket.userId);
 
-        if (!membershipResult.success) {
+        if (!isMember) {
           socket.emit('group-join-error', {
             message: 'You are not a member of this group'
           });
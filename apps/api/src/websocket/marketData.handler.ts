@@ -1,5 +1,6 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Namespace, Socket } from 'socket.io';
 import { MarketDataService } from '../services/marketData.service';
+import type { AuthenticatedSocket } from './socketGateway';
 
 export interface MarketDataUpdate {
   symbol: string;
@@ -18,6 +19,9 @@ export interface SubscriptionData {
   portfolioId?: string;
 }
 
+export type PortfolioAccessCheck = (userId: string, portfolioId: string) => Promise<boolean>;
+export type PriceUpdateListener = (prices: Record<string, number>) => Promise<void>;
+
 export class MarketDataHandler {
   private marketDataService: MarketDataService;
   private activeSubscriptions: Map<string, Set<string>> = new Map(); // socketId -> symbols
@@ -27,7 +31,16 @@ export class MarketDataHandler {
   private newsInterval: NodeJS.Timeout | null = null;
   private lastPrices: Map<string, number> = new Map();
 
-  constructor(private io: SocketIOServer) {
+  /**
+   * Without an access check any socket may join a portfolio room, which is only
+   * appropriate when the namespace is not reachable by untrusted clients. The price
+   * listener receives every periodic batch of fetched prices.
+   */
+  constructor(
+    private io: Namespace,
+    private canAccessPortfolio?: PortfolioAccessCheck,
+    private onPriceUpdate?: PriceUpdateListener
+  ) {
     this.marketDataService = new MarketDataService();
     this.setupEventHandlers();
     this.startPeriodicUpdates();
@@ -49,10 +62,16 @@ export class MarketDataHandler {
         this.handleUnsubscription(socket, symbols);
       });
 
+      // Batched updates for every tracked symbol
+      socket.on('join:feed', () => {
+        socket.join('market:feed');
+      });
+
       // Handle portfolio-specific market data
-      socket.on('portfolio:subscribe', (portfolioId: string) => {
-        socket.join(`portfolio:${portfolioId}`);
-        console.log(`[MarketData] Client ${socket.id} subscribed to portfolio ${portfolioId}`);
+      socket.on('portfolio:subscribe', async (portfolioId: string) => {
+        if (await this.joinPortfolioRoom(socket, portfolioId)) {
+          console.log(`[MarketData] Client ${socket.id} subscribed to portfolio ${portfolioId}`);
+        }
       });
 
       // Handle market overview subscription
@@ -97,6 +116,21 @@ export class MarketDataHandler {
     });
   }
 
+  private async joinPortfolioRoom(socket: AuthenticatedSocket, portfolioId: string): Promise<boolean> {
+    try {
+      if (this.canAccessPortfolio && !(await this.canAccessPortfolio(socket.userId!, portfolioId))) {
+        socket.emit('portfolio:error', { portfolioId, message: 'Portfolio not found' });
+        return false;
+      }
+
+      await socket.join(`portfolio:${portfolioId}`);
+      return true;
+    } catch (error) {
+      socket.emit('portfolio:error', { portfolioId, message: 'Failed to subscribe to portfolio' });
+      return false;
+    }
+  }
+
   private handleSubscription(socket: Socket, data: SubscriptionData): void {
     const { symbols, portfolioId } = data;
 
@@ -122,7 +156,7 @@ export class MarketDataHandler {
 
     // Join portfolio room if specified
     if (portfolioId) {
-      socket.join(`portfolio:${portfolioId}`);
+      this.joinPortfolioRoom(socket, portfolioId);
     }
 
     // Send initial price data for subscribed symbols
@@ -285,6 +319,11 @@ export class MarketDataHandler {
         this.io.to('market:feed').emit('market:batch', updates);
       }
 
+      if (this.onPriceUpdate && updates.length > 0) {
+        this.onPriceUpdate(Object.fromEntries(updates.map(update => [update.symbol, update.price])))
+          .catch(error => console.error('[MarketData] Price update listener failed:', error));
+      }
+
     } catch (error) {
       console.error(`[MarketData] Error during periodic update:`, error);
     }
@@ -503,8 +542,8 @@ export class MarketDataHandler {
       totalSockets: this.activeSubscriptions.size,
       totalSymbols: this.symbolSubscribers.size,
       symbolsMap,
-      marketOverviewSubscribers: this.io.sockets.adapter.rooms.get('market:overview')?.size || 0,
-      newsSubscribers: this.io.sockets.adapter.rooms.get('news:general')?.size || 0
+      marketOverviewSubscribers: this.io.adapter.rooms.get('market:overview')?.size || 0,
+      newsSubscribers: this.io.adapter.rooms.get('news:general')?.size || 0
     };
   }
 
@@ -0,0 +1,20 @@
+import { Namespace } from 'socket.io';
+
+/**
+ * Pushes server-side events to the `portfolio:${portfolioId}` rooms of the market data
+ * namespace, which MarketDataHandler only lets a portfolio's owner join. Like
+ * UserNotifier, the namespace is attached from server.ts and emits are dropped until then.
+ */
+export class PortfolioNotifier {
+  private namespace: Namespace | null = null;
+
+  attach(namespace: Namespace): void {
+    this.namespace = namespace;
+  }
+
+  emitToPortfolio(portfolioId: string, event: string, payload: unknown): void {
+    this.namespace?.to(`portfolio:${portfolioId}`).emit(event, payload);
+  }
+}
+
+export const portfolioNotifier = new PortfolioNotifier();
@@ -0,0 +1,128 @@
+import { Server as SocketIOServer, Namespace, Socket } from 'socket.io';
+import { TokenService } from '../services/token.service';
+import { GroupRepository } from '../repositories/group.repository';
+import { PortfolioRepository } from '../repositories/portfolio.repository';
+
+export interface AuthenticatedSocket extends Socket {
+  userId?: string;
+  username?: string;
+  email?: string;
+}
+
+export const SOCKET_NAMESPACES = {
+  CHAT: '/chat',
+  MARKET_DATA: '/market-data',
+  TRADING: '/trading',
+} as const;
+
+/**
+ * Socket.IO middleware that only lets a connection through with a valid access token
+ * in `handshake.auth.token`, and stores the token's user on the socket.
+ */
+export function authenticateSocket(tokenService: TokenService) {
+  return (socket: AuthenticatedSocket, next: (error?: Error) => void): void => {
+    const token = socket.handshake.auth?.['token'];
+
+    if (!token) {
+      return next(new Error('Authentication failed: No token provided'));
+    }
+
+    const verification = tokenService.verifyAccessToken(token);
+
+    if (!verification.success || !verification.data) {
+      return next(new Error('Authentication failed: Invalid token'));
+    }
+
+    socket.userId = verification.data.userId;
+    socket.username = verification.data.username;
+    socket.email = verification.data.email;
+
+    next();
+  };
+}
+
+/**
+ * Single entry point for real-time traffic. Every namespace requires an authenticated
+ * socket; rooms carrying another user's or group's data are joined only after an
+ * ownership or membership check, never on the client's word.
+ */
+export class SocketGateway {
+  readonly chat: Namespace;
+  readonly marketData: Namespace;
+  readonly trading: Namespace;
+
+  constructor(
+    private io: SocketIOServer,
+    private tokenService: TokenService,
+    private groupRepository: GroupRepository,
+    private portfolioRepository: PortfolioRepository
+  ) {
+    this.chat = io.of(SOCKET_NAMESPACES.CHAT);
+    this.marketData = io.of(SOCKET_NAMESPACES.MARKET_DATA);
+    this.trading = io.of(SOCKET_NAMESPACES.TRADING);
+
+    const authenticate = authenticateSocket(this.tokenService);
+    for (const namespace of [io.of('/'), this.chat, this.marketData, this.trading]) {
+      namespace.use(authenticate);
+    }
+
+    this.setupDefaultNamespace();
+    this.setupTradingNamespace();
+  }
+
+  async canAccessPortfolio(userId: string, portfolioId: string): Promise<boolean> {
+    const portfolio = await this.portfolioRepository.findById(portfolioId);
+    return !!portfolio && portfolio.userId === userId;
+  }
+
+  emitToGroup(groupId: string, event: string, payload: unknown): void {
+    this.trading.to(`group:${groupId}`).emit(event, payload);
+  }
+
+  // Personal events (achievements, notifications) go to the default namespace's user room
+  private setupDefaultNamespace(): void {
+    this.io.on('connection', (socket: AuthenticatedSocket) => {
+      socket.join(`user:${socket.userId}`);
+    });
+  }
+
+  private setupTradingNamespace(): void {
+    this.trading.on('connection', (socket: AuthenticatedSocket) => {
+      const userId = socket.userId!;
+      socket.join(`user:${userId}:trades`);
+
+      // Kept for older clients: the room is joined on connect and only for the caller
+      socket.on('join:trades', (requestedUserId: string) => {
+        if (requestedUserId !== userId) {
+          socket.emit('trades:error', { message: 'You can only subscribe to your own trades' });
+        }
+      });
+
+      socket.on('group:join', async (groupId: string) => {
+        try {
+          if (!groupId) {
+            socket.emit('group:join-error', { message: 'Invalid request data' });
+            return;
+          }
+
+          const isMember = await this.groupRepository.isUserMember(groupId, userId);
+          if (!isMember) {
+            socket.emit('group:join-error', { groupId, message: 'You are not a member of this group' });
+            return;
+          }
+
+          await socket.join(`group:${groupId}`);
+          socket.emit('group:joined', { groupId });
+        } catch (error) {
+          socket.emit('group:join-error', { groupId, message: 'Failed to join group' });
+        }
+      });
+
+      socket.on('group:leave', async (groupId: string) => {
+        if (groupId) {
+          await socket.leave(`group:${groupId}`);
+        }
+      });
+    });
+  }
+}
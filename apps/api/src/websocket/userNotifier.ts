@@ -0,0 +1,20 @@
+import { Server as SocketIOServer } from 'socket.io';
+
+/**
+ * Pushes server-side events to a single user's `user:${userId}` room.
+ * Services are created when route modules load, before the Socket.IO server exists,
+ * so the server is attached later from server.ts and emits are dropped until then.
+ */
+export class UserNotifier {
+  private io: SocketIOServer | null = null;
+
+  attach(io: SocketIOServer): void {
+    this.io = io;
+  }
+
+  emitToUser(userId: string, event: string, payload: unknown): void {
+    this.io?.to(`user:${userId}`).emit(event, payload);
+  }
+}
+
+export const userNotifier = new UserNotifier();
@@ -1,5 +1,6 @@
 import { useAuthStore } from '../../stores/authStore';
 import { LogOut, User } from 'lucide-react';
+import { NotificationBell } from './NotificationBell';
 
 export function Header() {
   const { user, logout } = useAuthStore();
@@ -12,6 +13,8 @@ export function Header() {
         </div>
 
         <div className="flex items-center space-x-4">
+          <NotificationBell />
+
           <div className="flex items-center space-x-2">
             <User className="h-5 w-5" />
             <span className="text-sm font-medium">{user?.username}</span>
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, Settings } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { NOTIFICATION_TYPES, type NotificationType } from '@golden-palace/shared';
+import { useNotificationStore } from '../../stores/notificationStore';
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  ALERT_TRIGGERED: 'Price alerts',
+  STOP_LOSS_FILLED: 'Stop-loss fills',
+  TAKE_PROFIT_FILLED: 'Take-profit fills',
+  COMPETITION_STARTED: 'Competition start',
+  COMPETITION_ENDED: 'Competition results',
+  GROUP_INVITE: 'Group invites',
+  MENTION: 'Mentions',
+  ACHIEVEMENT_UNLOCKED: 'Achievements',
+};
+
+export function NotificationBell() {
+  const {
+    notifications,
+    unreadCount,
+    preferences,
+    loadNotifications,
+    markRead,
+    markAllRead,
+    loadPreferences,
+    setPreference,
+    subscribe,
+  } = useNotificationStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadNotifications();
+
+    const token = localStorage.getItem('accessToken');
+    return token ? subscribe(token) : undefined;
+  }, [loadNotifications, subscribe]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const togglePreferences = () => {
+    if (!showPreferences && !preferences) {
+      loadPreferences();
+    }
+    setShowPreferences(!showPreferences);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-muted-foreground hover:text-foreground transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-card border border-border rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <span className="text-sm font-semibold">Notifications</span>
+            <div className="flex items-center space-x-2">
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-xs text-primary hover:underline">
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={togglePreferences}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label="Notification settings"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="px-4 py-3 space-y-2">
+              {!preferences && <p className="text-sm text-muted-foreground">Loading settings...</p>}
+              {preferences &&
+                NOTIFICATION_TYPES.map(type => (
+                  <label key={type} className="flex items-center justify-between text-sm">
+                    <span>{TYPE_LABELS[type]}</span>
+                    <input
+                      type="checkbox"
+                      checked={preferences[type]}
+                      onChange={event => setPreference(type, event.target.checked)}
+                    />
+                  </label>
+                ))}
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {notifications.length === 0 && (
+                <li className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet</li>
+              )}
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => markRead(notification.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-muted transition-colors ${
+                      notification.readAt ? 'opacity-70' : ''
+                    }`}
+                  >
+                    <div className="flex items-start justify-between space-x-2">
+                      <span className="text-sm font-medium">{notification.title}</span>
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">{notification.body}</p>
+                    <p className="text-[11px] text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
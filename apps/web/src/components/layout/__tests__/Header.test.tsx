@@ -8,6 +8,11 @@ vi.mock('../../../stores/authStore', () => ({
   useAuthStore: vi.fn(),
 }));
 
+// The bell loads and subscribes to notifications; it has its own tests
+vi.mock('../NotificationBell', () => ({
+  NotificationBell: () => <button aria-label="Notifications" />,
+}));
+
 describe('Header', () => {
   const mockLogout = vi.fn();
   const mockUser = {
@@ -49,6 +54,12 @@ describe('Header', () => {
       expect(logoutButton).toBeInTheDocument();
     });
 
+    it('should render the notification bell', () => {
+      render(<Header />);
+
+      expect(screen.getByRole('button', { name: 'Notifications' })).toBeInTheDocument();
+    });
+
     it('should render user icon', () => {
       render(<Header />);
 
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { NotificationBell } from '../NotificationBell';
+import { useNotificationStore } from '../../../stores/notificationStore';
+
+vi.mock('../../../stores/notificationStore', () => ({
+  useNotificationStore: vi.fn(),
+}));
+
+describe('NotificationBell', () => {
+  const store = {
+    notifications: [
+      {
+        id: 'n1',
+        userId: 'user-1',
+        type: 'ALERT_TRIGGERED' as const,
+        title: 'AAPL alert triggered',
+        body: 'Price above 200',
+        data: { alertId: 'alert-1' },
+        readAt: null,
+        createdAt: new Date(),
+      },
+      {
+        id: 'n2',
+        userId: 'user-1',
+        type: 'MENTION' as const,
+        title: 'trader mentioned you in Day Traders',
+        body: '@testuser nice call',
+        data: null,
+        readAt: new Date(),
+        createdAt: new Date(),
+      },
+    ],
+    unreadCount: 1,
+    preferences: null,
+    isLoading: false,
+    error: null,
+    loadNotifications: vi.fn(),
+    markRead: vi.fn(),
+    markAllRead: vi.fn(),
+    loadPreferences: vi.fn(),
+    setPreference: vi.fn(),
+    subscribe: vi.fn(() => vi.fn()),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.setItem('accessToken', 'token-123');
+    vi.mocked(useNotificationStore).mockReturnValue(store);
+  });
+
+  it('should load notifications and subscribe to live delivery on mount', () => {
+    render(<NotificationBell />);
+
+    expect(store.loadNotifications).toHaveBeenCalledOnce();
+    expect(store.subscribe).toHaveBeenCalledWith('token-123');
+  });
+
+  it('should show the unread count on the bell', () => {
+    render(<NotificationBell />);
+
+    expect(screen.getByRole('button', { name: 'Notifications (1 unread)' })).toHaveTextContent('1');
+  });
+
+  it('should list notifications and mark them read when opened', () => {
+    render(<NotificationBell />);
+
+    fireEvent.click(screen.getByRole('button', { name: /notifications/i }));
+    expect(screen.getByText('trader mentioned you in Day Traders')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('AAPL alert triggered'));
+    expect(store.markRead).toHaveBeenCalledWith('n1');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark all read' }));
+    expect(store.markAllRead).toHaveBeenCalledOnce();
+  });
+
+  it('should load preferences when the settings view is opened', () => {
+    render(<NotificationBell />);
+
+    fireEvent.click(screen.getByRole('button', { name: /notifications/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Notification settings' }));
+
+    expect(store.loadPreferences).toHaveBeenCalledOnce();
+    expect(screen.getByText('Loading settings...')).toBeInTheDocument();
+  });
+});
@@ -9,6 +9,8 @@ export type AssetType =
 
 export type ValuationMethod = 'MARKET_PRICE' | 'MANUAL' | 'APPRAISAL' | 'FORMULA';
 
+export type HoldingSource = 'TRANSFER' | 'BUY';
+
 interface AssetFormData {
   symbol: string;
   name: string;
@@ -21,6 +23,7 @@ interface AssetFormData {
   description?: string;
   customAttributes?: Record<string, any>;
   notes?: string;
+  source: HoldingSource;
 }
 
 interface AddAssetModalProps {
@@ -140,7 +143,8 @@ export function AddAssetModal({ isOpen, onClose, onSubmit, portfolioId }: AddAss
     quantity: 0,
     averageCost: 0,
     valuationMethod: 'MARKET_PRICE',
-    customAttributes: {}
+    customAttributes: {},
+    source: 'TRANSFER'
   });
 
   const [customFields, setCustomFields] = useState<Record<string, string>>({});
@@ -195,7 +199,8 @@ export function AddAssetModal({ isOpen, onClose, onSubmit, portfolioId }: AddAss
       quantity: 0,
       averageCost: 0,
       valuationMethod: 'MARKET_PRICE',
-      customAttributes: {}
+      customAttributes: {},
+      source: 'TRANSFER'
     });
     setCustomFields({});
     setErrors({});
@@ -277,6 +282,23 @@ export function AddAssetModal({ isOpen, onClose, onSubmit, portfolioId }: AddAss
               </div>
             )}
 
+            {/* Holdings with a symbol are either moved in or paid for from the portfolio's cash */}
+            {currentCategory.fields.includes('symbol') && (
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Source
+                </label>
+                <select
+                  value={formData.source}
+                  onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value as HoldingSource }))}
+                  className="w-full px-3 py-2 border border-input bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="TRANSFER">Transferred in</option>
+                  <option value="BUY">Bought with portfolio cash</option>
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
                 Name
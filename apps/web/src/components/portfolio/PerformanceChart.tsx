@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import type { BenchmarkComparison } from '@golden-palace/shared';
+import { riskAnalyticsService } from '../../services/riskAnalytics.service';
+
+interface PerformanceChartProps {
+  portfolioId: string;
+  days?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = 40;
+const PORTFOLIO_COLOR = '#667eea';
+const BENCHMARK_COLOR = '#9ca3af';
+
+export function PerformanceChart({ portfolioId, days = 365 }: PerformanceChartProps) {
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+  const [benchmarkInput, setBenchmarkInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    riskAnalyticsService.getBenchmarkComparison(portfolioId, days)
+      .then((result) => {
+        if (cancelled) return;
+        setComparison(result);
+        setBenchmarkInput(result.benchmarkSymbol);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load performance');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId, days]);
+
+  const handleBenchmarkSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const symbol = benchmarkInput.trim().toUpperCase();
+    if (!symbol || symbol === comparison?.benchmarkSymbol) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setComparison(await riskAnalyticsService.setBenchmark(portfolioId, symbol));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change benchmark');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatPercentage = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+  const renderChart = (data: BenchmarkComparison) => {
+    const values = data.series.flatMap(point => [point.portfolio, point.benchmark]);
+    const minValue = Math.min(0, ...values);
+    let maxValue = Math.max(0, ...values);
+    if (maxValue === minValue) maxValue = minValue + 1;
+    const range = maxValue - minValue;
+    const chartWidth = WIDTH - PADDING * 2;
+    const chartHeight = HEIGHT - PADDING * 2;
+
+    const x = (index: number) => (index / (data.series.length - 1)) * chartWidth + PADDING;
+    const y = (value: number) => HEIGHT - PADDING - ((value - minValue) / range) * chartHeight;
+    const path = (key: 'portfolio' | 'benchmark') =>
+      data.series.map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(point[key])}`).join(' ');
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <line x1={PADDING} y1={y(0)} x2={WIDTH - PADDING} y2={y(0)} stroke="#e5e7eb" strokeDasharray="4 4" />
+        <text x={PADDING - 6} y={y(maxValue) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+          {formatPercentage(maxValue)}
+        </text>
+        <text x={PADDING - 6} y={y(minValue) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+          {formatPercentage(minValue)}
+        </text>
+        <path d={path('benchmark')} fill="none" stroke={BENCHMARK_COLOR} strokeWidth="1.5" />
+        <path d={path('portfolio')} fill="none" stroke={PORTFOLIO_COLOR} strokeWidth="2" />
+        <text x={PADDING} y={HEIGHT - 10} fontSize="10" fill="#6b7280">
+          {data.series[0]!.date}
+        </text>
+        <text x={WIDTH - PADDING} y={HEIGHT - 10} textAnchor="end" fontSize="10" fill="#6b7280">
+          {data.series[data.series.length - 1]!.date}
+        </text>
+      </svg>
+    );
+  };
+
+  const stats = comparison
+    ? [
+        { label: 'Beta', value: comparison.beta.toFixed(2) },
+        { label: 'Tracking Error', value: `${(comparison.trackingError * 100).toFixed(2)}%` },
+        { label: 'Information Ratio', value: comparison.informationRatio.toFixed(2) },
+        { label: 'Up Capture', value: `${comparison.upCaptureRatio.toFixed(1)}%` },
+        { label: 'Down Capture', value: `${comparison.downCaptureRatio.toFixed(1)}%` }
+      ]
+    : [];
+
+  return (
+    <div className="bg-card border border-border rounded-lg">
+      <div className="flex items-center justify-between p-6 border-b border-border">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Performance</h2>
+          <div className="flex items-center space-x-4 mt-1 text-sm text-muted-foreground">
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-0.5 mr-2" style={{ backgroundColor: PORTFOLIO_COLOR }} />
+              Portfolio
+            </span>
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-0.5 mr-2" style={{ backgroundColor: BENCHMARK_COLOR }} />
+              {comparison?.benchmarkSymbol ?? 'Benchmark'}
+            </span>
+          </div>
+        </div>
+        <form onSubmit={handleBenchmarkSubmit} className="flex items-center space-x-2">
+          <label htmlFor="benchmark-symbol" className="text-sm text-muted-foreground">
+            Benchmark
+          </label>
+          <input
+            id="benchmark-symbol"
+            value={benchmarkInput}
+            onChange={(e) => setBenchmarkInput(e.target.value)}
+            maxLength={20}
+            className="w-24 px-2 py-1 text-sm border border-border rounded bg-background text-foreground uppercase"
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="px-3 py-1 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </form>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {comparison && comparison.series.length >= 2 ? (
+          renderChart(comparison)
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            {isLoading ? 'Loading performance...' : 'Not enough price history to compare with the benchmark yet.'}
+          </p>
+        )}
+
+        {comparison && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label}>
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+                <p className="text-lg font-semibold text-foreground">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
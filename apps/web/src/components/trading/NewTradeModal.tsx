@@ -155,6 +155,7 @@ export function NewTradeModal({ isOpen, onClose }: NewTradeModalProps) {
               assetType: formData.assetType,
               quantity: formData.quantity,
               averageCost: formData.entryPrice,
+              source: 'BUY',
             });
           }
           break;
@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Plus, TrendingUp, TrendingDown, Edit2, Trash2, Settings } from 'lucide-react';
 import { usePortfolioStore } from '../stores/portfolioStore';
 import { AddAssetModal } from '../components/portfolio/AddAssetModal';
+import { PerformanceChart } from '../components/portfolio/PerformanceChart';
 import type { Portfolio } from '../services/portfolio.service';
 
 export function PortfolioDetailPage() {
@@ -169,6 +170,9 @@ export function PortfolioDetailPage() {
         </div>
       </div>
 
+      {/* Performance vs Benchmark */}
+      {portfolioId && <PerformanceChart portfolioId={portfolioId} />}
+
       {/* Assets Section */}
       <div className="bg-card border border-border rounded-lg">
         <div className="flex items-center justify-between p-6 border-b border-border">
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { usePortfolioStore } from '../stores/portfolioStore';
 import { useRiskAnalyticsStore } from '../stores/riskAnalyticsStore';
-import { AlertTriangle, TrendingDown, TrendingUp, BarChart3, Zap, Shield } from 'lucide-react';
+import { AlertTriangle, TrendingDown, TrendingUp, BarChart3, Zap, Shield, Download } from 'lucide-react';
 
 function formatCurrency(value: number | null | undefined): string {
   if (value === null || value === undefined) return '$0.00';
@@ -46,6 +46,7 @@ export function RiskAnalyticsPage() {
     stressTestResults,
     monteCarloResults,
     liquidityRisk,
+    varBacktest,
     riskBreaches,
     selectedPortfolioId,
     selectedTimeHorizon,
@@ -54,13 +55,15 @@ export function RiskAnalyticsPage() {
     runFullRiskAnalysis,
     runDefaultStressTests,
     runMonteCarloSimulation,
+    getVaRBacktest,
+    downloadRiskReport,
     checkRiskBreaches,
     setSelectedPortfolio,
     setSelectedTimeHorizon,
     clearError
   } = useRiskAnalyticsStore();
 
-  const [analysisType, setAnalysisType] = useState<'basic' | 'stress' | 'monte-carlo'>('basic');
+  const [analysisType, setAnalysisType] = useState<'basic' | 'stress' | 'monte-carlo' | 'backtest'>('basic');
 
   useEffect(() => {
     fetchPortfolios();
@@ -93,6 +96,9 @@ export function RiskAnalyticsPage() {
         case 'monte-carlo':
           await runMonteCarloSimulation(selectedPortfolioId, 1000, selectedTimeHorizon);
           break;
+        case 'backtest':
+          await getVaRBacktest(selectedPortfolioId, { timeHorizon: selectedTimeHorizon });
+          break;
       }
 
       await checkRiskBreaches(selectedPortfolioId);
@@ -101,6 +107,27 @@ export function RiskAnalyticsPage() {
     }
   };
 
+  const handleExportReport = async (format: 'PDF' | 'CSV') => {
+    if (!selectedPortfolioId) return;
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    try {
+      clearError();
+      await downloadRiskReport({
+        portfolioId: selectedPortfolioId,
+        reportType: 'DETAILED',
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        includeCharts: true,
+        format
+      });
+    } catch (error) {
+      console.error('Report export failed:', error);
+    }
+  };
+
   const isLoading = portfolioLoading || riskLoading;
 
   return (
@@ -144,6 +171,7 @@ export function RiskAnalyticsPage() {
             <option value="basic">Basic Analysis</option>
             <option value="stress">Stress Test</option>
             <option value="monte-carlo">Monte Carlo</option>
+            <option value="backtest">VaR Backtest</option>
           </select>
 
           <button
@@ -154,6 +182,18 @@ export function RiskAnalyticsPage() {
             <Zap className="w-4 h-4" />
             Run Analysis
           </button>
+
+          {(['PDF', 'CSV'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExportReport(format)}
+              disabled={!selectedPortfolioId || isLoading}
+              className="px-4 py-2 border border-border rounded-lg hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              {format}
+            </button>
+          ))}
         </div>
       </div>
 
@@ -254,14 +294,14 @@ export function RiskAnalyticsPage() {
               {stressTestResults && stressTestResults.length > 0 ? (
                 <div className="space-y-3">
                   {stressTestResults.slice(0, 4).map((test, index) => (
-                    <div key={index} className="flex justify-between items-center">
+                    <div key={test.scenarioId ?? index} className="flex justify-between items-center">
                       <span className="text-sm font-medium">{test.scenarioName}</span>
                       <div className="text-right">
-                        <div className={`text-sm font-bold ${test.portfolioLoss < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                          {formatCurrency(test.portfolioLoss)}
+                        <div className={`text-sm font-bold ${test.portfolioLoss > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatCurrency(-test.portfolioLoss)}
                         </div>
                         <div className="text-xs text-muted-foreground">
-                          {formatPercentage(test.percentageChange)}
+                          {formatPercentage(-test.lossPercentage / 100)}
                         </div>
                       </div>
                     </div>
@@ -342,6 +382,45 @@ export function RiskAnalyticsPage() {
             </div>
           </div>
 
+          {varBacktest && (
+            <div className="bg-card border border-border rounded-lg p-6">
+              <h3 className="text-lg font-medium text-foreground mb-4 flex items-center gap-2">
+                <BarChart3 className="w-5 h-5" />
+                VaR Backtest
+              </h3>
+              {varBacktest.observations > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Violations</p>
+                    <p className="text-2xl font-bold text-foreground">
+                      {varBacktest.violations} / {varBacktest.observations}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatNumber(varBacktest.expectedViolations, 1)} expected at {(varBacktest.confidenceLevel * 100).toFixed(0)}%
+                    </p>
+                  </div>
+                  {[
+                    { label: 'Kupiec (coverage)', test: varBacktest.kupiecTest },
+                    { label: 'Christoffersen (independence)', test: varBacktest.christoffersenTest },
+                    { label: 'Conditional coverage', test: varBacktest.conditionalCoverageTest }
+                  ].map(({ label, test }) => (
+                    <div key={label}>
+                      <p className="text-sm text-muted-foreground">{label}</p>
+                      <p className={`text-2xl font-bold ${test.passed ? 'text-green-600' : 'text-red-600'}`}>
+                        {test.passed ? 'Pass' : 'Reject'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        LR {formatNumber(test.statistic)}, p = {formatNumber(test.pValue, 3)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground">No stored VaR forecasts have been realized yet for this horizon.</p>
+              )}
+            </div>
+          )}
+
           {liquidityRisk && (
             <div className="bg-card border border-border rounded-lg p-6">
               <h3 className="text-lg font-medium text-foreground mb-4">Liquidity Analysis</h3>
@@ -2,14 +2,19 @@ import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Eye, EyeOff } from 'lucide-react';
+import { Eye, EyeOff, ShieldCheck } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
-import { loginSchema, type LoginRequest } from '../../services/api';
+import {
+  loginSchema,
+  twoFactorCodeSchema,
+  type LoginRequest,
+  type TwoFactorCodeRequest,
+} from '../../services/api';
 
 export function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const navigate = useNavigate();
-  const { login, error, isLoading, clearError } = useAuthStore();
+  const { login, error, isLoading, clearError, twoFactorChallenge } = useAuthStore();
 
   const {
     register,
@@ -27,6 +32,10 @@ export function LoginPage() {
     }
   };
 
+  if (twoFactorChallenge) {
+    return <TwoFactorStep onVerified={() => navigate('/dashboard')} />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="max-w-md w-full space-y-8">
@@ -118,4 +127,85 @@ export function LoginPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Second login step for accounts with two-factor authentication
+function TwoFactorStep({ onVerified }: { onVerified: () => void }) {
+  const { verifyTwoFactor, cancelTwoFactor, error, isLoading, clearError } = useAuthStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TwoFactorCodeRequest>({
+    resolver: zodResolver(twoFactorCodeSchema),
+  });
+
+  const onSubmit = async (data: TwoFactorCodeRequest) => {
+    clearError();
+    const success = await verifyTwoFactor(data.code);
+    if (success) {
+      onVerified();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <ShieldCheck className="mx-auto h-10 w-10 text-primary" />
+          <h2 className="mt-4 text-3xl font-bold text-foreground">
+            Two-factor authentication
+          </h2>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-foreground">
+              Authentication code
+            </label>
+            <input
+              {...register('code')}
+              id="code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              className="mt-1 block w-full px-3 py-2 border border-input bg-background rounded-md shadow-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent tracking-widest"
+              placeholder="123456"
+            />
+            {errors.code && (
+              <p className="mt-1 text-sm text-destructive">Enter a valid code</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={cancelTwoFactor}
+              className="w-full text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
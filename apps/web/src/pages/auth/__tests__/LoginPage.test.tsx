@@ -647,4 +647,68 @@ describe('LoginPage', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('two-factor step', () => {
+    const mockVerifyTwoFactor = vi.fn();
+    const mockCancelTwoFactor = vi.fn();
+
+    beforeEach(() => {
+      vi.mocked(useAuthStore).mockReturnValue({
+        login: mockLogin,
+        clearError: mockClearError,
+        verifyTwoFactor: mockVerifyTwoFactor,
+        cancelTwoFactor: mockCancelTwoFactor,
+        twoFactorChallenge: 'challenge-token',
+        error: null,
+        isLoading: false,
+        user: null,
+        isAuthenticated: false,
+      });
+    });
+
+    it('should ask for a code instead of the password form while a challenge is pending', () => {
+      renderLoginPage();
+
+      expect(screen.getByText('Two-factor authentication')).toBeInTheDocument();
+      expect(screen.getByLabelText('Authentication code')).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Enter your password')).not.toBeInTheDocument();
+    });
+
+    it('should verify the code and navigate to dashboard', async () => {
+      const user = userEvent.setup();
+      mockVerifyTwoFactor.mockResolvedValue(true);
+      renderLoginPage();
+
+      await user.type(screen.getByLabelText('Authentication code'), '123456');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(mockVerifyTwoFactor).toHaveBeenCalledWith('123456');
+        expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+      });
+    });
+
+    it('should not navigate when the code is rejected', async () => {
+      const user = userEvent.setup();
+      mockVerifyTwoFactor.mockResolvedValue(false);
+      renderLoginPage();
+
+      await user.type(screen.getByLabelText('Authentication code'), 'abcde-12345');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(mockVerifyTwoFactor).toHaveBeenCalledWith('abcde-12345');
+      });
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+
+    it('should return to the password form', async () => {
+      const user = userEvent.setup();
+      renderLoginPage();
+
+      await user.click(screen.getByRole('button', { name: /back to sign in/i }));
+
+      expect(mockCancelTwoFactor).toHaveBeenCalled();
+    });
+  });
+});
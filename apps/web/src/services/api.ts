@@ -142,6 +142,37 @@ class ApiClient {
       ...(data && { body: JSON.stringify(data) }),
     });
   }
+
+  // POSTs and returns the response body as a file; errors still arrive as JSON
+  async download(endpoint: string, data?: any): Promise<ApiResponse<Blob>> {
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    if (this.token) {
+      headers.set('Authorization', `Bearer ${this.token}`);
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers,
+        ...(data && { body: JSON.stringify(data) }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        return {
+          success: false,
+          error: body.error || `HTTP error! status: ${response.status}`,
+        };
+      }
+
+      return { success: true, data: await response.blob() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error',
+      };
+    }
+  }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL);
@@ -162,8 +193,14 @@ export const registerSchema = z.object({
   path: ["confirmPassword"],
 });
 
+// An authenticator code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RegisterRequest = z.infer<typeof registerSchema>;
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>;
 
 export interface AuthResponse {
   user: {
@@ -181,6 +218,18 @@ export interface AuthResponse {
   };
 }
 
+// Sent by /auth/login instead of tokens when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response && response.twoFactorRequired;
+
 export interface User {
   id: string;
   email: string;
@@ -194,21 +243,39 @@ export interface User {
 // API service methods
 export const authApi = {
   login: (data: LoginRequest) =>
-    apiClient.post<AuthResponse>('/auth/login', data),
+    apiClient.post<LoginResponse>('/auth/login', data),
+
+  verifyTwoFactor: (data: { challengeToken: string; code: string }) =>
+    apiClient.post<AuthResponse>('/auth/2fa/verify', data),
 
   register: (data: RegisterRequest) =>
     apiClient.post<AuthResponse>('/auth/register', data),
 
   refreshToken: () =>
-    apiClient.post<{ accessToken: string }>('/auth/refresh', {
+    apiClient.post<{ accessToken: string; refreshToken: string }>('/auth/refresh', {
       refreshToken: localStorage.getItem('refreshToken')
     }),
 
-  logout: () =>
-    apiClient.post('/auth/logout'),
+  logout: (refreshToken: string | null) =>
+    apiClient.post('/auth/logout', { refreshToken }),
+
+  logoutAllDevices: () =>
+    apiClient.post<{ sessionsRevoked: number }>('/auth/logout-all'),
 
   getCurrentUser: () =>
     apiClient.get<User>('/auth/me'),
+
+  setupTwoFactor: () =>
+    apiClient.post<{ secret: string; otpauthUrl: string }>('/auth/2fa/setup'),
+
+  enableTwoFactor: (code: string) =>
+    apiClient.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code }),
+
+  disableTwoFactor: (code: string) =>
+    apiClient.post('/auth/2fa/disable', { code }),
+
+  regenerateRecoveryCodes: (code: string) =>
+    apiClient.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }),
 };
 
 export const portfolioApi = {
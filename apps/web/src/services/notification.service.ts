@@ -0,0 +1,96 @@
+import { io, type Socket } from 'socket.io-client';
+import { apiClient } from './api';
+import type {
+  NotificationEvent,
+  NotificationList,
+  NotificationPreferences,
+  UpdateNotificationPreferencesInput
+} from '@golden-palace/shared';
+
+class NotificationService {
+  private baseUrl = '/notifications';
+  private socket: Socket | null = null;
+
+  async getNotifications(options: { unreadOnly?: boolean; page?: number; limit?: number } = {}): Promise<NotificationList> {
+    const params = new URLSearchParams();
+    if (options.unreadOnly !== undefined) params.append('unreadOnly', String(options.unreadOnly));
+    if (options.page) params.append('page', options.page.toString());
+    if (options.limit) params.append('limit', options.limit.toString());
+
+    const query = params.toString();
+    const response = await apiClient.get<NotificationList>(`${this.baseUrl}${query ? `?${query}` : ''}`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to load notifications');
+    }
+
+    return response.data;
+  }
+
+  // Returns the unread count left after marking
+  async markRead(notificationId: string): Promise<number> {
+    const response = await apiClient.post<{ marked: number; unreadCount: number }>(
+      `${this.baseUrl}/${notificationId}/read`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to mark notification as read');
+    }
+
+    return response.data.unreadCount;
+  }
+
+  async markAllRead(): Promise<void> {
+    const response = await apiClient.post(`${this.baseUrl}/read-all`);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to mark notifications as read');
+    }
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await apiClient.get<NotificationPreferences>(`${this.baseUrl}/preferences`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to load notification preferences');
+    }
+
+    return response.data;
+  }
+
+  async updatePreferences(input: UpdateNotificationPreferencesInput): Promise<NotificationPreferences> {
+    const response = await apiClient.put<NotificationPreferences>(`${this.baseUrl}/preferences`, input);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update notification preferences');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Listens for `notification:new` on the default Socket.IO namespace, where the API joins
+   * every authenticated socket to its user's room. Returns a function that stops listening.
+   */
+  subscribe(token: string, onNotification: (event: NotificationEvent) => void): () => void {
+    this.socket?.disconnect();
+
+    const url = (import.meta.env as any).VITE_WS_URL || '';
+    const socket = io(url, {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+    });
+    socket.on('notification:new', onNotification);
+    this.socket = socket;
+
+    return () => {
+      socket.off('notification:new', onNotification);
+      socket.disconnect();
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
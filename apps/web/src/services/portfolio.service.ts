@@ -59,6 +59,8 @@ export interface AddAssetRequest {
   symbol: string;
   quantity: number;
   purchasePrice: number;
+  // Required for holdings with a symbol: moved in from another account or bought with portfolio cash
+  source?: 'TRANSFER' | 'BUY';
 }
 
 export interface PortfolioPerformance {
@@ -119,12 +121,28 @@ export class PortfolioService {
     return apiClient.get<PortfolioPerformance>(`/portfolio/${portfolioId}/performance?timeRange=${timeRange}`);
   }
 
-  async getPortfolioTransactions(portfolioId: string, limit: number = 50): Promise<ApiResponse<Transaction[]>> {
-    return apiClient.get<Transaction[]>(`/portfolio/${portfolioId}/transactions?limit=${limit}`);
+  async getPortfolioTransactions(portfolioId: string, limit: number = 50, page: number = 1): Promise<ApiResponse<TransactionPage>> {
+    return apiClient.get<TransactionPage>(`/portfolio/${portfolioId}/transactions?limit=${limit}&page=${page}`);
   }
 
-  async rebalancePortfolio(portfolioId: string, targetAllocations: Record<string, number>): Promise<ApiResponse<Portfolio>> {
-    return apiClient.post<Portfolio>(`/portfolio/${portfolioId}/rebalance`, { targetAllocations });
+  async recordTransaction(portfolioId: string, data: RecordTransactionRequest): Promise<ApiResponse<Transaction>> {
+    return apiClient.post<Transaction>(`/portfolio/${portfolioId}/transactions`, data);
+  }
+
+  async getPortfolioLedger(portfolioId: string): Promise<ApiResponse<PortfolioLedger>> {
+    return apiClient.get<PortfolioLedger>(`/portfolio/${portfolioId}/ledger`);
+  }
+
+  async setCostBasisMethod(portfolioId: string, method: CostBasisMethod): Promise<ApiResponse<PortfolioLedger>> {
+    return apiClient.put<PortfolioLedger>(`/portfolio/${portfolioId}/cost-basis`, { method });
+  }
+
+  async rebalancePortfolio(portfolioId: string, data: RebalanceRequest): Promise<ApiResponse<RebalancePlan>> {
+    return apiClient.post<RebalancePlan>(`/portfolio/${portfolioId}/rebalance`, data);
+  }
+
+  async previewRebalance(portfolioId: string): Promise<ApiResponse<RebalancePlan>> {
+    return apiClient.get<RebalancePlan>(`/portfolio/${portfolioId}/rebalance`);
   }
 
   async clonePortfolio(portfolioId: string, newName: string): Promise<ApiResponse<Portfolio>> {
@@ -144,19 +162,96 @@ export class PortfolioService {
   }
 }
 
+export type TransactionType = 'BUY' | 'SELL' | 'DIVIDEND' | 'FEE' | 'DEPOSIT' | 'WITHDRAW';
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE_COST';
+
 export interface Transaction {
   id: string;
-  type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL';
+  portfolioId: string;
+  type: TransactionType;
   symbol?: string;
   quantity?: number;
-  price?: number;
-  amount: number;
-  fees: number;
-  description: string;
+  price: number;
+  totalAmount: number;
+  fee: number;
+  currency: string;
   executedAt: string;
+  notes?: string;
+  realizedPnl?: number;
   createdAt: string;
 }
 
+export interface RecordTransactionRequest {
+  type: TransactionType;
+  symbol?: string;
+  quantity?: number;
+  price: number;
+  fee?: number;
+  currency?: string;
+  executedAt: string;
+  notes?: string;
+}
+
+export interface TransactionPage {
+  data: Transaction[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+export interface PortfolioLedger {
+  costBasisMethod: CostBasisMethod;
+  cashBalance: number;
+  realizedPnl: number;
+  holdings: Array<{
+    symbol: string;
+    quantity: number;
+    averageCost: number;
+    totalCost: number;
+    realizedPnl: number;
+    lots: Array<{ quantity: number; unitCost: number; acquiredAt: string }>;
+  }>;
+}
+
+export type AllocationStrategy = 'EQUAL_WEIGHT' | 'MARKET_CAP' | 'RISK_PARITY' | 'CUSTOM';
+
+export interface RebalanceRequest {
+  strategy: AllocationStrategy;
+  targetAllocations?: Record<string, number>; // Percent of total value per symbol
+  minTradeSize?: number;
+  maxTradeSize?: number;
+  apply?: boolean;
+}
+
+export interface RebalanceRecommendation {
+  assetId: string | null;
+  symbol: string;
+  currentAllocation: number;
+  targetAllocation: number;
+  drift: number;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  quantity: number;
+  estimatedPrice: number;
+  estimatedCost: number;
+  reason?: string;
+}
+
+export interface RebalancePlan {
+  portfolioId: string;
+  strategy: AllocationStrategy;
+  totalValue: number;
+  cashBalance: number;
+  targetAllocations: Record<string, number>;
+  maxDrift: number;
+  recommendations: RebalanceRecommendation[];
+  applied: boolean;
+  executed: Transaction[];
+  failed: Array<{ symbol: string; error: string }>;
+}
+
 export interface RiskMetrics {
   valueAtRisk: number;
   conditionalVaR: number;
@@ -2,13 +2,20 @@ import { apiClient } from './api';
 import type {
   RiskMetrics,
   PositionRisk,
+  CorrelationMatrix,
   StressTestResult,
   MonteCarloSimulation,
   LiquidityRisk,
   CalculateRiskInput,
   StressTestInput,
   RiskLimitsInput,
-  RiskReportInput
+  RiskReportInput,
+  ReturnDistribution,
+  StressScenario,
+  VaRBacktest,
+  BenchmarkComparison,
+  CreateStressScenarioInput,
+  UpdateStressScenarioInput
 } from '@golden-palace/shared';
 
 export interface RiskAnalyticsApiResponse<T> {
@@ -93,6 +100,67 @@ class RiskAnalyticsService {
     return response.data;
   }
 
+  // Get the correlation matrix of a portfolio's holdings
+  async getCorrelationMatrix(portfolioId: string, days: number = 90): Promise<CorrelationMatrix> {
+    const response = await apiClient.get<RiskAnalyticsApiResponse<CorrelationMatrix>>(
+      `${this.baseUrl}/portfolio/${portfolioId}/correlation-matrix?days=${days}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get correlation matrix');
+    }
+
+    return response.data;
+  }
+
+  // Backtest stored VaR forecasts against realized P&L
+  async getVaRBacktest(
+    portfolioId: string,
+    options?: { days?: number; confidenceLevel?: number; timeHorizon?: string }
+  ): Promise<VaRBacktest> {
+    const params = new URLSearchParams();
+    if (options?.days) params.append('days', options.days.toString());
+    if (options?.confidenceLevel) params.append('confidenceLevel', options.confidenceLevel.toString());
+    if (options?.timeHorizon) params.append('timeHorizon', options.timeHorizon);
+
+    const response = await apiClient.get<RiskAnalyticsApiResponse<VaRBacktest>>(
+      `${this.baseUrl}/portfolio/${portfolioId}/var-backtest?${params.toString()}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to backtest VaR');
+    }
+
+    return response.data;
+  }
+
+  // Compare the portfolio's daily returns with its benchmark
+  async getBenchmarkComparison(portfolioId: string, days: number = 365): Promise<BenchmarkComparison> {
+    const response = await apiClient.get<RiskAnalyticsApiResponse<BenchmarkComparison>>(
+      `${this.baseUrl}/portfolio/${portfolioId}/benchmark?days=${days}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get benchmark comparison');
+    }
+
+    return response.data;
+  }
+
+  // Change the symbol a portfolio is measured against
+  async setBenchmark(portfolioId: string, symbol: string): Promise<BenchmarkComparison> {
+    const response = await apiClient.put<RiskAnalyticsApiResponse<BenchmarkComparison>>(
+      `${this.baseUrl}/portfolio/${portfolioId}/benchmark`,
+      { symbol }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to set benchmark');
+    }
+
+    return response.data;
+  }
+
   // Run stress tests
   async runStressTests(input: StressTestInput): Promise<StressTestResult[]> {
     const response = await apiClient.post<RiskAnalyticsApiResponse<StressTestResult[]>>(
@@ -142,14 +210,16 @@ class RiskAnalyticsService {
   async runMonteCarloSimulation(
     portfolioId: string,
     numberOfSimulations: number = 1000,
-    timeHorizon: string = '1M'
+    timeHorizon: string = '1M',
+    options: { distribution?: ReturnDistribution; degreesOfFreedom?: number } = {}
   ): Promise<MonteCarloSimulation> {
     const response = await apiClient.post<RiskAnalyticsApiResponse<MonteCarloSimulation>>(
       `${this.baseUrl}/monte-carlo`,
       {
         portfolioId,
         numberOfSimulations,
-        timeHorizon
+        timeHorizon,
+        ...options
       }
     );
 
@@ -187,6 +257,17 @@ class RiskAnalyticsService {
     return response.data;
   }
 
+  // Generate a risk report as a PDF or CSV file
+  async downloadRiskReport(input: RiskReportInput): Promise<Blob> {
+    const response = await apiClient.download(`${this.baseUrl}/report`, input);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to download risk report');
+    }
+
+    return response.data;
+  }
+
   // Get risk metrics summary/aggregates
   async getRiskSummary(
     portfolioId: string,
@@ -251,55 +332,56 @@ class RiskAnalyticsService {
     }
   }
 
-  // Predefined stress test scenarios
-  getDefaultStressScenarios() {
-    return [
-      {
-        name: 'Market Crash (-20%)',
-        marketChange: -20,
-        volatilityMultiplier: 2.0,
-        correlationShock: 0.3,
-        duration: '1D' as const
-      },
-      {
-        name: 'Market Correction (-10%)',
-        marketChange: -10,
-        volatilityMultiplier: 1.5,
-        correlationShock: 0.2,
-        duration: '1W' as const
-      },
-      {
-        name: 'High Volatility Period',
-        marketChange: 0,
-        volatilityMultiplier: 3.0,
-        correlationShock: 0.5,
-        duration: '1M' as const
-      },
-      {
-        name: 'Bear Market (-30%)',
-        marketChange: -30,
-        volatilityMultiplier: 2.5,
-        correlationShock: 0.4,
-        duration: '3M' as const
-      },
-      {
-        name: 'Flash Crash (-15%)',
-        marketChange: -15,
-        volatilityMultiplier: 4.0,
-        correlationShock: 0.6,
-        duration: '1D' as const
-      }
-    ];
+  // List the built-in historical scenarios and the user's saved ones
+  async getStressScenarios(): Promise<StressScenario[]> {
+    const response = await apiClient.get<RiskAnalyticsApiResponse<StressScenario[]>>(
+      `${this.baseUrl}/scenarios`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get stress scenarios');
+    }
+
+    return response.data;
+  }
+
+  // Save a stress scenario for the current user
+  async createStressScenario(input: CreateStressScenarioInput): Promise<StressScenario> {
+    const response = await apiClient.post<RiskAnalyticsApiResponse<StressScenario>>(
+      `${this.baseUrl}/scenarios`,
+      input
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create stress scenario');
+    }
+
+    return response.data;
   }
 
-  // Run default stress tests
-  async runDefaultStressTests(portfolioId: string): Promise<StressTestResult[]> {
-    const scenarios = this.getDefaultStressScenarios();
+  // Update a saved stress scenario
+  async updateStressScenario(scenarioId: string, input: UpdateStressScenarioInput): Promise<StressScenario> {
+    const response = await apiClient.put<RiskAnalyticsApiResponse<StressScenario>>(
+      `${this.baseUrl}/scenarios/${scenarioId}`,
+      input
+    );
 
-    return this.runStressTests({
-      portfolioId,
-      scenarios
-    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update stress scenario');
+    }
+
+    return response.data;
+  }
+
+  // Delete a saved stress scenario
+  async deleteStressScenario(scenarioId: string): Promise<void> {
+    const response = await apiClient.delete<RiskAnalyticsApiResponse<void>>(
+      `${this.baseUrl}/scenarios/${scenarioId}`
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete stress scenario');
+    }
   }
 }
 
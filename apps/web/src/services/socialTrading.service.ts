@@ -201,9 +201,11 @@ export class SocialTradingService {
   }
 
   private async makeRequest(url: string, options: RequestInit = {}): Promise<any> {
+    const token = typeof localStorage !== 'undefined' ? localStorage.getItem('accessToken') : null;
     const defaultOptions: RequestInit = {
       headers: {
         'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
       },
       ...options,
     };
@@ -216,7 +218,17 @@ export class SocialTradingService {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      return await response.json();
+      const body = await response.json();
+
+      // The API wraps payloads in { success, data }
+      if (body && typeof body === 'object' && 'success' in body) {
+        if (!body.success) {
+          throw new Error(body.error || 'Request failed');
+        }
+        return body.data;
+      }
+
+      return body;
     } catch (error) {
       console.error('API request failed:', error);
 
@@ -1239,7 +1251,7 @@ export class SocialTradingService {
 
   async pauseTrader(traderId: string): Promise<void> {
     try {
-      await this.makeRequest(`/api/copy-trading/traders/${traderId}/pause`, {
+      await this.makeRequest(`/api/social-trading/traders/${traderId}/pause`, {
         method: 'POST'
       });
 
@@ -1256,7 +1268,7 @@ export class SocialTradingService {
 
   async resumeTrader(traderId: string): Promise<void> {
     try {
-      await this.makeRequest(`/api/copy-trading/traders/${traderId}/resume`, {
+      await this.makeRequest(`/api/social-trading/traders/${traderId}/resume`, {
         method: 'POST'
       });
 
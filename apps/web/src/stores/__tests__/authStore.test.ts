@@ -6,8 +6,10 @@ import { authApi, apiClient } from '../../services/api';
 vi.mock('../../services/api', () => ({
   authApi: {
     login: vi.fn(),
+    verifyTwoFactor: vi.fn(),
     register: vi.fn(),
     logout: vi.fn(),
+    logoutAllDevices: vi.fn(),
     getCurrentUser: vi.fn(),
     refreshToken: vi.fn(),
   },
@@ -37,6 +39,7 @@ describe('authStore', () => {
       isAuthenticated: false,
       isLoading: true,
       error: null,
+      twoFactorChallenge: null,
     });
   });
 
@@ -185,6 +188,54 @@ describe('authStore', () => {
     });
   });
 
+  describe('two-factor login', () => {
+    it('should hold the challenge instead of authenticating when a code is required', async () => {
+      vi.mocked(authApi.login).mockResolvedValue({
+        success: true,
+        data: { twoFactorRequired: true, challengeToken: 'challenge-token', expiresIn: 300 },
+      });
+
+      const result = await useAuthStore.getState().login({ email: 'test@example.com', password: 'password123' });
+
+      const state = useAuthStore.getState();
+      expect(result).toBe(false);
+      expect(state.twoFactorChallenge).toBe('challenge-token');
+      expect(state.isAuthenticated).toBe(false);
+      expect(apiClient.setToken).not.toHaveBeenCalled();
+    });
+
+    it('should exchange the challenge and code for tokens', async () => {
+      useAuthStore.setState({ twoFactorChallenge: 'challenge-token' });
+      const mockUser = { id: '1', email: 'test@example.com', username: 'testuser', createdAt: '2024-01-01' };
+      vi.mocked(authApi.verifyTwoFactor).mockResolvedValue({
+        success: true,
+        data: { user: mockUser, tokens: { accessToken: 'access-token', refreshToken: 'refresh-token' } },
+      });
+
+      const result = await useAuthStore.getState().verifyTwoFactor('123456');
+
+      const state = useAuthStore.getState();
+      expect(result).toBe(true);
+      expect(authApi.verifyTwoFactor).toHaveBeenCalledWith({ challengeToken: 'challenge-token', code: '123456' });
+      expect(apiClient.setToken).toHaveBeenCalledWith('access-token');
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith('refreshToken', 'refresh-token');
+      expect(state.user).toEqual(mockUser);
+      expect(state.twoFactorChallenge).toBeNull();
+    });
+
+    it('should keep the challenge when the code is rejected', async () => {
+      useAuthStore.setState({ twoFactorChallenge: 'challenge-token' });
+      vi.mocked(authApi.verifyTwoFactor).mockResolvedValue({ success: false, error: 'Invalid two-factor code' });
+
+      const result = await useAuthStore.getState().verifyTwoFactor('000000');
+
+      const state = useAuthStore.getState();
+      expect(result).toBe(false);
+      expect(state.error).toBe('Invalid two-factor code');
+      expect(state.twoFactorChallenge).toBe('challenge-token');
+    });
+  });
+
   describe('register', () => {
     it('should handle successful registration', async () => {
       const mockUserData = {
@@ -351,6 +402,33 @@ describe('authStore', () => {
       expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('refreshToken');
     });
 
+    it('should send the stored refresh token so the server can revoke it', () => {
+      mockLocalStorage.getItem.mockImplementation((key: string) =>
+        key === 'refreshToken' ? 'stored-refresh-token' : null
+      );
+      vi.mocked(authApi.logout).mockResolvedValue({});
+
+      useAuthStore.getState().logout();
+
+      expect(authApi.logout).toHaveBeenCalledWith('stored-refresh-token');
+    });
+
+    it('should sign out of all devices and clear local state', async () => {
+      useAuthStore.setState({
+        user: { id: '1', email: 'test@example.com', username: 'testuser', role: 'USER' },
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+      });
+      vi.mocked(authApi.logoutAllDevices).mockResolvedValue({ success: true, data: { sessionsRevoked: 2 } });
+      vi.mocked(authApi.logout).mockResolvedValue({});
+
+      const result = await useAuthStore.getState().logoutAllDevices();
+
+      expect(result).toBe(true);
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    });
+
     it('should handle logout API failure silently', () => {
       useAuthStore.setState({
         user: { id: '1', email: 'test@example.com', username: 'testuser', role: 'USER' },
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { apiClient, authApi, type User, type LoginRequest, type RegisterRequest } from '../services/api';
+import { apiClient, authApi, isTwoFactorChallenge, type User, type LoginRequest, type RegisterRequest } from '../services/api';
 
 interface AuthState {
   user: User | null;
@@ -8,12 +8,16 @@ interface AuthState {
   isLoading: boolean;
   isInitialized: boolean;
   error: string | null;
+  twoFactorChallenge: string | null; // Set between the password and code steps of a login
 }
 
 interface AuthActions {
   login: (credentials: LoginRequest) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   register: (userData: RegisterRequest) => Promise<boolean>;
   logout: () => void;
+  logoutAllDevices: () => Promise<boolean>;
   clearError: () => void;
   refreshUser: () => Promise<void>;
   initialize: () => Promise<void>;
@@ -27,6 +31,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       isLoading: true,
       isInitialized: false,
       error: null,
+      twoFactorChallenge: null,
 
       login: async (credentials: LoginRequest) => {
         set({ isLoading: true, error: null });
@@ -35,7 +40,15 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           const response = await authApi.login(credentials);
           console.log('[AuthStore] Login response:', response);
 
-          if (response.success && response.data) {
+          if (response.success && response.data && isTwoFactorChallenge(response.data)) {
+            set({
+              twoFactorChallenge: response.data.challengeToken,
+              isLoading: false,
+            });
+            return false;
+          }
+
+          if (response.success && response.data && !isTwoFactorChallenge(response.data)) {
             const { user, tokens } = response.data;
             const { accessToken, refreshToken } = tokens || {};
 
@@ -78,6 +91,52 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
+      verifyTwoFactor: async (code: string) => {
+        const challengeToken = get().twoFactorChallenge;
+        if (!challengeToken) {
+          return false;
+        }
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await authApi.verifyTwoFactor({ challengeToken, code });
+
+          if (response.success && response.data) {
+            const { user, tokens } = response.data;
+
+            apiClient.setToken(tokens.accessToken);
+            localStorage.setItem('refreshToken', tokens.refreshToken);
+
+            set({
+              user,
+              isAuthenticated: true,
+              isLoading: false,
+              error: null,
+              twoFactorChallenge: null,
+            });
+
+            return true;
+          } else {
+            set({
+              error: response.error || 'Verification failed',
+              isLoading: false,
+            });
+            return false;
+          }
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Verification failed',
+            isLoading: false,
+          });
+          return false;
+        }
+      },
+
+      cancelTwoFactor: () => {
+        set({ twoFactorChallenge: null, error: null });
+      },
+
       register: async (userData: RegisterRequest) => {
         set({ isLoading: true, error: null });
 
@@ -124,6 +183,9 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       },
 
       logout: () => {
+        // The server revokes the session by its refresh token, so read it before clearing
+        const refreshToken = localStorage.getItem('refreshToken');
+
         // Clear local state first to prevent loops
         apiClient.setToken(null);
         localStorage.removeItem('refreshToken');
@@ -137,11 +199,23 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         });
 
         // Try to call logout endpoint, but don't let it trigger more events
-        authApi.logout().catch(() => {
+        authApi.logout(refreshToken).catch(() => {
           // Silent fail for logout API call - we've already cleared local state
         });
       },
 
+      logoutAllDevices: async () => {
+        const response = await authApi.logoutAllDevices();
+
+        if (!response.success) {
+          set({ error: response.error || 'Failed to sign out of all devices' });
+          return false;
+        }
+
+        get().logout();
+        return true;
+      },
+
       clearError: () => {
         set({ error: null });
       },
@@ -219,6 +293,10 @@ export const useAuthStore = create<AuthState & AuthActions>()(
 
             if (refreshResponse.success && refreshResponse.data) {
               apiClient.setToken(refreshResponse.data.accessToken);
+              // Refresh tokens are single-use; the old one is now revoked
+              if (refreshResponse.data.refreshToken) {
+                localStorage.setItem('refreshToken', refreshResponse.data.refreshToken);
+              }
 
               // Try getting user again with new token
               const newUserResponse = await authApi.getCurrentUser();
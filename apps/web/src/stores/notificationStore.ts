@@ -0,0 +1,101 @@
+import { create } from 'zustand';
+import { notificationService } from '../services/notification.service';
+import type {
+  NotificationPreferences,
+  NotificationType,
+  UserNotification
+} from '@golden-palace/shared';
+
+// Newest notifications kept in the header dropdown; the rest stay on the server
+const DROPDOWN_LIMIT = 20;
+
+interface NotificationState {
+  notifications: UserNotification[];
+  unreadCount: number;
+  preferences: NotificationPreferences | null;
+  isLoading: boolean;
+  error: string | null;
+
+  loadNotifications: () => Promise<void>;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  loadPreferences: () => Promise<void>;
+  setPreference: (type: NotificationType, enabled: boolean) => Promise<void>;
+  // Starts live delivery for the signed-in user; returns the unsubscribe function
+  subscribe: (token: string) => () => void;
+}
+
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+  notifications: [],
+  unreadCount: 0,
+  preferences: null,
+  isLoading: false,
+  error: null,
+
+  loadNotifications: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const list = await notificationService.getNotifications({ limit: DROPDOWN_LIMIT });
+      set({ notifications: list.notifications, unreadCount: list.unreadCount, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load notifications',
+        isLoading: false,
+      });
+    }
+  },
+
+  markRead: async (notificationId: string) => {
+    const notification = get().notifications.find(item => item.id === notificationId);
+    if (!notification || notification.readAt) return;
+
+    try {
+      const unreadCount = await notificationService.markRead(notificationId);
+      set(state => ({
+        unreadCount,
+        notifications: state.notifications.map(item =>
+          item.id === notificationId ? { ...item, readAt: new Date() } : item
+        ),
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to mark notification as read' });
+    }
+  },
+
+  markAllRead: async () => {
+    try {
+      await notificationService.markAllRead();
+      const readAt = new Date();
+      set(state => ({
+        unreadCount: 0,
+        notifications: state.notifications.map(item => (item.readAt ? item : { ...item, readAt })),
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to mark notifications as read' });
+    }
+  },
+
+  loadPreferences: async () => {
+    try {
+      set({ preferences: await notificationService.getPreferences() });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load notification preferences' });
+    }
+  },
+
+  setPreference: async (type: NotificationType, enabled: boolean) => {
+    try {
+      set({ preferences: await notificationService.updatePreferences({ [type]: enabled }) });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update notification preferences' });
+    }
+  },
+
+  subscribe: (token: string) =>
+    notificationService.subscribe(token, ({ notification, unreadCount }) => {
+      set(state => ({
+        unreadCount,
+        notifications: [notification, ...state.notifications].slice(0, DROPDOWN_LIMIT),
+      }));
+    }),
+}));
@@ -9,6 +9,7 @@ import {
   type AddAssetRequest,
   type PortfolioPerformance,
   type RiskMetrics,
+  type RebalancePlan,
 } from '../services/portfolio.service';
 import type { ApiResponse } from '../services/api';
 
@@ -37,7 +38,7 @@ interface PortfolioState {
   fetchPortfolioAssets: (portfolioId: string) => Promise<void>;
   fetchPortfolioPerformance: (portfolioId: string, timeRange?: string) => Promise<void>;
   fetchPortfolioRiskMetrics: (portfolioId: string) => Promise<void>;
-  rebalancePortfolio: (portfolioId: string, targetAllocations: Record<string, number>) => Promise<ApiResponse<Portfolio>>;
+  rebalancePortfolio: (portfolioId: string, targetAllocations: Record<string, number>) => Promise<ApiResponse<RebalancePlan>>;
   clonePortfolio: (portfolioId: string, newName: string) => Promise<ApiResponse<Portfolio>>;
   sharePortfolio: (portfolioId: string, isPublic: boolean) => Promise<ApiResponse<{ shareUrl?: string }>>;
 
@@ -438,12 +439,16 @@ export const usePortfolioStore = create<PortfolioState>()(
         }
       },
 
-      // Rebalance portfolio
+      // Rebalance portfolio to custom targets, trading the difference
       rebalancePortfolio: async (portfolioId: string, targetAllocations: Record<string, number>) => {
         set({ isLoading: true, error: null });
 
         try {
-          const response = await portfolioService.rebalancePortfolio(portfolioId, targetAllocations);
+          const response = await portfolioService.rebalancePortfolio(portfolioId, {
+            strategy: 'CUSTOM',
+            targetAllocations,
+            apply: true,
+          });
 
           if (response.success && response.data) {
             // Refresh portfolio data
@@ -7,6 +7,7 @@ import type {
   StressTestResult,
   MonteCarloSimulation,
   LiquidityRisk,
+  VaRBacktest,
   CalculateRiskInput,
   StressTestInput,
   RiskLimitsInput,
@@ -21,6 +22,7 @@ interface RiskAnalyticsState {
   stressTestResults: StressTestResult[];
   monteCarloResults: MonteCarloSimulation | null;
   liquidityRisk: LiquidityRisk | null;
+  varBacktest: VaRBacktest | null;
   riskSummary: {
     avgVaR: number;
     avgVolatility: number;
@@ -56,6 +58,7 @@ interface RiskAnalyticsState {
   // Actions - Position Analysis
   getPositionRisks: (portfolioId: string) => Promise<void>;
   getLiquidityRisk: (portfolioId: string) => Promise<void>;
+  getVaRBacktest: (portfolioId: string, options?: { days?: number; confidenceLevel?: number; timeHorizon?: string }) => Promise<void>;
 
   // Actions - Stress Testing & Simulation
   runStressTests: (input: StressTestInput) => Promise<void>;
@@ -66,6 +69,7 @@ interface RiskAnalyticsState {
   setRiskLimits: (input: RiskLimitsInput) => Promise<void>;
   checkRiskBreaches: (portfolioId: string) => Promise<void>;
   generateRiskReport: (input: RiskReportInput) => Promise<void>;
+  downloadRiskReport: (input: RiskReportInput) => Promise<void>;
 
   // Actions - Comprehensive Analysis
   runFullRiskAnalysis: (portfolioId: string, timeHorizon?: string) => Promise<void>;
@@ -87,6 +91,7 @@ export const useRiskAnalyticsStore = create<RiskAnalyticsState>()(
       stressTestResults: [],
       monteCarloResults: null,
       liquidityRisk: null,
+      varBacktest: null,
       riskSummary: null,
       riskBreaches: null,
       fullAnalysis: null,
@@ -197,6 +202,25 @@ export const useRiskAnalyticsStore = create<RiskAnalyticsState>()(
         }
       },
 
+      // Backtest stored VaR forecasts
+      getVaRBacktest: async (portfolioId: string, options?: { days?: number; confidenceLevel?: number; timeHorizon?: string }) => {
+        set({ isLoading: true, error: null });
+        try {
+          const varBacktest = await riskAnalyticsService.getVaRBacktest(portfolioId, options);
+          set({
+            varBacktest,
+            selectedPortfolioId: portfolioId,
+            isLoading: false
+          });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to backtest VaR',
+            isLoading: false
+          });
+          throw error;
+        }
+      },
+
       // Run stress tests
       runStressTests: async (input: StressTestInput) => {
         set({ isLoading: true, error: null });
@@ -216,12 +240,13 @@ export const useRiskAnalyticsStore = create<RiskAnalyticsState>()(
         }
       },
 
-      // Run default stress tests
+      // Run the built-in historical scenario library
       runDefaultStressTests: async (portfolioId: string) => {
-        const scenarios = riskAnalyticsService.getDefaultStressScenarios();
+        const library = await riskAnalyticsService.getStressScenarios();
         await get().runStressTests({
           portfolioId,
-          scenarios
+          scenarios: [],
+          scenarioIds: library.filter(scenario => scenario.builtIn).map(scenario => scenario.id)
         });
       },
 
@@ -287,6 +312,27 @@ export const useRiskAnalyticsStore = create<RiskAnalyticsState>()(
         }
       },
 
+      // Download a PDF or CSV risk report
+      downloadRiskReport: async (input: RiskReportInput) => {
+        set({ isLoading: true, error: null });
+        try {
+          const file = await riskAnalyticsService.downloadRiskReport(input);
+          const url = URL.createObjectURL(file);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `risk-report-${input.portfolioId}.${input.format.toLowerCase()}`;
+          link.click();
+          URL.revokeObjectURL(url);
+          set({ isLoading: false });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to download risk report',
+            isLoading: false
+          });
+          throw error;
+        }
+      },
+
       // Run comprehensive risk analysis
       runFullRiskAnalysis: async (portfolioId: string, timeHorizon: string = '1M') => {
         set({ isLoading: true, error: null });
@@ -332,6 +378,7 @@ export const useRiskAnalyticsStore = create<RiskAnalyticsState>()(
           stressTestResults: [],
           monteCarloResults: null,
           liquidityRisk: null,
+          varBacktest: null,
           riskSummary: null,
           riskBreaches: null,
           fullAnalysis: null,
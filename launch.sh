@@ -202,6 +202,8 @@ REDIS_URL=\"redis://localhost:${REDIS_PORT}\"
 # Authentication
 JWT_ACCESS_SECRET=\"your-super-secret-jwt-access-key-change-in-production\"
 JWT_REFRESH_SECRET=\"your-super-secret-jwt-refresh-key-change-in-production\"
+JWT_TWO_FACTOR_SECRET=\"your-super-secret-jwt-two-factor-key-change-in-production\"
+TWO_FACTOR_ENCRYPTION_KEY=\"your-two-factor-encryption-key-change-in-production\"
 
 # Environment
 NODE_ENV=\"development\"
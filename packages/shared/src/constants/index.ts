@@ -48,4 +48,5 @@ export const DEFAULTS = {
   TYPING_TIMEOUT: 3000, // 3 seconds
   RECONNECT_DELAY: 1000, // 1 second
   MAX_RECONNECT_ATTEMPTS: 5,
+  PAPER_ACCOUNT_BALANCE: 10000, // Starting equity of every paper trading account
 } as const;
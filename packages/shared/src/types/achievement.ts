@@ -0,0 +1,110 @@
+export const ACHIEVEMENT_CATEGORIES = ['TRADING', 'PROFIT', 'STREAK', 'SOCIAL', 'COMPETITION'] as const;
+export type AchievementCategory = (typeof ACHIEVEMENT_CATEGORIES)[number];
+
+export const ACHIEVEMENT_RARITIES = ['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY', 'MYTHIC'] as const;
+export type AchievementRarity = (typeof ACHIEVEMENT_RARITIES)[number];
+
+// Every requirement maps to a metric the API derives from stored trades, ideas, competitions and follows
+export const REQUIREMENT_TYPES = [
+  'TOTAL_TRADES',
+  'WINNING_TRADES',
+  'PROFIT_AMOUNT',
+  'SINGLE_TRADE_PROFIT',
+  'WIN_STREAK',
+  'DAILY_STREAK',
+  'DIVERSITY_SCORE',
+  'TRADE_IDEAS',
+  'COMPETITIONS_JOINED',
+  'COMPETITIONS_TOP10',
+  'COMPETITIONS_PODIUM',
+  'COMPETITIONS_WON',
+  'FOLLOWERS',
+  'TRADES_COPIED',
+] as const;
+export type RequirementType = (typeof REQUIREMENT_TYPES)[number];
+
+export type AchievementMetrics = Record<RequirementType, number>;
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  category: AchievementCategory;
+  rarity: AchievementRarity;
+  icon: string;
+  points: number;
+  requirement: { type: RequirementType; value: number };
+}
+
+// XP granted through the ACHIEVEMENT_UNLOCKED action, scaled by rarity
+export const ACHIEVEMENT_RARITY_XP: Record<AchievementRarity, number> = {
+  COMMON: 100,
+  UNCOMMON: 200,
+  RARE: 300,
+  EPIC: 500,
+  LEGENDARY: 1000,
+  MYTHIC: 2000,
+};
+
+export const ACHIEVEMENT_CATALOG: AchievementDefinition[] = [
+  // Trading milestones
+  { id: 'first-trade', name: 'First Steps', description: 'Complete your first trade', category: 'TRADING', rarity: 'COMMON', icon: '🎯', points: 10, requirement: { type: 'TOTAL_TRADES', value: 1 } },
+  { id: 'trader-10', name: 'Active Trader', description: 'Complete 10 trades', category: 'TRADING', rarity: 'COMMON', icon: '📊', points: 25, requirement: { type: 'TOTAL_TRADES', value: 10 } },
+  { id: 'trader-100', name: 'Experienced Trader', description: 'Complete 100 trades', category: 'TRADING', rarity: 'UNCOMMON', icon: '💼', points: 50, requirement: { type: 'TOTAL_TRADES', value: 100 } },
+  { id: 'trader-1000', name: 'Master Trader', description: 'Complete 1,000 trades', category: 'TRADING', rarity: 'RARE', icon: '🏆', points: 100, requirement: { type: 'TOTAL_TRADES', value: 1000 } },
+  { id: 'trader-10000', name: 'Trading Legend', description: 'Complete 10,000 trades', category: 'TRADING', rarity: 'EPIC', icon: '👑', points: 500, requirement: { type: 'TOTAL_TRADES', value: 10000 } },
+  { id: 'diversified', name: 'Diversified Portfolio', description: 'Trade 10 different assets', category: 'TRADING', rarity: 'UNCOMMON', icon: '🎭', points: 35, requirement: { type: 'DIVERSITY_SCORE', value: 10 } },
+
+  // Profit milestones
+  { id: 'profit-100', name: 'First Profit', description: 'Earn $100 in profit', category: 'PROFIT', rarity: 'COMMON', icon: '💵', points: 15, requirement: { type: 'PROFIT_AMOUNT', value: 100 } },
+  { id: 'profit-1k', name: 'Profitable Trader', description: 'Earn $1,000 in profit', category: 'PROFIT', rarity: 'COMMON', icon: '💰', points: 30, requirement: { type: 'PROFIT_AMOUNT', value: 1000 } },
+  { id: 'profit-10k', name: 'Money Maker', description: 'Earn $10,000 in profit', category: 'PROFIT', rarity: 'UNCOMMON', icon: '💸', points: 75, requirement: { type: 'PROFIT_AMOUNT', value: 10000 } },
+  { id: 'profit-100k', name: 'High Roller', description: 'Earn $100,000 in profit', category: 'PROFIT', rarity: 'RARE', icon: '🏦', points: 200, requirement: { type: 'PROFIT_AMOUNT', value: 100000 } },
+  { id: 'profit-1m', name: 'Millionaire', description: 'Earn $1,000,000 in profit', category: 'PROFIT', rarity: 'LEGENDARY', icon: '💎', points: 1000, requirement: { type: 'PROFIT_AMOUNT', value: 1000000 } },
+  { id: 'single-trade-1k', name: 'Big Win', description: 'Earn $1,000 from a single trade', category: 'PROFIT', rarity: 'UNCOMMON', icon: '🎰', points: 50, requirement: { type: 'SINGLE_TRADE_PROFIT', value: 1000 } },
+  { id: 'single-trade-10k', name: 'Jackpot', description: 'Earn $10,000 from a single trade', category: 'PROFIT', rarity: 'RARE', icon: '🎲', points: 150, requirement: { type: 'SINGLE_TRADE_PROFIT', value: 10000 } },
+
+  // Streaks
+  { id: 'win-streak-3', name: 'Hat Trick', description: 'Win 3 trades in a row', category: 'STREAK', rarity: 'COMMON', icon: '🔥', points: 20, requirement: { type: 'WIN_STREAK', value: 3 } },
+  { id: 'win-streak-5', name: 'On Fire', description: 'Win 5 trades in a row', category: 'STREAK', rarity: 'UNCOMMON', icon: '🔥🔥', points: 40, requirement: { type: 'WIN_STREAK', value: 5 } },
+  { id: 'win-streak-10', name: 'Unstoppable', description: 'Win 10 trades in a row', category: 'STREAK', rarity: 'RARE', icon: '🔥🔥🔥', points: 100, requirement: { type: 'WIN_STREAK', value: 10 } },
+  { id: 'win-streak-30', name: 'Flawless', description: 'Win 30 trades in a row', category: 'STREAK', rarity: 'MYTHIC', icon: '🌟', points: 1000, requirement: { type: 'WIN_STREAK', value: 30 } },
+  { id: 'daily-streak-7', name: 'Week Warrior', description: 'Trade for 7 consecutive days', category: 'STREAK', rarity: 'COMMON', icon: '📅', points: 25, requirement: { type: 'DAILY_STREAK', value: 7 } },
+  { id: 'daily-streak-30', name: 'Monthly Grind', description: 'Trade for 30 consecutive days', category: 'STREAK', rarity: 'UNCOMMON', icon: '📆', points: 75, requirement: { type: 'DAILY_STREAK', value: 30 } },
+  { id: 'daily-streak-100', name: 'Century', description: 'Trade for 100 consecutive days', category: 'STREAK', rarity: 'EPIC', icon: '💯', points: 300, requirement: { type: 'DAILY_STREAK', value: 100 } },
+
+  // Social
+  { id: 'first-idea', name: 'Thought Leader', description: 'Share your first trade idea', category: 'SOCIAL', rarity: 'COMMON', icon: '💡', points: 10, requirement: { type: 'TRADE_IDEAS', value: 1 } },
+  { id: 'ideas-25', name: 'Market Commentator', description: 'Share 25 trade ideas', category: 'SOCIAL', rarity: 'UNCOMMON', icon: '📝', points: 40, requirement: { type: 'TRADE_IDEAS', value: 25 } },
+  { id: 'social-follower-10', name: 'Popular', description: 'Gain 10 followers', category: 'SOCIAL', rarity: 'COMMON', icon: '👥', points: 25, requirement: { type: 'FOLLOWERS', value: 10 } },
+  { id: 'social-follower-100', name: 'Influencer', description: 'Gain 100 followers', category: 'SOCIAL', rarity: 'RARE', icon: '⭐', points: 100, requirement: { type: 'FOLLOWERS', value: 100 } },
+  { id: 'copy-trader', name: 'Copy Cat', description: 'Have your trades copied 10 times', category: 'SOCIAL', rarity: 'UNCOMMON', icon: '📋', points: 50, requirement: { type: 'TRADES_COPIED', value: 10 } },
+
+  // Competitions
+  { id: 'competition-join', name: 'Competitor', description: 'Join your first competition', category: 'COMPETITION', rarity: 'COMMON', icon: '🏁', points: 15, requirement: { type: 'COMPETITIONS_JOINED', value: 1 } },
+  { id: 'competition-top10', name: 'Top 10 Finish', description: 'Finish in the top 10 of a competition', category: 'COMPETITION', rarity: 'UNCOMMON', icon: '🏅', points: 50, requirement: { type: 'COMPETITIONS_TOP10', value: 1 } },
+  { id: 'competition-podium', name: 'Podium Finish', description: 'Finish in the top 3 of a competition', category: 'COMPETITION', rarity: 'RARE', icon: '🥉', points: 100, requirement: { type: 'COMPETITIONS_PODIUM', value: 1 } },
+  { id: 'competition-win', name: 'Champion', description: 'Win a competition', category: 'COMPETITION', rarity: 'EPIC', icon: '🥇', points: 250, requirement: { type: 'COMPETITIONS_WON', value: 1 } },
+  { id: 'competition-5wins', name: 'Serial Winner', description: 'Win 5 competitions', category: 'COMPETITION', rarity: 'LEGENDARY', icon: '🏆🏆', points: 500, requirement: { type: 'COMPETITIONS_WON', value: 5 } },
+];
+
+export interface AchievementProgress {
+  achievement: AchievementDefinition;
+  currentProgress: number;
+  targetValue: number;
+  percentageComplete: number;
+  isUnlocked: boolean;
+  unlockedAt: Date | null;
+}
+
+export interface UnlockedAchievement {
+  achievement: AchievementDefinition;
+  unlockedAt: Date;
+}
+
+export interface AchievementSummary {
+  unlockedCount: number;
+  totalCount: number;
+  totalPoints: number;
+  achievements: AchievementProgress[];
+}
@@ -55,17 +55,42 @@ export const changePasswordSchema = z.object({
     ),
 });
 
+// A 6-digit authenticator code, or one of the recovery codes handed out on enrollment
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, 'Code must be at least 6 characters')
+  .max(20, 'Code must not exceed 20 characters');
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: twoFactorCodeSchema,
+});
+
+export const twoFactorCodeInputSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
 // Type inference from schemas
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+// Platform roles; SIMULATOR and ADMIN may push market quotes to the execution engine
+export const USER_ROLES = ['USER', 'SIMULATOR', 'ADMIN'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
 
 // JWT Token types
 export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  type?: 'access' | 'refresh' | 'two_factor';
+  jti?: string;
+  fid?: string; // Refresh token family, rotated together and revoked together
   iat: number;
   exp: number;
 }
@@ -87,6 +112,24 @@ export interface AuthResponse {
   tokens: AuthTokens;
 }
 
+// Returned by login instead of tokens when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number; // seconds
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorRecoveryCodes {
+  recoveryCodes: string[];
+}
+
 // Authentication errors
 export enum AuthError {
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
@@ -158,6 +158,26 @@ export interface LeaderboardEntry {
   prizeAmount?: number;
 }
 
+/**
+ * An entry's sandboxed paper account, built only from positions opened in the competition.
+ * Cash is what new positions can spend: the starting balance plus realized P&L, less the cost of
+ * open positions.
+ */
+export interface CompetitionAccount {
+  entryId: string;
+  competitionId: string;
+  startingBalance: number;
+  cashBalance: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  closedPositions: number;
+  winningTrades: number;
+  bestTrade: number | null;
+  roi: number;
+}
+
 // Competition Performance Metrics
 export interface CompetitionMetrics {
   totalParticipants: number;
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+// XP is only ever awarded by the API in response to these server-side events
+export const XP_ACTIONS = {
+  TRADE_CLOSED: { baseXP: 50 },
+  PROFITABLE_TRADE: { baseXP: 100 },
+  TRADE_IDEA_POSTED: { baseXP: 75, dailyLimit: 5 },
+  COMPETITION_COMPLETED: { baseXP: 150 },
+  LEADERBOARD_TOP10: { baseXP: 200 },
+  DAILY_LOGIN: { baseXP: 25, dailyLimit: 1 },
+  CHALLENGE_COMPLETED: { baseXP: 150 },
+  QUEST_COMPLETED: { baseXP: 500 },
+  ACHIEVEMENT_UNLOCKED: { baseXP: 200 },
+  PRESTIGE: { baseXP: 0 },
+} as const satisfies Record<string, { baseXP: number; dailyLimit?: number }>;
+
+export type XPActionType = keyof typeof XP_ACTIONS;
+
+export const PRESTIGE_LEVEL = 100;
+
+export const CHALLENGE_TYPES = ['EXECUTE_TRADES', 'PROFIT_TARGET', 'PROFIT_STREAK'] as const;
+export type ChallengeType = (typeof CHALLENGE_TYPES)[number];
+
+export const QUEST_TYPES = ['PROFIT_MILESTONE', 'TRADE_VOLUME', 'WIN_STREAK', 'DIVERSIFY', 'COMPETITION'] as const;
+export type QuestType = (typeof QUEST_TYPES)[number];
+
+// Query Schemas
+export const xpHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const gamificationLeaderboardQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type XpHistoryQuery = z.infer<typeof xpHistoryQuerySchema>;
+export type GamificationLeaderboardQuery = z.infer<typeof gamificationLeaderboardQuerySchema>;
+
+export interface LevelProgress {
+  currentLevel: number;
+  nextLevel: number;
+  currentXP: number;
+  xpToNextLevel: number;
+  progressPercentage: number;
+  totalXP: number;
+}
+
+export interface XpBoosterInfo {
+  id: string;
+  multiplier: number;
+  source: string;
+  expiresAt: Date;
+}
+
+export interface GamificationProfile {
+  userId: string;
+  level: number;
+  totalXP: number;
+  prestigeLevel: number;
+  loginStreak: number;
+  levelProgress: LevelProgress;
+  rank: number | null;
+  canPrestige: boolean;
+  boosters: XpBoosterInfo[];
+}
+
+export interface XpAwardResult {
+  id: string;
+  action: XPActionType;
+  xpAwarded: number;
+  bonusXP: number;
+  totalMultiplier: number;
+  totalXP: number;
+  level: number;
+  leveledUp: boolean;
+  timestamp: Date;
+}
+
+export interface XpEventWithDetails {
+  id: string;
+  action: XPActionType;
+  xpAwarded: number;
+  bonusXP: number;
+  totalMultiplier: number;
+  sourceId: string | null;
+  timestamp: Date;
+}
+
+export interface ChallengeProgress {
+  id: string;
+  type: ChallengeType;
+  name: string;
+  description: string;
+  progress: number;
+  maxProgress: number;
+  xpReward: number;
+  bonusReward?: { type: 'BOOSTER'; multiplier: number; durationMinutes: number };
+  completed: boolean;
+  expiresAt: Date;
+}
+
+export interface QuestStageProgress {
+  target: number;
+  progress: number;
+  completed: boolean;
+}
+
+export interface QuestProgress {
+  id: string;
+  type: QuestType;
+  name: string;
+  description: string;
+  stages: QuestStageProgress[];
+  stagesCompleted: number;
+  xpReward: number;
+  completed: boolean;
+  expiresAt: Date;
+}
+
+export interface PrestigeResult {
+  prestigeLevel: number;
+  totalXPBeforePrestige: number;
+  xpMultiplier: number;
+}
+
+export interface GamificationLeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  avatar: string | null;
+  level: number;
+  prestigeLevel: number;
+  totalXP: number;
+}
@@ -5,3 +5,12 @@ export * from './chat';
 export * from './competition';
 export * from './api';
 export * from './riskAnalytics';
+export * from './socialTrading';
+export * from './gamification';
+export * from './achievement';
+export * from './portfolio';
+export * from './notification';
+export * from './webhook';
+
+// portfolio.ts has its own asset type list for holdings; the trading one stays the package-wide default
+export { ASSET_TYPES, type AssetType } from './trading';
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+export const NOTIFICATION_TYPES = [
+  'ALERT_TRIGGERED',
+  'STOP_LOSS_FILLED',
+  'TAKE_PROFIT_FILLED',
+  'COMPETITION_STARTED',
+  'COMPETITION_ENDED',
+  'GROUP_INVITE',
+  'MENTION',
+  'ACHIEVEMENT_UNLOCKED',
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Which notification types a user receives, kept under `notifications` in User.settings
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  ALERT_TRIGGERED: true,
+  STOP_LOSS_FILLED: true,
+  TAKE_PROFIT_FILLED: true,
+  COMPETITION_STARTED: true,
+  COMPETITION_ENDED: true,
+  GROUP_INVITE: true,
+  MENTION: true,
+  ACHIEVEMENT_UNLOCKED: true,
+};
+
+// Notifications Query Schema; `unreadOnly` arrives as a query string
+export const getNotificationsQuerySchema = z.object({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Update Notification Preferences Schema; omitted types keep their current setting
+export const updateNotificationPreferencesSchema = z
+  .object(
+    Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, z.boolean().optional()])) as Record<
+      NotificationType,
+      z.ZodOptional<z.ZodBoolean>
+    >
+  )
+  .strict();
+
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+
+export interface UserNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export interface NotificationList {
+  notifications: UserNotification[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+// Pushed to the recipient's socket as `notification:new`
+export interface NotificationEvent {
+  notification: UserNotification;
+  unreadCount: number;
+}
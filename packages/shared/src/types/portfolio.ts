@@ -4,11 +4,13 @@ export const ASSET_TYPES = ['STOCK', 'CRYPTO', 'FOREX', 'COMMODITY', 'INDEX', 'B
 export const PORTFOLIO_STATUSES = ['ACTIVE', 'INACTIVE', 'ARCHIVED'] as const;
 export const TRANSACTION_TYPES = ['BUY', 'SELL', 'DIVIDEND', 'FEE', 'DEPOSIT', 'WITHDRAW'] as const;
 export const ALLOCATION_STRATEGIES = ['EQUAL_WEIGHT', 'MARKET_CAP', 'RISK_PARITY', 'CUSTOM'] as const;
+export const COST_BASIS_METHODS = ['FIFO', 'LIFO', 'AVERAGE_COST'] as const;
 
 export type AssetType = typeof ASSET_TYPES[number];
 export type PortfolioStatus = typeof PORTFOLIO_STATUSES[number];
 export type TransactionType = typeof TRANSACTION_TYPES[number];
 export type AllocationStrategy = typeof ALLOCATION_STRATEGIES[number];
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number];
 
 export const createPortfolioSchema = z.object({
   name: z.string().min(3).max(100),
@@ -42,6 +44,32 @@ export const recordTransactionSchema = z.object({
   currency: z.string().length(3).default('USD'),
   executedAt: z.string().datetime().transform(str => new Date(str)),
   notes: z.string().max(500).optional(),
+}).superRefine((data, ctx) => {
+  if ((data.type === 'BUY' || data.type === 'SELL') && (!data.symbol || data.quantity === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Symbol and quantity are required for buy and sell transactions',
+      path: ['quantity'],
+    });
+  }
+  if (data.type === 'DIVIDEND' && !data.symbol) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Symbol is required for dividend transactions',
+      path: ['symbol'],
+    });
+  }
+});
+
+export const transactionQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+  type: z.enum(TRANSACTION_TYPES).optional(),
+  symbol: z.string().min(1).max(20).optional(),
+});
+
+export const costBasisMethodSchema = z.object({
+  method: z.enum(COST_BASIS_METHODS),
 });
 
 export const updatePortfolioSchema = z.object({
@@ -56,9 +84,39 @@ export const updatePortfolioSchema = z.object({
 export const rebalancePortfolioSchema = z.object({
   portfolioId: z.string().cuid(),
   strategy: z.enum(ALLOCATION_STRATEGIES),
-  targetAllocations: z.record(z.string(), z.number()).optional(),
+  // Percent of total portfolio value per symbol; whatever is left over stays in cash
+  targetAllocations: z.record(z.string(), z.number().min(0).max(100)).optional(),
   maxTradeSize: z.number().positive().optional(),
   minTradeSize: z.number().positive().optional(),
+  apply: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+  if (data.strategy === 'CUSTOM' && (!data.targetAllocations || Object.keys(data.targetAllocations).length === 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Target allocations are required for the custom strategy',
+      path: ['targetAllocations'],
+    });
+  }
+  const total = Object.values(data.targetAllocations ?? {}).reduce((sum, percent) => sum + percent, 0);
+  if (total > 100.01) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Target allocations cannot add up to more than 100%',
+      path: ['targetAllocations'],
+    });
+  }
+  if (data.minTradeSize !== undefined && data.maxTradeSize !== undefined && data.minTradeSize > data.maxTradeSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Minimum trade size cannot exceed the maximum trade size',
+      path: ['minTradeSize'],
+    });
+  }
+});
+
+export const rebalancePreviewQuerySchema = z.object({
+  maxTradeSize: z.coerce.number().positive().optional(),
+  minTradeSize: z.coerce.number().positive().optional(),
 });
 
 export const portfolioQuerySchema = z.object({
@@ -121,9 +179,32 @@ export interface Transaction {
   currency: string;
   executedAt: Date;
   notes?: string;
+  realizedPnl?: number; // Sells only, under the portfolio's cost basis method
   createdAt: Date;
 }
 
+export interface CostBasisLot {
+  quantity: number;
+  unitCost: number; // Purchase price plus the buy fee spread over the lot
+  acquiredAt: Date;
+}
+
+export interface LedgerHolding {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  totalCost: number;
+  realizedPnl: number;
+  lots: CostBasisLot[];
+}
+
+export interface PortfolioLedger {
+  costBasisMethod: CostBasisMethod;
+  cashBalance: number;
+  realizedPnl: number;
+  holdings: LedgerHolding[];
+}
+
 export interface PortfolioMetrics {
   totalValue: number;
   totalCost: number;
@@ -157,14 +238,29 @@ export interface AssetAllocation {
 }
 
 export interface RebalanceRecommendation {
-  assetId: string;
+  assetId: string | null; // null when the target names a symbol the portfolio does not hold yet
   symbol: string;
   currentAllocation: number;
   targetAllocation: number;
+  drift: number;
   action: 'BUY' | 'SELL' | 'HOLD';
   quantity: number;
   estimatedPrice: number;
   estimatedCost: number;
+  reason?: string;
+}
+
+export interface RebalancePlan {
+  portfolioId: string;
+  strategy: AllocationStrategy;
+  totalValue: number;
+  cashBalance: number;
+  targetAllocations: Record<string, number>;
+  maxDrift: number;
+  recommendations: RebalanceRecommendation[];
+  applied: boolean;
+  executed: Transaction[];
+  failed: Array<{ symbol: string; error: string }>;
 }
 
 export interface PortfolioSnapshot {
@@ -193,4 +289,6 @@ export type AddAssetInput = z.infer<typeof addAssetSchema>;
 export type RecordTransactionInput = z.infer<typeof recordTransactionSchema>;
 export type UpdatePortfolioInput = z.infer<typeof updatePortfolioSchema>;
 export type RebalancePortfolioInput = z.infer<typeof rebalancePortfolioSchema>;
-export type PortfolioQuery = z.infer<typeof portfolioQuerySchema>;
\ No newline at end of file
+export type RebalancePreviewQuery = z.infer<typeof rebalancePreviewQuerySchema>;
+export type PortfolioQuery = z.infer<typeof portfolioQuerySchema>;
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
\ No newline at end of file
@@ -4,11 +4,46 @@ export const RISK_ANALYTICS_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'EXTREME'] as con
 export const RISK_METRICS = ['VAR', 'CVAR', 'SHARPE', 'SORTINO', 'BETA', 'ALPHA', 'DRAWDOWN'] as const;
 export const TIME_HORIZONS = ['1D', '1W', '1M', '3M', '6M', '1Y'] as const;
 export const CONFIDENCE_LEVELS = [0.90, 0.95, 0.99] as const;
+export const VAR_METHODS = ['HISTORICAL', 'PARAMETRIC', 'MONTE_CARLO'] as const;
+export const RETURN_DISTRIBUTIONS = ['NORMAL', 'STUDENT_T'] as const;
+export const RISK_REPORT_FORMATS = ['JSON', 'PDF', 'CSV'] as const;
+export const DEFAULT_BENCHMARK_SYMBOL = 'SPY';
+// Mirrors the database AssetType enum, which stress scenarios shock individually
+export const SCENARIO_ASSET_TYPES = [
+  'STOCK',
+  'OPTION',
+  'FUTURE',
+  'COMMODITY_METALS',
+  'COMMODITY_LIVESTOCK',
+  'COMMODITY_ENERGY',
+  'COMMODITY_AGRICULTURE',
+  'REAL_ESTATE',
+  'LAND',
+  'BUSINESS',
+  'CRYPTO',
+  'BOND',
+  'ETF',
+  'FOREX',
+  'INDEX'
+] as const;
+export const RISK_LIMIT_TYPES = [
+  'maxDrawdown',
+  'maxVaR',
+  'maxVolatility',
+  'minSharpeRatio',
+  'maxConcentration',
+  'maxLeverage'
+] as const;
 
 export type RiskAnalyticsLevel = typeof RISK_ANALYTICS_LEVELS[number];
 export type RiskMetric = typeof RISK_METRICS[number];
 export type TimeHorizon = typeof TIME_HORIZONS[number];
 export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
+export type RiskLimitType = typeof RISK_LIMIT_TYPES[number];
+export type RiskReportFormat = typeof RISK_REPORT_FORMATS[number];
+export type VaRMethod = typeof VAR_METHODS[number];
+export type ReturnDistribution = typeof RETURN_DISTRIBUTIONS[number];
+export type ScenarioAssetType = typeof SCENARIO_ASSET_TYPES[number];
 
 export const calculateRiskSchema = z.object({
   portfolioId: z.string().min(1), // Changed from .cuid() to accept any non-empty string
@@ -16,36 +51,81 @@ export const calculateRiskSchema = z.object({
   confidenceLevel: z.number().min(0.9).max(0.99).default(0.95),
   includeCorrelations: z.boolean().default(true),
   stressTestScenarios: z.array(z.string()).optional(),
+  method: z.enum(VAR_METHODS).optional(), // Defaults to HISTORICAL
+  simulations: z.number().int().min(1000).max(100000).optional(), // Monte Carlo only
+  distribution: z.enum(RETURN_DISTRIBUTIONS).optional(), // Monte Carlo only
+  degreesOfFreedom: z.number().int().min(3).max(30).optional(), // Student-t only
 });
 
 export const riskLimitsSchema = z.object({
   portfolioId: z.string().min(1), // Changed from .cuid() to accept any non-empty string
-  maxDrawdown: z.number().positive().max(100),
+  maxDrawdown: z.number().positive().max(100), // Percent
   maxVaR: z.number().positive(),
   maxLeverage: z.number().positive().default(1),
-  maxConcentration: z.number().positive().max(100),
-  maxVolatility: z.number().positive(),
+  maxConcentration: z.number().positive().max(100), // Percent of portfolio value in one asset
+  maxVolatility: z.number().positive(), // Annualized, percent
   minSharpeRatio: z.number(),
+  active: z.boolean().default(true),
 });
 
+export const riskBreachQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(['OPEN', 'RESOLVED', 'ALL']).default('ALL'),
+});
+
+export const correlationMatrixQuerySchema = z.object({
+  days: z.coerce.number().int().min(30).max(365).default(90), // Days of price history
+});
+
+export const benchmarkQuerySchema = z.object({
+  days: z.coerce.number().int().min(30).max(730).default(365), // Days of history to compare
+});
+
+export const setBenchmarkSchema = z.object({
+  symbol: z.string().trim().min(1).max(20)
+    .regex(/^[A-Za-z0-9.^-]+$/, 'Invalid benchmark symbol')
+    .transform(symbol => symbol.toUpperCase()),
+});
+
+export const varBacktestQuerySchema = z.object({
+  days: z.coerce.number().int().min(30).max(730).default(250), // Days of stored forecasts to test
+  confidenceLevel: z.coerce.number().min(0.9).max(0.99).default(0.95),
+  timeHorizon: z.enum(TIME_HORIZONS).optional(),
+});
+
+const stressScenarioFields = {
+  name: z.string().min(1).max(100),
+  marketChange: z.number().min(-100).max(100), // Percent, for asset types without their own shock
+  volatilityMultiplier: z.number().positive(),
+  correlationShock: z.number().min(-1).max(1),
+  duration: z.enum(TIME_HORIZONS),
+  assetShocks: z.record(z.enum(SCENARIO_ASSET_TYPES), z.number().min(-100).max(1000)).optional(), // Percent
+};
+
 export const stressTestSchema = z.object({
   portfolioId: z.string().min(1), // Changed from .cuid() to accept any non-empty string
-  scenarios: z.array(z.object({
-    name: z.string(),
-    marketChange: z.number().min(-100).max(100),
-    volatilityMultiplier: z.number().positive(),
-    correlationShock: z.number().min(-1).max(1),
-    duration: z.enum(TIME_HORIZONS),
-  })),
+  scenarios: z.array(z.object(stressScenarioFields)),
+  scenarioIds: z.array(z.string().min(1)).max(20).optional(), // Built-in or saved scenarios
+}).refine(data => data.scenarios.length > 0 || (data.scenarioIds?.length ?? 0) > 0, {
+  message: 'At least one scenario is required',
+  path: ['scenarios'],
 });
 
+export const createStressScenarioSchema = z.object({
+  ...stressScenarioFields,
+  description: z.string().max(500).optional(),
+});
+
+export const updateStressScenarioSchema = createStressScenarioSchema.partial();
+
 export const riskReportSchema = z.object({
   portfolioId: z.string().min(1), // Changed from .cuid() to accept any non-empty string
   reportType: z.enum(['SUMMARY', 'DETAILED', 'REGULATORY']),
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
   includeCharts: z.boolean().default(true),
-  format: z.enum(['JSON', 'PDF', 'CSV']).default('JSON'),
+  format: z.enum(RISK_REPORT_FORMATS).default('JSON'),
 });
 
 export interface RiskMetrics {
@@ -57,6 +137,8 @@ export interface RiskMetrics {
   valueAtRisk: number;
   conditionalVaR: number;
   expectedShortfall: number;
+  varMethod: VaRMethod;
+  varContributions?: VaRContribution[];
 
   volatility: number;
   annualizedVolatility: number;
@@ -80,11 +162,22 @@ export interface RiskMetrics {
   correlation: Record<string, number>;
   covariance: Record<string, number>;
   trackingError: number;
+  benchmarkSymbol?: string; // Absent when there was too little history to compare
+  upCaptureRatio: number;
+  downCaptureRatio: number;
 
   riskLevel: RiskAnalyticsLevel;
   riskScore: number;
 }
 
+// How much of a portfolio's VaR (parametric) or simulated tail loss (Monte Carlo) one asset accounts for
+export interface VaRContribution {
+  symbol: string;
+  exposure: number;
+  contribution: number;
+  percentage: number;
+}
+
 export interface PositionRisk {
   assetId: string;
   symbol: string;
@@ -122,7 +215,10 @@ export interface RiskLimits {
 }
 
 export interface RiskLimitBreach {
-  limitType: string;
+  id: string;
+  portfolioId: string;
+  limitType: RiskLimitType;
+  message: string;
   currentValue: number;
   limitValue: number;
   breachAmount: number;
@@ -132,7 +228,22 @@ export interface RiskLimitBreach {
   resolvedAt?: Date;
 }
 
+export interface StressScenario {
+  id: string;
+  name: string;
+  description?: string;
+  marketChange: number;
+  volatilityMultiplier: number;
+  correlationShock: number;
+  duration: TimeHorizon;
+  assetShocks: Partial<Record<ScenarioAssetType, number>>;
+  builtIn: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
 export interface StressTestResult {
+  scenarioId?: string;
   scenarioName: string;
   portfolioValue: number;
   portfolioLoss: number;
@@ -140,6 +251,8 @@ export interface StressTestResult {
 
   assetImpacts: Array<{
     symbol: string;
+    assetType: string;
+    shock: number; // Percent applied to this asset
     currentValue: number;
     stressedValue: number;
     loss: number;
@@ -153,13 +266,15 @@ export interface StressTestResult {
     maxDrawdown: number;
   };
 
-  probability: number;
+  probability: number; // Model-implied chance of a loss this large over the scenario duration
   severity: RiskAnalyticsLevel;
 }
 
 export interface CorrelationMatrix {
   assets: string[];
   matrix: number[][];
+  covariance: number[][]; // Of daily returns, in the order of assets
+  observations: number; // Daily returns the matrices were estimated from
   significantCorrelations: Array<{
     asset1: string;
     asset2: string;
@@ -173,6 +288,59 @@ export interface CorrelationMatrix {
   }>;
 }
 
+// Daily returns of a portfolio measured against its benchmark's; ratios are annualized
+export interface BenchmarkStatistics {
+  benchmarkSymbol: string;
+  observations: number;
+  beta: number;
+  alpha: number; // Jensen's alpha
+  correlation: number;
+  trackingError: number;
+  informationRatio: number;
+  upCaptureRatio: number; // Percent of the benchmark's gains captured on its up days
+  downCaptureRatio: number; // Percent of the benchmark's losses taken on its down days
+}
+
+export interface BenchmarkComparison extends BenchmarkStatistics {
+  portfolioId: string;
+  // Cumulative returns in percent since the first common date
+  series: Array<{ date: string; portfolio: number; benchmark: number }>;
+}
+
+// A likelihood-ratio test against the chi-square distribution, passed at the 5% level
+export interface HypothesisTest {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  passed: boolean;
+}
+
+export interface VaRBacktestObservation {
+  forecastAt: Date;
+  realizedAt: Date;
+  timeHorizon: TimeHorizon; // Lookback window the forecast was estimated over
+  valueAtRisk: number;
+  profitLoss: number; // Realized change in portfolio value over the day after the forecast
+  violation: boolean;
+}
+
+export interface VaRBacktest {
+  portfolioId: string;
+  confidenceLevel: number;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  observations: number;
+  violations: number;
+  expectedViolations: number;
+  violationRate: number;
+  kupiecTest: HypothesisTest; // Proportion of failures: is the violation rate right?
+  christoffersenTest: HypothesisTest; // Independence: do violations cluster?
+  conditionalCoverageTest: HypothesisTest; // Both at once
+  history: VaRBacktestObservation[];
+}
+
 export interface RiskReport {
   id: string;
   portfolioId: string;
@@ -199,11 +367,9 @@ export interface RiskReport {
     worstDay: { date: Date; loss: number };
     bestDay: { date: Date; gain: number };
     volatilityTrend: Array<{ date: Date; volatility: number }>;
-    varBacktest: {
-      violations: number;
-      expectedViolations: number;
-      kupiecTest: { statistic: number; pValue: number; passed: boolean };
-    };
+    valueAtRiskTrend: Array<{ date: Date; valueAtRisk: number }>;
+    drawdownTrend: Array<{ date: Date; drawdown: number }>; // Percent below the running peak
+    varBacktest: VaRBacktest | null; // Regulatory reports only
   };
 
   riskAttribution: {
@@ -260,6 +426,9 @@ export interface MonteCarloSimulation {
       minValue: number;
       path: number[];
     }>;
+
+    // Average loss of each asset across the worst 5% of outcomes
+    tailContributions: VaRContribution[];
   };
 }
 
@@ -294,5 +463,13 @@ export interface LiquidityRisk {
 
 export type CalculateRiskInput = z.infer<typeof calculateRiskSchema>;
 export type RiskLimitsInput = z.infer<typeof riskLimitsSchema>;
+export type RiskBreachQuery = z.infer<typeof riskBreachQuerySchema>;
+export type CorrelationMatrixQuery = z.infer<typeof correlationMatrixQuerySchema>;
+export type VaRBacktestQuery = z.infer<typeof varBacktestQuerySchema>;
+export type BenchmarkQuery = z.infer<typeof benchmarkQuerySchema>;
+export type SetBenchmarkInput = z.infer<typeof setBenchmarkSchema>;
 export type StressTestInput = z.infer<typeof stressTestSchema>;
+export type StressScenarioInput = StressTestInput['scenarios'][number];
+export type CreateStressScenarioInput = z.infer<typeof createStressScenarioSchema>;
+export type UpdateStressScenarioInput = z.infer<typeof updateStressScenarioSchema>;
 export type RiskReportInput = z.infer<typeof riskReportSchema>;
\ No newline at end of file
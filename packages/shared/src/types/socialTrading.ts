@@ -0,0 +1,334 @@
+import { z } from 'zod';
+
+// Social post types (lowercase on the wire, mapped to the database enum by the API)
+export const SOCIAL_POST_TYPES = [
+  'trade_opened',
+  'trade_closed',
+  'market_insight',
+  'strategy_update',
+  'achievement',
+] as const;
+
+export type SocialPostType = (typeof SOCIAL_POST_TYPES)[number];
+
+export const TRADE_SIDES = ['buy', 'sell'] as const;
+export type TradeSide = (typeof TRADE_SIDES)[number];
+
+export const FOLLOW_STATUSES = ['active', 'paused'] as const;
+export type FollowStatus = (typeof FOLLOW_STATUSES)[number];
+
+export const TRADER_SORT_FIELDS = ['performance', 'followers', 'winRate', 'volume'] as const;
+export type TraderSortField = (typeof TRADER_SORT_FIELDS)[number];
+
+export const TRADER_TIMEFRAMES = ['1d', '7d', '30d', '90d', '1y'] as const;
+export type TraderTimeframe = (typeof TRADER_TIMEFRAMES)[number];
+
+export const SOCIAL_FEED_FILTERS = ['all', 'following', 'trades', 'insights'] as const;
+export type SocialFeedFilter = (typeof SOCIAL_FEED_FILTERS)[number];
+
+// Copy Settings Schema
+export const copySettingsSchema = z
+  .object({
+    allocation: z
+      .number()
+      .gt(0, 'Allocation must be between 0 and 1 (0% to 100%)')
+      .max(1, 'Allocation must be between 0 and 1 (0% to 100%)'),
+    maxRiskPerTrade: z
+      .number()
+      .gt(0, 'Max risk per trade must be between 0 and 0.1 (0% to 10%)')
+      .max(0.1, 'Max risk per trade must be between 0 and 0.1 (0% to 10%)'),
+    stopLoss: z
+      .number()
+      .gt(0, 'Stop loss must be between 0 and 0.3 (0% to 30%)')
+      .max(0.3, 'Stop loss must be between 0 and 0.3 (0% to 30%)')
+      .optional(),
+    takeProfit: z.number().positive('Take profit must be positive').optional(),
+    followOnlyProfitableTrades: z.boolean().optional(),
+    minTradeAmount: z.number().nonnegative('Minimum trade amount must be non-negative').optional(),
+    maxTradeAmount: z.number().positive('Maximum trade amount must be positive').optional(),
+    excludeSymbols: z.array(z.string().max(20)).optional(),
+    onlySymbols: z.array(z.string().max(20)).optional(),
+    maxOpenPositions: z.number().int().min(1).optional(),
+    tradingHours: z
+      .object({
+        start: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+        end: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+        timezone: z.string(),
+      })
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.takeProfit === undefined || data.stopLoss === undefined || data.takeProfit > data.stopLoss,
+    { message: 'Take profit must be greater than stop loss', path: ['takeProfit'] }
+  )
+  .refine(
+    (data) =>
+      data.minTradeAmount === undefined ||
+      data.maxTradeAmount === undefined ||
+      data.minTradeAmount < data.maxTradeAmount,
+    {
+      message: 'Minimum trade amount must be less than maximum trade amount',
+      path: ['minTradeAmount'],
+    }
+  );
+
+// Follow Trader Schema
+export const followTraderSchema = z.object({
+  traderId: z.string().min(1, 'Trader ID is required'),
+  settings: copySettingsSchema.optional(),
+});
+
+// Top Traders Query Schema
+export const topTradersQuerySchema = z.object({
+  sortBy: z.enum(TRADER_SORT_FIELDS).default('performance'),
+  timeframe: z.enum(TRADER_TIMEFRAMES).default('30d'),
+  limit: z.number().int().min(1).max(100).default(20),
+  filters: z
+    .object({
+      minRoi: z.number().optional(),
+      minWinRate: z.number().min(0).max(100).optional(),
+      minFollowers: z.number().int().min(0).optional(),
+      category: z.string().optional(),
+    })
+    .optional(),
+});
+
+// Social Feed Query Schema
+export const socialFeedQuerySchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+  filter: z.enum(SOCIAL_FEED_FILTERS).default('all'),
+});
+
+// Create Post Schema
+export const createSocialPostSchema = z
+  .object({
+    type: z.enum(SOCIAL_POST_TYPES),
+    symbol: z
+      .string()
+      .max(20, 'Symbol must not exceed 20 characters')
+      .regex(/^[A-Z0-9]+$/, 'Symbol must contain only uppercase letters and numbers')
+      .optional(),
+    side: z.enum(TRADE_SIDES).optional(),
+    quantity: z.number().positive('Quantity must be positive').optional(),
+    price: z.number().positive('Price must be positive').optional(),
+    pnl: z.number().optional(),
+    comment: z.string().max(2000, 'Post must not exceed 2000 characters').optional(),
+    tags: z.array(z.string().max(30)).max(10, 'A post can have at most 10 tags').optional(),
+  })
+  .refine((data) => Boolean(data.comment?.trim()) || Boolean(data.symbol), {
+    message: 'A post needs either text or a trade',
+    path: ['comment'],
+  });
+
+// Create Comment Schema
+export const createPostCommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(1000, 'Comment must not exceed 1000 characters'),
+});
+
+// Rate Trader Schema
+const ratingScore = z.number().int().min(1, 'Ratings range from 1 to 5').max(5, 'Ratings range from 1 to 5');
+
+export const rateTraderSchema = z.object({
+  overall: ratingScore,
+  performance: ratingScore,
+  riskManagement: ratingScore,
+  communication: ratingScore,
+  comment: z.string().max(1000, 'Review must not exceed 1000 characters').optional(),
+});
+
+// Type inference from schemas
+export type CopySettings = z.infer<typeof copySettingsSchema>;
+export type FollowTraderInput = z.infer<typeof followTraderSchema>;
+export type TopTradersQuery = z.infer<typeof topTradersQuerySchema>;
+export type SocialFeedQuery = z.infer<typeof socialFeedQuerySchema>;
+export type CreateSocialPostInput = z.infer<typeof createSocialPostSchema>;
+export type CreatePostCommentInput = z.infer<typeof createPostCommentSchema>;
+export type RateTraderInput = z.infer<typeof rateTraderSchema>;
+
+export const DEFAULT_COPY_SETTINGS: CopySettings = {
+  allocation: 0.1,
+  maxRiskPerTrade: 0.02,
+  stopLoss: 0.05,
+  takeProfit: 0.1,
+  followOnlyProfitableTrades: false,
+  minTradeAmount: 10,
+  maxTradeAmount: 10000,
+  maxOpenPositions: 5,
+};
+
+// Trader profile built from UserStats and closed paper positions
+export interface TraderProfile {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string | null;
+  verified: boolean;
+  bio: string | null;
+  specialties: string[];
+  tradingStyle: string | null;
+  followerCount: number;
+  followingCount: number;
+  joinDate: Date;
+  isFollowing: boolean;
+  performance: {
+    roi: number;
+    winRate: number;
+    totalTrades: number;
+    totalPnl: number;
+    averageHoldTime: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    profitFactor: number;
+    monthlyReturns: number[];
+  };
+  statistics: {
+    totalVolume: number;
+    profitableDays: number;
+    totalDays: number;
+    averageTradeSize: number;
+    riskScore: number;
+    consistency: number;
+  };
+  rating: {
+    average: number;
+    count: number;
+  };
+  ranking?: {
+    overall: number;
+    category: TraderSortField;
+    percentile: number;
+  };
+}
+
+export interface TraderTrade {
+  id: string;
+  traderId: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  timestamp: Date;
+  status: 'open' | 'closed' | 'cancelled';
+  pnl: number | null;
+}
+
+export interface TraderDetails extends TraderProfile {
+  recentTrades: TraderTrade[];
+}
+
+export interface TraderSummary {
+  id: string;
+  username: string;
+  avatar: string | null;
+  followedAt: Date;
+}
+
+export interface FollowedTrader {
+  traderId: string;
+  trader: TraderProfile;
+  settings: CopySettings;
+  followedDate: Date;
+  status: FollowStatus;
+}
+
+export interface SocialPostWithDetails {
+  id: string;
+  userId: string;
+  user: {
+    username: string;
+    displayName: string;
+    avatar: string | null;
+    verified: boolean;
+  };
+  type: SocialPostType;
+  content: {
+    text: string | null;
+    trade?: {
+      symbol: string;
+      side: TradeSide | null;
+      quantity: number | null;
+      price: number | null;
+      pnl: number | null;
+    };
+  };
+  timestamp: Date;
+  likes: number;
+  comments: number;
+  shares: number;
+  liked: boolean;
+  tags: string[];
+}
+
+export interface PostCommentWithDetails {
+  id: string;
+  postId: string;
+  userId: string;
+  content: string;
+  timestamp: Date;
+  user: {
+    username: string;
+    avatar: string | null;
+  };
+}
+
+export interface TraderRatingWithDetails {
+  id: string;
+  traderId: string;
+  reviewerId: string;
+  reviewer: {
+    username: string;
+    avatar: string | null;
+  };
+  overall: number;
+  performance: number;
+  riskManagement: number;
+  communication: number;
+  comment: string | null;
+  timestamp: Date;
+}
+
+export interface TraderRatingSummary {
+  averageRating: number;
+  totalRatings: number;
+  reviews: TraderRatingWithDetails[];
+  breakdown: {
+    performance: number;
+    riskManagement: number;
+    communication: number;
+  };
+}
+
+// Copy trading
+export interface CopyTradeOutcome {
+  leaderPositionId: string;
+  copied: number;
+  skipped: Array<{
+    followerId: string;
+    reason: string;
+  }>;
+}
+
+export interface TraderCopyPerformance {
+  traderId: string;
+  traderName: string;
+  return: number;
+  pnl: number;
+  trades: number;
+  openTrades: number;
+  winRate: number;
+}
+
+export interface CopyTradingPerformance {
+  totalReturn: number;
+  totalPnl: number;
+  totalTrades: number;
+  openTrades: number;
+  winRate: number;
+  traderPerformance: TraderCopyPerformance[];
+}
@@ -17,6 +17,46 @@ export type TradeStatus = (typeof TRADE_STATUSES)[number];
 export const POSITION_STATUSES = ['OPEN', 'CLOSED', 'STOPPED'] as const;
 export type PositionStatus = (typeof POSITION_STATUSES)[number];
 
+// Order Side, Type, Status and Time in Force
+export const ORDER_SIDES = ['BUY', 'SELL'] as const;
+export type OrderSide = (typeof ORDER_SIDES)[number];
+
+export const ORDER_TYPES = ['MARKET', 'LIMIT', 'STOP_LOSS', 'STOP_LIMIT'] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+export const ORDER_STATUSES = ['PENDING', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const TIME_IN_FORCE = ['DAY', 'GTC'] as const;
+export type TimeInForce = (typeof TIME_IN_FORCE)[number];
+
+// Automatic executions recorded in the execution log
+export const EXECUTION_TYPES = ['STOP_LOSS', 'TAKE_PROFIT', 'IDEA_AUTO_CLOSE', 'ALERT_TRIGGER'] as const;
+export type ExecutionType = (typeof EXECUTION_TYPES)[number];
+
+export const EXECUTION_STATUSES = ['SUCCESS', 'FAILED'] as const;
+export type ExecutionStatus = (typeof EXECUTION_STATUSES)[number];
+
+// Alert Conditions and Status. Price conditions compare against `targetPrice`; percent change
+// (from the previous close) and volume conditions compare against `threshold`.
+export const PRICE_ALERT_CONDITIONS = ['ABOVE', 'BELOW', 'CROSSES_ABOVE', 'CROSSES_BELOW'] as const;
+export const ALERT_CONDITIONS = [
+  ...PRICE_ALERT_CONDITIONS,
+  'PERCENT_CHANGE_ABOVE',
+  'PERCENT_CHANGE_BELOW',
+  'VOLUME_ABOVE',
+] as const;
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+export const ALERT_STATUSES = ['ACTIVE', 'TRIGGERED', 'CANCELLED'] as const;
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+// Active alerts a user may have at once
+export const MAX_ACTIVE_ALERTS_PER_USER = 50;
+
+export const isPriceAlertCondition = (condition: AlertCondition): boolean =>
+  (PRICE_ALERT_CONDITIONS as readonly string[]).includes(condition);
+
 // Trade Idea Creation Schema
 export const createTradeIdeaSchema = z.object({
   groupId: z.string().cuid('Invalid group ID'),
@@ -78,6 +118,8 @@ export const createPaperPositionSchema = z.object({
   entryPrice: z.number().positive('Entry price must be positive'),
   stopLoss: z.number().positive('Stop loss must be positive').optional(),
   takeProfit: z.number().positive('Take profit must be positive').optional(),
+  // Opens the position in the user's account for this competition instead of their own
+  competitionId: z.string().cuid('Invalid competition ID').optional(),
 });
 
 // Position Update Schema
@@ -91,15 +133,92 @@ export const updatePositionSchema = z.object({
 });
 
 // Alert Creation Schema
-export const createAlertSchema = z.object({
-  symbol: z
-    .string()
-    .min(1, 'Symbol is required')
-    .max(20, 'Symbol must not exceed 20 characters')
-    .regex(/^[A-Z0-9]+$/, 'Symbol must contain only uppercase letters and numbers'),
-  condition: z.enum(['ABOVE', 'BELOW', 'CROSSES_ABOVE', 'CROSSES_BELOW']),
-  targetPrice: z.number().positive('Target price must be positive'),
-  message: z.string().max(200, 'Message must not exceed 200 characters').optional(),
+export const createAlertSchema = z
+  .object({
+    symbol: z
+      .string()
+      .min(1, 'Symbol is required')
+      .max(20, 'Symbol must not exceed 20 characters')
+      .regex(/^[A-Z0-9]+$/, 'Symbol must contain only uppercase letters and numbers'),
+    condition: z.enum(ALERT_CONDITIONS),
+    targetPrice: z.number().positive('Target price must be positive').optional(),
+    threshold: z.number().refine((value) => value !== 0, 'Threshold must not be zero').optional(),
+    message: z.string().max(200, 'Message must not exceed 200 characters').optional(),
+  })
+  .refine((data) => !isPriceAlertCondition(data.condition) || data.targetPrice !== undefined, {
+    message: 'Target price is required for price alerts',
+    path: ['targetPrice'],
+  })
+  .refine((data) => isPriceAlertCondition(data.condition) || data.threshold !== undefined, {
+    message: 'Threshold is required for percent change and volume alerts',
+    path: ['threshold'],
+  })
+  .refine((data) => data.condition !== 'VOLUME_ABOVE' || (data.threshold ?? 0) > 0, {
+    message: 'Volume threshold must be positive',
+    path: ['threshold'],
+  });
+
+// Alert Update Schema; the condition is fixed once an alert is created
+export const updateAlertSchema = z
+  .object({
+    targetPrice: z.number().positive('Target price must be positive').optional(),
+    threshold: z.number().refine((value) => value !== 0, 'Threshold must not be zero').optional(),
+    message: z.string().max(200, 'Message must not exceed 200 characters').nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+// Alerts Query Schema
+export const getAlertsQuerySchema = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  symbol: z.string().max(20).optional(),
+});
+
+// Order Placement Schema
+export const createOrderSchema = z
+  .object({
+    groupId: z.string().cuid('Invalid group ID'),
+    symbol: z
+      .string()
+      .min(1, 'Symbol is required')
+      .max(20, 'Symbol must not exceed 20 characters')
+      .regex(/^[A-Z0-9]+$/, 'Symbol must contain only uppercase letters and numbers'),
+    assetType: z.enum(ASSET_TYPES).default('STOCK'),
+    side: z.enum(ORDER_SIDES),
+    type: z.enum(ORDER_TYPES),
+    quantity: z.number().positive('Quantity must be positive'),
+    price: z.number().positive('Limit price must be positive').optional(),
+    stopPrice: z.number().positive('Stop price must be positive').optional(),
+    timeInForce: z.enum(TIME_IN_FORCE).default('DAY'),
+    stopLoss: z.number().positive('Stop loss must be positive').optional(),
+    takeProfit: z.number().positive('Take profit must be positive').optional(),
+  })
+  .refine((data) => !['LIMIT', 'STOP_LIMIT'].includes(data.type) || data.price !== undefined, {
+    message: 'Limit price is required for limit orders',
+    path: ['price'],
+  })
+  .refine((data) => !['STOP_LOSS', 'STOP_LIMIT'].includes(data.type) || data.stopPrice !== undefined, {
+    message: 'Stop price is required for stop orders',
+    path: ['stopPrice'],
+  });
+
+// Orders Query Schema
+export const getOrdersQuerySchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  symbol: z.string().max(20).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Execution Log Query Schema
+export const getExecutionLogQuerySchema = z.object({
+  type: z.enum(EXECUTION_TYPES).optional(),
+  status: z.enum(EXECUTION_STATUSES).optional(),
+  symbol: z.string().max(20).optional(),
+  days: z.coerce.number().int().min(1).max(365).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
 // Type inference from schemas
@@ -109,6 +228,11 @@ export type GetTradeIdeasQuery = z.infer<typeof getTradeIdeasQuerySchema>;
 export type CreatePaperPositionInput = z.infer<typeof createPaperPositionSchema>;
 export type UpdatePositionInput = z.infer<typeof updatePositionSchema>;
 export type CreateAlertInput = z.infer<typeof createAlertSchema>;
+export type UpdateAlertInput = z.infer<typeof updateAlertSchema>;
+export type GetAlertsQuery = z.infer<typeof getAlertsQuerySchema>;
+export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type GetOrdersQuery = z.infer<typeof getOrdersQuerySchema>;
+export type GetExecutionLogQuery = z.infer<typeof getExecutionLogQuerySchema>;
 
 // Enhanced types with relations
 export interface TradeIdeaWithDetails {
@@ -179,6 +303,53 @@ export interface PaperPositionWithDetails {
     symbol: string;
     direction: TradeDirection;
   } | null;
+  copiedFromPositionId?: string | null;
+  competitionEntryId?: string | null;
+}
+
+export interface OrderWithDetails {
+  id: string;
+  userId: string;
+  groupId: string;
+  positionId: string | null;
+  symbol: string;
+  assetType: AssetType;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  filledQuantity: number;
+  price: number | null;
+  stopPrice: number | null;
+  filledPrice: number | null;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  cancelReason: string | null;
+  triggeredAt: Date | null;
+  expiresAt: Date | null;
+  filledAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExecutionLogEntry {
+  id: string;
+  userId: string;
+  type: ExecutionType;
+  status: ExecutionStatus;
+  symbol: string;
+  referenceId: string;
+  triggerPrice: number | null;
+  marketPrice: number;
+  executionPrice: number | null;
+  slippage: number | null;
+  latencyMs: number;
+  pnl: number | null;
+  reason: string;
+  error: string | null;
+  createdAt: Date;
 }
 
 // Performance stats interface
@@ -218,10 +389,11 @@ export interface AlertWithDetails {
   id: string;
   userId: string;
   symbol: string;
-  condition: 'ABOVE' | 'BELOW' | 'CROSSES_ABOVE' | 'CROSSES_BELOW';
-  targetPrice: number;
+  condition: AlertCondition;
+  targetPrice: number | null;
+  threshold: number | null;
   message: string | null;
-  status: 'ACTIVE' | 'TRIGGERED' | 'CANCELLED';
+  status: AlertStatus;
   triggeredAt: Date | null;
   createdAt: Date;
   user: {
@@ -231,6 +403,15 @@ export interface AlertWithDetails {
   };
 }
 
+// Pushed to the owner's socket as `alert:triggered`
+export interface AlertTriggeredEvent {
+  alert: AlertWithDetails;
+  price: number;
+  changePercent: number;
+  volume: number;
+  triggeredAt: Date;
+}
+
 // Market Data Types
 export interface MarketQuote {
   symbol: string;
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { isInternalHostname } from '../utils/validation';
+
+export const WEBHOOK_EVENTS = [
+  'position.closed',
+  'trade_idea.created',
+  'alert.triggered',
+  'competition.completed',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent only by the test-fire endpoint, whatever the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['PENDING', 'SUCCEEDED', 'FAILED'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+/**
+ * Webhooks may only target loopback and private hosts when `WEBHOOK_ALLOW_PRIVATE_HOSTS=true`
+ * outside production, for a local endpoint during development and tests.
+ */
+export function allowsPrivateWebhookHosts(): boolean {
+  if (typeof process === 'undefined') return false;
+  return process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'] === 'true' && process.env['NODE_ENV'] !== 'production';
+}
+
+const webhookUrlSchema = z
+  .string()
+  .url('Invalid URL')
+  .max(2048, 'URL too long')
+  .refine(url => /^https?:\/\//i.test(url), 'URL must use http or https')
+  .refine(url => {
+    if (allowsPrivateWebhookHosts()) return true;
+    try {
+      return !isInternalHostname(new URL(url).hostname);
+    } catch {
+      return true; // Reported by the URL check
+    }
+  }, 'URL must point to a public host');
+
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, 'Subscribe to at least one event')
+  .transform(events => [...new Set(events)]);
+
+// Create Webhook Schema; a secret is generated when none is given
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  groupId: z.string().optional(),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').max(128, 'Secret too long').optional(),
+  description: z.string().max(200, 'Description too long').optional(),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  description: z.string().max(200, 'Description too long').optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const getWebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type GetWebhookDeliveriesQuery = z.infer<typeof getWebhookDeliveriesQuerySchema>;
+
+// The secret is left out of every read; it is only returned once, on creation
+export interface Webhook {
+  id: string;
+  userId: string;
+  groupId: string | null;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Body POSTed to the endpoint. It is signed as `sha256=HMAC(secret, "<timestamp>.<body>")` in
+ * `X-Webhook-Signature`, with the timestamp in `X-Webhook-Timestamp`.
+ */
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,49 @@
+import type { LevelProgress } from '../types/gamification';
+
+// Cumulative XP needed to reach levels 1-11; beyond that reaching level n costs (n - 1)^2 * 100 more
+const LEVEL_THRESHOLDS = [0, 0, 500, 1500, 3000, 5000, 7500, 11000, 15000, 20000, 26000, 40500];
+
+/**
+ * Get the total XP required to reach a level
+ */
+export function getXPRequiredForLevel(level: number): number {
+  if (level <= 1) return 0;
+  if (level < LEVEL_THRESHOLDS.length) return LEVEL_THRESHOLDS[level]!;
+
+  let xpNeeded = LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1]!;
+  for (let i = LEVEL_THRESHOLDS.length - 1; i < level; i++) {
+    xpNeeded += i * i * 100;
+  }
+  return xpNeeded;
+}
+
+/**
+ * Calculate the level reached with a total amount of XP
+ */
+export function calculateLevel(totalXP: number): number {
+  let level = 1;
+  while (getXPRequiredForLevel(level + 1) <= totalXP) {
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Describe progress from the current level towards the next one
+ */
+export function getLevelProgress(totalXP: number): LevelProgress {
+  const currentLevel = calculateLevel(totalXP);
+  const currentLevelXP = getXPRequiredForLevel(currentLevel);
+  const nextLevelXP = getXPRequiredForLevel(currentLevel + 1);
+  const xpInCurrentLevel = totalXP - currentLevelXP;
+  const xpNeededForLevel = nextLevelXP - currentLevelXP;
+
+  return {
+    currentLevel,
+    nextLevel: currentLevel + 1,
+    currentXP: xpInCurrentLevel,
+    xpToNextLevel: xpNeededForLevel - xpInCurrentLevel,
+    progressPercentage: Math.round((xpInCurrentLevel / xpNeededForLevel) * 10000) / 100,
+    totalXP,
+  };
+}
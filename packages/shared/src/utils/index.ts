@@ -3,3 +3,4 @@ export * from './validation';
 export * from './formatters';
 export * from './date';
 export * from './trading';
+export * from './gamification';
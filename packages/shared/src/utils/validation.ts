@@ -18,3 +18,91 @@ export function isStrongPassword(password: string): boolean {
 
   return hasLower && hasUpper && hasNumber && hasSpecial && isLongEnough;
 }
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// Eight 16-bit groups, with `::` expanded and a trailing dotted IPv4 part folded in
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const dotted = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[1]!);
+    if (!octets) return null;
+    text = `${text.slice(0, -dotted[1]!.length)}${((octets[0]! << 8) | octets[1]!).toString(16)}:${((octets[2]! << 8) | octets[3]!).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIPv4(octets: number[]): boolean {
+  const [a = 0, b = 0] = octets;
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b < 128) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+function toOctets(high: number, low: number): number[] {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff];
+}
+
+/**
+ * Whether an IP address is one a server should not be made to call: loopback, private,
+ * link-local, unique-local, multicast or unspecified. IPv6 addresses that embed an IPv4
+ * address are judged by it. Non-IP input returns false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const groups = parseIPv6(address.replace(/^\[|\]$/g, '').replace(/%.*$/, ''));
+  if (!groups) return false;
+
+  const first = groups[0]!;
+  const leadingZeros = groups.slice(0, 5).every(group => group === 0);
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+    if (groups[5] === 0 && groups[6] === 0) return true; // :: and ::1
+    return isPrivateIPv4(toOctets(groups[6]!, groups[7]!));
+  }
+  // NAT64 well-known prefix 64:ff9b::/96 translates to the IPv4 address in the last 32 bits
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(toOctets(groups[6]!, groups[7]!));
+  }
+  // 6to4 2002::/16 routes through the IPv4 address in the next 32 bits
+  if (first === 0x2002) {
+    return isPrivateIPv4(toOctets(groups[1]!, groups[2]!));
+  }
+  return (
+    (first === 0x64 && groups[1] === 0xff9b && groups[2] === 1) || // local-use NAT64 64:ff9b:1::/48
+    (first & 0xfe00) === 0xfc00 || // unique-local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Hostnames that name the local machine or a private address without a DNS lookup
+export function isInternalHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}